@@ -0,0 +1,133 @@
+/**
+ * studox service worker.
+ *
+ * - Keeps the app shell (index.html and the built assets) cached so studox
+ *   opens without a connection.
+ * - Keeps the last response of every subjects, topics, notes, todos, exams
+ *   and settings read, and serves it when the network is unreachable, so
+ *   pages opened before still show their data offline.
+ * - Shows the reminder notifications sent by the page and, when one is
+ *   clicked, focuses an open studox tab and asks it to navigate to the
+ *   notification's page, or opens a new tab if none is open.
+ *
+ * Writes are not handled here: the page queues them in IndexedDB while
+ * offline (see src/lib/offlineQueue.ts).
+ */
+
+const SHELL_CACHE = "studox-shell-v1";
+/** Cleared on sign-out by the page; keep the name in sync with src/hooks/useAuth.tsx. */
+const DATA_CACHE = "studox-data-v1";
+const CACHES = [SHELL_CACHE, DATA_CACHE];
+
+const SHELL_URL = "/index.html";
+const STATIC_URLS = ["/logog.png", "/favicon.ico", "/manifest.webmanifest"];
+
+/** Supabase tables whose reads are kept for offline use. */
+const OFFLINE_TABLES = ["subjects", "topics", "notes", "todos", "exams", "user_settings"];
+
+const NOTIFICATION_CLICK_MESSAGE = "studox:notification-click";
+
+/**
+ * Caches index.html together with the hashed scripts and styles it loads,
+ * so the first offline visit works without having to revisit every page.
+ */
+const cacheAppShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  const response = await fetch("/", { cache: "no-cache" });
+  if (!response.ok) return;
+
+  const html = await response.clone().text();
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((match) => match[1]);
+  await cache.put(SHELL_URL, response);
+  await cache.addAll([...new Set([...assets, ...STATIC_URLS])]);
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    cacheAppShell()
+      .catch((error) => console.error("Failed to cache the app shell:", error))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(names.filter((name) => !CACHES.includes(name)).map((name) => caches.delete(name)));
+      await self.clients.claim();
+    })(),
+  );
+});
+
+/** Network first, falling back to the last cached copy. */
+const networkFirst = async (request, cacheName, cacheKey = request) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(cacheKey, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey, { ignoreVary: true });
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+/** Cache first; used for hashed build assets, which never change. */
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const isOfflineTableRead = (url) => {
+  const match = url.pathname.match(/^\/rest\/v1\/([^/?]+)$/);
+  return !!match && OFFLINE_TABLES.includes(match[1]);
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate" && url.origin === self.location.origin) {
+    // Every route is served by the same index.html.
+    event.respondWith(networkFirst(request, SHELL_CACHE, SHELL_URL));
+    return;
+  }
+
+  if (url.origin === self.location.origin && (url.pathname.startsWith("/assets/") || STATIC_URLS.includes(url.pathname))) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  if (isOfflineTableRead(url)) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+  }
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const path = (event.notification.data && event.notification.data.url) || "/";
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+      const client = windows.find((candidate) => new URL(candidate.url).origin === self.location.origin);
+
+      if (client) {
+        await client.focus();
+        client.postMessage({ type: NOTIFICATION_CLICK_MESSAGE, url: path });
+        return;
+      }
+      await self.clients.openWindow(new URL(path, self.location.origin).href);
+    })(),
+  );
+});
@@ -1,8 +1,11 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { ReminderNotifications } from "@/components/Notifications/ReminderNotifications";
+import { OfflineSync } from "@/components/Offline/OfflineSync";
+import { queryClient } from "@/lib/queryClient";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import PomodoroPage from "./pages/PomodoroPage";
@@ -17,8 +20,9 @@ import NotFound from "./pages/NotFound";
 import HistoryPage from "./pages/HistoryPage";
 import HelpPage from "./pages/HelpPage";
 import SettingsPage from "./pages/SettingsPage";
-
-const queryClient = new QueryClient();
+import TodosPage from "./pages/TodosPage";
+import AnalyticsPage from "./pages/AnalyticsPage";
+import ResultsPage from "./pages/ResultsPage";
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -26,6 +30,8 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
+        <ReminderNotifications />
+        <OfflineSync />
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/auth" element={<Auth />} />
@@ -33,12 +39,15 @@ const App = () => (
           <Route path="/ai-tutor" element={<AITutorPage />} />
           <Route path="/calendar" element={<CalendarPage />} />
           <Route path="/datesheet" element={<DatesheetPage />} />
+          <Route path="/todos" element={<TodosPage />} />
           {/* More specific topic-resources route should be defined before the generic subject route */}
           <Route path="/subject/:subjectId/topic/:topicId/resources" element={<TopicResourcesPage />} />
           <Route path="/subject/:subjectId/playlist/:topicName" element={<TopicPlaylistPage />} />
           <Route path="/shared/topic/:shareToken" element={<SharedTopicPage />} />
           <Route path="/subject/:id" element={<SubjectPage />} />
           <Route path="/history" element={<HistoryPage />} />
+          <Route path="/analytics" element={<AnalyticsPage />} />
+          <Route path="/results" element={<ResultsPage />} />
           <Route path="/help" element={<HelpPage />} />
           <Route path="/settings" element={<SettingsPage />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
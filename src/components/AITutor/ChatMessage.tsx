@@ -1,14 +1,24 @@
 import { cn } from "@/lib/utils";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { User, Bot } from "lucide-react";
+import { User, Bot, FileText } from "lucide-react";
+import { findCitedSources, splitCitations, type TutorCitation } from "@/lib/tutorContext";
 
 interface ChatMessageProps {
   role: "user" | "assistant";
   content: string;
+  /** Sources the tutor was given; `[n]` citations in the answer link to them. */
+  sources?: TutorCitation[];
+  onOpenSource?: (source: TutorCitation) => void;
 }
 
-export const ChatMessage = ({ role, content }: ChatMessageProps) => {
+const formatSourceLabel = (source: TutorCitation) =>
+  source.page ? `${source.title} · p. ${source.page}` : source.title;
+
+export const ChatMessage = ({ role, content, sources = [], onOpenSource }: ChatMessageProps) => {
   const isUser = role === "user";
+  // Known [n] markers in answers become links back to the cited note.
+  const parts = isUser ? [content] : splitCitations(content, sources);
+  const cited = isUser ? [] : findCitedSources(content, sources);
 
   return (
     <div
@@ -28,7 +38,38 @@ export const ChatMessage = ({ role, content }: ChatMessageProps) => {
       </Avatar>
       <div className="flex-1 space-y-2">
         <p className="text-sm font-medium">{isUser ? "You" : "AI Tutor"}</p>
-        <div className="text-sm leading-relaxed whitespace-pre-wrap">{content}</div>
+        <div className="text-sm leading-relaxed whitespace-pre-wrap">
+          {parts.map((part, index) =>
+            typeof part === "string" ? (
+              part
+            ) : (
+              <button
+                key={index}
+                type="button"
+                onClick={() => onOpenSource?.(part)}
+                title={formatSourceLabel(part)}
+                className="align-super text-[10px] font-medium text-primary hover:underline px-0.5"
+              >
+                [{part.id}]
+              </button>
+            ),
+          )}
+        </div>
+        {cited.length > 0 && (
+          <div className="flex flex-wrap gap-2 pt-1">
+            {cited.map((source) => (
+              <button
+                key={source.id}
+                type="button"
+                onClick={() => onOpenSource?.(source)}
+                className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs text-muted-foreground hover:text-foreground hover:bg-muted"
+              >
+                <FileText className="w-3 h-3" />
+                [{source.id}] {formatSourceLabel(source)}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Check, Loader2, MessageSquarePlus, Pencil, Search, Trash2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { TutorConversation } from "@/hooks/useTutorConversations";
+
+interface TutorHistorySidebarProps {
+  conversations: TutorConversation[];
+  loading: boolean;
+  activeId: string | null;
+  search: string;
+  onSearchChange: (search: string) => void;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  className?: string;
+}
+
+/**
+ * List of saved tutor chats with search, inline rename and delete. Each chat
+ * shows the subject or topic it is linked to.
+ */
+export const TutorHistorySidebar = ({
+  conversations,
+  loading,
+  activeId,
+  search,
+  onSearchChange,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  className,
+}: TutorHistorySidebarProps) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+
+  const startRename = (conversation: TutorConversation) => {
+    setRenamingId(conversation.id);
+    setRenameValue(conversation.title);
+  };
+
+  const submitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      onRename(renamingId, renameValue.trim());
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <div className={cn("flex flex-col min-h-0", className)}>
+      <div className="p-3 space-y-3 border-b">
+        <Button className="w-full" onClick={onNew}>
+          <MessageSquarePlus className="w-4 h-4 mr-2" />
+          New chat
+        </Button>
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => onSearchChange(e.target.value)}
+            placeholder="Search chats"
+            className="pl-8"
+          />
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        {loading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : conversations.length === 0 ? (
+          <p className="p-4 text-sm text-muted-foreground">
+            {search.trim() ? "No chats match your search." : "Your chats will appear here."}
+          </p>
+        ) : (
+          <div className="p-2 space-y-1">
+            {conversations.map((conversation) => {
+              const link = conversation.topics?.name || conversation.subjects?.name;
+              const isActive = conversation.id === activeId;
+
+              if (renamingId === conversation.id) {
+                return (
+                  <form
+                    key={conversation.id}
+                    className="flex items-center gap-1 p-1"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      submitRename();
+                    }}
+                  >
+                    <Input
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onKeyDown={(e) => e.key === "Escape" && setRenamingId(null)}
+                      className="h-8"
+                      autoFocus
+                    />
+                    <Button type="submit" variant="ghost" size="icon" className="h-8 w-8 shrink-0">
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      onClick={() => setRenamingId(null)}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </form>
+                );
+              }
+
+              return (
+                <div
+                  key={conversation.id}
+                  className={cn(
+                    "group flex items-center gap-1 rounded-md px-2 py-2 hover:bg-muted",
+                    isActive && "bg-muted",
+                  )}
+                >
+                  <button
+                    type="button"
+                    onClick={() => onSelect(conversation.id)}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <p className="text-sm font-medium truncate">{conversation.title}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {link && (
+                        <span
+                          className="inline-block w-2 h-2 rounded-full mr-1"
+                          style={{ backgroundColor: conversation.subjects?.color || "hsl(var(--primary))" }}
+                        />
+                      )}
+                      {link ? `${link} · ` : ""}
+                      {conversation.updated_at ? new Date(conversation.updated_at).toLocaleDateString() : ""}
+                    </p>
+                  </button>
+                  <div className="flex shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => startRename(conversation)}
+                      title="Rename"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => onDelete(conversation.id)}
+                      title="Delete"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import { useSubjects } from "@/hooks/useSubjects";
+import { useTopics } from "@/hooks/useTopics";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export interface TutorLink {
+  subjectId: string | null;
+  topicId: string | null;
+}
+
+const NO_SELECTION = "none";
+
+interface TutorLinkPickerProps {
+  value: TutorLink;
+  onChange: (link: TutorLink) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Compact subject → topic selects for linking a tutor chat. A subject alone
+ * is enough; picking a topic also grounds the tutor in that topic's notes.
+ */
+export const TutorLinkPicker = ({ value, onChange, disabled }: TutorLinkPickerProps) => {
+  const { data: allSubjects = [] } = useSubjects();
+  const { data: subjectTopics = [] } = useTopics(value.subjectId ?? undefined);
+  const subjects = [...allSubjects].sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={value.subjectId ?? NO_SELECTION}
+        onValueChange={(subjectId) =>
+          onChange({ subjectId: subjectId === NO_SELECTION ? null : subjectId, topicId: null })
+        }
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-8 w-40">
+          <SelectValue placeholder="Subject" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_SELECTION}>No subject</SelectItem>
+          {subjects.map((subject) => (
+            <SelectItem key={subject.id} value={subject.id}>
+              {subject.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={value.topicId ?? NO_SELECTION}
+        onValueChange={(topicId) =>
+          onChange({ subjectId: value.subjectId, topicId: topicId === NO_SELECTION ? null : topicId })
+        }
+        disabled={disabled || !value.subjectId}
+      >
+        <SelectTrigger className="h-8 w-44">
+          <SelectValue placeholder="Topic" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_SELECTION}>Whole subject</SelectItem>
+          {subjectTopics.map((topic) => (
+            <SelectItem key={topic.id} value={topic.id}>
+              {topic.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface TutorModelPickerProps {
+  models: string[];
+  value: string | null;
+  onChange: (model: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Chooses which of the allowed models answers. Hidden when the deployment
+ * only allows one.
+ */
+export const TutorModelPicker = ({ models, value, onChange, disabled }: TutorModelPickerProps) => {
+  if (models.length < 2 || !value) return null;
+
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className="h-8 w-52" aria-label="Model">
+        <SelectValue placeholder="Model" />
+      </SelectTrigger>
+      <SelectContent>
+        {models.map((model) => (
+          <SelectItem key={model} value={model}>
+            {model}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,41 @@
+import { Progress } from "@/components/ui/progress";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import type { AiTutorUsage } from "@/lib/aiTutor";
+
+interface TutorUsageMeterProps {
+  usage: AiTutorUsage | null;
+  className?: string;
+}
+
+const formatTokens = (value: number) => value.toLocaleString();
+
+/**
+ * Compact "tokens used today" meter for the AI tutor, turning red once the
+ * daily quota is used up.
+ */
+export const TutorUsageMeter = ({ usage, className }: TutorUsageMeterProps) => {
+  if (!usage) return null;
+
+  const percent = usage.limit > 0 ? Math.min(100, (usage.used / usage.limit) * 100) : 100;
+  const exhausted = usage.remaining <= 0;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className={cn("flex items-center gap-2 text-xs text-muted-foreground", className)}>
+          <Progress value={percent} className={cn("h-1.5 w-24", exhausted && "[&>div]:bg-destructive")} />
+          <span className={cn(exhausted && "text-destructive")}>
+            {formatTokens(usage.used)} / {formatTokens(usage.limit)} tokens today
+          </span>
+        </div>
+      </TooltipTrigger>
+      <TooltipContent>
+        {exhausted
+          ? "Daily limit reached."
+          : `${formatTokens(usage.remaining)} tokens left today.`}{" "}
+        Resets {new Date(usage.resetsAt).toLocaleString()}.
+      </TooltipContent>
+    </Tooltip>
+  );
+};
@@ -0,0 +1,64 @@
+import { cn } from "@/lib/utils";
+import { buildHeatmapWeeks } from "@/lib/analytics";
+import { fromLocalDateKey } from "@/lib/dates";
+import { formatStudyMinutes } from "@/lib/studyTime";
+
+const LEVEL_CLASSES = [
+  "bg-muted",
+  "bg-primary/25",
+  "bg-primary/50",
+  "bg-primary/75",
+  "bg-primary",
+];
+
+interface StudyHeatmapProps {
+  /** Study minutes keyed by local date (YYYY-MM-DD). */
+  minutesByDay: Record<string, number>;
+}
+
+/**
+ * Year-long activity grid: one column per week, one square per day, shaded
+ * by how much was studied relative to the busiest day.
+ */
+export const StudyHeatmap = ({ minutesByDay }: StudyHeatmapProps) => {
+  const weeks = buildHeatmapWeeks(minutesByDay);
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto pb-1">
+        <div className="flex gap-[3px] w-max">
+          {weeks.map((week) => (
+            <div key={week[0].key} className="flex flex-col gap-[3px]">
+              {week.map((cell) => (
+                <div
+                  key={cell.key}
+                  className={cn(
+                    "h-3 w-3 rounded-sm",
+                    cell.isFuture ? "bg-transparent" : LEVEL_CLASSES[cell.level],
+                  )}
+                  title={
+                    cell.isFuture
+                      ? undefined
+                      : `${fromLocalDateKey(cell.key).toLocaleDateString(undefined, {
+                          weekday: "short",
+                          month: "short",
+                          day: "numeric",
+                          year: "numeric",
+                        })}: ${formatStudyMinutes(cell.minutes)}`
+                  }
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-end gap-1 text-xs text-muted-foreground">
+        <span>Less</span>
+        {LEVEL_CLASSES.map((className) => (
+          <div key={className} className={cn("h-3 w-3 rounded-sm", className)} />
+        ))}
+        <span>More</span>
+      </div>
+    </div>
+  );
+};
@@ -12,9 +12,10 @@ import {
   SidebarRail,
   SidebarTrigger,
 } from "@/components/ui/sidebar";
-import { BookOpen, Clock, MessageSquare, CalendarDays, History, HelpCircle, Settings, LogOut } from "lucide-react";
+import { BookOpen, Clock, MessageSquare, CalendarDays, History, HelpCircle, Settings, LogOut, ListTodo, BarChart3, GraduationCap } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
+import { OfflineIndicator } from "@/components/Offline/OfflineIndicator";
 
 /**
  * High-level application layout that adds a navigational sidebar.
@@ -93,6 +94,16 @@ export const AppSidebarLayout = ({ children, className }: AppSidebarLayoutProps)
                 <span>Datesheet</span>
               </SidebarMenuButton>
             </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                isActive={isActive("/todos")}
+                onClick={() => navigate("/todos")}
+                className="cursor-pointer"
+              >
+                <ListTodo className="w-4 h-4" />
+                <span>Todos</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
             <SidebarMenuItem>
               <SidebarMenuButton
                 isActive={isActive("/pomodoro")}
@@ -113,6 +124,26 @@ export const AppSidebarLayout = ({ children, className }: AppSidebarLayoutProps)
                 <span>History</span>
               </SidebarMenuButton>
             </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                isActive={isActive("/analytics")}
+                onClick={() => navigate("/analytics")}
+                className="cursor-pointer"
+              >
+                <BarChart3 className="w-4 h-4" />
+                <span>Analytics</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                isActive={isActive("/results")}
+                onClick={() => navigate("/results")}
+                className="cursor-pointer"
+              >
+                <GraduationCap className="w-4 h-4" />
+                <span>Results</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
             <SidebarMenuItem>
               <SidebarMenuButton
                 isActive={isActive("/ai-tutor")}
@@ -163,6 +194,7 @@ export const AppSidebarLayout = ({ children, className }: AppSidebarLayoutProps)
         <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-20">
           <div className="px-4 py-3 flex items-center gap-3">
             <SidebarTrigger />
+            <OfflineIndicator />
           </div>
         </header>
         {children}
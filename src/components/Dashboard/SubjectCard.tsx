@@ -1,8 +1,9 @@
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
-import { MoreVertical, FileText } from "lucide-react";
+import { MoreVertical, FileText, Clock } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { formatStudyMinutes } from "@/lib/studyTime";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,6 +18,8 @@ interface SubjectCardProps {
   color: string;
   topicsCount: number;
   completedTopics: number;
+  /** Focus minutes attributed to the subject's topics, when known. */
+  studyMinutes?: number;
   onEdit: () => void;
   onDelete: () => void;
 }
@@ -28,6 +31,7 @@ export const SubjectCard = ({
   color,
   topicsCount,
   completedTopics,
+  studyMinutes,
   onEdit,
   onDelete,
 }: SubjectCardProps) => {
@@ -80,6 +84,12 @@ export const SubjectCard = ({
           </span>
         </div>
         <Progress value={progress} className="h-2" />
+        {studyMinutes !== undefined && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Clock className="w-4 h-4" />
+            <span>{formatStudyMinutes(studyMinutes)} focused</span>
+          </div>
+        )}
       </div>
     </Card>
   );
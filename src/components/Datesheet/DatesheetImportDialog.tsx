@@ -0,0 +1,529 @@
+import { ChangeEvent, useMemo, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toLocalDateKey } from "@/lib/dates";
+import { createExam, createExams, Exam, NewExamFields } from "@/lib/repositories/exams";
+import { createSubjects } from "@/lib/repositories/subjects";
+import {
+  ColumnMapping,
+  CsvTable,
+  DEFAULT_EXAM_TIME,
+  IMPORT_FIELDS,
+  ImportedExamRow,
+  findRepeatedRows,
+  guessColumnMapping,
+  matchSubject,
+  normalizeSubjectName,
+  parseCsv,
+  rowsFromCsv,
+  rowsFromIcs,
+} from "@/lib/datesheetImport";
+
+interface SubjectSummary {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
+interface ImportFailure {
+  line: number;
+  title: string;
+  reason: string;
+}
+
+interface ImportReport {
+  imported: number;
+  duplicates: number;
+  repeated: number;
+  failures: ImportFailure[];
+}
+
+interface DatesheetImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subjects: SubjectSummary[];
+  exams: { subject_id: string; title: string; exam_date: string }[];
+  onImported: (exams: Exam[], createdSubjects: SubjectSummary[]) => void;
+}
+
+type Step = "file" | "mapping" | "preview" | "report";
+
+/** Subject choice that creates a subject named after the file's value. */
+const CREATE_SUBJECT = "__create__";
+const NOT_MAPPED = "__none__";
+/** Same fallback colour the datesheet uses for subjects without one. */
+const NEW_SUBJECT_COLOR = "#6366f1";
+
+const examKey = (subjectId: string, title: string, examDate: string) =>
+  `${subjectId}|${title.trim().toLowerCase()}|${toLocalDateKey(examDate)}`;
+
+/**
+ * Imports a university datesheet from a CSV or ICS file: column mapping
+ * (CSV only), subject matching with the option to create missing subjects,
+ * a preview, a bulk insert and a report of the rows that failed.
+ */
+export const DatesheetImportDialog = ({
+  open,
+  onOpenChange,
+  subjects,
+  exams,
+  onImported,
+}: DatesheetImportDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>("file");
+  const [fileName, setFileName] = useState("");
+  const [csvTable, setCsvTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [icsRows, setIcsRows] = useState<ImportedExamRow[]>([]);
+  /** Subject id, `CREATE_SUBJECT` or "" per normalized subject name from the file. */
+  const [subjectChoices, setSubjectChoices] = useState<Record<string, string>>({});
+  const [excludedLines, setExcludedLines] = useState<Set<number>>(new Set());
+  const [importing, setImporting] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const rows = useMemo(
+    () => (csvTable && mapping ? rowsFromCsv(csvTable, mapping) : icsRows),
+    [csvTable, mapping, icsRows],
+  );
+
+  /** Distinct subject names in the file, keyed by normalized name. */
+  const subjectGroups = useMemo(() => {
+    const groups = new Map<string, { name: string; count: number }>();
+    rows.forEach((row) => {
+      const key = normalizeSubjectName(row.subjectName);
+      const group = groups.get(key);
+      groups.set(key, { name: group?.name ?? row.subjectName, count: (group?.count ?? 0) + 1 });
+    });
+    return [...groups.entries()];
+  }, [rows]);
+
+  const existingExamKeys = useMemo(
+    () => new Set(exams.map((exam) => examKey(exam.subject_id, exam.title, exam.exam_date))),
+    [exams],
+  );
+
+  const reset = () => {
+    setStep("file");
+    setFileName("");
+    setCsvTable(null);
+    setMapping(null);
+    setIcsRows([]);
+    setSubjectChoices({});
+    setExcludedLines(new Set());
+    setReport(null);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (importing) return;
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      setFileName(file.name);
+
+      if (/\.ics$/i.test(file.name) || /^\s*BEGIN:VCALENDAR/i.test(text)) {
+        const parsed = rowsFromIcs(text);
+        if (parsed.length === 0) throw new Error("No events found in this calendar file");
+        setCsvTable(null);
+        setMapping(null);
+        setIcsRows(parsed);
+        goToPreview(parsed);
+      } else {
+        const table = parseCsv(text);
+        if (table.records.length === 0) throw new Error("The file has no rows below the header");
+        setCsvTable(table);
+        setMapping(guessColumnMapping(table.headers));
+        setStep("mapping");
+      }
+    } catch (error) {
+      toast({
+        title: "Could not read file",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  /** Pre-selects the best matching subject for each name, or creating it when none is close. */
+  const goToPreview = (previewRows: ImportedExamRow[]) => {
+    const choices: Record<string, string> = {};
+    previewRows.forEach((row) => {
+      const key = normalizeSubjectName(row.subjectName);
+      if (key in choices) return;
+      choices[key] = key ? matchSubject(row.subjectName, subjects)?.id ?? CREATE_SUBJECT : "";
+    });
+    setSubjectChoices(choices);
+    setExcludedLines(new Set());
+    setStep("preview");
+  };
+
+  /** Resolves a row's subject to an existing id, `CREATE_SUBJECT` or "". */
+  const subjectChoiceFor = (row: ImportedExamRow) => subjectChoices[normalizeSubjectName(row.subjectName)] ?? "";
+
+  const isDuplicate = (row: ImportedExamRow) => {
+    const choice = subjectChoiceFor(row);
+    return (
+      !!row.examDate &&
+      !!choice &&
+      choice !== CREATE_SUBJECT &&
+      existingExamKeys.has(examKey(choice, row.title, row.examDate))
+    );
+  };
+
+  const toggleRow = (line: number) => {
+    setExcludedLines((prev) => {
+      const next = new Set(prev);
+      if (next.has(line)) {
+        next.delete(line);
+      } else {
+        next.add(line);
+      }
+      return next;
+    });
+  };
+
+  const selectedRows = rows.filter((row) => !excludedLines.has(row.line));
+
+  /** Checked rows that list the same exam as an earlier checked row, by the subject they import into. */
+  const repeatedRows = findRepeatedRows(selectedRows, (row) => {
+    const choice = subjectChoiceFor(row);
+    return choice === CREATE_SUBJECT ? `${CREATE_SUBJECT}${normalizeSubjectName(row.subjectName)}` : choice;
+  });
+
+  const handleImport = async () => {
+    if (!user) return;
+    setImporting(true);
+
+    const failures: ImportFailure[] = [];
+    const fail = (row: ImportedExamRow, reason: string) => failures.push({ line: row.line, title: row.title, reason });
+
+    try {
+      const candidates = selectedRows.filter((row) => {
+        if (row.error) {
+          fail(row, row.error);
+          return false;
+        }
+        return !isDuplicate(row) && !repeatedRows.has(row.line);
+      });
+      const duplicates = selectedRows.filter((row) => !row.error && isDuplicate(row)).length;
+      const repeated = selectedRows.filter((row) => !isDuplicate(row) && repeatedRows.has(row.line)).length;
+
+      // Create the missing subjects the file refers to.
+      const namesToCreate = new Map<string, string>();
+      candidates.forEach((row) => {
+        if (subjectChoiceFor(row) === CREATE_SUBJECT) {
+          namesToCreate.set(normalizeSubjectName(row.subjectName), row.subjectName.trim());
+        }
+      });
+
+      const createdIds = new Map<string, string>();
+      let createdSubjects: SubjectSummary[] = [];
+      let createError: string | null = null;
+      if (namesToCreate.size > 0) {
+        try {
+          createdSubjects = await createSubjects(
+            user.id,
+            [...namesToCreate.values()].map((name) => ({ name, color: NEW_SUBJECT_COLOR })),
+          );
+          createdSubjects.forEach((subject) => createdIds.set(normalizeSubjectName(subject.name), subject.id));
+        } catch (error) {
+          createError = (error as Error).message;
+        }
+      }
+
+      const payload: { row: ImportedExamRow; insert: NewExamFields }[] = [];
+      candidates.forEach((row) => {
+        const choice = subjectChoiceFor(row);
+        const subjectId =
+          choice === CREATE_SUBJECT ? createdIds.get(normalizeSubjectName(row.subjectName)) : choice || undefined;
+        if (!subjectId) {
+          fail(row, choice === CREATE_SUBJECT ? `Could not create subject: ${createError}` : "No subject chosen");
+          return;
+        }
+        payload.push({
+          row,
+          insert: {
+            title: row.title,
+            exam_date: row.examDate!,
+            exam_type: row.examType,
+            tags: row.tags.length > 0 ? row.tags : null,
+            subject_id: subjectId,
+          },
+        });
+      });
+
+      const inserted: Exam[] = [];
+      if (payload.length > 0) {
+        try {
+          inserted.push(...(await createExams(user.id, payload.map((item) => item.insert))));
+        } catch {
+          // The batch is all-or-nothing, so retry row by row to find the rows that fail.
+          for (const item of payload) {
+            try {
+              inserted.push(await createExam(user.id, item.insert));
+            } catch (error) {
+              fail(item.row, (error as Error).message);
+            }
+          }
+        }
+      }
+
+      onImported(inserted, createdSubjects);
+      setReport({
+        imported: inserted.length,
+        duplicates,
+        repeated,
+        failures: failures.sort((a, b) => a.line - b.line),
+      });
+      setStep("report");
+    } catch (error) {
+      toast({
+        title: "Error importing datesheet",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const canPreview = !!mapping && mapping.date !== null && (mapping.title !== null || mapping.subject !== null);
+  const importableCount = selectedRows.filter(
+    (row) => !row.error && !isDuplicate(row) && !repeatedRows.has(row.line),
+  ).length;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import datesheet</DialogTitle>
+          <DialogDescription>
+            {step === "file" && "Upload a CSV export of your university datesheet, or an .ics calendar file."}
+            {step === "mapping" && `Choose which columns of ${fileName} hold each exam detail.`}
+            {step === "preview" && `Check the exams found in ${fileName} before importing them.`}
+            {step === "report" && "Import finished."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "file" && (
+          <div className="space-y-2">
+            <Label htmlFor="datesheet-file">Datesheet file</Label>
+            <Input id="datesheet-file" type="file" accept=".csv,.tsv,.txt,.ics" onChange={handleFileChange} />
+            <p className="text-xs text-muted-foreground">
+              Dates like 21/11/2026, 2026-11-21 or 21 Nov 2026 are understood, with an optional time. Exams without
+              a time are set to {DEFAULT_EXAM_TIME}.
+            </p>
+          </div>
+        )}
+
+        {step === "mapping" && csvTable && mapping && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(({ field, label, required }) => {
+                const column = mapping[field];
+                return (
+                  <div key={field} className="space-y-1">
+                    <Label>
+                      {label}
+                      {required && " *"}
+                    </Label>
+                    <Select
+                      value={column === null ? NOT_MAPPED : String(column)}
+                      onValueChange={(value) =>
+                        setMapping({ ...mapping, [field]: value === NOT_MAPPED ? null : Number(value) })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                        {csvTable.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {column !== null && csvTable.records[0]?.[column] && (
+                      <p className="text-xs text-muted-foreground truncate">e.g. {csvTable.records[0][column]}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {!canPreview && (
+              <p className="text-xs text-destructive">Choose a date column, and a title or subject column.</p>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button onClick={() => goToPreview(rows)} disabled={!canPreview}>
+                Preview
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Subjects</h3>
+              {subjectGroups.map(([key, group]) => {
+                const matched = subjects.find((subject) => subject.id === subjectChoices[key]);
+                return (
+                  <div key={key} className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0 text-sm">
+                      <span className="font-medium">{key ? group.name : "No subject in file"}</span>
+                      <span className="text-muted-foreground">
+                        {" "}
+                        · {group.count} exam{group.count === 1 ? "" : "s"}
+                      </span>
+                    </div>
+                    <Select
+                      value={subjectChoices[key] || undefined}
+                      onValueChange={(value) => setSubjectChoices((prev) => ({ ...prev, [key]: value }))}
+                    >
+                      <SelectTrigger className="w-64">
+                        <SelectValue placeholder="Choose subject" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {key && <SelectItem value={CREATE_SUBJECT}>Create "{group.name}"</SelectItem>}
+                        {subjects.map((subject) => (
+                          <SelectItem key={subject.id} value={subject.id}>
+                            {subject.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {matched && normalizeSubjectName(matched.name) !== key && (
+                      <Badge variant="secondary">Matched</Badge>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="max-h-[40vh] overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Title</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Tags</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell>
+                        <Checkbox
+                          checked={!excludedLines.has(row.line)}
+                          onCheckedChange={() => toggleRow(row.line)}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">{row.title || "—"}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {row.examDate ? new Date(row.examDate).toLocaleString() : "—"}
+                      </TableCell>
+                      <TableCell>{row.examType || "—"}</TableCell>
+                      <TableCell>{row.tags.join(", ") || "—"}</TableCell>
+                      <TableCell>
+                        {row.error ? (
+                          <Badge variant="destructive">{row.error}</Badge>
+                        ) : isDuplicate(row) ? (
+                          <Badge variant="secondary">Already on datesheet</Badge>
+                        ) : repeatedRows.has(row.line) ? (
+                          <Badge variant="secondary">Listed twice</Badge>
+                        ) : !subjectChoiceFor(row) ? (
+                          <Badge variant="outline">No subject</Badge>
+                        ) : (
+                          <Badge variant="outline">Ready</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => (csvTable ? setStep("mapping") : reset())} disabled={importing}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={importing || importableCount === 0}>
+                {importing ? "Importing..." : `Import ${importableCount} exam${importableCount === 1 ? "" : "s"}`}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {step === "report" && report && (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Imported {report.imported} exam{report.imported === 1 ? "" : "s"}.
+              {report.duplicates > 0 && ` Skipped ${report.duplicates} already on your datesheet.`}
+              {report.repeated > 0 && ` Skipped ${report.repeated} listed more than once in the file.`}
+            </p>
+            {report.failures.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold text-destructive">
+                  {report.failures.length} row{report.failures.length === 1 ? "" : "s"} failed
+                </h3>
+                <div className="max-h-[40vh] overflow-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{csvTable ? "Line" : "Event"}</TableHead>
+                        <TableHead>Title</TableHead>
+                        <TableHead>Reason</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.failures.map((failure) => (
+                        <TableRow key={failure.line}>
+                          <TableCell>{failure.line}</TableCell>
+                          <TableCell>{failure.title || "—"}</TableCell>
+                          <TableCell className="text-destructive">{failure.reason}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,253 @@
+import { ChangeEvent, useRef, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download, ExternalLink, FileText, Link as LinkIcon, Paperclip, Trash2 } from "lucide-react";
+import { getOfficeViewerUrl } from "@/lib/resourceLinks";
+import { createSignedStorageUrl, triggerDownload } from "@/lib/storage";
+import {
+  EXAM_ATTACHMENTS_BUCKET,
+  ExamAttachment,
+  addExamLink,
+  deleteExamAttachment,
+  uploadExamAttachment,
+} from "@/lib/examAttachments";
+
+interface ExamAttachmentsProps {
+  exam: { id: string; subject_id: string };
+  attachments: ExamAttachment[];
+  onAdded: (attachment: ExamAttachment) => void;
+  onDeleted: (attachmentId: string) => void;
+}
+
+const fileExtension = (name: string) => name.split(".").pop()?.toLowerCase() ?? "";
+
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "webp"];
+
+/**
+ * Files and links attached to one exam on the datesheet. Files open through
+ * short-lived signed URLs, since the `exams` bucket is private.
+ */
+export const ExamAttachments = ({ exam, attachments, onAdded, onDeleted }: ExamAttachmentsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [linkFormOpen, setLinkFormOpen] = useState(false);
+  const [newLink, setNewLink] = useState({ name: "", url: "" });
+  const [preview, setPreview] = useState<{ attachment: ExamAttachment; url: string } | null>(null);
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+  };
+
+  const handleFilesChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (!user || files.length === 0) return;
+
+    setUploading(true);
+    for (const file of files) {
+      try {
+        onAdded(await uploadExamAttachment(user.id, exam, file));
+      } catch (error) {
+        showError(`Error uploading ${file.name}`, error);
+      }
+    }
+    setUploading(false);
+  };
+
+  const handleAddLink = async () => {
+    if (!user || !newLink.url.trim()) return;
+
+    try {
+      onAdded(await addExamLink(user.id, exam.id, newLink.name, newLink.url));
+      setNewLink({ name: "", url: "" });
+      setLinkFormOpen(false);
+    } catch (error) {
+      showError("Error adding link", error);
+    }
+  };
+
+  /**
+   * Opens links in a new tab and previews files in a dialog.
+   */
+  const handleOpen = async (attachment: ExamAttachment) => {
+    if (attachment.kind === "link" && attachment.url) {
+      window.open(attachment.url, "_blank", "noopener,noreferrer");
+      return;
+    }
+    if (!attachment.file_path) return;
+
+    try {
+      const url = await createSignedStorageUrl(EXAM_ATTACHMENTS_BUCKET, attachment.file_path, 7200);
+      setPreview({ attachment, url });
+    } catch (error) {
+      showError("Error accessing file", error);
+    }
+  };
+
+  const handleDownload = async (attachment: ExamAttachment) => {
+    if (!attachment.file_path) return;
+
+    try {
+      const url = await createSignedStorageUrl(EXAM_ATTACHMENTS_BUCKET, attachment.file_path);
+      triggerDownload(url, attachment.name);
+    } catch (error) {
+      showError("Error accessing file", error);
+    }
+  };
+
+  const handleDelete = async (attachment: ExamAttachment) => {
+    try {
+      await deleteExamAttachment(attachment);
+      onDeleted(attachment.id);
+    } catch (error) {
+      showError("Error deleting attachment", error);
+    }
+  };
+
+  const renderPreview = (attachment: ExamAttachment, url: string) => {
+    const extension = fileExtension(attachment.name);
+
+    if (extension === "pdf") {
+      return <iframe src={url} className="w-full h-full border rounded" title={attachment.name} />;
+    }
+    if (IMAGE_EXTENSIONS.includes(extension)) {
+      return <img src={url} alt={attachment.name} className="max-w-full max-h-full mx-auto object-contain" />;
+    }
+    if (extension === "ppt" || extension === "pptx") {
+      return (
+        <iframe
+          src={getOfficeViewerUrl(url)}
+          className="w-full h-full border rounded"
+          title={attachment.name}
+        />
+      );
+    }
+    return (
+      <div className="w-full h-full flex items-center justify-center border rounded bg-muted">
+        <p className="text-sm text-muted-foreground">
+          Preview not available for this file type. Please download to view.
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-4 space-y-2">
+      {attachments.length > 0 && (
+        <ul className="space-y-1">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center gap-1 text-sm">
+              <button
+                type="button"
+                onClick={() => handleOpen(attachment)}
+                className="flex flex-1 min-w-0 items-center text-primary hover:underline text-left"
+              >
+                {attachment.kind === "link" ? (
+                  <LinkIcon className="w-4 h-4 mr-2 shrink-0" />
+                ) : (
+                  <FileText className="w-4 h-4 mr-2 shrink-0" />
+                )}
+                <span className="truncate">{attachment.name}</span>
+                {attachment.file_size !== null && (
+                  <span className="ml-1 shrink-0 text-xs text-muted-foreground">
+                    ({(attachment.file_size / (1024 * 1024)).toFixed(1)} MB)
+                  </span>
+                )}
+              </button>
+              {attachment.kind === "file" && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => handleDownload(attachment)}
+                  title="Download"
+                >
+                  <Download className="w-3.5 h-3.5" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => handleDelete(attachment)}
+                title="Remove"
+              >
+                <Trash2 className="w-3.5 h-3.5 text-destructive" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {linkFormOpen ? (
+        <div className="space-y-2">
+          <Input
+            placeholder="Name (optional)"
+            value={newLink.name}
+            onChange={(e) => setNewLink({ ...newLink, name: e.target.value })}
+          />
+          <Input
+            placeholder="https://..."
+            value={newLink.url}
+            onChange={(e) => setNewLink({ ...newLink, url: e.target.value })}
+          />
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={() => setLinkFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleAddLink} disabled={!newLink.url.trim()}>
+              Add link
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            accept=".ppt,.pptx,.pdf,.doc,.docx,.png,.jpg,.jpeg"
+            onChange={handleFilesChange}
+          />
+          <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+            <Paperclip className="w-4 h-4 mr-2" />
+            {uploading ? "Uploading..." : "Attach files"}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setLinkFormOpen(true)}>
+            <LinkIcon className="w-4 h-4 mr-2" />
+            Add link
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-5xl h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="truncate pr-6">{preview?.attachment.name}</DialogTitle>
+          </DialogHeader>
+          <div className="flex-1 min-h-0">{preview && renderPreview(preview.attachment, preview.url)}</div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => preview && window.open(preview.url, "_blank")}>
+              <ExternalLink className="w-4 h-4 mr-2" />
+              Open in new tab
+            </Button>
+            <Button onClick={() => preview && handleDownload(preview.attachment)}>
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
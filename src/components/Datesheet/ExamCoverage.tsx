@@ -0,0 +1,85 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { CheckCircle2, ChevronDown, Circle, ListChecks } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ExamCoverage as ExamCoverageSummary } from "@/lib/examCoverage";
+
+interface ExamCoverageProps {
+  coverage: ExamCoverageSummary;
+  minRevisions: number;
+  /** Opens the topic picker; omitted where topics cannot be edited. */
+  onEditTopics?: () => void;
+  /** Only the meter, without the per-topic list. */
+  compact?: boolean;
+}
+
+/**
+ * Syllabus coverage of one exam: the share of its linked topics revised at
+ * least `minRevisions` times, and each topic's last revision.
+ */
+export const ExamCoverage = ({ coverage, minRevisions, onEditTopics, compact }: ExamCoverageProps) => {
+  if (coverage.total === 0) {
+    return onEditTopics ? (
+      <Button size="sm" variant="outline" onClick={onEditTopics}>
+        <ListChecks className="w-4 h-4 mr-2" />
+        Choose syllabus topics
+      </Button>
+    ) : null;
+  }
+
+  const meter = (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>Syllabus coverage</span>
+        <span>
+          {coverage.covered}/{coverage.total} topics · {coverage.percent}%
+        </span>
+      </div>
+      <Progress value={coverage.percent} className="h-1.5" />
+    </div>
+  );
+
+  if (compact) return meter;
+
+  return (
+    <div className="space-y-2">
+      {meter}
+      <Collapsible>
+        <div className="flex items-center justify-between">
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="px-0">
+              <ChevronDown className="w-4 h-4 mr-1" />
+              Topics (covered after {minRevisions} revision{minRevisions === 1 ? "" : "s"})
+            </Button>
+          </CollapsibleTrigger>
+          {onEditTopics && (
+            <Button variant="ghost" size="sm" onClick={onEditTopics}>
+              Edit
+            </Button>
+          )}
+        </div>
+        <CollapsibleContent>
+          <ul className="space-y-1 text-sm max-h-48 overflow-y-auto">
+            {coverage.topics.map((topic) => (
+              <li key={topic.topicId} className="flex items-center gap-2">
+                {topic.covered ? (
+                  <CheckCircle2 className="w-4 h-4 shrink-0 text-primary" />
+                ) : (
+                  <Circle className="w-4 h-4 shrink-0 text-muted-foreground" />
+                )}
+                <span className={cn("flex-1 min-w-0 truncate", !topic.covered && "text-muted-foreground")}>
+                  {topic.name}
+                </span>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {topic.revisionCount}× ·{" "}
+                  {topic.lastRevisedAt ? new Date(topic.lastRevisedAt).toLocaleDateString() : "never revised"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { useTopics } from "@/hooks/useTopics";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ExamTopicsDialogProps {
+  /** The exam being edited; the dialog is open while set. */
+  exam: { id: string; title: string; subject_id: string } | null;
+  selectedTopicIds: string[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (topicIds: string[]) => Promise<boolean>;
+}
+
+/**
+ * Picks which topics of the exam's subject are on its syllabus.
+ */
+export const ExamTopicsDialog = ({ exam, selectedTopicIds, onOpenChange, onSave }: ExamTopicsDialogProps) => {
+  const { data: topics = [], isPending: loading } = useTopics(exam?.subject_id);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!exam) return;
+    setSelected(new Set(selectedTopicIds));
+  }, [exam]);
+
+  const toggleTopic = (topicId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(topicId)) {
+        next.delete(topicId);
+      } else {
+        next.add(topicId);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const saved = await onSave([...selected]);
+    setSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!exam} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Syllabus for {exam?.title}</DialogTitle>
+          <DialogDescription>Choose the topics this exam covers.</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="min-h-[120px] flex items-center justify-center">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary" />
+          </div>
+        ) : topics.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This subject has no topics yet.</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setSelected(new Set(topics.map((topic) => topic.id)))}
+              >
+                Select all
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setSelected(new Set())}>
+                Clear
+              </Button>
+            </div>
+            <ul className="space-y-2 max-h-[50vh] overflow-y-auto">
+              {topics.map((topic) => (
+                <li key={topic.id} className="flex items-center gap-3">
+                  <Checkbox
+                    id={`exam-topic-${topic.id}`}
+                    checked={selected.has(topic.id)}
+                    onCheckedChange={() => toggleTopic(topic.id)}
+                  />
+                  <label htmlFor={`exam-topic-${topic.id}`} className="text-sm cursor-pointer">
+                    {topic.name}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading}>
+            {saving ? "Saving..." : `Save ${selected.size} topic${selected.size === 1 ? "" : "s"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
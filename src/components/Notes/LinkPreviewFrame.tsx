@@ -0,0 +1,76 @@
+import { Button } from "@/components/ui/button";
+import { getLinkPreview, LINK_PROVIDER_LABELS, type LinkProvider } from "@/lib/resourceLinks";
+
+interface LinkPreviewFrameProps {
+  /** The link as stored on the note. */
+  link: string;
+  title: string;
+}
+
+const VIDEO_PLAYER_ALLOW = "accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture";
+
+/**
+ * Sandbox for frames showing content from any host: web pages keep scripts
+ * so they render, while files (raw Dropbox and GitHub files, direct links to
+ * PDFs, images and media) are shown without them.
+ */
+const SANDBOXES: Partial<Record<LinkProvider, string>> = {
+  web: "allow-same-origin allow-scripts allow-popups allow-forms",
+  file: "allow-same-origin",
+  dropbox: "allow-same-origin",
+  github: "allow-same-origin",
+};
+
+/**
+ * In-app preview of a link note. Known providers get their embed page (video
+ * players in a 16:9 frame); links whose provider forbids framing only offer
+ * to open in a new tab. Web pages and files from any host are sandboxed; the
+ * video players and the Google, OneDrive and Office viewers are not, since
+ * they load the providers' own embed pages, which need scripts, storage and
+ * popups.
+ */
+export const LinkPreviewFrame = ({ link, title }: LinkPreviewFrameProps) => {
+  const preview = getLinkPreview(link);
+  const openInNewTab = () => window.open(preview.url, "_blank", "noopener,noreferrer");
+
+  return (
+    <div className="w-full flex flex-col border rounded bg-muted overflow-hidden">
+      {!preview.embedUrl ? (
+        <div className="h-[40vh] flex flex-col items-center justify-center gap-3 p-6 text-center">
+          <p className="text-sm text-muted-foreground">
+            {LINK_PROVIDER_LABELS[preview.provider]} links like this one cannot be previewed here.
+          </p>
+          <Button size="sm" onClick={openInNewTab}>
+            Open in new tab
+          </Button>
+        </div>
+      ) : preview.aspect === "video" ? (
+        <div className="aspect-video w-full bg-black">
+          <iframe
+            src={preview.embedUrl}
+            className="w-full h-full border-0"
+            title={title}
+            allow={VIDEO_PLAYER_ALLOW}
+            allowFullScreen
+          />
+        </div>
+      ) : (
+        <div className="w-full h-[70vh]">
+          <iframe
+            src={preview.embedUrl}
+            className="w-full h-full border-0"
+            title={title}
+            allow={preview.provider === "google-drive" ? "autoplay" : undefined}
+            sandbox={SANDBOXES[preview.provider]}
+          />
+        </div>
+      )}
+      <div className="p-3 border-t bg-background flex items-center justify-between gap-2 shrink-0">
+        <p className="text-xs text-muted-foreground truncate">Viewing: {preview.url}</p>
+        <Button size="sm" variant="outline" onClick={openInNewTab}>
+          Open in new tab
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,289 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { History, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { MarkdownContent } from "@/components/Notes/MarkdownContent";
+import { updateMarkdownNote } from "@/lib/repositories/topicNotes";
+
+export interface MarkdownNote {
+  id: string;
+  title: string;
+  content: string | null;
+}
+
+interface NoteVersion {
+  id: string;
+  title: string;
+  content: string;
+  created_at: string | null;
+}
+
+interface MarkdownNoteEditorProps {
+  note: MarkdownNote | null;
+  onOpenChange: (open: boolean) => void;
+  /** Called after each successful save so the resource list can update. */
+  onSaved: (note: MarkdownNote & { updated_at: string }) => void;
+}
+
+/** Delay after the last keystroke before the note is saved. */
+const AUTOSAVE_DELAY_MS = 1000;
+
+type SaveStatus = "saved" | "pending" | "saving" | "error";
+
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+  saved: "All changes saved",
+  pending: "Unsaved changes",
+  saving: "Saving...",
+  error: "Could not save",
+};
+
+/**
+ * Markdown editor for topic notes with a live preview, autosave and version
+ * history. Versions are snapshotted by a database trigger while editing; the
+ * history panel lists them and can restore one.
+ */
+export const MarkdownNoteEditor = ({ note, onOpenChange, onSaved }: MarkdownNoteEditorProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [content, setContent] = useState("");
+  const [status, setStatus] = useState<SaveStatus>("saved");
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [versions, setVersions] = useState<NoteVersion[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<NoteVersion | null>(null);
+  /** Last values written to the database, used to skip no-op saves. */
+  const savedRef = useRef({ title: "", content: "" });
+
+  useEffect(() => {
+    if (!note) return;
+    const initial = { title: note.title, content: note.content || "" };
+    savedRef.current = initial;
+    setTitle(initial.title);
+    setContent(initial.content);
+    setStatus("saved");
+    setHistoryOpen(false);
+    setSelectedVersion(null);
+    discardOnCloseRef.current = false;
+  }, [note?.id]);
+
+  /** Set when closing failed to save, so a second close discards the edits. */
+  const discardOnCloseRef = useRef(false);
+
+  /** Writes the note, returning the error instead of throwing when it fails. */
+  const saveNote = async (next: { title: string; content: string }): Promise<Error | null> => {
+    if (!note) return null;
+    if (next.title === savedRef.current.title && next.content === savedRef.current.content) {
+      setStatus("saved");
+      return null;
+    }
+
+    setStatus("saving");
+    try {
+      const saved = await updateMarkdownNote(note.id, next);
+      savedRef.current = next;
+      setStatus("saved");
+      onSaved({ ...saved, updated_at: saved.updated_at || new Date().toISOString() });
+      return null;
+    } catch (error) {
+      console.error("Error saving note:", error);
+      setStatus("error");
+      return error as Error;
+    }
+  };
+
+  /**
+   * Debounced autosave: every edit restarts the timer, so the note is written
+   * once typing pauses.
+   */
+  useEffect(() => {
+    if (!note) return;
+    if (title === savedRef.current.title && content === savedRef.current.content) return;
+
+    setStatus("pending");
+    discardOnCloseRef.current = false;
+    const timeout = window.setTimeout(() => saveNote({ title, content }), AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [title, content]);
+
+  const loadVersions = async () => {
+    if (!note) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("note_versions")
+        .select("id, title, content, created_at")
+        .eq("note_id", note.id)
+        .order("created_at", { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setVersions(data || []);
+    } catch (error) {
+      toast({
+        title: "Error loading history",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleHistory = () => {
+    if (!historyOpen) {
+      loadVersions();
+    }
+    setSelectedVersion(null);
+    setHistoryOpen(!historyOpen);
+  };
+
+  /**
+   * Restores a version. The current text is stored as a version first so the
+   * restore itself can be undone from the history.
+   */
+  const handleRestore = async (version: NoteVersion) => {
+    if (!note || !user) return;
+
+    if (content.trim()) {
+      const { error } = await supabase.from("note_versions").insert({
+        note_id: note.id,
+        user_id: user.id,
+        title,
+        content,
+      });
+      if (error) {
+        toast({
+          title: "Error restoring version",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    setTitle(version.title);
+    setContent(version.content);
+    setSelectedVersion(null);
+    setHistoryOpen(false);
+    toast({
+      title: "Version restored",
+      description: "The note now shows the selected version.",
+    });
+  };
+
+  /**
+   * Flushes unsaved edits before closing so nothing typed in the last second
+   * is lost. If that save fails the editor stays open with the error; closing
+   * again without further edits discards the unsaved changes.
+   */
+  const handleOpenChange = async (open: boolean) => {
+    const hasUnsavedChanges = title !== savedRef.current.title || content !== savedRef.current.content;
+    if (!open && hasUnsavedChanges && !discardOnCloseRef.current) {
+      const error = await saveNote({ title, content });
+      if (error) {
+        discardOnCloseRef.current = true;
+        toast({
+          title: "Error saving note",
+          description: `${error.message}. Your latest changes are not saved; close again to discard them.`,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+    onOpenChange(open);
+  };
+
+  return (
+    <Dialog open={!!note} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-6xl w-[95vw] h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="sr-only">Edit note</DialogTitle>
+          <div className="flex items-center gap-3 pr-8">
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Note title"
+              className="text-lg font-semibold"
+            />
+            <span
+              className={cn(
+                "text-xs whitespace-nowrap",
+                status === "error" ? "text-destructive" : "text-muted-foreground",
+              )}
+            >
+              {SAVE_STATUS_LABELS[status]}
+            </span>
+            <Button variant={historyOpen ? "secondary" : "outline"} size="sm" onClick={handleToggleHistory}>
+              <History className="w-4 h-4 mr-2" />
+              History
+            </Button>
+          </div>
+        </DialogHeader>
+
+        {historyOpen ? (
+          <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-[240px,1fr] gap-4">
+            <div className="overflow-y-auto border rounded">
+              {versions.length === 0 ? (
+                <p className="p-4 text-sm text-muted-foreground">
+                  No earlier versions yet. Versions are kept while you edit, at most one every 10 minutes.
+                </p>
+              ) : (
+                versions.map((version) => (
+                  <button
+                    key={version.id}
+                    type="button"
+                    onClick={() => setSelectedVersion(version)}
+                    className={cn(
+                      "w-full text-left px-3 py-2 border-b text-sm hover:bg-muted",
+                      selectedVersion?.id === version.id && "bg-muted",
+                    )}
+                  >
+                    <p className="font-medium truncate">{version.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {version.created_at ? new Date(version.created_at).toLocaleString() : ""}
+                    </p>
+                  </button>
+                ))
+              )}
+            </div>
+            <div className="overflow-y-auto border rounded p-4">
+              {selectedVersion ? (
+                <div className="space-y-4">
+                  <div className="flex justify-end">
+                    <Button size="sm" onClick={() => handleRestore(selectedVersion)}>
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Restore this version
+                    </Button>
+                  </div>
+                  <MarkdownContent content={selectedVersion.content} />
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Select a version to preview it.</p>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              placeholder={"# Heading\n\nWrite your notes in Markdown..."}
+              className="h-full resize-none font-mono text-sm"
+            />
+            <div className="overflow-y-auto border rounded p-4">
+              {content.trim() ? (
+                <MarkdownContent content={content} />
+              ) : (
+                <p className="text-sm text-muted-foreground">The preview appears here as you type.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,27 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useReminderNotifications } from "@/hooks/useReminderNotifications";
+import { NOTIFICATION_CLICK_MESSAGE } from "@/lib/notifications";
+
+/**
+ * Runs the background reminders and opens the page a notification points to
+ * when the service worker reports a click. Renders nothing.
+ */
+export const ReminderNotifications = () => {
+  const navigate = useNavigate();
+  useReminderNotifications();
+
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === NOTIFICATION_CLICK_MESSAGE && typeof event.data.url === "string") {
+        navigate(event.data.url);
+      }
+    };
+    navigator.serviceWorker.addEventListener("message", handleMessage);
+    return () => navigator.serviceWorker.removeEventListener("message", handleMessage);
+  }, [navigate]);
+
+  return null;
+};
@@ -0,0 +1,36 @@
+import { CloudOff, RefreshCw } from "lucide-react";
+import { useOfflineStatus } from "@/hooks/useOfflineStatus";
+import { cn } from "@/lib/utils";
+
+/**
+ * Header badge shown while offline or while changes made offline are still
+ * waiting to sync. Hidden otherwise.
+ */
+export const OfflineIndicator = () => {
+  const { online, pendingCount, syncing } = useOfflineStatus();
+  if (online && pendingCount === 0) return null;
+
+  const pending = `${pendingCount} change${pendingCount === 1 ? "" : "s"}`;
+
+  if (!online) {
+    return (
+      <div
+        role="status"
+        className="ml-auto flex items-center gap-2 rounded-full bg-destructive/10 px-3 py-1 text-xs font-medium text-destructive"
+      >
+        <CloudOff className="w-3.5 h-3.5" />
+        <span>Offline{pendingCount > 0 ? ` · ${pending} waiting to sync` : " · showing saved data"}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      role="status"
+      className="ml-auto flex items-center gap-2 rounded-full bg-muted px-3 py-1 text-xs font-medium text-muted-foreground"
+    >
+      <RefreshCw className={cn("w-3.5 h-3.5", syncing && "animate-spin")} />
+      <span>{syncing ? `Syncing ${pending}...` : `${pending} waiting to sync`}</span>
+    </div>
+  );
+};
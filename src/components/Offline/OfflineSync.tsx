@@ -0,0 +1,58 @@
+import { useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { replayOfflineQueue } from "@/lib/offlineSync";
+
+/**
+ * How often queued changes are retried while online, in case the browser
+ * reported the connection back before Supabase could be reached.
+ */
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Sends changes made offline once the connection is back and reports how it
+ * went. Renders nothing.
+ */
+export const OfflineSync = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const sync = async () => {
+      if (!navigator.onLine) return;
+      try {
+        const { applied, conflicts, failed } = await replayOfflineQueue(user.id);
+        const skipped = conflicts + failed;
+        if (skipped > 0) {
+          toast({
+            title: `${skipped} offline change${skipped === 1 ? " was" : "s were"} not saved`,
+            description:
+              conflicts > 0
+                ? "The same items were changed or deleted on another device, so those changes were kept."
+                : "Check the browser console for details.",
+            variant: "destructive",
+          });
+        } else if (applied > 0) {
+          toast({
+            title: "Offline changes synced",
+            description: `${applied} change${applied === 1 ? "" : "s"} made offline ${applied === 1 ? "has" : "have"} been saved.`,
+          });
+        }
+      } catch (error) {
+        console.error("Error syncing offline changes:", error);
+      }
+    };
+
+    sync();
+    window.addEventListener("online", sync);
+    const interval = window.setInterval(sync, RETRY_INTERVAL_MS);
+    return () => {
+      window.removeEventListener("online", sync);
+      window.clearInterval(interval);
+    };
+  }, [user, toast]);
+
+  return null;
+};
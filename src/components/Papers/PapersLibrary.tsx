@@ -0,0 +1,427 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useExams } from "@/hooks/useExams";
+import { useToast } from "@/hooks/use-toast";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Eye, FileText, Trash2, Upload } from "lucide-react";
+import { createSignedStorageUrl, triggerDownload } from "@/lib/storage";
+
+interface Paper {
+  id: string;
+  title: string;
+  year: number | null;
+  file_url: string;
+  file_name: string;
+  file_size: number | null;
+  exam_id: string | null;
+}
+
+const PAPERS_BUCKET = "papers";
+const ALL_YEARS = "all";
+const NO_YEAR = "none";
+const NO_EXAM = "none";
+
+const EMPTY_UPLOAD = { title: "", year: "", examId: NO_EXAM };
+
+/**
+ * Files that can be shown inside the preview dialog; everything else is
+ * offered as a download.
+ */
+const getPreviewKind = (fileName: string): "pdf" | "image" | null => {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".pdf")) return "pdf";
+  if (/\.(png|jpe?g|gif|webp)$/.test(lower)) return "image";
+  return null;
+};
+
+/**
+ * Previous-year papers for a subject, stored in the `papers` table and the
+ * private `papers` bucket. Papers can be filtered by year, previewed,
+ * downloaded and linked to one of the subject's exams so they show up as
+ * "papers to practice" on the datesheet.
+ */
+export const PapersLibrary = ({ subjectId }: { subjectId: string }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [papers, setPapers] = useState<Paper[]>([]);
+  const { data: allExams = [] } = useExams();
+  const exams = allExams.filter((exam) => exam.subject_id === subjectId);
+  const [loading, setLoading] = useState(true);
+  const [yearFilter, setYearFilter] = useState<string>(ALL_YEARS);
+  const [uploadOpen, setUploadOpen] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [upload, setUpload] = useState(EMPTY_UPLOAD);
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [previewPaper, setPreviewPaper] = useState<Paper | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user && subjectId) {
+      loadPapers();
+    }
+  }, [user, subjectId]);
+
+  /**
+   * Loads the subject's papers. Its exams, for the link selector, come from
+   * the cached exam list.
+   */
+  const loadPapers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("papers")
+        .select("id, title, year, file_url, file_name, file_size, exam_id")
+        .eq("subject_id", subjectId)
+        .order("year", { ascending: false, nullsFirst: false })
+        .order("title", { ascending: true });
+
+      if (error) throw error;
+      setPapers(data || []);
+    } catch (error) {
+      toast({
+        title: "Error loading papers",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Uploads the selected file into `<user>/<subject>/` in the papers bucket
+   * and stores the storage path in `file_url`; links are signed on demand.
+   */
+  const handleUpload = async () => {
+    if (!user || !uploadFile) return;
+
+    const year = upload.year.trim() ? parseInt(upload.year, 10) : null;
+    if (year !== null && (Number.isNaN(year) || year < 1900 || year > 2100)) {
+      toast({
+        title: "Invalid year",
+        description: "Enter a year such as 2024, or leave it empty.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUploading(true);
+    try {
+      // Prefix with a timestamp so papers with the same file name do not collide.
+      const path = `${user.id}/${subjectId}/${Date.now()}-${uploadFile.name}`;
+
+      const { data: uploadData, error: uploadError } = await supabase.storage
+        .from(PAPERS_BUCKET)
+        .upload(path, uploadFile, {
+          cacheControl: "3600",
+          upsert: false,
+        });
+
+      if (uploadError) throw uploadError;
+
+      const { data, error } = await supabase
+        .from("papers")
+        .insert({
+          user_id: user.id,
+          subject_id: subjectId,
+          title: upload.title.trim() || uploadFile.name.replace(/\.[^.]+$/, ""),
+          year,
+          exam_id: upload.examId === NO_EXAM ? null : upload.examId,
+          file_url: uploadData.path,
+          file_name: uploadFile.name,
+          file_size: uploadFile.size,
+        })
+        .select("id, title, year, file_url, file_name, file_size, exam_id")
+        .single();
+
+      if (error) {
+        await supabase.storage.from(PAPERS_BUCKET).remove([uploadData.path]);
+        throw error;
+      }
+
+      setPapers((prev) => [data, ...prev]);
+      setUpload(EMPTY_UPLOAD);
+      setUploadFile(null);
+      setUploadOpen(false);
+
+      toast({
+        title: "Paper uploaded",
+        description: "The paper has been added to this subject.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error uploading paper",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handlePreview = async (paper: Paper) => {
+    try {
+      const url = await createSignedStorageUrl(PAPERS_BUCKET, paper.file_url, 7200);
+      setPreviewPaper(paper);
+      setPreviewUrl(url);
+    } catch (error) {
+      toast({
+        title: "Error accessing file",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownload = async (paper: Paper) => {
+    try {
+      const url = await createSignedStorageUrl(PAPERS_BUCKET, paper.file_url);
+      triggerDownload(url, paper.file_name);
+    } catch (error) {
+      toast({
+        title: "Error accessing file",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleLinkExam = async (paper: Paper, examId: string) => {
+    const nextExamId = examId === NO_EXAM ? null : examId;
+    setPapers((prev) => prev.map((p) => (p.id === paper.id ? { ...p, exam_id: nextExamId } : p)));
+
+    const { error } = await supabase.from("papers").update({ exam_id: nextExamId }).eq("id", paper.id);
+    if (error) {
+      setPapers((prev) => prev.map((p) => (p.id === paper.id ? paper : p)));
+      toast({
+        title: "Error linking paper",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Deletes the paper row and its file. A failed storage delete is only
+   * logged so the paper still disappears from the library.
+   */
+  const handleDelete = async (paper: Paper) => {
+    try {
+      const { error } = await supabase.from("papers").delete().eq("id", paper.id);
+      if (error) throw error;
+
+      const { error: storageError } = await supabase.storage.from(PAPERS_BUCKET).remove([paper.file_url]);
+      if (storageError) {
+        console.error("Error deleting paper file:", storageError);
+      }
+
+      setPapers((prev) => prev.filter((p) => p.id !== paper.id));
+      toast({
+        title: "Paper deleted",
+        description: "The paper has been removed.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error deleting paper",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const years = Array.from(
+    new Set(papers.map((p) => p.year).filter((year): year is number => year !== null)),
+  ).sort((a, b) => b - a);
+  const hasUndatedPapers = papers.some((p) => p.year === null);
+
+  const visiblePapers = papers.filter((paper) => {
+    if (yearFilter === ALL_YEARS) return true;
+    if (yearFilter === NO_YEAR) return paper.year === null;
+    return paper.year === Number(yearFilter);
+  });
+
+  const examById = new Map(exams.map((exam) => [exam.id, exam]));
+  const previewKind = previewPaper ? getPreviewKind(previewPaper.file_name) : null;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <h2 className="text-3xl font-display font-bold">Previous-year papers</h2>
+        <div className="flex items-center gap-2">
+          <Select value={yearFilter} onValueChange={setYearFilter}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_YEARS}>All years</SelectItem>
+              {years.map((year) => (
+                <SelectItem key={year} value={String(year)}>
+                  {year}
+                </SelectItem>
+              ))}
+              {hasUndatedPapers && <SelectItem value={NO_YEAR}>No year</SelectItem>}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setUploadOpen(true)}>
+            <Upload className="w-4 h-4 mr-2" />
+            Upload paper
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="min-h-[120px] flex items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+        </div>
+      ) : visiblePapers.length === 0 ? (
+        <Card className="p-6 text-sm text-muted-foreground">
+          {papers.length === 0
+            ? "No papers uploaded for this subject yet."
+            : "No papers match the selected year."}
+        </Card>
+      ) : (
+        <Card className="divide-y">
+          {visiblePapers.map((paper) => (
+            <div key={paper.id} className="flex flex-col gap-3 p-4 md:flex-row md:items-center md:justify-between">
+              <div className="flex items-start gap-3 min-w-0">
+                <FileText className="w-5 h-5 text-primary mt-0.5 shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{paper.title}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {paper.year ?? "No year"} · {paper.file_name}
+                    {paper.file_size ? ` · ${(paper.file_size / 1024 / 1024).toFixed(1)} MB` : ""}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={paper.exam_id && examById.has(paper.exam_id) ? paper.exam_id : NO_EXAM}
+                  onValueChange={(value) => handleLinkExam(paper, value)}
+                >
+                  <SelectTrigger className="h-8 w-44 text-xs" title="Practice for exam">
+                    <SelectValue placeholder="Link to exam" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_EXAM}>Not linked to an exam</SelectItem>
+                    {exams.map((exam) => (
+                      <SelectItem key={exam.id} value={exam.id}>
+                        {exam.title} ({new Date(exam.exam_date).toLocaleDateString()})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="icon" onClick={() => handlePreview(paper)} title="Preview">
+                  <Eye className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleDownload(paper)} title="Download">
+                  <Download className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(paper)} title="Delete">
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </Card>
+      )}
+
+      {/* Upload Dialog */}
+      <Dialog open={uploadOpen} onOpenChange={setUploadOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Upload paper</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="paper-file">File</Label>
+              <Input
+                id="paper-file"
+                type="file"
+                accept=".pdf,.png,.jpg,.jpeg,.doc,.docx"
+                onChange={(e) => setUploadFile(e.target.files?.[0] || null)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="paper-title">Title (optional)</Label>
+              <Input
+                id="paper-title"
+                value={upload.title}
+                onChange={(e) => setUpload({ ...upload, title: e.target.value })}
+                placeholder="Defaults to the file name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="paper-year">Year</Label>
+                <Input
+                  id="paper-year"
+                  type="number"
+                  value={upload.year}
+                  onChange={(e) => setUpload({ ...upload, year: e.target.value })}
+                  placeholder="e.g., 2024"
+                />
+              </div>
+              <div>
+                <Label htmlFor="paper-exam">Practice for exam</Label>
+                <Select value={upload.examId} onValueChange={(value) => setUpload({ ...upload, examId: value })}>
+                  <SelectTrigger id="paper-exam">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_EXAM}>No exam</SelectItem>
+                    {exams.map((exam) => (
+                      <SelectItem key={exam.id} value={exam.id}>
+                        {exam.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Button onClick={handleUpload} className="w-full" disabled={uploading || !uploadFile}>
+              {uploading ? "Uploading..." : "Upload"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Preview Dialog */}
+      <Dialog
+        open={!!previewPaper}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPreviewPaper(null);
+            setPreviewUrl(null);
+          }
+        }}
+      >
+        <DialogContent className="max-w-5xl h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>{previewPaper?.title}</DialogTitle>
+          </DialogHeader>
+          {previewPaper && previewUrl && (
+            <div className="flex-1 min-h-0">
+              {previewKind === "pdf" ? (
+                <iframe src={previewUrl} className="w-full h-full border rounded" title={previewPaper.title} />
+              ) : previewKind === "image" ? (
+                <img src={previewUrl} alt={previewPaper.title} className="max-h-full mx-auto object-contain" />
+              ) : (
+                <div className="w-full h-full flex flex-col items-center justify-center border rounded bg-muted">
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Preview not available for this file type. Please download to view.
+                  </p>
+                  <Button onClick={() => handleDownload(previewPaper)}>Download</Button>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+};
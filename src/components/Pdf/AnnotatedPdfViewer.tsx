@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { MessageSquarePlus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { usePdfAnnotations } from "@/hooks/usePdfAnnotations";
+import { triggerDownload } from "@/lib/storage";
+import {
+  COMMENT_HIGHLIGHT_COLOR,
+  DEFAULT_HIGHLIGHT_COLOR,
+  HIGHLIGHT_COLORS,
+  buildHighlightsMarkdown,
+} from "@/lib/pdfAnnotations";
+import type { PdfTextSelection } from "@/lib/pdf";
+import { PdfViewer } from "@/components/Pdf/PdfViewer";
+import { PdfAnnotationsSidebar } from "@/components/Pdf/PdfAnnotationsSidebar";
+
+interface AnnotatedPdfViewerProps {
+  url: string;
+  noteId: string;
+  title: string;
+  initialPage?: number;
+}
+
+/**
+ * PDF reader for the owner of a note: selecting text offers highlight colours
+ * and a comment action, and the sidebar lists, edits and exports annotations.
+ */
+export const AnnotatedPdfViewer = ({ url, noteId, title, initialPage }: AnnotatedPdfViewerProps) => {
+  const { annotations, addAnnotation, updateComment, removeAnnotation } = usePdfAnnotations(noteId);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const highlights = annotations
+    .filter((annotation) => annotation.rects.length > 0)
+    .map((annotation) => ({
+      id: annotation.id,
+      pageNumber: annotation.page_number,
+      rects: annotation.rects,
+      className: (HIGHLIGHT_COLORS[annotation.color] || HIGHLIGHT_COLORS[DEFAULT_HIGHLIGHT_COLOR]).overlay,
+    }));
+
+  const handleHighlight = async (selection: PdfTextSelection, color: string, clear: () => void) => {
+    clear();
+    await addAnnotation({
+      page_number: selection.pageNumber,
+      kind: "highlight",
+      quote: selection.text,
+      rects: selection.rects,
+      color,
+    });
+  };
+
+  /**
+   * Saves the selection as a comment right away so its highlight shows, then
+   * opens it in the sidebar for the comment text.
+   */
+  const handleComment = async (selection: PdfTextSelection, clear: () => void) => {
+    clear();
+    const saved = await addAnnotation({
+      page_number: selection.pageNumber,
+      kind: "comment",
+      quote: selection.text,
+      rects: selection.rects,
+      color: COMMENT_HIGHLIGHT_COLOR,
+    });
+    if (saved) setEditingId(saved.id);
+  };
+
+  const handleToggleBookmark = async (pageNumber: number) => {
+    const existing = annotations.find(
+      (annotation) => annotation.kind === "bookmark" && annotation.page_number === pageNumber,
+    );
+    if (existing) {
+      await removeAnnotation(existing.id);
+    } else {
+      await addAnnotation({ page_number: pageNumber, kind: "bookmark" });
+    }
+  };
+
+  const handleExport = () => {
+    const markdown = buildHighlightsMarkdown(title, annotations);
+    const url = URL.createObjectURL(new Blob([markdown], { type: "text/markdown" }));
+    const baseName = title.replace(/\.pdf$/i, "").replace(/[^\w-]+/g, "-") || "notes";
+    triggerDownload(url, `${baseName}-highlights.md`);
+    window.setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <PdfViewer
+      url={url}
+      documentKey={noteId}
+      initialPage={initialPage}
+      highlights={highlights}
+      renderSelectionActions={(selection, clear) => (
+        <>
+          {Object.entries(HIGHLIGHT_COLORS).map(([color, { label, swatch }]) => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => handleHighlight(selection, color, clear)}
+              className={cn("w-5 h-5 rounded-full border", swatch)}
+              title={`Highlight ${label.toLowerCase()}`}
+            />
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2"
+            onClick={() => handleComment(selection, clear)}
+          >
+            <MessageSquarePlus className="w-4 h-4 mr-1" />
+            Comment
+          </Button>
+        </>
+      )}
+      renderSidebar={(controls) => (
+        <PdfAnnotationsSidebar
+          annotations={annotations}
+          controls={controls}
+          editingId={editingId}
+          onEditingChange={setEditingId}
+          onUpdateComment={updateComment}
+          onDelete={removeAnnotation}
+          onAddPageComment={(pageNumber, comment) =>
+            addAnnotation({ page_number: pageNumber, kind: "comment", comment, color: COMMENT_HIGHLIGHT_COLOR })
+          }
+          onToggleBookmark={handleToggleBookmark}
+          onExport={handleExport}
+        />
+      )}
+    />
+  );
+};
@@ -0,0 +1,247 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Bookmark,
+  BookmarkCheck,
+  FileDown,
+  Highlighter,
+  MessageSquare,
+  MessageSquarePlus,
+  Pencil,
+  Trash2,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { HIGHLIGHT_COLORS, type PdfAnnotation, type PdfAnnotationKind } from "@/lib/pdfAnnotations";
+import type { PdfViewerControls } from "@/components/Pdf/PdfViewer";
+
+type AnnotationFilter = "all" | PdfAnnotationKind;
+
+const FILTER_LABELS: Record<AnnotationFilter, string> = {
+  all: "All",
+  highlight: "Highlights",
+  comment: "Comments",
+  bookmark: "Bookmarks",
+};
+
+const KIND_ICONS: Record<PdfAnnotationKind, typeof Highlighter> = {
+  highlight: Highlighter,
+  comment: MessageSquare,
+  bookmark: Bookmark,
+};
+
+interface PdfAnnotationsSidebarProps {
+  annotations: PdfAnnotation[];
+  controls: PdfViewerControls;
+  /** Annotation whose comment is being edited, controlled by the parent so a new comment opens in edit mode. */
+  editingId: string | null;
+  onEditingChange: (id: string | null) => void;
+  onUpdateComment: (id: string, comment: string) => void;
+  onDelete: (id: string) => void;
+  onAddPageComment: (pageNumber: number, comment: string) => void;
+  onToggleBookmark: (pageNumber: number) => void;
+  onExport: () => void;
+}
+
+/**
+ * Lists a PDF's highlights, comments and bookmarks grouped by page. Clicking
+ * an entry jumps to its page; comments can be edited inline.
+ */
+export const PdfAnnotationsSidebar = ({
+  annotations,
+  controls,
+  editingId,
+  onEditingChange,
+  onUpdateComment,
+  onDelete,
+  onAddPageComment,
+  onToggleBookmark,
+  onExport,
+}: PdfAnnotationsSidebarProps) => {
+  const [filter, setFilter] = useState<AnnotationFilter>("all");
+  const [draft, setDraft] = useState("");
+  const [pageCommentOpen, setPageCommentOpen] = useState(false);
+  const [pageCommentDraft, setPageCommentDraft] = useState("");
+
+  useEffect(() => {
+    const editing = annotations.find((annotation) => annotation.id === editingId);
+    setDraft(editing?.comment || "");
+  }, [editingId]);
+
+  const { pageNumber, goToPage } = controls;
+  const isBookmarked = annotations.some(
+    (annotation) => annotation.kind === "bookmark" && annotation.page_number === pageNumber,
+  );
+  const visible = annotations.filter((annotation) => filter === "all" || annotation.kind === filter);
+  const pages = Array.from(new Set(visible.map((annotation) => annotation.page_number)));
+
+  const handleSaveComment = (id: string) => {
+    onUpdateComment(id, draft.trim());
+    onEditingChange(null);
+  };
+
+  const handleAddPageComment = () => {
+    if (!pageCommentDraft.trim()) return;
+    onAddPageComment(pageNumber, pageCommentDraft.trim());
+    setPageCommentDraft("");
+    setPageCommentOpen(false);
+  };
+
+  return (
+    <div className="hidden md:flex w-72 shrink-0 flex-col border-l bg-background">
+      <div className="flex items-center gap-1 p-2 border-b">
+        <span className="text-sm font-medium mr-auto">Annotations ({annotations.length})</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onToggleBookmark(pageNumber)}
+          title={isBookmarked ? "Remove bookmark" : "Bookmark this page"}
+        >
+          {isBookmarked ? <BookmarkCheck className="w-4 h-4 text-primary" /> : <Bookmark className="w-4 h-4" />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setPageCommentOpen(!pageCommentOpen)}
+          title="Comment on this page"
+        >
+          <MessageSquarePlus className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={onExport} title="Export highlights as Markdown">
+          <FileDown className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-1 p-2 border-b">
+        {(Object.keys(FILTER_LABELS) as AnnotationFilter[]).map((key) => (
+          <Button
+            key={key}
+            variant={filter === key ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => setFilter(key)}
+          >
+            {FILTER_LABELS[key]}
+          </Button>
+        ))}
+      </div>
+
+      {pageCommentOpen && (
+        <div className="p-2 border-b space-y-2">
+          <p className="text-xs text-muted-foreground">Comment on page {pageNumber}</p>
+          <Textarea
+            value={pageCommentDraft}
+            onChange={(e) => setPageCommentDraft(e.target.value)}
+            placeholder="Write a comment..."
+            className="min-h-[80px] text-sm"
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setPageCommentOpen(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleAddPageComment} disabled={!pageCommentDraft.trim()}>
+              Add
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {pages.length === 0 ? (
+          <p className="p-4 text-sm text-muted-foreground">
+            Select text on the page to highlight or comment on it, or bookmark pages to come back to.
+          </p>
+        ) : (
+          pages.map((page) => (
+            <div key={page} className={cn("border-b", page === pageNumber && "bg-muted/50")}>
+              <button
+                type="button"
+                onClick={() => goToPage(page)}
+                className="w-full text-left px-3 pt-2 text-xs font-medium text-muted-foreground hover:text-foreground"
+              >
+                Page {page}
+              </button>
+              {visible
+                .filter((annotation) => annotation.page_number === page)
+                .map((annotation) => {
+                  const Icon = KIND_ICONS[annotation.kind];
+                  return (
+                    <div key={annotation.id} className="group px-3 py-2 space-y-1">
+                      <div className="flex items-start gap-2">
+                        <Icon className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+                        {annotation.kind !== "bookmark" && (
+                          <span
+                            className={cn(
+                              "w-2 self-stretch shrink-0 rounded-sm",
+                              HIGHLIGHT_COLORS[annotation.color]?.swatch,
+                            )}
+                          />
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => goToPage(annotation.page_number)}
+                          className="flex-1 min-w-0 text-left text-sm"
+                        >
+                          {annotation.quote && <p className="italic line-clamp-3">“{annotation.quote}”</p>}
+                          {annotation.comment && editingId !== annotation.id && (
+                            <p className={cn("whitespace-pre-wrap", annotation.quote && "mt-1 text-muted-foreground")}>
+                              {annotation.comment}
+                            </p>
+                          )}
+                          {annotation.kind === "bookmark" && !annotation.comment && (
+                            <p className="text-muted-foreground">Bookmarked</p>
+                          )}
+                        </button>
+                        <div className="flex shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                          {annotation.kind !== "bookmark" && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6"
+                              onClick={() => onEditingChange(annotation.id)}
+                              title="Edit comment"
+                            >
+                              <Pencil className="w-3 h-3" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => onDelete(annotation.id)}
+                            title="Delete"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      </div>
+                      {editingId === annotation.id && (
+                        <div className="space-y-2">
+                          <Textarea
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            placeholder="Write a comment..."
+                            className="min-h-[80px] text-sm"
+                            autoFocus
+                          />
+                          <div className="flex justify-end gap-2">
+                            <Button variant="ghost" size="sm" onClick={() => onEditingChange(null)}>
+                              Cancel
+                            </Button>
+                            <Button size="sm" onClick={() => handleSaveComment(annotation.id)}>
+                              Save
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
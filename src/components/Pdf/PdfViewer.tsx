@@ -0,0 +1,604 @@
+import { CSSProperties, FormEvent, ReactNode, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  Loader2,
+  Maximize2,
+  PanelLeft,
+  Search,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  extractPdfText,
+  getLastPdfPage,
+  getPageTextItems,
+  loadPdfDocument,
+  renderPdfTextLayer,
+  setLastPdfPage,
+  type PdfRect,
+  type PdfTextSelection,
+  type PDFDocumentProxy,
+  type RenderTask,
+  type TextLayer,
+} from "@/lib/pdf";
+
+/** A saved highlight drawn over its page. */
+export interface PdfViewerHighlight {
+  id: string;
+  pageNumber: number;
+  rects: PdfRect[];
+  /** Background class for the highlight boxes. */
+  className: string;
+}
+
+export interface PdfViewerControls {
+  pageNumber: number;
+  numPages: number;
+  goToPage: (page: number) => void;
+}
+
+interface PdfViewerProps {
+  url: string;
+  /** Key used to remember the last page read, usually the note id. */
+  documentKey?: string;
+  /** Page to open at instead of the remembered one. */
+  initialPage?: number;
+  className?: string;
+  highlights?: PdfViewerHighlight[];
+  /**
+   * Actions shown next to a text selection (e.g. highlight or comment).
+   * `clear` removes the selection once an action has been taken.
+   */
+  renderSelectionActions?: (selection: PdfTextSelection, clear: () => void) => ReactNode;
+  /** Panel rendered to the right of the page, e.g. an annotations list. */
+  renderSidebar?: (controls: PdfViewerControls) => ReactNode;
+}
+
+/** Text selection with the point (in page pixels) where its actions appear. */
+interface PendingSelection extends PdfTextSelection {
+  anchor: { left: number; top: number };
+}
+
+interface HighlightRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+const SCALE_STEP = 0.25;
+/** Width the thumbnails are rendered at, in CSS pixels. */
+const THUMBNAIL_WIDTH = 112;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+interface PdfThumbnailProps {
+  doc: PDFDocumentProxy;
+  pageNumber: number;
+  active: boolean;
+  onSelect: (pageNumber: number) => void;
+}
+
+/**
+ * Page thumbnail that only renders once it scrolls into view, so opening a
+ * long document does not render every page up front.
+ */
+const PdfThumbnail = ({ doc, pageNumber, active, onSelect }: PdfThumbnailProps) => {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    const element = buttonRef.current;
+    if (!element) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        setVisible(true);
+        observer.disconnect();
+      }
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    const render = async () => {
+      const page = await doc.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+
+      const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width });
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      renderTask = page.render({ canvas, viewport });
+      await renderTask.promise;
+    };
+
+    render().catch((error) => {
+      if (!cancelled) console.error("Error rendering PDF thumbnail:", error);
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [visible, doc, pageNumber]);
+
+  useEffect(() => {
+    if (active) {
+      buttonRef.current?.scrollIntoView({ block: "nearest" });
+    }
+  }, [active]);
+
+  return (
+    <button
+      ref={buttonRef}
+      type="button"
+      onClick={() => onSelect(pageNumber)}
+      className={cn(
+        "w-full flex flex-col items-center gap-1 p-2 rounded hover:bg-muted",
+        active && "bg-muted",
+      )}
+    >
+      <canvas
+        ref={canvasRef}
+        className={cn("border bg-white", active && "ring-2 ring-primary")}
+        style={{ width: THUMBNAIL_WIDTH, minHeight: visible ? undefined : THUMBNAIL_WIDTH * 1.3 }}
+      />
+      <span className="text-xs text-muted-foreground">{pageNumber}</span>
+    </button>
+  );
+};
+
+/**
+ * In-app PDF reader built on pdf.js: page thumbnails, zoom, text search with
+ * highlighted matches, and the last page read remembered per document.
+ */
+export const PdfViewer = ({
+  url,
+  documentKey,
+  initialPage,
+  className,
+  highlights = [],
+  renderSelectionActions,
+  renderSidebar,
+}: PdfViewerProps) => {
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [pageInput, setPageInput] = useState("1");
+  const [scale, setScale] = useState(1);
+  const [showThumbnails, setShowThumbnails] = useState(true);
+  const [rendering, setRendering] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [activeQuery, setActiveQuery] = useState("");
+  const [matchPages, setMatchPages] = useState<number[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searchHighlights, setSearchHighlights] = useState<HighlightRect[]>([]);
+  const [selection, setSelection] = useState<PendingSelection | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  /** Extracted text per page, filled on the first search. */
+  const pageTextsRef = useRef<string[] | null>(null);
+
+  /**
+   * Scale at which the page fills the width of the reading area.
+   */
+  const getFitWidthScale = async (pdf: PDFDocumentProxy, page: number) => {
+    const container = containerRef.current;
+    if (!container) return 1;
+    const pdfPage = await pdf.getPage(page);
+    const pageWidth = pdfPage.getViewport({ scale: 1 }).width;
+    return clampScale((container.clientWidth - 32) / pageWidth);
+  };
+
+  useEffect(() => {
+    const loadingTask = loadPdfDocument(url);
+    setDoc(null);
+    setLoadError(null);
+    setMatchPages([]);
+    setActiveQuery("");
+    setSearchHighlights([]);
+    pageTextsRef.current = null;
+
+    loadingTask.promise
+      .then(async (pdf) => {
+        const requestedPage = initialPage ?? (documentKey ? getLastPdfPage(documentKey) : null);
+        const startPage = requestedPage && requestedPage <= pdf.numPages ? requestedPage : 1;
+        setScale(await getFitWidthScale(pdf, startPage));
+        setPageNumber(startPage);
+        setDoc(pdf);
+      })
+      .catch((error) => {
+        console.error("Error loading PDF:", error);
+        setLoadError((error as Error).message);
+      });
+
+    return () => {
+      loadingTask.destroy();
+    };
+  }, [url]);
+
+  useEffect(() => {
+    setPageInput(String(pageNumber));
+    if (doc && documentKey) {
+      setLastPdfPage(documentKey, pageNumber);
+    }
+  }, [pageNumber, doc]);
+
+  /**
+   * Renders the current page at the current zoom (sharp on high-DPI screens)
+   * with its selectable text layer, and computes highlight boxes for the
+   * active search query.
+   */
+  useEffect(() => {
+    if (!doc) return;
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayer | null = null;
+    setSelection(null);
+
+    const render = async () => {
+      setRendering(true);
+      const page = await doc.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+
+      const viewport = page.getViewport({ scale });
+      const outputScale = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+      renderTask = page.render({
+        canvas,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+      });
+      await renderTask.promise;
+      if (cancelled) return;
+
+      if (textLayerRef.current) {
+        const layer = renderPdfTextLayer(page, viewport, textLayerRef.current);
+        textLayer = layer.textLayer;
+        await layer.promise;
+        if (cancelled) return;
+      }
+
+      if (!activeQuery) {
+        setSearchHighlights([]);
+        return;
+      }
+
+      const query = activeQuery.toLowerCase();
+      const items = await getPageTextItems(page);
+      if (cancelled) return;
+      setSearchHighlights(
+        items
+          .filter((item) => item.str.toLowerCase().includes(query))
+          .map((item) => {
+            const [x, y] = [item.transform[4], item.transform[5]];
+            const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([x, y, x + item.width, y + item.height]);
+            return {
+              left: Math.min(x1, x2),
+              top: Math.min(y1, y2),
+              width: Math.abs(x2 - x1),
+              height: Math.abs(y2 - y1),
+            };
+          }),
+      );
+    };
+
+    render()
+      .catch((error) => {
+        if (!cancelled && (error as Error).name !== "RenderingCancelledException") {
+          console.error("Error rendering PDF page:", error);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setRendering(false);
+      });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+    };
+  }, [doc, pageNumber, scale, activeQuery]);
+
+  const clearSelection = () => {
+    window.getSelection()?.removeAllRanges();
+    setSelection(null);
+  };
+
+  /**
+   * Captures a text selection on the page as rects relative to the page size,
+   * so the caller can store it and it lines up again at any zoom.
+   */
+  const handlePageMouseUp = () => {
+    if (!renderSelectionActions) return;
+    const pageElement = pageRef.current;
+    const current = window.getSelection();
+    const text = current?.toString().trim();
+    if (!pageElement || !current || current.rangeCount === 0 || !text) {
+      setSelection(null);
+      return;
+    }
+
+    const range = current.getRangeAt(0);
+    if (!pageElement.contains(range.commonAncestorContainer)) {
+      setSelection(null);
+      return;
+    }
+
+    const bounds = pageElement.getBoundingClientRect();
+    const clientRects = Array.from(range.getClientRects()).filter((rect) => rect.width > 1 && rect.height > 1);
+    if (clientRects.length === 0) return;
+
+    const last = clientRects[clientRects.length - 1];
+    setSelection({
+      pageNumber,
+      text,
+      rects: clientRects.map((rect) => ({
+        x: (rect.left - bounds.left) / bounds.width,
+        y: (rect.top - bounds.top) / bounds.height,
+        width: rect.width / bounds.width,
+        height: rect.height / bounds.height,
+      })),
+      anchor: { left: last.right - bounds.left, top: last.bottom - bounds.top },
+    });
+  };
+
+  const goToPage = (page: number) => {
+    if (!doc) return;
+    setPageNumber(Math.min(doc.numPages, Math.max(1, page)));
+  };
+
+  const handlePageInputSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const page = parseInt(pageInput, 10);
+    if (Number.isNaN(page)) {
+      setPageInput(String(pageNumber));
+      return;
+    }
+    goToPage(page);
+  };
+
+  const handleFitWidth = async () => {
+    if (!doc) return;
+    setScale(await getFitWidthScale(doc, pageNumber));
+  };
+
+  /**
+   * Searches the whole document. Text is extracted once and cached; the
+   * viewer then jumps to the first matching page at or after the current one.
+   */
+  const handleSearch = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!doc) return;
+
+    const query = searchQuery.trim();
+    setActiveQuery(query);
+    if (!query) {
+      setMatchPages([]);
+      return;
+    }
+
+    setSearching(true);
+    try {
+      if (!pageTextsRef.current) {
+        pageTextsRef.current = await extractPdfText(doc);
+      }
+      const needle = query.toLowerCase();
+      const pages = pageTextsRef.current
+        .map((text, index) => (text.toLowerCase().includes(needle) ? index + 1 : null))
+        .filter((page): page is number => page !== null);
+
+      setMatchPages(pages);
+      if (pages.length > 0 && !pages.includes(pageNumber)) {
+        goToPage(pages.find((page) => page > pageNumber) ?? pages[0]);
+      }
+    } catch (error) {
+      console.error("Error searching PDF:", error);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const goToMatch = (direction: 1 | -1) => {
+    if (matchPages.length === 0) return;
+    const next =
+      direction === 1
+        ? matchPages.find((page) => page > pageNumber) ?? matchPages[0]
+        : [...matchPages].reverse().find((page) => page < pageNumber) ?? matchPages[matchPages.length - 1];
+    goToPage(next);
+  };
+
+  if (loadError) {
+    return (
+      <div className={cn("flex items-center justify-center h-full text-sm text-muted-foreground", className)}>
+        Could not load this PDF: {loadError}
+      </div>
+    );
+  }
+
+  const matchIndex = matchPages.indexOf(pageNumber);
+
+  return (
+    <div className={cn("flex flex-col h-full border rounded overflow-hidden", className)}>
+      <div className="flex flex-wrap items-center gap-2 p-2 border-b bg-background">
+        <Button
+          variant={showThumbnails ? "secondary" : "ghost"}
+          size="icon"
+          onClick={() => setShowThumbnails(!showThumbnails)}
+          title="Toggle thumbnails"
+        >
+          <PanelLeft className="w-4 h-4" />
+        </Button>
+
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" onClick={() => goToPage(pageNumber - 1)} disabled={!doc || pageNumber <= 1}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <form onSubmit={handlePageInputSubmit} className="flex items-center gap-1 text-sm">
+            <Input
+              value={pageInput}
+              onChange={(e) => setPageInput(e.target.value)}
+              onBlur={handlePageInputSubmit}
+              className="h-8 w-12 text-center px-1"
+              disabled={!doc}
+            />
+            <span className="text-muted-foreground whitespace-nowrap">/ {doc?.numPages ?? "–"}</span>
+          </form>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => goToPage(pageNumber + 1)}
+            disabled={!doc || pageNumber >= doc.numPages}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setScale(clampScale(scale - SCALE_STEP))}
+            disabled={!doc || scale <= MIN_SCALE}
+            title="Zoom out"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+          <span className="text-sm w-12 text-center">{Math.round(scale * 100)}%</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setScale(clampScale(scale + SCALE_STEP))}
+            disabled={!doc || scale >= MAX_SCALE}
+            title="Zoom in"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={handleFitWidth} disabled={!doc} title="Fit width">
+            <Maximize2 className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <form onSubmit={handleSearch} className="flex items-center gap-1 ml-auto">
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search in PDF"
+              className="h-8 w-44 pl-8"
+              disabled={!doc}
+            />
+          </div>
+          {searching ? (
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          ) : (
+            activeQuery && (
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {matchPages.length === 0
+                  ? "No matches"
+                  : `${matchIndex >= 0 ? `${matchIndex + 1} of ` : ""}${matchPages.length} page${matchPages.length === 1 ? "" : "s"}`}
+              </span>
+            )
+          )}
+          <Button type="button" variant="ghost" size="icon" onClick={() => goToMatch(-1)} disabled={matchPages.length === 0}>
+            <ChevronUp className="w-4 h-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" onClick={() => goToMatch(1)} disabled={matchPages.length === 0}>
+            <ChevronDown className="w-4 h-4" />
+          </Button>
+        </form>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {showThumbnails && doc && (
+          <div className="hidden md:block w-36 shrink-0 overflow-y-auto border-r bg-background">
+            {Array.from({ length: doc.numPages }, (_, index) => (
+              <PdfThumbnail
+                key={index + 1}
+                doc={doc}
+                pageNumber={index + 1}
+                active={index + 1 === pageNumber}
+                onSelect={goToPage}
+              />
+            ))}
+          </div>
+        )}
+
+        <div ref={containerRef} className="flex-1 overflow-auto bg-muted p-4">
+          {!doc ? (
+            <div className="flex items-center justify-center h-full">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div
+              ref={pageRef}
+              className="relative w-fit mx-auto shadow"
+              style={{ "--total-scale-factor": scale } as CSSProperties}
+              onMouseUp={handlePageMouseUp}
+            >
+              <canvas ref={canvasRef} className={cn("block bg-white", rendering && "opacity-80")} />
+              {highlights
+                .filter((highlight) => highlight.pageNumber === pageNumber)
+                .flatMap((highlight) =>
+                  highlight.rects.map((rect, index) => (
+                    <div
+                      key={`${highlight.id}-${index}`}
+                      className={cn("absolute pointer-events-none mix-blend-multiply", highlight.className)}
+                      style={{
+                        left: `${rect.x * 100}%`,
+                        top: `${rect.y * 100}%`,
+                        width: `${rect.width * 100}%`,
+                        height: `${rect.height * 100}%`,
+                      }}
+                    />
+                  )),
+                )}
+              {searchHighlights.map((rect, index) => (
+                <div
+                  key={index}
+                  className="absolute bg-orange-400/40 pointer-events-none"
+                  style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+                />
+              ))}
+              <div ref={textLayerRef} className="textLayer" />
+              {selection && renderSelectionActions && (
+                <div
+                  className="absolute z-10 flex items-center gap-1 rounded-md border bg-popover p-1 shadow-md"
+                  style={{ left: selection.anchor.left, top: selection.anchor.top + 4 }}
+                  onMouseUp={(e) => e.stopPropagation()}
+                >
+                  {renderSelectionActions(selection, clearSelection)}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {doc && renderSidebar?.({ pageNumber, numPages: doc.numPages, goToPage })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { AlertTriangle, Hourglass } from "lucide-react";
+import type { StudyPlanItem, UpcomingExam } from "@/hooks/useStudyPlan";
+import { formatCountdown } from "@/lib/dates";
+
+interface ExamCountdownsProps {
+  exams: UpcomingExam[];
+  items: StudyPlanItem[];
+  /** Blocks that did not fit before each exam, keyed by exam id. */
+  unscheduled: Record<string, number>;
+}
+
+/**
+ * Live countdowns to upcoming exams, each with how much of its planned study
+ * is done.
+ */
+export const ExamCountdowns = ({ exams, items, unscheduled }: ExamCountdownsProps) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const upcoming = exams.filter((exam) => new Date(exam.exam_date) > now);
+
+  return (
+    <Card className="p-4">
+      <h2 className="text-sm font-semibold mb-3 flex items-center gap-2">
+        <Hourglass className="w-4 h-4 text-primary" />
+        Exam countdowns
+      </h2>
+      {upcoming.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No upcoming exams. Add them on the Datesheet page.</p>
+      ) : (
+        <ul className="space-y-3">
+          {upcoming.map((exam) => {
+            const examItems = items.filter((item) => item.exam_id === exam.id);
+            const done = examItems.filter((item) => item.status === "done").length;
+            const percent = examItems.length > 0 ? Math.round((done / examItems.length) * 100) : 0;
+            const missing = unscheduled[exam.id] ?? 0;
+
+            return (
+              <li key={exam.id} className="space-y-1">
+                <div className="flex items-center justify-between gap-3 text-sm">
+                  <span className="flex items-center gap-2 min-w-0">
+                    <span
+                      className="w-2 h-2 rounded-full shrink-0"
+                      style={{ backgroundColor: exam.subject_color || "hsl(var(--primary))" }}
+                    />
+                    <span className="truncate">
+                      {exam.title}
+                      {exam.subject_name ? ` · ${exam.subject_name}` : ""}
+                    </span>
+                  </span>
+                  <span className="font-mono text-xs tabular-nums shrink-0">{formatCountdown(exam.exam_date, now)}</span>
+                </div>
+                {examItems.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Progress value={percent} className="h-1.5" />
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {done}/{examItems.length} blocks
+                    </span>
+                  </div>
+                )}
+                {missing > 0 && (
+                  <p className="text-xs text-destructive flex items-center gap-1">
+                    <AlertTriangle className="w-3 h-3" />
+                    {missing} block{missing === 1 ? "" : "s"} didn't fit before this exam. Raise your daily budget to
+                    cover everything.
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Card>
+  );
+};
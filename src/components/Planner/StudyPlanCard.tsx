@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, Sparkles } from "lucide-react";
+import type { PlanProgress } from "@/lib/studyPlan";
+
+interface StudyPlanCardProps {
+  dailyMinutes: number;
+  onDailyMinutesChange: (minutes: number) => Promise<void>;
+  progress: PlanProgress;
+  hasPlan: boolean;
+  generating: boolean;
+  /** Generates the plan with the given daily budget. */
+  onGenerate: (dailyMinutes: number) => void;
+  disabled?: boolean;
+}
+
+const MIN_DAILY_MINUTES = 15;
+const MAX_DAILY_MINUTES = 960;
+
+/**
+ * Planner controls: the daily study budget, (re)generating the plan and
+ * overall progress against it.
+ */
+export const StudyPlanCard = ({
+  dailyMinutes,
+  onDailyMinutesChange,
+  progress,
+  hasPlan,
+  generating,
+  onGenerate,
+  disabled,
+}: StudyPlanCardProps) => {
+  const [budget, setBudget] = useState(String(dailyMinutes));
+
+  useEffect(() => {
+    setBudget(String(dailyMinutes));
+  }, [dailyMinutes]);
+
+  const parsedBudget = parseInt(budget, 10);
+  const budgetValid =
+    Number.isInteger(parsedBudget) && parsedBudget >= MIN_DAILY_MINUTES && parsedBudget <= MAX_DAILY_MINUTES;
+
+  const handleGenerate = async () => {
+    if (!budgetValid) return;
+    if (parsedBudget !== dailyMinutes) {
+      await onDailyMinutesChange(parsedBudget);
+    }
+    onGenerate(parsedBudget);
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div>
+        <h2 className="text-sm font-semibold">Study plan</h2>
+        <p className="text-xs text-muted-foreground">
+          Spreads the topics of your upcoming exams over the days before them, within your daily budget. Missed days
+          are re-planned automatically.
+        </p>
+      </div>
+
+      <div className="flex items-end gap-2">
+        <div className="space-y-1 flex-1">
+          <Label htmlFor="plan-daily-minutes">Daily study budget (minutes)</Label>
+          <Input
+            id="plan-daily-minutes"
+            type="number"
+            min={MIN_DAILY_MINUTES}
+            max={MAX_DAILY_MINUTES}
+            step={15}
+            value={budget}
+            onChange={(e) => setBudget(e.target.value)}
+          />
+        </div>
+        <Button onClick={handleGenerate} disabled={disabled || generating || !budgetValid}>
+          {generating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+          {hasPlan ? "Re-plan" : "Generate plan"}
+        </Button>
+      </div>
+      {!budgetValid && (
+        <p className="text-xs text-destructive">
+          The budget must be between {MIN_DAILY_MINUTES} and {MAX_DAILY_MINUTES} minutes.
+        </p>
+      )}
+
+      {hasPlan && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Progress against plan</span>
+            <span>
+              {progress.done}/{progress.due} blocks done
+              {progress.missed > 0 && ` · ${progress.missed} missed`}
+            </span>
+          </div>
+          <Progress value={progress.percent} className="h-2" />
+        </div>
+      )}
+    </Card>
+  );
+};
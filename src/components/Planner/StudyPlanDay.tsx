@@ -0,0 +1,67 @@
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import type { StudyPlanItem } from "@/hooks/useStudyPlan";
+
+interface StudyPlanDayProps {
+  items: StudyPlanItem[];
+  /** Minutes actually studied on the day (Pomodoro and stopwatch). */
+  studiedMinutes: number;
+  onToggle: (item: StudyPlanItem) => void;
+}
+
+/**
+ * The plan for one day: its study blocks with check-offs, and planned versus
+ * studied minutes.
+ */
+export const StudyPlanDay = ({ items, studiedMinutes, onToggle }: StudyPlanDayProps) => {
+  const plannedMinutes = items.reduce((sum, item) => sum + item.minutes, 0);
+  const doneMinutes = items.filter((item) => item.status === "done").reduce((sum, item) => sum + item.minutes, 0);
+
+  return (
+    <Card className="p-4">
+      <h2 className="text-sm font-semibold mb-2">Planned study</h2>
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing planned for this day.</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>
+                {doneMinutes} of {plannedMinutes} planned minutes done
+              </span>
+              <span>{studiedMinutes} min studied</span>
+            </div>
+            <Progress value={plannedMinutes > 0 ? (doneMinutes / plannedMinutes) * 100 : 0} className="h-1.5" />
+          </div>
+          <ul className="space-y-2 text-sm">
+            {items.map((item) => (
+              <li key={item.id} className="flex items-center gap-3">
+                <Checkbox
+                  id={`plan-item-${item.id}`}
+                  checked={item.status === "done"}
+                  onCheckedChange={() => onToggle(item)}
+                />
+                <label
+                  htmlFor={`plan-item-${item.id}`}
+                  className={cn(
+                    "flex-1 min-w-0 cursor-pointer",
+                    item.status === "done" && "line-through text-muted-foreground",
+                  )}
+                >
+                  <span className="font-medium">{item.topic_name || "Topic"}</span>
+                  {item.exam_title && <span className="text-muted-foreground"> · for {item.exam_title}</span>}
+                </label>
+                {item.status === "missed" && <Badge variant="destructive">Missed</Badge>}
+                <Badge variant="secondary">{item.kind === "learn" ? "Learn" : "Revise"}</Badge>
+                <span className="text-xs text-muted-foreground w-12 text-right">{item.minutes} min</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Card>
+  );
+};
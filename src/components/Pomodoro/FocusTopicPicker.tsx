@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { useSubjects } from "@/hooks/useSubjects";
+import { useUserTopics } from "@/hooks/useTopics";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const NO_SELECTION = "none";
+
+interface FocusTopicPickerProps {
+  topicId: string | null;
+  onChange: (topicId: string | null) => void;
+}
+
+/**
+ * Subject → topic selector shown above the Pomodoro timer. The chosen topic
+ * is written to `study_sessions.topic_id` for every session started with it.
+ */
+export const FocusTopicPicker = ({ topicId, onChange }: FocusTopicPickerProps) => {
+  const { data: subjects = [] } = useSubjects();
+  const { data: topics = [], isSuccess, isFetching } = useUserTopics();
+  const [subjectId, setSubjectId] = useState<string>(NO_SELECTION);
+
+  /**
+   * Keeps the subject select in step with the selected topic, e.g. when the
+   * page is opened from a topic's "Start focus session" action.
+   */
+  useEffect(() => {
+    if (!topicId) return;
+    const topic = topics.find((t) => t.id === topicId);
+    if (topic) {
+      setSubjectId(topic.subject_id);
+    }
+  }, [topicId, topics]);
+
+  // Drop a remembered topic that has since been deleted. Waits for any
+  // refetch, so a topic created a moment ago is not mistaken for a deleted one.
+  const topicsUpToDate = isSuccess && !isFetching;
+  useEffect(() => {
+    if (topicsUpToDate && topicId && !topics.some((t) => t.id === topicId)) {
+      onChange(null);
+    }
+  }, [topicsUpToDate, topicId, topics]);
+
+  const topicsForSubject = topics.filter((t) => t.subject_id === subjectId);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-left">
+      <div className="space-y-1">
+        <Label htmlFor="focus-subject">Subject</Label>
+        <Select
+          value={subjectId}
+          onValueChange={(value) => {
+            setSubjectId(value);
+            onChange(null);
+          }}
+        >
+          <SelectTrigger id="focus-subject">
+            <SelectValue placeholder="No subject" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_SELECTION}>No subject</SelectItem>
+            {subjects.map((subject) => (
+              <SelectItem key={subject.id} value={subject.id}>
+                {subject.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="focus-topic">Topic</Label>
+        <Select
+          value={topicId ?? NO_SELECTION}
+          onValueChange={(value) => onChange(value === NO_SELECTION ? null : value)}
+          disabled={subjectId === NO_SELECTION}
+        >
+          <SelectTrigger id="focus-topic">
+            <SelectValue placeholder="No topic" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_SELECTION}>No topic</SelectItem>
+            {topicsForSubject.map((topic) => (
+              <SelectItem key={topic.id} value={topic.id}>
+                {topic.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,21 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Play, Pause, RotateCcw, Square } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { useUserSettings, UserSettings } from "@/hooks/useUserSettings";
+import { showNotification } from "@/lib/notifications";
+import { enqueueMutation, isNetworkError } from "@/lib/offlineQueue";
 
-const FOCUS_TIME = 25 * 60; // 25 minutes
-const BREAK_TIME = 5 * 60; // 5 minutes
+type TimerPhase = "focus" | "shortBreak" | "longBreak";
+
+const PHASE_LABELS: Record<TimerPhase, string> = {
+  focus: "Focus Time",
+  shortBreak: "Break Time",
+  longBreak: "Long Break",
+};
 
 /**
  * Key used in localStorage to persist timer state so it survives navigation
@@ -17,7 +25,11 @@ const STORAGE_KEY = "studox_pomodoro_state";
 
 interface PersistedTimerState {
   isActive: boolean;
+  /** Kept for states persisted before long breaks existed. */
   isFocus: boolean;
+  phase?: TimerPhase;
+  /** Focus sessions completed in the current set, used to decide when a long break is due. */
+  cycleCount?: number;
   /** Epoch milliseconds when the current interval should end if active. */
   endTime: number | null;
   /** Remaining seconds when paused or just switched mode. */
@@ -25,45 +37,119 @@ interface PersistedTimerState {
   sessionId: string | null;
 }
 
-export const PomodoroTimer = ({ topicId }: { topicId?: string }) => {
-  const [seconds, setSeconds] = useState(FOCUS_TIME);
+/**
+ * Length of a phase in seconds based on the user's Pomodoro settings.
+ */
+const getPhaseSeconds = (phase: TimerPhase, settings: UserSettings): number => {
+  switch (phase) {
+    case "focus":
+      return settings.focus_minutes * 60;
+    case "shortBreak":
+      return settings.short_break_minutes * 60;
+    case "longBreak":
+      return settings.long_break_minutes * 60;
+  }
+};
+
+interface PomodoroTimerProps {
+  /** Topic the next session is attributed to via `study_sessions.topic_id`. */
+  topicId?: string;
+  /**
+   * Start a focus session as soon as the timer is ready, unless one is
+   * already running. Used by the "Start focus session" topic action.
+   */
+  autoStartFocus?: boolean;
+  /** Called once the auto-start request has been handled. */
+  onAutoStartHandled?: () => void;
+}
+
+export const PomodoroTimer = ({ topicId, autoStartFocus, onAutoStartHandled }: PomodoroTimerProps) => {
+  const { settings, loading: settingsLoading } = useUserSettings();
+  const [seconds, setSeconds] = useState(getPhaseSeconds("focus", settings));
   const [isActive, setIsActive] = useState(false);
-  const [isFocus, setIsFocus] = useState(true);
+  const [phase, setPhase] = useState<TimerPhase>("focus");
+  const [cycleCount, setCycleCount] = useState(0);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [endTime, setEndTime] = useState<number | null>(null);
+  const [restored, setRestored] = useState(false);
+  const autoStartHandled = useRef(false);
   const { user } = useAuth();
   const { toast } = useToast();
 
+  const isFocus = phase === "focus";
+  const phaseSeconds = getPhaseSeconds(phase, settings);
+
   /**
-   * On first mount, attempt to restore any persisted timer state so that the
-   * timer appears in the correct position even after route changes or reloads.
+   * Once settings are known, attempt to restore any persisted timer state so
+   * that the timer appears in the correct position even after route changes
+   * or reloads. Settings are needed first because phase lengths depend on them.
    */
   useEffect(() => {
+    if (settingsLoading || restored) return;
+    setRestored(true);
+
     try {
       const raw = localStorage.getItem(STORAGE_KEY);
-      if (!raw) return;
+      if (!raw) {
+        setSeconds(getPhaseSeconds("focus", settings));
+        return;
+      }
       const data = JSON.parse(raw) as PersistedTimerState;
 
-      const baseDuration = data.isFocus ? FOCUS_TIME : BREAK_TIME;
+      const restoredPhase: TimerPhase = data.phase ?? (data.isFocus ? "focus" : "shortBreak");
+      const baseDuration = getPhaseSeconds(restoredPhase, settings);
+
+      setPhase(restoredPhase);
+      setCycleCount(data.cycleCount ?? 0);
+      setSessionId(data.sessionId);
 
       if (data.isActive && data.endTime) {
         const remaining = Math.max(0, Math.round((data.endTime - Date.now()) / 1000));
         setIsActive(remaining > 0);
-        setIsFocus(data.isFocus);
-        setSessionId(data.sessionId);
         setEndTime(remaining > 0 ? data.endTime : null);
         setSeconds(remaining > 0 ? remaining : baseDuration);
       } else {
         setIsActive(false);
-        setIsFocus(data.isFocus);
-        setSessionId(data.sessionId);
         setEndTime(null);
-        setSeconds(data.secondsRemaining || baseDuration);
+        setSeconds(Math.min(data.secondsRemaining || baseDuration, baseDuration));
       }
     } catch (error) {
       console.error("Failed to restore pomodoro state:", error);
     }
-  }, []);
+  }, [settingsLoading, restored, settings]);
+
+  /**
+   * When durations change in settings while the timer is idle at the start of
+   * a phase, show the new length straight away.
+   */
+  useEffect(() => {
+    if (!restored || isActive || sessionId) return;
+    setSeconds(phaseSeconds);
+  }, [restored, phaseSeconds, isActive, sessionId]);
+
+  /**
+   * Handles `autoStartFocus` once the persisted state has been restored so a
+   * session that is already running is never replaced.
+   */
+  useEffect(() => {
+    if (!restored || !autoStartFocus || autoStartHandled.current) return;
+    autoStartHandled.current = true;
+
+    if (!isActive && !sessionId) {
+      const focusSeconds = getPhaseSeconds("focus", settings);
+      setPhase("focus");
+      setSeconds(focusSeconds);
+      startPhase("focus", focusSeconds);
+    } else {
+      toast({
+        title: "A session is already running",
+        description: "Finish or end the current session before starting a new one.",
+      });
+    }
+    onAutoStartHandled?.();
+    // startPhase is recreated every render; this only needs to run once.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [restored, autoStartFocus]);
 
   /**
    * Core ticking loop: rather than decrementing a mutable counter, we derive
@@ -98,9 +184,12 @@ export const PomodoroTimer = ({ topicId }: { topicId?: string }) => {
    * can be restored after route changes or refreshes.
    */
   useEffect(() => {
+    if (!restored) return;
     const payload: PersistedTimerState = {
       isActive,
       isFocus,
+      phase,
+      cycleCount,
       endTime,
       secondsRemaining: seconds,
       sessionId,
@@ -110,12 +199,66 @@ export const PomodoroTimer = ({ topicId }: { topicId?: string }) => {
     } catch (error) {
       console.error("Failed to persist pomodoro state:", error);
     }
-  }, [isActive, isFocus, endTime, seconds, sessionId]);
+  }, [restored, isActive, isFocus, phase, cycleCount, endTime, seconds, sessionId]);
 
   /**
-   * Marks the current session as completed at its natural end.
-   * The originally planned duration (25 or 5 minutes) is kept as-is
-   * because we already stored that when inserting the session row.
+   * Inserts a `study_sessions` row for the given phase and starts the
+   * countdown from `durationSeconds`. Offline, the row is queued and synced
+   * later; its id is made here so completing it can be queued too.
+   */
+  const startPhase = async (nextPhase: TimerPhase, durationSeconds: number) => {
+    if (user) {
+      const session = {
+        id: crypto.randomUUID(),
+        topic_id: topicId || null,
+        duration_minutes: Math.round(getPhaseSeconds(nextPhase, settings) / 60),
+        session_type: nextPhase === "focus" ? "focus" : "break",
+        started_at: new Date().toISOString(),
+      };
+      try {
+        const { error } = await supabase.from("study_sessions").insert({ ...session, user_id: user.id });
+        if (error) {
+          if (!isNetworkError(error)) throw error;
+          await enqueueMutation(user.id, { kind: "study_session.start", session });
+        }
+        setSessionId(session.id);
+      } catch (error) {
+        console.error("Error creating session:", error);
+      }
+    }
+    /**
+     * When starting we derive an absolute endTime so that the timer can keep
+     * accurate progress while the user navigates around the app or switches tabs.
+     */
+    setEndTime(Date.now() + durationSeconds * 1000);
+    setIsActive(true);
+  };
+
+  /**
+   * Marks a session completed, optionally with the minutes actually studied.
+   * Offline, the update is queued and synced later.
+   */
+  const saveSessionCompletion = async (id: string, durationMinutes?: number) => {
+    const completedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from("study_sessions")
+      .update({
+        completed: true,
+        completed_at: completedAt,
+        ...(durationMinutes !== undefined && { duration_minutes: durationMinutes }),
+      })
+      .eq("id", id);
+
+    if (!error) return;
+    if (!user || !isNetworkError(error)) throw error;
+    await enqueueMutation(user.id, { kind: "study_session.complete", sessionId: id, completedAt, durationMinutes });
+  };
+
+  /**
+   * Marks the current session as completed at its natural end and moves to
+   * the next phase. After every `long_break_interval` focus sessions the next
+   * break is a long one. With auto-start enabled the next phase begins
+   * immediately.
    */
   const handleTimerComplete = async () => {
     setIsActive(false);
@@ -123,28 +266,45 @@ export const PomodoroTimer = ({ topicId }: { topicId?: string }) => {
 
     if (sessionId) {
       try {
-        await supabase
-          .from("study_sessions")
-          .update({
-            completed: true,
-            completed_at: new Date().toISOString(),
-          })
-          .eq("id", sessionId);
+        await saveSessionCompletion(sessionId);
       } catch (error) {
         console.error("Error completing session:", error);
       }
     }
+    setSessionId(null);
+
+    let nextPhase: TimerPhase;
+    let nextCycleCount = cycleCount;
+    if (isFocus) {
+      nextCycleCount = cycleCount + 1;
+      nextPhase = nextCycleCount % settings.long_break_interval === 0 ? "longBreak" : "shortBreak";
+    } else {
+      // A long break closes the set, so the cycle count starts over.
+      if (phase === "longBreak") nextCycleCount = 0;
+      nextPhase = "focus";
+    }
+
+    const title = isFocus ? "Focus session complete!" : "Break time over!";
+    const description = isFocus
+      ? nextPhase === "longBreak"
+        ? "Great work! You've earned a long break."
+        : "Great work! Time for a break."
+      : "Ready to focus again?";
+    toast({ title, description });
+
+    // The toast goes unseen while the tab is in the background.
+    if (settings.notifications_enabled && settings.notify_phase_changes && document.visibilityState !== "visible") {
+      showNotification({ title, body: description, tag: "pomodoro-phase", url: "/pomodoro" });
+    }
 
-    toast({
-      title: isFocus ? "Focus session complete!" : "Break time over!",
-      description: isFocus
-        ? "Great work! Time for a break."
-        : "Ready to focus again?",
-    });
+    const nextSeconds = getPhaseSeconds(nextPhase, settings);
+    setCycleCount(nextCycleCount);
+    setPhase(nextPhase);
+    setSeconds(nextSeconds);
 
-    // Switch mode
-    setIsFocus(!isFocus);
-    setSeconds(isFocus ? BREAK_TIME : FOCUS_TIME);
+    if (settings.auto_start_next_phase) {
+      await startPhase(nextPhase, nextSeconds);
+    }
   };
 
   /**
@@ -158,30 +318,22 @@ export const PomodoroTimer = ({ topicId }: { topicId?: string }) => {
       // Nothing persisted yet; simply reset the local timer state.
       setIsActive(false);
       setEndTime(null);
-      setSeconds(isFocus ? FOCUS_TIME : BREAK_TIME);
+      setSeconds(phaseSeconds);
       return;
     }
 
     try {
-      const baseDurationSeconds = (isFocus ? FOCUS_TIME : BREAK_TIME);
-      const elapsedSeconds = baseDurationSeconds - seconds;
+      const elapsedSeconds = phaseSeconds - seconds;
       const elapsedMinutes = Math.max(1, Math.round(elapsedSeconds / 60));
 
-      await supabase
-        .from("study_sessions")
-        .update({
-          completed: true,
-          completed_at: new Date().toISOString(),
-          duration_minutes: elapsedMinutes,
-        })
-        .eq("id", sessionId);
+      await saveSessionCompletion(sessionId, elapsedMinutes);
     } catch (error) {
       console.error("Error ending session:", error);
     } finally {
       setIsActive(false);
       setEndTime(null);
       setSessionId(null);
-      setSeconds(isFocus ? FOCUS_TIME : BREAK_TIME);
+      setSeconds(phaseSeconds);
 
       toast({
         title: "Session ended",
@@ -191,34 +343,15 @@ export const PomodoroTimer = ({ topicId }: { topicId?: string }) => {
   };
 
   const toggleTimer = async () => {
-    if (!isActive && !sessionId && user) {
+    if (!isActive && !sessionId) {
       // Start new session
-      try {
-        const { data, error } = await supabase
-          .from("study_sessions")
-          .insert({
-            user_id: user.id,
-            topic_id: topicId || null,
-            duration_minutes: isFocus ? 25 : 5,
-            session_type: isFocus ? "focus" : "break",
-          })
-          .select()
-          .single();
-
-        if (error) throw error;
-        setSessionId(data.id);
-      } catch (error) {
-        console.error("Error creating session:", error);
-      }
+      await startPhase(phase, seconds || phaseSeconds);
+      return;
     }
-    /**
-     * When starting we derive an absolute endTime so that the timer can keep
-     * accurate progress while the user navigates around the app or switches tabs.
-     */
+
     if (!isActive) {
-      const baseDuration = isFocus ? FOCUS_TIME : BREAK_TIME;
-      const newEnd = Date.now() + seconds * 1000 || baseDuration * 1000;
-      setEndTime(newEnd);
+      // Resuming a paused session that already has a row.
+      setEndTime(Date.now() + (seconds || phaseSeconds) * 1000);
       setIsActive(true);
     } else {
       // Pausing: capture the current seconds and clear endTime.
@@ -230,22 +363,28 @@ export const PomodoroTimer = ({ topicId }: { topicId?: string }) => {
   const resetTimer = () => {
     setIsActive(false);
     setEndTime(null);
-    setSeconds(isFocus ? FOCUS_TIME : BREAK_TIME);
+    setSeconds(phaseSeconds);
     setSessionId(null);
   };
 
   const minutes = Math.floor(seconds / 60);
   const remainingSeconds = seconds % 60;
-  const progress = ((isFocus ? FOCUS_TIME : BREAK_TIME) - seconds) / (isFocus ? FOCUS_TIME : BREAK_TIME) * 100;
+  const progress = (phaseSeconds - seconds) / phaseSeconds * 100;
+  const cyclePosition = isFocus
+    ? (cycleCount % settings.long_break_interval) + 1
+    : cycleCount % settings.long_break_interval || settings.long_break_interval;
 
   return (
     <Card className="p-8 text-center card-elevated">
       <div className="mb-6">
-        <div className="inline-block px-4 py-2 bg-primary/10 rounded-full mb-4">
+        <div className="inline-block px-4 py-2 bg-primary/10 rounded-full mb-2">
           <span className="text-sm font-medium text-primary">
-            {isFocus ? "Focus Time" : "Break Time"}
+            {PHASE_LABELS[phase]}
           </span>
         </div>
+        <p className="text-xs text-muted-foreground mb-2">
+          Cycle {cyclePosition} of {settings.long_break_interval}
+        </p>
       </div>
 
       <div className="relative w-64 h-64 mx-auto mb-8">
@@ -280,7 +419,7 @@ export const PomodoroTimer = ({ topicId }: { topicId?: string }) => {
       </div>
 
       <div className="flex items-center justify-center gap-4">
-        <Button size="lg" onClick={toggleTimer} className="w-32">
+        <Button size="lg" onClick={toggleTimer} className="w-32" disabled={!restored}>
           {isActive ? (
             <>
               <Pause className="w-5 h-5 mr-2" />
@@ -1,27 +1,26 @@
 import { useEffect, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Play, Pause, RotateCcw, Square } from "lucide-react";
-
-const STOPWATCH_HISTORY_KEY = "studox_stopwatch_history";
-
-interface StopwatchHistoryEntry {
-  id: string;
-  durationSeconds: number;
-  startedAt: string;
-  endedAt: string;
-}
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { queueLocalStopwatchEntry, StopwatchHistoryEntry } from "@/lib/timeEntries";
 
 /**
- * Simple client-side stopwatch for ad-hoc timing.
+ * Simple stopwatch for ad-hoc timing.
  *
- * This component keeps state in memory only; completed sessions are also
- * written to localStorage so that the History page can show how long you
- * studied using the stopwatch.
+ * The running time is kept in memory only; completed sessions are saved to
+ * the `time_entries` table so stopwatch time shows up in the dashboard,
+ * calendar and history totals on every device.
  */
 export const StopwatchTimer = () => {
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
   const [isActive, setIsActive] = useState(false);
+  const [notes, setNotes] = useState("");
+  const { user } = useAuth();
+  const { toast } = useToast();
 
   /**
    * Core ticking loop: when active, increment the elapsed seconds every second.
@@ -48,14 +47,15 @@ export const StopwatchTimer = () => {
   const reset = () => {
     setIsActive(false);
     setElapsedSeconds(0);
+    setNotes("");
   };
 
   /**
-   * Ends the current stopwatch session and records it in localStorage.
-   * The History page later reads this data to display stopwatch-based
-   * study time alongside Pomodoro sessions.
+   * Ends the current stopwatch session and records it in `time_entries`.
+   * If the entry cannot be saved (e.g. offline), it is queued in localStorage
+   * and uploaded by `syncLocalStopwatchHistory` on the next page load.
    */
-  const endSession = () => {
+  const endSession = async () => {
     if (elapsedSeconds <= 0) {
       reset();
       return;
@@ -66,22 +66,50 @@ export const StopwatchTimer = () => {
     const startedAt = new Date(now.getTime() - elapsedSeconds * 1000).toISOString();
 
     const entry: StopwatchHistoryEntry = {
-      id: `${now.getTime()}`,
+      id: crypto.randomUUID(),
       durationSeconds: elapsedSeconds,
       startedAt,
       endedAt,
+      notes: notes.trim() || null,
     };
 
+    reset();
+
     try {
-      const raw = localStorage.getItem(STOPWATCH_HISTORY_KEY);
-      const existing: StopwatchHistoryEntry[] = raw ? JSON.parse(raw) : [];
-      existing.push(entry);
-      localStorage.setItem(STOPWATCH_HISTORY_KEY, JSON.stringify(existing));
+      if (!user) throw new Error("Not signed in");
+
+      const { error } = await supabase.from("time_entries").insert({
+        user_id: user.id,
+        type: "stopwatch",
+        started_at: entry.startedAt,
+        ended_at: entry.endedAt,
+        duration_seconds: entry.durationSeconds,
+        notes: entry.notes,
+        client_id: entry.id,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Session ended",
+        description: "Stopwatch time has been saved to your history.",
+      });
     } catch (error) {
-      console.error("Failed to persist stopwatch history:", error);
+      console.error("Failed to save stopwatch session:", error);
+      if (!user) {
+        toast({
+          title: "Session not saved",
+          description: "Sign in to save stopwatch time to your history.",
+          variant: "destructive",
+        });
+        return;
+      }
+      queueLocalStopwatchEntry(user.id, entry);
+      toast({
+        title: "Saved on this device",
+        description: "Stopwatch time will sync to your history once you are back online.",
+      });
     }
-
-    reset();
   };
 
   const hours = Math.floor(elapsedSeconds / 3600);
@@ -96,12 +124,19 @@ export const StopwatchTimer = () => {
         </div>
       </div>
 
-      <div className="mb-8 text-5xl md:text-6xl font-display font-bold">
+      <div className="mb-6 text-5xl md:text-6xl font-display font-bold">
         {String(hours).padStart(2, "0")}:
         {String(minutes).padStart(2, "0")}:
         {String(seconds).padStart(2, "0")}
       </div>
 
+      <Input
+        className="mb-8 max-w-sm mx-auto"
+        placeholder="What are you working on? (optional)"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+      />
+
       <div className="flex items-center justify-center gap-4">
         <Button size="lg" onClick={toggle} className="w-32">
           {isActive ? (
@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Check, FileText, RotateCcw, X } from "lucide-react";
+import { PracticeSummary } from "@/components/Practice/PracticeSummary";
+import type { Flashcard } from "@/hooks/useStudySets";
+import type { TopicRevisionUpdate } from "@/lib/revisions";
+import { shuffle } from "@/lib/studySets";
+
+interface FlashcardPracticeProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cards: Flashcard[];
+  topicName?: string;
+  /** Records the finished session; resolves to the saved revision. */
+  onFinish: (correct: number, total: number) => Promise<TopicRevisionUpdate | null>;
+  onOpenSource?: (noteId: string, page: number | null) => void;
+}
+
+/**
+ * Runs through a topic's flashcards in random order. The student flips each
+ * card and marks whether they knew it; the share they knew is recorded as a
+ * topic revision when the deck is finished.
+ */
+export const FlashcardPractice = ({
+  open,
+  onOpenChange,
+  cards,
+  topicName,
+  onFinish,
+  onOpenSource,
+}: FlashcardPracticeProps) => {
+  const [deck, setDeck] = useState<Flashcard[]>([]);
+  const [index, setIndex] = useState(0);
+  const [flipped, setFlipped] = useState(false);
+  const [known, setKnown] = useState(0);
+  const [finished, setFinished] = useState(false);
+  const [recording, setRecording] = useState(false);
+  const [revision, setRevision] = useState<TopicRevisionUpdate | null>(null);
+
+  const restart = () => {
+    setDeck(shuffle(cards));
+    setIndex(0);
+    setFlipped(false);
+    setKnown(0);
+    setFinished(false);
+    setRevision(null);
+  };
+
+  useEffect(() => {
+    if (open) restart();
+  }, [open]);
+
+  const card = deck[index];
+
+  const handleAnswer = async (knewIt: boolean) => {
+    const knownCount = known + (knewIt ? 1 : 0);
+    setKnown(knownCount);
+
+    if (index < deck.length - 1) {
+      setIndex(index + 1);
+      setFlipped(false);
+      return;
+    }
+
+    setFinished(true);
+    setRecording(true);
+    setRevision(await onFinish(knownCount, deck.length));
+    setRecording(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Flashcards{topicName ? `: ${topicName}` : ""}</DialogTitle>
+          <DialogDescription>
+            {finished
+              ? "Deck complete."
+              : `Card ${Math.min(index + 1, deck.length)} of ${deck.length}. Try to recall the answer, then flip the card.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {finished ? (
+          <PracticeSummary correct={known} total={deck.length} revision={revision} recording={recording} />
+        ) : card ? (
+          <div className="space-y-4">
+            <Progress value={(index / deck.length) * 100} className="h-1" />
+            <button
+              type="button"
+              onClick={() => setFlipped(!flipped)}
+              className="w-full min-h-[200px] rounded-lg border bg-card p-6 text-center flex flex-col items-center justify-center gap-3 hover:bg-accent/40 transition-colors"
+            >
+              <span className="text-xs uppercase tracking-wide text-muted-foreground">
+                {flipped ? "Answer" : "Question"}
+              </span>
+              <span className={flipped ? "text-base whitespace-pre-wrap" : "text-lg font-medium whitespace-pre-wrap"}>
+                {flipped ? card.back : card.front}
+              </span>
+              {!flipped && <span className="text-xs text-muted-foreground">Click to flip</span>}
+            </button>
+            {flipped && card.source_note_id && onOpenSource && (
+              <Button
+                variant="link"
+                size="sm"
+                className="px-0"
+                onClick={() => onOpenSource(card.source_note_id!, card.source_page)}
+              >
+                <FileText className="w-3 h-3 mr-1" />
+                View source{card.source_page ? ` (p. ${card.source_page})` : ""}
+              </Button>
+            )}
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          {finished ? (
+            <>
+              <Button variant="outline" onClick={restart} disabled={recording}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Practice again
+              </Button>
+              <Button onClick={() => onOpenChange(false)}>Done</Button>
+            </>
+          ) : flipped ? (
+            <>
+              <Button variant="outline" onClick={() => handleAnswer(false)}>
+                <X className="w-4 h-4 mr-2" />
+                Didn't know
+              </Button>
+              <Button onClick={() => handleAnswer(true)}>
+                <Check className="w-4 h-4 mr-2" />
+                Knew it
+              </Button>
+            </>
+          ) : (
+            <Button onClick={() => setFlipped(true)}>Show answer</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,37 @@
+import { Progress } from "@/components/ui/progress";
+import { RECALL_QUALITY_OPTIONS, recallQualityFromScore } from "@/lib/spacedRepetition";
+import type { TopicRevisionUpdate } from "@/lib/revisions";
+
+interface PracticeSummaryProps {
+  correct: number;
+  total: number;
+  /** The revision recorded for the session, once saved. */
+  revision: TopicRevisionUpdate | null;
+  recording: boolean;
+}
+
+/**
+ * End-of-session score shared by flashcard and quiz practice, with the
+ * recall rating it was recorded as and when the topic is due again.
+ */
+export const PracticeSummary = ({ correct, total, revision, recording }: PracticeSummaryProps) => {
+  const percent = total > 0 ? Math.round((correct / total) * 100) : 0;
+  const rating = RECALL_QUALITY_OPTIONS.find((option) => option.value === recallQualityFromScore(correct, total));
+
+  return (
+    <div className="space-y-4 py-4 text-center">
+      <p className="text-4xl font-display font-bold">{percent}%</p>
+      <p className="text-sm text-muted-foreground">
+        {correct} of {total} correct
+      </p>
+      <Progress value={percent} className="h-2" />
+      <p className="text-xs text-muted-foreground">
+        {recording
+          ? "Saving revision..."
+          : revision
+            ? `Recorded as a "${rating?.label}" revision. Next review on ${new Date(revision.due_at).toLocaleDateString()}.`
+            : "This session could not be recorded as a revision."}
+      </p>
+    </div>
+  );
+};
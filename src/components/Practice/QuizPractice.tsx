@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CheckCircle2, FileText, RotateCcw, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { PracticeSummary } from "@/components/Practice/PracticeSummary";
+import type { Quiz } from "@/hooks/useStudySets";
+import type { TopicRevisionUpdate } from "@/lib/revisions";
+
+interface QuizPracticeProps {
+  quiz: Quiz | null;
+  onOpenChange: (open: boolean) => void;
+  /** Saves the finished attempt; resolves to the recorded revision. */
+  onFinish: (quiz: Quiz, correct: number) => Promise<TopicRevisionUpdate | null>;
+  onOpenSource?: (noteId: string, page: number | null) => void;
+}
+
+/**
+ * Takes a multiple-choice quiz one question at a time. Each answer is
+ * checked immediately with the explanation and source; the final score is
+ * saved on the quiz and recorded as a topic revision.
+ */
+export const QuizPractice = ({ quiz, onOpenChange, onFinish, onOpenSource }: QuizPracticeProps) => {
+  const [index, setIndex] = useState(0);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [correct, setCorrect] = useState(0);
+  const [finished, setFinished] = useState(false);
+  const [recording, setRecording] = useState(false);
+  const [revision, setRevision] = useState<TopicRevisionUpdate | null>(null);
+
+  const restart = () => {
+    setIndex(0);
+    setSelected(null);
+    setCorrect(0);
+    setFinished(false);
+    setRevision(null);
+  };
+
+  useEffect(() => {
+    if (quiz) restart();
+  }, [quiz?.id]);
+
+  if (!quiz) return null;
+
+  const total = quiz.questions.length;
+  const question = quiz.questions[index];
+  const answered = selected !== null;
+
+  const handleSelect = (optionIndex: number) => {
+    if (answered) return;
+    setSelected(optionIndex);
+    if (optionIndex === question.answerIndex) {
+      setCorrect(correct + 1);
+    }
+  };
+
+  const handleNext = async () => {
+    if (index < total - 1) {
+      setIndex(index + 1);
+      setSelected(null);
+      return;
+    }
+
+    setFinished(true);
+    setRecording(true);
+    setRevision(await onFinish(quiz, correct));
+    setRecording(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{quiz.title}</DialogTitle>
+          <DialogDescription>
+            {finished ? "Quiz complete." : `Question ${index + 1} of ${total}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {finished ? (
+          <PracticeSummary correct={correct} total={total} revision={revision} recording={recording} />
+        ) : question ? (
+          <div className="space-y-4">
+            <Progress value={(index / total) * 100} className="h-1" />
+            <p className="font-medium whitespace-pre-wrap">{question.question}</p>
+            <div className="space-y-2">
+              {question.options.map((option, optionIndex) => {
+                const isAnswer = optionIndex === question.answerIndex;
+                const isSelected = optionIndex === selected;
+                return (
+                  <button
+                    key={optionIndex}
+                    type="button"
+                    disabled={answered}
+                    onClick={() => handleSelect(optionIndex)}
+                    className={cn(
+                      "w-full rounded-md border p-3 text-left text-sm flex items-center gap-3 transition-colors",
+                      !answered && "hover:bg-accent",
+                      answered && isAnswer && "border-green-500 bg-green-500/10",
+                      answered && isSelected && !isAnswer && "border-destructive bg-destructive/10",
+                    )}
+                  >
+                    <span className="font-semibold text-muted-foreground">{String.fromCharCode(65 + optionIndex)}</span>
+                    <span className="flex-1">{option}</span>
+                    {answered && isAnswer && <CheckCircle2 className="w-4 h-4 text-green-500" />}
+                    {answered && isSelected && !isAnswer && <XCircle className="w-4 h-4 text-destructive" />}
+                  </button>
+                );
+              })}
+            </div>
+            {answered && (
+              <div className="rounded-md bg-muted p-3 text-sm space-y-1">
+                <p className="font-medium">{selected === question.answerIndex ? "Correct!" : "Not quite."}</p>
+                {question.explanation && <p className="text-muted-foreground">{question.explanation}</p>}
+                {question.sourceNoteId && onOpenSource && (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="px-0 h-auto"
+                    onClick={() => onOpenSource(question.sourceNoteId!, question.sourcePage ?? null)}
+                  >
+                    <FileText className="w-3 h-3 mr-1" />
+                    View source{question.sourcePage ? ` (p. ${question.sourcePage})` : ""}
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          {finished ? (
+            <>
+              <Button variant="outline" onClick={restart} disabled={recording}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Retake
+              </Button>
+              <Button onClick={() => onOpenChange(false)}>Done</Button>
+            </>
+          ) : (
+            <Button onClick={handleNext} disabled={!answered}>
+              {index < total - 1 ? "Next question" : "Finish quiz"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
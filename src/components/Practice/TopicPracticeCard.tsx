@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, Layers, ListChecks, Loader2, Play, Sparkles, Trash2 } from "lucide-react";
+import { FlashcardPractice } from "@/components/Practice/FlashcardPractice";
+import { QuizPractice } from "@/components/Practice/QuizPractice";
+import { useStudySets, type Quiz } from "@/hooks/useStudySets";
+
+interface TopicPracticeCardProps {
+  topicId: string | undefined;
+  topicName?: string;
+  /** Whether the topic has any notes or PDFs to generate from. */
+  hasSources: boolean;
+  /** Opens a cited note, optionally at a PDF page. */
+  onOpenSource?: (noteId: string, page: number | null) => void;
+}
+
+/**
+ * "Practice" section of a topic: generates flashcards and MCQ quizzes from
+ * the topic's notes with the AI tutor and runs scored practice sessions that
+ * count as revisions of the topic.
+ */
+export const TopicPracticeCard = ({ topicId, topicName, hasSources, onOpenSource }: TopicPracticeCardProps) => {
+  const {
+    flashcards,
+    quizzes,
+    loading,
+    generating,
+    generateFlashcardSet,
+    generateQuizSet,
+    deleteFlashcard,
+    deleteQuiz,
+    recordPracticeRevision,
+    recordQuizAttempt,
+  } = useStudySets(topicId);
+  const [practisingFlashcards, setPractisingFlashcards] = useState(false);
+  const [activeQuiz, setActiveQuiz] = useState<Quiz | null>(null);
+
+  const openSource = onOpenSource
+    ? (noteId: string, page: number | null) => {
+        setPractisingFlashcards(false);
+        setActiveQuiz(null);
+        onOpenSource(noteId, page);
+      }
+    : undefined;
+
+  return (
+    <section>
+      <h2 className="text-sm font-semibold mb-3">Practice</h2>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="p-6 space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Layers className="w-4 h-4 text-primary" />
+              <h3 className="text-sm font-semibold">Flashcards</h3>
+              <Badge variant="secondary">{flashcards.length}</Badge>
+            </div>
+            <Button size="sm" onClick={() => setPractisingFlashcards(true)} disabled={flashcards.length === 0}>
+              <Play className="w-4 h-4 mr-2" />
+              Practice
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Generate cards from this topic's notes and PDFs, then test yourself.
+          </p>
+          <Button
+            variant="outline"
+            onClick={() => generateFlashcardSet()}
+            disabled={!hasSources || generating !== null}
+          >
+            {generating === "flashcards" ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Sparkles className="w-4 h-4 mr-2" />
+            )}
+            {generating === "flashcards" ? "Generating..." : "Generate flashcards"}
+          </Button>
+          {flashcards.length > 0 && (
+            <Collapsible>
+              <CollapsibleTrigger asChild>
+                <Button variant="ghost" size="sm" className="px-0">
+                  <ChevronDown className="w-4 h-4 mr-1" />
+                  Show all cards
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="space-y-2 pt-2 max-h-72 overflow-y-auto">
+                {flashcards.map((card) => (
+                  <div key={card.id} className="flex items-start gap-2 rounded-md border p-2 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium">{card.front}</p>
+                      <p className="text-muted-foreground text-xs">{card.back}</p>
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 shrink-0"
+                      onClick={() => deleteFlashcard(card.id)}
+                      title="Delete card"
+                    >
+                      <Trash2 className="w-3 h-3 text-destructive" />
+                    </Button>
+                  </div>
+                ))}
+              </CollapsibleContent>
+            </Collapsible>
+          )}
+        </Card>
+
+        <Card className="p-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <ListChecks className="w-4 h-4 text-primary" />
+            <h3 className="text-sm font-semibold">Quizzes</h3>
+            <Badge variant="secondary">{quizzes.length}</Badge>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Multiple-choice questions with explanations. Your score counts as a revision of this topic.
+          </p>
+          <Button variant="outline" onClick={() => generateQuizSet()} disabled={!hasSources || generating !== null}>
+            {generating === "quiz" ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Sparkles className="w-4 h-4 mr-2" />
+            )}
+            {generating === "quiz" ? "Generating..." : "Generate quiz"}
+          </Button>
+          {!loading && quizzes.length > 0 && (
+            <div className="space-y-2">
+              {quizzes.map((quiz) => (
+                <div key={quiz.id} className="flex items-center gap-2 rounded-md border p-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{quiz.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {quiz.questions.length} questions
+                      {quiz.best_score !== null && ` · Best ${quiz.best_score}%`}
+                      {quiz.attempts > 0 && ` · ${quiz.attempts} attempt${quiz.attempts === 1 ? "" : "s"}`}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="secondary" onClick={() => setActiveQuiz(quiz)} disabled={quiz.questions.length === 0}>
+                    Take
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 shrink-0"
+                    onClick={() => deleteQuiz(quiz.id)}
+                    title="Delete quiz"
+                  >
+                    <Trash2 className="w-3 h-3 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+      {!hasSources && (
+        <p className="text-xs text-muted-foreground mt-2">
+          Add notes or PDFs to this topic to generate flashcards and quizzes.
+        </p>
+      )}
+
+      <FlashcardPractice
+        open={practisingFlashcards}
+        onOpenChange={setPractisingFlashcards}
+        cards={flashcards}
+        topicName={topicName}
+        onFinish={recordPracticeRevision}
+        onOpenSource={openSource}
+      />
+      <QuizPractice
+        quiz={activeQuiz}
+        onOpenChange={(open) => !open && setActiveQuiz(null)}
+        onFinish={recordQuizAttempt}
+        onOpenSource={openSource}
+      />
+    </section>
+  );
+};
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import type { Tables } from "@/integrations/supabase/types";
+import { useUpdateExam } from "@/hooks/useExams";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GRADE_SCALE, examPercent, gradeFromPercent } from "@/lib/grades";
+
+type ResultExam = Pick<
+  Tables<"exams">,
+  "id" | "title" | "marks_obtained" | "max_marks" | "grade" | "credits" | "semester"
+>;
+
+interface ExamResultDialogProps {
+  /** The exam being edited; the dialog is open while set. */
+  exam: ResultExam | null;
+  /** Semesters already used, offered as suggestions. */
+  semesters: string[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: (exam: Tables<"exams">) => void;
+}
+
+type ResultValues = Pick<Tables<"exams">, "marks_obtained" | "max_marks" | "grade" | "credits" | "semester">;
+
+const AUTO_GRADE = "__auto__";
+
+const toInput = (value: number | null) => (value === null ? "" : String(value));
+
+/** Parses an optional non-negative number; undefined means invalid. */
+const parseOptionalNumber = (value: string): number | null | undefined => {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+/**
+ * Records the result of an exam: marks, grade, credit weight and semester.
+ * Leaving the grade on "From marks" derives it from the percentage.
+ */
+export const ExamResultDialog = ({ exam, semesters, onOpenChange, onSaved }: ExamResultDialogProps) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState({ marks: "", maxMarks: "", grade: AUTO_GRADE, credits: "", semester: "" });
+  const updateExam = useUpdateExam();
+  const saving = updateExam.isPending;
+
+  useEffect(() => {
+    if (!exam) return;
+    setForm({
+      marks: toInput(exam.marks_obtained),
+      maxMarks: toInput(exam.max_marks),
+      grade: exam.grade || AUTO_GRADE,
+      credits: toInput(exam.credits),
+      semester: exam.semester || "",
+    });
+  }, [exam]);
+
+  const marks = parseOptionalNumber(form.marks);
+  const maxMarks = parseOptionalNumber(form.maxMarks);
+  const credits = parseOptionalNumber(form.credits);
+  const previewPercent =
+    typeof marks === "number" && typeof maxMarks === "number" && maxMarks > 0
+      ? examPercent({ marks_obtained: marks, max_marks: maxMarks })
+      : null;
+
+  const validationError =
+    marks === undefined || maxMarks === undefined || credits === undefined
+      ? "Marks, maximum marks and credits must be positive numbers."
+      : maxMarks === 0
+        ? "Maximum marks must be more than zero."
+        : (marks === null) !== (maxMarks === null)
+          ? "Enter both the marks obtained and the maximum marks."
+          : marks !== null && maxMarks !== null && marks > maxMarks
+            ? "Marks obtained cannot exceed the maximum marks."
+            : null;
+
+  const save = async (values: ResultValues) => {
+    if (!exam) return;
+    try {
+      onSaved(await updateExam.mutateAsync({ id: exam.id, update: values }));
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error saving result",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = () => {
+    if (validationError) return;
+    save({
+      marks_obtained: marks ?? null,
+      max_marks: maxMarks ?? null,
+      grade: form.grade === AUTO_GRADE ? null : form.grade,
+      credits: credits ?? null,
+      semester: form.semester.trim() || null,
+    });
+  };
+
+  const handleClear = () => {
+    save({ marks_obtained: null, max_marks: null, grade: null, credits: null, semester: exam?.semester ?? null });
+  };
+
+  return (
+    <Dialog open={!!exam} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Result for {exam?.title}</DialogTitle>
+          <DialogDescription>Exams with credits count toward your SGPA and CGPA.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="result-marks">Marks obtained</Label>
+            <Input
+              id="result-marks"
+              type="number"
+              min={0}
+              step="0.5"
+              value={form.marks}
+              onChange={(e) => setForm({ ...form, marks: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="result-max-marks">Maximum marks</Label>
+            <Input
+              id="result-max-marks"
+              type="number"
+              min={1}
+              step="0.5"
+              value={form.maxMarks}
+              onChange={(e) => setForm({ ...form, maxMarks: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="result-grade">Grade</Label>
+            <Select value={form.grade} onValueChange={(value) => setForm({ ...form, grade: value })}>
+              <SelectTrigger id="result-grade">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO_GRADE}>
+                  From marks{previewPercent !== null ? ` (${gradeFromPercent(previewPercent)})` : ""}
+                </SelectItem>
+                {GRADE_SCALE.map((entry) => (
+                  <SelectItem key={entry.grade} value={entry.grade}>
+                    {entry.grade} · {entry.points} points
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="result-credits">Credits</Label>
+            <Input
+              id="result-credits"
+              type="number"
+              min={0}
+              step="0.5"
+              value={form.credits}
+              onChange={(e) => setForm({ ...form, credits: e.target.value })}
+              placeholder="e.g., 4"
+            />
+          </div>
+          <div className="col-span-2 space-y-1">
+            <Label htmlFor="result-semester">Semester</Label>
+            <Input
+              id="result-semester"
+              list="result-semesters"
+              value={form.semester}
+              onChange={(e) => setForm({ ...form, semester: e.target.value })}
+              placeholder="e.g., Semester 3"
+            />
+            <datalist id="result-semesters">
+              {semesters.map((semester) => (
+                <option key={semester} value={semester} />
+              ))}
+            </datalist>
+          </div>
+        </div>
+
+        {previewPercent !== null && (
+          <p className="text-sm text-muted-foreground">Score: {previewPercent.toFixed(1)}%</p>
+        )}
+        {validationError && <p className="text-xs text-destructive">{validationError}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClear} disabled={saving}>
+            Clear result
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !!validationError}>
+            {saving ? "Saving..." : "Save result"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
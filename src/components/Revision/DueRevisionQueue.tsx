@@ -0,0 +1,193 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useExams } from "@/hooks/useExams";
+import { useSubjects } from "@/hooks/useSubjects";
+import { usePatchCachedTopic, useUserTopics } from "@/hooks/useTopics";
+import { RecallRatingDialog } from "@/components/Revision/RecallRatingDialog";
+import { recordTopicRevision, TopicRevisionUpdate } from "@/lib/revisions";
+import { compareRevisionQueueItems, RecallQuality } from "@/lib/spacedRepetition";
+
+interface DueTopic {
+  id: string;
+  name: string;
+  subject_id: string;
+  subject_name: string | null;
+  subject_color: string | null;
+  revision_count: number | null;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  due_at: string | null;
+  next_exam_date: string | null;
+}
+
+interface DueRevisionQueueProps {
+  /** Limit the queue to a single subject (used on the subject page). */
+  subjectId?: string;
+  /** Called after a revision is recorded from the queue and the cached topic is patched. */
+  onRevised?: (topicId: string, update: TopicRevisionUpdate) => void;
+  className?: string;
+}
+
+/**
+ * "Due for revision" queue backed by the spaced-repetition fields on `topics`.
+ *
+ * Lists every topic whose `due_at` falls on or before today, ordered by due
+ * date and then by the nearest upcoming exam for the topic's subject so the
+ * most urgent material is always at the top.
+ */
+export const DueRevisionQueue = ({ subjectId, onRevised, className }: DueRevisionQueueProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { data: topics = [], isPending: topicsPending } = useUserTopics();
+  const { data: subjects = [] } = useSubjects();
+  const { data: exams = [] } = useExams();
+  const patchCachedTopic = usePatchCachedTopic();
+  const [ratingTopic, setRatingTopic] = useState<DueTopic | null>(null);
+
+  /**
+   * Due topics paired with the nearest exam of their subject so the queue
+   * can be ordered by urgency. Built from the cached topics, subjects and
+   * exams, so it updates as soon as any of them changes.
+   */
+  const dueTopics = useMemo(() => {
+    const endOfToday = new Date();
+    endOfToday.setHours(23, 59, 59, 999);
+    const now = new Date();
+
+    // Exams are listed earliest first, so the first upcoming one per subject is the nearest.
+    const nextExamBySubject = new Map<string, string>();
+    exams.forEach((exam) => {
+      if (new Date(exam.exam_date) >= now && !nextExamBySubject.has(exam.subject_id)) {
+        nextExamBySubject.set(exam.subject_id, exam.exam_date);
+      }
+    });
+    const subjectsById = new Map(subjects.map((subject) => [subject.id, subject]));
+
+    const queue: DueTopic[] = topics
+      .filter((topic) => !subjectId || topic.subject_id === subjectId)
+      .filter((topic) => topic.due_at && new Date(topic.due_at) <= endOfToday)
+      .map((topic) => ({
+        id: topic.id,
+        name: topic.name,
+        subject_id: topic.subject_id,
+        subject_name: subjectsById.get(topic.subject_id)?.name ?? null,
+        subject_color: subjectsById.get(topic.subject_id)?.color ?? null,
+        revision_count: topic.revision_count,
+        ease_factor: topic.ease_factor,
+        interval_days: topic.interval_days,
+        repetitions: topic.repetitions,
+        due_at: topic.due_at,
+        next_exam_date: nextExamBySubject.get(topic.subject_id) ?? null,
+      }));
+
+    return queue.sort(compareRevisionQueueItems);
+  }, [topics, subjects, exams, subjectId]);
+
+  const handleRate = async (quality: RecallQuality) => {
+    if (!ratingTopic || !user) return;
+    const topic = ratingTopic;
+    setRatingTopic(null);
+
+    try {
+      const update = await recordTopicRevision(user.id, topic, quality);
+      patchCachedTopic(topic, update);
+      onRevised?.(topic.id, update);
+
+      toast({
+        title: "Revision recorded",
+        description: `Next revision on ${new Date(update.due_at).toLocaleDateString()}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Short human-readable label for how overdue a topic is.
+   */
+  const formatDue = (dueAt: string | null): string => {
+    if (!dueAt) return "";
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const due = new Date(dueAt);
+    due.setHours(0, 0, 0, 0);
+    const daysOverdue = Math.round((startOfToday.getTime() - due.getTime()) / (24 * 60 * 60 * 1000));
+    if (daysOverdue <= 0) return "Due today";
+    if (daysOverdue === 1) return "1 day overdue";
+    return `${daysOverdue} days overdue`;
+  };
+
+  return (
+    <Card className={cn("p-4 space-y-3", className)}>
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold">Due for revision</p>
+        {dueTopics.length > 0 && (
+          <span className="text-xs text-muted-foreground">{dueTopics.length} due</span>
+        )}
+      </div>
+      {topicsPending ? (
+        <p className="text-xs text-muted-foreground">Loading revision queue...</p>
+      ) : dueTopics.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Nothing due right now. Topics appear here once their next revision date arrives.
+        </p>
+      ) : (
+        <ul className="space-y-2 max-h-64 overflow-y-auto pr-1">
+          {dueTopics.map((topic) => (
+            <li
+              key={topic.id}
+              className="flex items-center justify-between gap-3 rounded-md border px-3 py-2 cursor-pointer hover:bg-muted/50"
+              onClick={() => navigate(`/subject/${topic.subject_id}/topic/${topic.id}/resources`)}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span
+                    className="inline-block w-2 h-2 rounded-full shrink-0"
+                    style={{ backgroundColor: topic.subject_color || "#6366f1" }}
+                  />
+                  <p className="text-sm font-medium truncate">{topic.name}</p>
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  {!subjectId && topic.subject_name ? `${topic.subject_name} · ` : ""}
+                  {formatDue(topic.due_at)}
+                  {topic.next_exam_date
+                    ? ` · Exam ${new Date(topic.next_exam_date).toLocaleDateString()}`
+                    : ""}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setRatingTopic(topic);
+                }}
+              >
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Revise
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <RecallRatingDialog
+        open={!!ratingTopic}
+        onOpenChange={(open) => !open && setRatingTopic(null)}
+        topicName={ratingTopic?.name}
+        onRate={handleRate}
+      />
+    </Card>
+  );
+};
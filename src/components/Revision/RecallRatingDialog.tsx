@@ -0,0 +1,49 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { RECALL_QUALITY_OPTIONS, RecallQuality } from "@/lib/spacedRepetition";
+
+interface RecallRatingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Name of the topic being revised, shown in the dialog title. */
+  topicName?: string;
+  onRate: (quality: RecallQuality) => void;
+}
+
+/**
+ * Asks the student how well they recalled a topic after revising it.
+ * The chosen rating drives the spaced-repetition schedule for the topic.
+ */
+export const RecallRatingDialog = ({ open, onOpenChange, topicName, onRate }: RecallRatingDialogProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>How well did you recall {topicName || "this topic"}?</DialogTitle>
+          <DialogDescription>
+            Your answer decides when this topic shows up for revision again.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-3">
+          {RECALL_QUALITY_OPTIONS.map((option) => (
+            <Button
+              key={option.value}
+              variant={option.value === "again" ? "outline" : "secondary"}
+              className="h-auto flex-col items-start py-3"
+              onClick={() => onRate(option.value)}
+            >
+              <span className="font-semibold">{option.label}</span>
+              <span className="text-xs font-normal text-muted-foreground">{option.description}</span>
+            </Button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
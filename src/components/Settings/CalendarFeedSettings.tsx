@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CalendarPlus, Copy, Link as LinkIcon, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarFeedToken, useCalendarFeedTokens } from "@/hooks/useCalendarFeedTokens";
+import { calendarFeedUrl, calendarFeedWebcalUrl } from "@/lib/ical";
+
+/**
+ * Settings section for subscribable iCalendar feeds of exams and study
+ * blocks. Each feed has its own secret link that can be revoked separately.
+ */
+export const CalendarFeedSettings = () => {
+  const { toast } = useToast();
+  const { tokens, loading, createToken, revokeToken } = useCalendarFeedTokens();
+  const [label, setLabel] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [revoking, setRevoking] = useState<CalendarFeedToken | null>(null);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    const created = await createToken(label);
+    setCreating(false);
+    if (created) {
+      setLabel("");
+      toast({
+        title: "Calendar feed created",
+        description: "Copy the link into your calendar app to subscribe.",
+      });
+    }
+  };
+
+  const handleCopy = async (token: CalendarFeedToken) => {
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl(token.token));
+      toast({ title: "Feed link copied" });
+    } catch (error) {
+      toast({
+        title: "Could not copy link",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-5">
+      <div>
+        <h2 className="text-lg font-display font-semibold">Calendar feed</h2>
+        <p className="text-sm text-muted-foreground">
+          Subscribe to your exams and study plan from Google Calendar, Apple Calendar or Outlook. Anyone with a feed
+          link can see these events, so revoke links you no longer use.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Label, e.g. Phone calendar"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          maxLength={60}
+        />
+        <Button onClick={handleCreate} disabled={creating}>
+          <CalendarPlus className="w-4 h-4 mr-2" />
+          {creating ? "Creating..." : "Create feed link"}
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="min-h-[60px] flex items-center justify-center">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary" />
+        </div>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No calendar feeds yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {tokens.map((token) => (
+            <li key={token.id} className="flex items-center gap-3 rounded-lg border p-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium">{token.label}</p>
+                <p className="text-xs text-muted-foreground">
+                  Created {token.created_at ? new Date(token.created_at).toLocaleDateString() : "recently"}
+                  {" · "}
+                  {token.last_used_at
+                    ? `Last synced ${new Date(token.last_used_at).toLocaleString()}`
+                    : "Not synced yet"}
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => handleCopy(token)}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy link
+              </Button>
+              <Button size="sm" variant="outline" asChild>
+                <a href={calendarFeedWebcalUrl(token.token)}>
+                  <LinkIcon className="w-4 h-4 mr-2" />
+                  Subscribe
+                </a>
+              </Button>
+              <Button size="icon" variant="ghost" onClick={() => setRevoking(token)} title="Revoke">
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AlertDialog open={!!revoking} onOpenChange={(open) => !open && setRevoking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke "{revoking?.label}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Calendars subscribed with this link will stop updating. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (revoking) revokeToken(revoking.id);
+                setRevoking(null);
+              }}
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
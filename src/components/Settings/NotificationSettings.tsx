@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { BellRing } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { UserSettings } from "@/hooks/useUserSettings";
+import {
+  EXAM_REMINDER_OPTIONS,
+  formatLeadTime,
+  notificationsSupported,
+  requestNotificationPermission,
+  showNotification,
+} from "@/lib/notifications";
+
+type NotificationToggle = "notify_phase_changes" | "notify_exams" | "notify_due_revisions" | "notify_overdue_todos";
+
+const NOTIFICATION_TOGGLES: { key: NotificationToggle; label: string; description: string }[] = [
+  {
+    key: "notify_phase_changes",
+    label: "Pomodoro phase changes",
+    description: "When a focus session or break ends while studox is in the background.",
+  },
+  { key: "notify_exams", label: "Upcoming exams", description: "At each of the times chosen below." },
+  {
+    key: "notify_due_revisions",
+    label: "Due revisions",
+    description: "Once a day, when topics are due for revision.",
+  },
+  { key: "notify_overdue_todos", label: "Overdue todos", description: "Once a day, when todos are overdue." },
+];
+
+interface NotificationSettingsProps {
+  settings: UserSettings;
+  /** Saves a partial update; throws on failure. */
+  onSave: (patch: Partial<UserSettings>) => Promise<void>;
+}
+
+/**
+ * Settings section for browser notifications. Turning them on asks for the
+ * browser permission on this device; the preferences apply to every device.
+ */
+export const NotificationSettings = ({ settings, onSave }: NotificationSettingsProps) => {
+  const { toast } = useToast();
+  const supported = notificationsSupported();
+  const [permission, setPermission] = useState<NotificationPermission>(
+    supported ? Notification.permission : "denied",
+  );
+  const [saving, setSaving] = useState(false);
+
+  const save = async (patch: Partial<UserSettings>) => {
+    setSaving(true);
+    try {
+      await onSave(patch);
+    } catch (error) {
+      toast({
+        title: "Error saving notification settings",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEnabledChange = async (enabled: boolean) => {
+    if (enabled) {
+      const result = await requestNotificationPermission();
+      setPermission(result);
+      if (result !== "granted") {
+        toast({
+          title: "Notifications are blocked",
+          description: "Allow notifications for this site in your browser settings, then try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+    save({ notifications_enabled: enabled });
+  };
+
+  const toggleLeadTime = (minutes: number) => {
+    const current = settings.exam_reminder_minutes;
+    const next = current.includes(minutes)
+      ? current.filter((lead) => lead !== minutes)
+      : [...current, minutes].sort((a, b) => b - a);
+    save({ exam_reminder_minutes: next });
+  };
+
+  const handleTest = async () => {
+    const shown = await showNotification({
+      title: "Notifications are on",
+      body: "This is how studox reminders will appear.",
+      tag: "test",
+      url: "/settings",
+    });
+    if (!shown) {
+      toast({
+        title: "Could not show a notification",
+        description: "Check that notifications are allowed for this site.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const active = settings.notifications_enabled && permission === "granted";
+
+  return (
+    <Card className="p-6 space-y-5">
+      <div>
+        <h2 className="text-lg font-display font-semibold">Notifications</h2>
+        <p className="text-sm text-muted-foreground">
+          Get browser notifications for timers, exams, revisions and todos. Reminders arrive while studox is open in
+          a tab, even in the background.
+        </p>
+      </div>
+
+      {!supported ? (
+        <p className="text-sm text-muted-foreground">This browser does not support notifications.</p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+            <div>
+              <Label htmlFor="settings-notifications">Enable notifications</Label>
+              <p className="text-sm text-muted-foreground">
+                {permission === "denied"
+                  ? "Notifications are blocked for this site. Allow them in your browser settings."
+                  : settings.notifications_enabled && permission === "default"
+                    ? "Turn this off and on again to allow notifications on this device."
+                    : "Your browser will ask for permission the first time."}
+              </p>
+            </div>
+            <Switch
+              id="settings-notifications"
+              checked={active}
+              disabled={saving}
+              onCheckedChange={handleEnabledChange}
+            />
+          </div>
+
+          {active && (
+            <>
+              <div className="space-y-3">
+                {NOTIFICATION_TOGGLES.map(({ key, label, description }) => (
+                  <div key={key} className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor={`settings-${key}`}>{label}</Label>
+                      <p className="text-sm text-muted-foreground">{description}</p>
+                    </div>
+                    <Switch
+                      id={`settings-${key}`}
+                      checked={settings[key]}
+                      disabled={saving}
+                      onCheckedChange={(checked) => save({ [key]: checked })}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {settings.notify_exams && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Remind me before an exam</p>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                    {EXAM_REMINDER_OPTIONS.map((minutes) => (
+                      <div key={minutes} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`settings-exam-lead-${minutes}`}
+                          checked={settings.exam_reminder_minutes.includes(minutes)}
+                          disabled={saving}
+                          onCheckedChange={() => toggleLeadTime(minutes)}
+                        />
+                        <label htmlFor={`settings-exam-lead-${minutes}`} className="text-sm cursor-pointer">
+                          {formatLeadTime(minutes)} before
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button variant="outline" onClick={handleTest}>
+                  <BellRing className="w-4 h-4 mr-2" />
+                  Send test notification
+                </Button>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </Card>
+  );
+};
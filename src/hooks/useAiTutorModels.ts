@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  fetchAiTutorModels,
+  getPreferredAiTutorModel,
+  setPreferredAiTutorModel,
+  type AiTutorModels,
+} from "@/lib/aiTutor";
+
+/**
+ * Models the AI tutor may use plus the student's pick, remembered across
+ * sessions. A remembered model that is no longer allowed falls back to the
+ * deployment's default.
+ */
+export const useAiTutorModels = () => {
+  const { user } = useAuth();
+  const [available, setAvailable] = useState<AiTutorModels | null>(null);
+  const [model, setModel] = useState<string | null>(getPreferredAiTutorModel);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchAiTutorModels()
+      .then((result) => {
+        setAvailable(result);
+        const preferred = getPreferredAiTutorModel();
+        if (preferred && !result.models.includes(preferred)) {
+          setPreferredAiTutorModel(null);
+          setModel(null);
+        }
+      })
+      .catch((error) => console.error("Error loading AI tutor models:", error));
+  }, [user]);
+
+  const selectModel = (value: string) => {
+    const next = value === available?.defaultModel ? null : value;
+    setPreferredAiTutorModel(next);
+    setModel(next);
+  };
+
+  return {
+    models: available?.models ?? [],
+    /** The model requests should use; undefined lets the function pick its default. */
+    model: model ?? undefined,
+    selectedModel: model ?? available?.defaultModel ?? null,
+    selectModel,
+  };
+};
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { fetchAiTutorUsage, type AiTutorUsage } from "@/lib/aiTutor";
+
+/**
+ * The signed-in user's AI tutor usage for today. Call `reload` after a
+ * request so the meter reflects the tokens it used.
+ */
+export const useAiTutorUsage = () => {
+  const { user } = useAuth();
+  const [usage, setUsage] = useState<AiTutorUsage | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setUsage(await fetchAiTutorUsage());
+    } catch (error) {
+      // The meter is informational; the function still enforces the quota.
+      console.error("Error loading AI tutor usage:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  return { usage, reload: loadUsage };
+};
@@ -1,33 +1,70 @@
 import { useEffect, useState } from "react";
-import { User } from "@supabase/supabase-js";
+import { AuthChangeEvent, Session, User } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+
+/**
+ * Last signed-in user, kept so the app stays usable offline: once the access
+ * token expires it cannot be refreshed, and Supabase reports no session.
+ */
+const OFFLINE_USER_KEY = "studox_offline_user";
+
+/** Cache of Supabase reads kept by the service worker; must match `public/sw.js`. */
+const OFFLINE_DATA_CACHE = "studox-data-v1";
+
+const resolveUser = (session: Session | null, event?: AuthChangeEvent): User | null => {
+  try {
+    if (session) {
+      localStorage.setItem(OFFLINE_USER_KEY, JSON.stringify(session.user));
+      return session.user;
+    }
+    if (event !== "SIGNED_OUT" && !navigator.onLine) {
+      const raw = localStorage.getItem(OFFLINE_USER_KEY);
+      return raw ? (JSON.parse(raw) as User) : null;
+    }
+  } catch (error) {
+    console.error("Failed to access the offline user:", error);
+  }
+  return session?.user ?? null;
+};
 
 export const useAuth = () => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     // Check active session
     supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
+      setUser(resolveUser(session));
       setLoading(false);
     });
 
     // Listen for auth changes
     const {
       data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
-      setUser(session?.user ?? null);
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      setUser(resolveUser(session, event));
       setLoading(false);
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
+  /**
+   * Signs out and forgets the data kept for offline use on this device and
+   * the data cached in memory, so the next user starts from a clean slate.
+   * Changes still waiting to sync stay queued until the user signs back in.
+   */
   const signOut = async () => {
+    localStorage.removeItem(OFFLINE_USER_KEY);
+    if ("caches" in window) {
+      await caches.delete(OFFLINE_DATA_CACHE).catch((error) => console.error("Failed to clear offline data:", error));
+    }
     await supabase.auth.signOut();
+    queryClient.clear();
     navigate("/auth");
   };
 
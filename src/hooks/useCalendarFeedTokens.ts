@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+
+export interface CalendarFeedToken {
+  id: string;
+  token: string;
+  label: string;
+  last_used_at: string | null;
+  created_at: string | null;
+}
+
+/**
+ * The signed-in user's iCalendar feed tokens. Revoking deletes the token, so
+ * calendars subscribed with it stop receiving updates.
+ */
+export const useCalendarFeedTokens = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [tokens, setTokens] = useState<CalendarFeedToken[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadTokens = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("calendar_feed_tokens")
+        .select("id, token, label, last_used_at, created_at")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setTokens(data || []);
+    } catch (error) {
+      toast({
+        title: "Error loading calendar feeds",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const createToken = async (label: string) => {
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from("calendar_feed_tokens")
+      .insert({ user_id: user.id, label: label.trim() || "Calendar feed" })
+      .select("id, token, label, last_used_at, created_at")
+      .single();
+
+    if (error) {
+      toast({
+        title: "Error creating calendar feed",
+        description: error.message,
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    setTokens((prev) => [data, ...prev]);
+    return data;
+  };
+
+  const revokeToken = async (id: string) => {
+    const previous = tokens;
+    setTokens((prev) => prev.filter((token) => token.id !== id));
+
+    const { error } = await supabase.from("calendar_feed_tokens").delete().eq("id", id);
+    if (error) {
+      setTokens(previous);
+      toast({
+        title: "Error revoking calendar feed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return { tokens, loading, createToken, revokeToken, reload: loadTokens };
+};
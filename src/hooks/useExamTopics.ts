@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { CoverageTopicInput } from "@/lib/examCoverage";
+
+/**
+ * The syllabus topics linked to each of the signed-in user's exams, with the
+ * revision state needed for coverage.
+ */
+export const useExamTopics = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [topicsByExam, setTopicsByExam] = useState<Record<string, CoverageTopicInput[]>>({});
+  const [loading, setLoading] = useState(true);
+
+  const loadExamTopics = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("exam_topics")
+        .select("exam_id, topic_id, topics(name, revision_count, last_revised_at)")
+        .eq("user_id", user.id);
+
+      if (error) throw error;
+
+      const grouped: Record<string, CoverageTopicInput[]> = {};
+      (data || []).forEach((link) => {
+        if (!link.topics) return;
+        if (!grouped[link.exam_id]) grouped[link.exam_id] = [];
+        grouped[link.exam_id].push({
+          topicId: link.topic_id,
+          name: link.topics.name,
+          revisionCount: link.topics.revision_count ?? 0,
+          lastRevisedAt: link.topics.last_revised_at,
+        });
+      });
+      setTopicsByExam(grouped);
+    } catch (error) {
+      toast({
+        title: "Error loading exam topics",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    loadExamTopics();
+  }, [loadExamTopics]);
+
+  /**
+   * Replaces the topics linked to an exam, inserting and deleting only the
+   * difference. Returns whether the change was saved.
+   */
+  const saveExamTopics = async (examId: string, topicIds: string[]) => {
+    if (!user) return false;
+
+    const current = new Set((topicsByExam[examId] || []).map((topic) => topic.topicId));
+    const next = new Set(topicIds);
+    const added = topicIds.filter((id) => !current.has(id));
+    const removed = [...current].filter((id) => !next.has(id));
+
+    try {
+      if (removed.length > 0) {
+        const { error } = await supabase
+          .from("exam_topics")
+          .delete()
+          .eq("exam_id", examId)
+          .in("topic_id", removed);
+        if (error) throw error;
+      }
+      if (added.length > 0) {
+        const { error } = await supabase
+          .from("exam_topics")
+          .insert(added.map((topicId) => ({ exam_id: examId, topic_id: topicId, user_id: user.id })));
+        if (error) throw error;
+      }
+
+      await loadExamTopics();
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error saving exam topics",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  return { topicsByExam, loading, saveExamTopics, reload: loadExamTopics };
+};
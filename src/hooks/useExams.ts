@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { queryKeys } from "@/lib/queryKeys";
+import { restoreQueries, snapshotQueries } from "@/lib/queryClient";
+import { deleteExamWithAttachments } from "@/lib/examAttachments";
+import { byExamDate, createExam, Exam, ExamUpdate, listExams, NewExamFields, updateExam } from "@/lib/repositories/exams";
+
+/** The signed-in user's exams, earliest first. */
+export const useExams = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.exams.list(user?.id ?? ""),
+    queryFn: () => listExams(user!.id),
+    enabled: !!user,
+    meta: { errorTitle: "Error loading exams" },
+  });
+};
+
+export const useCreateExam = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (fields: NewExamFields) => {
+      if (!user) throw new Error("You must be signed in to create an exam");
+      return createExam(user.id, fields);
+    },
+    onSuccess: (exam) => {
+      queryClient.setQueryData<Exam[]>(queryKeys.exams.list(exam.user_id), (prev) =>
+        prev ? [...prev, exam].sort(byExamDate) : prev,
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.exams.all }),
+  });
+};
+
+/** Saves changes to an exam, such as its result, showing them right away. */
+export const useUpdateExam = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const listKey = queryKeys.exams.list(user?.id ?? "");
+
+  return useMutation({
+    mutationFn: ({ id, update }: { id: string; update: ExamUpdate }) => updateExam(id, update),
+    onMutate: async ({ id, update }) => {
+      const snapshot = await snapshotQueries(queryClient, listKey);
+      queryClient.setQueryData<Exam[]>(listKey, (prev) =>
+        prev?.map((exam) => (exam.id === id ? { ...exam, ...update } : exam)),
+      );
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => restoreQueries(queryClient, context?.snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.exams.all }),
+  });
+};
+
+/** Deletes an exam with its attachment files, removing it from the list right away. */
+export const useDeleteExam = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const listKey = queryKeys.exams.list(user?.id ?? "");
+
+  return useMutation({
+    mutationFn: (id: string) => deleteExamWithAttachments(id),
+    onMutate: async (id) => {
+      const snapshot = await snapshotQueries(queryClient, listKey);
+      queryClient.setQueryData<Exam[]>(listKey, (prev) => prev?.filter((exam) => exam.id !== id));
+      return { snapshot };
+    },
+    onError: (_error, _id, context) => restoreQueries(queryClient, context?.snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.exams.all }),
+  });
+};
@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { listQueuedMutations, OFFLINE_QUEUE_CHANGED_EVENT } from "@/lib/offlineQueue";
+import { isReplayingOfflineQueue } from "@/lib/offlineSync";
+
+/**
+ * Connection state plus how many of the signed-in user's changes are still
+ * waiting to sync, and whether they are being sent right now.
+ */
+export const useOfflineStatus = () => {
+  const { user } = useAuth();
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    const updateOnline = () => setOnline(navigator.onLine);
+    window.addEventListener("online", updateOnline);
+    window.addEventListener("offline", updateOnline);
+    return () => {
+      window.removeEventListener("online", updateOnline);
+      window.removeEventListener("offline", updateOnline);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const refresh = async () => {
+      setSyncing(isReplayingOfflineQueue());
+      try {
+        setPendingCount((await listQueuedMutations(user.id)).length);
+      } catch (error) {
+        console.error("Error reading offline changes:", error);
+      }
+    };
+
+    refresh();
+    window.addEventListener(OFFLINE_QUEUE_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(OFFLINE_QUEUE_CHANGED_EVENT, refresh);
+  }, [user]);
+
+  return { online, pendingCount, syncing };
+};
@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { PdfRect } from "@/lib/pdf";
+import {
+  comparePdfAnnotations,
+  toPdfAnnotation,
+  toRectsJson,
+  type PdfAnnotation,
+  type PdfAnnotationKind,
+} from "@/lib/pdfAnnotations";
+
+export interface NewPdfAnnotation {
+  page_number: number;
+  kind: PdfAnnotationKind;
+  quote?: string | null;
+  comment?: string | null;
+  rects?: PdfRect[];
+  color?: string;
+}
+
+/**
+ * Loads and mutates the signed-in user's highlights, comments and bookmarks
+ * for one PDF note, kept in page order.
+ */
+export const usePdfAnnotations = (noteId: string | null) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [annotations, setAnnotations] = useState<PdfAnnotation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadAnnotations = useCallback(async () => {
+    if (!user || !noteId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("pdf_annotations")
+        .select("*")
+        .eq("note_id", noteId)
+        .eq("user_id", user.id)
+        .order("page_number", { ascending: true });
+
+      if (error) throw error;
+      setAnnotations((data || []).map(toPdfAnnotation).sort(comparePdfAnnotations));
+    } catch (error) {
+      toast({
+        title: "Error loading annotations",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, noteId, toast]);
+
+  useEffect(() => {
+    setAnnotations([]);
+    setLoading(true);
+    loadAnnotations();
+  }, [loadAnnotations]);
+
+  const addAnnotation = async (annotation: NewPdfAnnotation): Promise<PdfAnnotation | null> => {
+    if (!user || !noteId) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from("pdf_annotations")
+        .insert({
+          user_id: user.id,
+          note_id: noteId,
+          page_number: annotation.page_number,
+          kind: annotation.kind,
+          quote: annotation.quote || null,
+          comment: annotation.comment || null,
+          rects: toRectsJson(annotation.rects || []),
+          color: annotation.color,
+        })
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      const saved = toPdfAnnotation(data);
+      setAnnotations((prev) => [...prev, saved].sort(comparePdfAnnotations));
+      return saved;
+    } catch (error) {
+      toast({
+        title: "Error saving annotation",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  /**
+   * Updates the comment of an annotation. Local state is updated first so
+   * editing feels instant, and restored if the save fails.
+   */
+  const updateComment = async (id: string, comment: string) => {
+    const previous = annotations;
+    setAnnotations((prev) => prev.map((a) => (a.id === id ? { ...a, comment: comment || null } : a)));
+
+    const { error } = await supabase
+      .from("pdf_annotations")
+      .update({ comment: comment || null })
+      .eq("id", id);
+    if (error) {
+      setAnnotations(previous);
+      toast({
+        title: "Error updating annotation",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeAnnotation = async (id: string) => {
+    const previous = annotations;
+    setAnnotations((prev) => prev.filter((a) => a.id !== id));
+
+    const { error } = await supabase.from("pdf_annotations").delete().eq("id", id);
+    if (error) {
+      setAnnotations(previous);
+      toast({
+        title: "Error deleting annotation",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return { annotations, loading, addAnnotation, updateComment, removeAnnotation, reload: loadAnnotations };
+};
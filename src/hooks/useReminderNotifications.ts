@@ -0,0 +1,136 @@
+import { useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import { toLocalDateKey } from "@/lib/dates";
+import { listUpcomingExams } from "@/lib/repositories/exams";
+import { countDueTopics } from "@/lib/repositories/topics";
+import {
+  buildExamReminders,
+  dailyReminderKey,
+  notificationsSupported,
+  notifyOnce,
+  ReminderExam,
+} from "@/lib/notifications";
+
+/** How often reminders are checked. */
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/** How long loaded exams and counts are reused before querying again. */
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+interface ReminderData {
+  loadedAt: number;
+  exams: ReminderExam[];
+  dueRevisionCount: number;
+  overdueTodoCount: number;
+}
+
+/**
+ * Sends the signed-in user's reminders while the app is open: upcoming exams
+ * at each configured lead time, plus a daily summary of topics due for
+ * revision and overdue todos. Each reminder is shown once per device.
+ */
+export const useReminderNotifications = () => {
+  const { user } = useAuth();
+  const { settings, loading } = useUserSettings();
+  const data = useRef<ReminderData | null>(null);
+
+  const enabled = !loading && !!user && settings.notifications_enabled && notificationsSupported();
+
+  useEffect(() => {
+    data.current = null;
+  }, [user, settings.exam_reminder_minutes]);
+
+  useEffect(() => {
+    if (!enabled || !user) return;
+
+    const loadData = async (now: Date): Promise<ReminderData> => {
+      const maxLead = Math.max(0, ...settings.exam_reminder_minutes);
+      const endOfToday = new Date(now);
+      endOfToday.setHours(23, 59, 59, 999);
+
+      const [exams, dueRevisionCount, todosRes] = await Promise.all([
+        listUpcomingExams(user.id, now, new Date(now.getTime() + maxLead * 60 * 1000)),
+        countDueTopics(user.id, endOfToday),
+        supabase
+          .from("todos")
+          .select("id", { count: "exact", head: true })
+          .eq("user_id", user.id)
+          .is("completed_at", null)
+          .lt("due_date", toLocalDateKey(now)),
+      ]);
+
+      if (todosRes.error) throw todosRes.error;
+
+      return {
+        loadedAt: now.getTime(),
+        exams,
+        dueRevisionCount,
+        overdueTodoCount: todosRes.count ?? 0,
+      };
+    };
+
+    const checkReminders = async () => {
+      if (Notification.permission !== "granted") return;
+      const now = new Date();
+
+      try {
+        if (!data.current || now.getTime() - data.current.loadedAt >= REFRESH_INTERVAL_MS) {
+          data.current = await loadData(now);
+        }
+      } catch (error) {
+        console.error("Error loading reminders:", error);
+        return;
+      }
+      const { exams, dueRevisionCount, overdueTodoCount } = data.current;
+
+      if (settings.notify_exams) {
+        for (const { key, notification } of buildExamReminders(exams, settings.exam_reminder_minutes, now)) {
+          await notifyOnce(user.id, key, notification, now);
+        }
+      }
+
+      const revisionsKey = dailyReminderKey("revisions", now);
+      if (settings.notify_due_revisions && revisionsKey && dueRevisionCount > 0) {
+        await notifyOnce(
+          user.id,
+          revisionsKey,
+          {
+            title: `${dueRevisionCount} topic${dueRevisionCount === 1 ? "" : "s"} due for revision`,
+            body: "Work through your revision queue to keep them fresh.",
+            tag: "due-revisions",
+            url: "/",
+          },
+          now,
+        );
+      }
+
+      const todosKey = dailyReminderKey("todos", now);
+      if (settings.notify_overdue_todos && todosKey && overdueTodoCount > 0) {
+        await notifyOnce(
+          user.id,
+          todosKey,
+          {
+            title: `${overdueTodoCount} overdue todo${overdueTodoCount === 1 ? "" : "s"}`,
+            body: "Finish them or move them to another day.",
+            tag: "overdue-todos",
+            url: "/todos",
+          },
+          now,
+        );
+      }
+    };
+
+    checkReminders();
+    const interval = window.setInterval(checkReminders, CHECK_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [
+    enabled,
+    user,
+    settings.notify_exams,
+    settings.exam_reminder_minutes,
+    settings.notify_due_revisions,
+    settings.notify_overdue_todos,
+  ]);
+};
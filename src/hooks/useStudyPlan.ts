@@ -0,0 +1,266 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { UserSettings } from "@/hooks/useUserSettings";
+import { fromLocalDateKey, toLocalDateKey } from "@/lib/dates";
+import { listUpcomingExams } from "@/lib/repositories/exams";
+import { listTopicsInSubjects } from "@/lib/repositories/topics";
+import {
+  generateStudyPlan,
+  summarizePlanProgress,
+  type StudyPlanItemKind,
+  type StudyPlanItemStatus,
+} from "@/lib/studyPlan";
+
+export interface UpcomingExam {
+  id: string;
+  title: string;
+  exam_date: string;
+  subject_id: string;
+  subject_name: string | null;
+  subject_color: string | null;
+}
+
+export interface StudyPlanItem {
+  id: string;
+  plan_date: string;
+  topic_id: string;
+  exam_id: string;
+  kind: StudyPlanItemKind;
+  minutes: number;
+  status: StudyPlanItemStatus;
+  completed_at: string | null;
+  topic_name: string | null;
+  subject_id: string | null;
+  exam_title: string | null;
+}
+
+/** How far back the calendar shows past plan items. */
+const HISTORY_DAYS = 60;
+
+const ITEM_SELECT =
+  "id, plan_date, topic_id, exam_id, kind, minutes, status, completed_at, topics(name, subject_id), exams(title)";
+
+type PlanSettings = Pick<UserSettings, "daily_study_minutes" | "focus_minutes">;
+
+/**
+ * The study planner: upcoming exams, the generated day-by-day plan and
+ * progress against it.
+ *
+ * Pass the user's settings once they have loaded (null until then). When
+ * past days still have planned blocks, they are marked missed and the rest
+ * of the plan is regenerated from today automatically.
+ */
+export const useStudyPlan = (settings: PlanSettings | null) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [exams, setExams] = useState<UpcomingExam[]>([]);
+  const [items, setItems] = useState<StudyPlanItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  /** Blocks that did not fit before their exam in the last generated plan. */
+  const [unscheduled, setUnscheduled] = useState<Record<string, number>>({});
+  const autoReplanned = useRef(false);
+
+  const loadPlan = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const historyStart = new Date();
+      historyStart.setDate(historyStart.getDate() - HISTORY_DAYS);
+
+      const [upcomingExams, itemsRes] = await Promise.all([
+        listUpcomingExams(user.id, new Date()),
+        supabase
+          .from("study_plan_items")
+          .select(ITEM_SELECT)
+          .eq("user_id", user.id)
+          .gte("plan_date", toLocalDateKey(historyStart))
+          .order("plan_date", { ascending: true }),
+      ]);
+
+      if (itemsRes.error) throw itemsRes.error;
+
+      setExams(
+        upcomingExams.map(({ id, title, exam_date, subject_id, subjects }) => ({
+          id,
+          title,
+          exam_date,
+          subject_id,
+          subject_name: subjects?.name ?? null,
+          subject_color: subjects?.color ?? null,
+        })),
+      );
+      setItems(
+        (itemsRes.data || []).map(({ topics, exams: exam, ...item }) => ({
+          ...item,
+          kind: item.kind as StudyPlanItemKind,
+          status: item.status as StudyPlanItemStatus,
+          topic_name: topics?.name ?? null,
+          subject_id: topics?.subject_id ?? null,
+          exam_title: exam?.title ?? null,
+        })),
+      );
+    } catch (error) {
+      toast({
+        title: "Error loading study plan",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    loadPlan();
+  }, [loadPlan]);
+
+  /**
+   * Regenerates the plan from today. Past blocks still marked planned become
+   * missed, future planned blocks are replaced, and completed blocks are kept
+   * and count toward their topic so work is not scheduled twice.
+   *
+   * `dailyMinutes` overrides the saved budget, for a budget that was just
+   * changed and may not have reached `settings` yet.
+   */
+  const generatePlan = async (options: { auto?: boolean; dailyMinutes?: number } = {}) => {
+    if (!user || !settings) return;
+    setGenerating(true);
+
+    try {
+      const todayKey = toLocalDateKey(new Date());
+      const upcomingExams = await listUpcomingExams(user.id, new Date());
+
+      const subjectIds = [...new Set(upcomingExams.map((exam) => exam.subject_id))];
+      const examIds = upcomingExams.map((exam) => exam.id);
+
+      const [topics, doneRes, examTopicsRes] = await Promise.all([
+        listTopicsInSubjects(user.id, subjectIds),
+        examIds.length > 0
+          ? supabase
+              .from("study_plan_items")
+              .select("topic_id, plan_date, minutes")
+              .eq("user_id", user.id)
+              .eq("status", "done")
+              .in("exam_id", examIds)
+          : Promise.resolve({ data: [], error: null }),
+        examIds.length > 0
+          ? supabase.from("exam_topics").select("exam_id, topic_id").in("exam_id", examIds)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+      if (doneRes.error) throw doneRes.error;
+      if (examTopicsRes.error) throw examTopicsRes.error;
+
+      const topicIdsByExam: Record<string, string[]> = {};
+      (examTopicsRes.data || []).forEach((link) => {
+        if (!topicIdsByExam[link.exam_id]) topicIdsByExam[link.exam_id] = [];
+        topicIdsByExam[link.exam_id].push(link.topic_id);
+      });
+
+      const doneBlocksByTopic: Record<string, number> = {};
+      let doneMinutesToday = 0;
+      (doneRes.data || []).forEach((item) => {
+        doneBlocksByTopic[item.topic_id] = (doneBlocksByTopic[item.topic_id] ?? 0) + 1;
+        if (item.plan_date === todayKey) doneMinutesToday += item.minutes;
+      });
+
+      const plan = generateStudyPlan({
+        exams: upcomingExams.map((exam) => ({
+          id: exam.id,
+          subjectId: exam.subject_id,
+          examDate: exam.exam_date,
+          topicIds: topicIdsByExam[exam.id],
+        })),
+        topics: topics.map((topic) => ({
+          id: topic.id,
+          subjectId: topic.subject_id,
+          revisionCount: topic.revision_count ?? 0,
+          dueAt: topic.due_at,
+          easeFactor: topic.ease_factor,
+        })),
+        dailyMinutes: options.dailyMinutes ?? settings.daily_study_minutes,
+        sessionMinutes: settings.focus_minutes,
+        start: fromLocalDateKey(todayKey),
+        doneBlocksByTopic,
+        doneMinutesOnStart: doneMinutesToday,
+      });
+
+      // Marking missed blocks, dropping the old future plan and inserting the
+      // new one happen in one transaction, so a failure leaves the plan as it was.
+      const { data: missedCount, error: replaceError } = await supabase.rpc("replace_study_plan", {
+        p_today: todayKey,
+        p_items: plan.sessions.map((session) => ({
+          plan_date: session.date,
+          topic_id: session.topicId,
+          exam_id: session.examId,
+          kind: session.kind,
+          minutes: session.minutes,
+        })),
+      });
+      if (replaceError) throw replaceError;
+
+      setUnscheduled(plan.unscheduled);
+      await loadPlan();
+
+      toast({
+        title: options.auto ? "Study plan updated" : "Study plan ready",
+        description: options.auto
+          ? `${missedCount ?? 0} missed block${missedCount === 1 ? " was" : "s were"} re-planned from today.`
+          : `${plan.sessions.length} study block${plan.sessions.length === 1 ? "" : "s"} scheduled before your exams.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error generating study plan",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  // Re-plan once per visit when days were missed.
+  useEffect(() => {
+    if (loading || !settings || autoReplanned.current) return;
+    const todayKey = toLocalDateKey(new Date());
+    if (items.some((item) => item.status === "planned" && item.plan_date < todayKey)) {
+      autoReplanned.current = true;
+      generatePlan({ auto: true });
+    }
+  }, [loading, settings, items]);
+
+  /** Marks a block done, or back to planned. */
+  const toggleItem = async (item: StudyPlanItem) => {
+    const done = item.status !== "done";
+    const update = {
+      status: (done ? "done" : "planned") as StudyPlanItemStatus,
+      completed_at: done ? new Date().toISOString() : null,
+    };
+    const previous = items;
+    setItems((prev) => prev.map((i) => (i.id === item.id ? { ...i, ...update } : i)));
+
+    const { error } = await supabase.from("study_plan_items").update(update).eq("id", item.id);
+    if (error) {
+      setItems(previous);
+      toast({
+        title: "Error updating study plan",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return {
+    exams,
+    items,
+    loading,
+    generating,
+    unscheduled,
+    progress: summarizePlanProgress(items),
+    generatePlan,
+    toggleItem,
+    reload: loadPlan,
+  };
+};
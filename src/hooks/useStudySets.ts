@@ -0,0 +1,254 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { loadTopicTutorContext, type TutorSource } from "@/lib/tutorContext";
+import { generateFlashcards, generateQuiz, parseQuizQuestions, type QuizQuestion } from "@/lib/studySets";
+import { recordTopicRevision, type TopicRevisionUpdate } from "@/lib/revisions";
+import { getTopic } from "@/lib/repositories/topics";
+import { recallQualityFromScore } from "@/lib/spacedRepetition";
+
+export interface Flashcard {
+  id: string;
+  front: string;
+  back: string;
+  source_note_id: string | null;
+  source_page: number | null;
+  created_at: string | null;
+}
+
+export interface Quiz {
+  id: string;
+  title: string;
+  questions: QuizQuestion[];
+  attempts: number;
+  last_score: number | null;
+  best_score: number | null;
+  last_taken_at: string | null;
+  created_at: string | null;
+}
+
+const FLASHCARD_SELECT = "id, front, back, source_note_id, source_page, created_at";
+const QUIZ_SELECT = "id, title, questions, attempts, last_score, best_score, last_taken_at, created_at";
+
+const findSource = (sources: TutorSource[], id: number | null | undefined) =>
+  id ? sources.find((source) => source.id === id) : undefined;
+
+/**
+ * Flashcards and quizzes for a topic: loading, AI generation from the topic's
+ * notes, deletion, and recording practice results as topic revisions.
+ */
+export const useStudySets = (topicId: string | undefined) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState<"flashcards" | "quiz" | null>(null);
+
+  const loadStudySets = useCallback(async () => {
+    if (!user || !topicId) return;
+
+    try {
+      const [flashcardsRes, quizzesRes] = await Promise.all([
+        supabase
+          .from("flashcards")
+          .select(FLASHCARD_SELECT)
+          .eq("topic_id", topicId)
+          .eq("user_id", user.id)
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("quizzes")
+          .select(QUIZ_SELECT)
+          .eq("topic_id", topicId)
+          .eq("user_id", user.id)
+          .order("created_at", { ascending: false }),
+      ]);
+
+      if (flashcardsRes.error) throw flashcardsRes.error;
+      if (quizzesRes.error) throw quizzesRes.error;
+
+      setFlashcards(flashcardsRes.data || []);
+      setQuizzes((quizzesRes.data || []).map((quiz) => ({ ...quiz, questions: parseQuizQuestions(quiz.questions) })));
+    } catch (error) {
+      toast({
+        title: "Error loading practice sets",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, topicId, toast]);
+
+  useEffect(() => {
+    loadStudySets();
+  }, [loadStudySets]);
+
+  /**
+   * Generates cards from the topic's notes and appends them to the deck.
+   * Cited sources are resolved to the note and PDF page they came from.
+   */
+  const generateFlashcardSet = async (count?: number) => {
+    if (!user || !topicId) return;
+    setGenerating("flashcards");
+
+    try {
+      const context = await loadTopicTutorContext(user.id, topicId);
+      const generated = await generateFlashcards(context, count);
+
+      const { data, error } = await supabase
+        .from("flashcards")
+        .insert(
+          generated.flashcards.map((card) => {
+            const source = findSource(context.sources, card.source);
+            return {
+              user_id: user.id,
+              topic_id: topicId,
+              front: card.front,
+              back: card.back,
+              source_note_id: source?.noteId ?? null,
+              source_page: source?.page ?? null,
+            };
+          }),
+        )
+        .select(FLASHCARD_SELECT);
+
+      if (error) throw error;
+      setFlashcards((prev) => [...prev, ...(data || [])]);
+      toast({
+        title: "Flashcards ready",
+        description: `${data?.length ?? 0} new cards were added to this topic.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error generating flashcards",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  const generateQuizSet = async (count?: number) => {
+    if (!user || !topicId) return;
+    setGenerating("quiz");
+
+    try {
+      const context = await loadTopicTutorContext(user.id, topicId);
+      const generated = await generateQuiz(context, count);
+      const questions: QuizQuestion[] = generated.questions.map(({ source: sourceId, ...question }) => {
+        const source = findSource(context.sources, sourceId);
+        return { ...question, sourceNoteId: source?.noteId ?? null, sourcePage: source?.page ?? null };
+      });
+
+      const { data, error } = await supabase
+        .from("quizzes")
+        .insert({ user_id: user.id, topic_id: topicId, title: generated.title, questions })
+        .select(QUIZ_SELECT)
+        .single();
+
+      if (error) throw error;
+      setQuizzes((prev) => [{ ...data, questions: parseQuizQuestions(data.questions) }, ...prev]);
+      toast({
+        title: "Quiz ready",
+        description: `"${data.title}" has ${questions.length} questions.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error generating quiz",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  const deleteFlashcard = async (id: string) => {
+    const previous = flashcards;
+    setFlashcards((prev) => prev.filter((card) => card.id !== id));
+
+    const { error } = await supabase.from("flashcards").delete().eq("id", id);
+    if (error) {
+      setFlashcards(previous);
+      toast({
+        title: "Error deleting flashcard",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteQuiz = async (id: string) => {
+    const previous = quizzes;
+    setQuizzes((prev) => prev.filter((quiz) => quiz.id !== id));
+
+    const { error } = await supabase.from("quizzes").delete().eq("id", id);
+    if (error) {
+      setQuizzes(previous);
+      toast({
+        title: "Error deleting quiz",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Records a finished practice session as a topic revision, rated from the
+   * score, so it bumps `revision_count` / `last_revised_at` and reschedules
+   * the topic like a manual revision would.
+   */
+  const recordPracticeRevision = async (correct: number, total: number): Promise<TopicRevisionUpdate | null> => {
+    if (!user || !topicId || total === 0) return null;
+
+    try {
+      const topic = await getTopic(topicId);
+      return await recordTopicRevision(user.id, topic, recallQualityFromScore(correct, total));
+    } catch (error) {
+      toast({
+        title: "Error recording revision",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  /**
+   * Saves a quiz attempt (percentage score) and records it as a revision.
+   */
+  const recordQuizAttempt = async (quiz: Quiz, correct: number) => {
+    const total = quiz.questions.length;
+    const score = total > 0 ? Math.round((correct / total) * 100) : 0;
+    const update = {
+      attempts: quiz.attempts + 1,
+      last_score: score,
+      best_score: Math.max(score, quiz.best_score ?? 0),
+      last_taken_at: new Date().toISOString(),
+    };
+    setQuizzes((prev) => prev.map((q) => (q.id === quiz.id ? { ...q, ...update } : q)));
+
+    const { error } = await supabase.from("quizzes").update(update).eq("id", quiz.id);
+    if (error) {
+      console.error("Error saving quiz attempt:", error);
+    }
+    return recordPracticeRevision(correct, total);
+  };
+
+  return {
+    flashcards,
+    quizzes,
+    loading,
+    generating,
+    generateFlashcardSet,
+    generateQuizSet,
+    deleteFlashcard,
+    deleteQuiz,
+    recordPracticeRevision,
+    recordQuizAttempt,
+    reload: loadStudySets,
+  };
+};
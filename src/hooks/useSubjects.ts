@@ -0,0 +1,95 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { queryKeys } from "@/lib/queryKeys";
+import { restoreQueries, snapshotQueries } from "@/lib/queryClient";
+import {
+  createSubject,
+  deleteSubject,
+  getSubject,
+  listSubjects,
+  Subject,
+  SubjectFields,
+  updateSubject,
+} from "@/lib/repositories/subjects";
+
+/** The signed-in user's subjects, newest first. */
+export const useSubjects = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.subjects.list(user?.id ?? ""),
+    queryFn: () => listSubjects(user!.id),
+    enabled: !!user,
+    meta: { errorTitle: "Error loading subjects" },
+  });
+};
+
+export const useSubject = (id: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.subjects.detail(id ?? ""),
+    queryFn: () => getSubject(id!),
+    enabled: !!id,
+    meta: { errorTitle: "Error loading subject" },
+  });
+
+export const useCreateSubject = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (fields: SubjectFields) => {
+      if (!user) throw new Error("You must be signed in to create a subject");
+      return createSubject(user.id, fields);
+    },
+    onSuccess: (subject) => {
+      queryClient.setQueryData<Subject[]>(queryKeys.subjects.list(subject.user_id), (prev) =>
+        prev ? [subject, ...prev] : prev,
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.subjects.all }),
+  });
+};
+
+/** Saves a subject's name, description and colour, showing the change right away. */
+export const useUpdateSubject = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, fields }: { id: string; fields: SubjectFields }) => updateSubject(id, fields),
+    onMutate: async ({ id, fields }) => {
+      const snapshot = await snapshotQueries(queryClient, queryKeys.subjects.all);
+      queryClient.setQueriesData<Subject[]>({ queryKey: queryKeys.subjects.lists }, (prev) =>
+        prev?.map((subject) => (subject.id === id ? { ...subject, ...fields } : subject)),
+      );
+      queryClient.setQueryData<Subject>(queryKeys.subjects.detail(id), (prev) => prev && { ...prev, ...fields });
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => restoreQueries(queryClient, context?.snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.subjects.all }),
+  });
+};
+
+/** Deletes a subject, removing it from cached lists right away. */
+export const useDeleteSubject = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteSubject(id),
+    onMutate: async (id) => {
+      const snapshot = await snapshotQueries(queryClient, queryKeys.subjects.lists);
+      queryClient.setQueriesData<Subject[]>({ queryKey: queryKeys.subjects.lists }, (prev) =>
+        prev?.filter((subject) => subject.id !== id),
+      );
+      return { snapshot };
+    },
+    onError: (_error, _id, context) => restoreQueries(queryClient, context?.snapshot),
+    onSuccess: (_data, id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.subjects.detail(id) });
+      // Topics, notes and exams of the subject are deleted with it.
+      queryClient.invalidateQueries({ queryKey: queryKeys.topics.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.topicNotes.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.exams.all });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.subjects.lists }),
+  });
+};
@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { toLocalDateKey } from "@/lib/dates";
+import { enqueueMutation, isNetworkError } from "@/lib/offlineQueue";
+
+export interface Todo {
+  id: string;
+  title: string;
+  /** Local calendar day (YYYY-MM-DD) the todo is planned for. */
+  due_date: string;
+  subject_id: string | null;
+  topic_id: string | null;
+  roll_over: boolean;
+  rolled_over_count: number;
+  completed_at: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  subjects?: { name: string; color: string | null } | null;
+  topics?: { name: string } | null;
+}
+
+export interface NewTodo {
+  title: string;
+  due_date?: string;
+  subject_id?: string | null;
+  topic_id?: string | null;
+  roll_over?: boolean;
+}
+
+/**
+ * Loads and mutates the signed-in user's todos stored in the `todos` table.
+ *
+ * Before loading, unfinished roll-over todos from previous days are moved to
+ * today via the `roll_over_todos` RPC so the dashboard always starts the day
+ * with yesterday's leftovers. The returned list contains every open todo plus
+ * todos completed for today or later, which is enough for the today,
+ * upcoming and overdue views.
+ *
+ * Adding, completing and deleting todos also works offline: the change is
+ * applied locally and queued until the connection is back.
+ */
+export const useTodos = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [todos, setTodos] = useState<Todo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const today = toLocalDateKey(new Date());
+
+  const loadTodos = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { error: rollOverError } = await supabase.rpc("roll_over_todos", { p_today: today });
+      if (rollOverError) {
+        console.error("Error rolling over todos:", rollOverError);
+      }
+
+      const { data, error } = await supabase
+        .from("todos")
+        .select("*, subjects(name, color), topics(name)")
+        .eq("user_id", user.id)
+        .or(`completed_at.is.null,due_date.gte.${today}`)
+        .order("due_date", { ascending: true })
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setTodos(data || []);
+    } catch (error) {
+      toast({
+        title: "Error loading todos",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, today, toast]);
+
+  useEffect(() => {
+    loadTodos();
+  }, [loadTodos]);
+
+  const addTodo = async (todo: NewTodo) => {
+    if (!user) return;
+    const title = todo.title.trim();
+    if (!title) return;
+
+    // The id is made here so a todo added offline can be completed or deleted before it syncs.
+    const values = {
+      id: crypto.randomUUID(),
+      title,
+      due_date: todo.due_date || today,
+      subject_id: todo.subject_id || null,
+      topic_id: todo.topic_id || null,
+      roll_over: todo.roll_over ?? true,
+    };
+
+    try {
+      const { data, error } = await supabase
+        .from("todos")
+        .insert({ user_id: user.id, ...values })
+        .select("*, subjects(name, color), topics(name)")
+        .single();
+
+      let added: Todo = data;
+      if (error) {
+        if (!isNetworkError(error)) throw error;
+        await enqueueMutation(user.id, { kind: "todo.add", todo: values });
+        added = {
+          ...values,
+          rolled_over_count: 0,
+          completed_at: null,
+          created_at: new Date().toISOString(),
+          updated_at: null,
+          subjects: null,
+          topics: null,
+        };
+      }
+      setTodos((prev) =>
+        [...prev, added].sort((a, b) => (a.due_date < b.due_date ? -1 : a.due_date > b.due_date ? 1 : 0)),
+      );
+    } catch (error) {
+      toast({
+        title: "Error adding todo",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Marks a todo done (stamping `completed_at`) or re-opens it.
+   * Local state is updated first so the checkbox feels instant.
+   */
+  const toggleTodo = async (todo: Todo) => {
+    if (!user) return;
+    const completedAt = todo.completed_at ? null : new Date().toISOString();
+    setTodos((prev) => prev.map((t) => (t.id === todo.id ? { ...t, completed_at: completedAt } : t)));
+
+    try {
+      const { error } = await supabase.from("todos").update({ completed_at: completedAt }).eq("id", todo.id);
+      if (error) {
+        if (!isNetworkError(error)) throw error;
+        await enqueueMutation(user.id, {
+          kind: "todo.toggle",
+          todoId: todo.id,
+          completedAt,
+          baseUpdatedAt: todo.updated_at,
+        });
+      }
+    } catch (error) {
+      setTodos((prev) => prev.map((t) => (t.id === todo.id ? todo : t)));
+      toast({
+        title: "Error updating todo",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeTodo = async (id: string) => {
+    if (!user) return;
+    const previous = todos;
+    setTodos((prev) => prev.filter((t) => t.id !== id));
+
+    try {
+      const { error } = await supabase.from("todos").delete().eq("id", id);
+      if (error) {
+        if (!isNetworkError(error)) throw error;
+        await enqueueMutation(user.id, { kind: "todo.remove", todoId: id });
+      }
+    } catch (error) {
+      setTodos(previous);
+      toast({
+        title: "Error deleting todo",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return { todos, loading, today, addTodo, toggleTodo, removeTodo, reload: loadTodos };
+};
@@ -0,0 +1,140 @@
+import { useCallback } from "react";
+import { useMutation, useQueries, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { queryKeys } from "@/lib/queryKeys";
+import { restoreQueries, snapshotQueries } from "@/lib/queryClient";
+import {
+  addTopicLink,
+  createMarkdownNote,
+  deleteTopicNote,
+  listTopicNotes,
+  swapTopicNoteOrder,
+  TopicNote,
+  uploadTopicFile,
+} from "@/lib/repositories/topicNotes";
+
+/** The topic new notes are attached to. */
+type TopicRef = { id: string; subject_id: string };
+
+/** The signed-in user's files, links and Markdown notes for a topic. */
+export const useTopicNotes = (topicId: string | undefined) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.topicNotes.list(topicId ?? ""),
+    queryFn: () => listTopicNotes(user!.id, topicId!),
+    enabled: !!user && !!topicId,
+    meta: { errorTitle: "Error loading resources" },
+  });
+};
+
+/**
+ * Notes of several topics, in the order of `topicIds`. Each topic shares its
+ * cached list with `useTopicNotes`, so edits on a topic's page show up here.
+ */
+export const useNotesForTopics = (topicIds: string[]) => {
+  const { user } = useAuth();
+
+  return useQueries({
+    queries: topicIds.map((topicId) => ({
+      queryKey: queryKeys.topicNotes.list(topicId),
+      queryFn: () => listTopicNotes(user!.id, topicId),
+      enabled: !!user,
+      meta: { errorTitle: "Error loading resources" },
+    })),
+    combine: (results) => ({
+      data: results.flatMap((result) => result.data ?? []),
+      isPending: results.some((result) => result.isPending),
+    }),
+  });
+};
+
+/** Patches a cached note in place, e.g. after an autosave from the editor. */
+export const usePatchCachedTopicNote = () => {
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    (topicId: string, noteId: string, patch: Partial<TopicNote>) => {
+      queryClient.setQueryData<TopicNote[]>(queryKeys.topicNotes.list(topicId), (prev) =>
+        prev?.map((note) => (note.id === noteId ? { ...note, ...patch } : note)),
+      );
+    },
+    [queryClient],
+  );
+};
+
+/** Mutation that creates a note with `insert` and appends it to the topic's list. */
+const useAppendTopicNote = <TVariables>(
+  topic: TopicRef | null,
+  insert: (userId: string, topic: TopicRef, variables: TVariables) => Promise<TopicNote>,
+) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const listKey = queryKeys.topicNotes.list(topic?.id ?? "");
+
+  return useMutation({
+    mutationFn: (variables: TVariables) => {
+      if (!user || !topic) throw new Error("You must be signed in to add resources");
+      return insert(user.id, topic, variables);
+    },
+    onSuccess: (note) => {
+      queryClient.setQueryData<TopicNote[]>(listKey, (prev) => (prev ? [...prev, note] : prev));
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: listKey }),
+  });
+};
+
+export const useUploadTopicFile = (topic: TopicRef | null) =>
+  useAppendTopicNote(topic, (userId, target, file: File) => uploadTopicFile(userId, target, file));
+
+export const useAddTopicLink = (topic: TopicRef | null) =>
+  useAppendTopicNote(topic, (userId, target, link: { title: string; url: string }) =>
+    addTopicLink(userId, target, link.title, link.url),
+  );
+
+export const useCreateMarkdownNote = (topic: TopicRef | null) =>
+  useAppendTopicNote(topic, (userId, target, _variables: void) => createMarkdownNote(userId, target));
+
+/** Moves a note one place up or down by swapping it with its neighbour. */
+export const useSwapTopicNoteOrder = (topicId: string | undefined) => {
+  const queryClient = useQueryClient();
+  const listKey = queryKeys.topicNotes.list(topicId ?? "");
+
+  return useMutation({
+    mutationFn: ({ a, b }: { a: TopicNote; b: TopicNote }) => swapTopicNoteOrder(a, b),
+    onMutate: async ({ a, b }) => {
+      const snapshot = await snapshotQueries(queryClient, listKey);
+      queryClient.setQueryData<TopicNote[]>(listKey, (prev) =>
+        prev
+          ?.map((note) =>
+            note.id === a.id
+              ? { ...note, sort_order: b.sort_order }
+              : note.id === b.id
+                ? { ...note, sort_order: a.sort_order }
+                : note,
+          )
+          .sort((x, y) => (x.sort_order ?? 0) - (y.sort_order ?? 0)),
+      );
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => restoreQueries(queryClient, context?.snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: listKey }),
+  });
+};
+
+/** Deletes a note and its stored file, removing it from the list right away. */
+export const useDeleteTopicNote = (topicId: string | undefined) => {
+  const queryClient = useQueryClient();
+  const listKey = queryKeys.topicNotes.list(topicId ?? "");
+
+  return useMutation({
+    mutationFn: (note: TopicNote) => deleteTopicNote(note),
+    onMutate: async (note) => {
+      const snapshot = await snapshotQueries(queryClient, listKey);
+      queryClient.setQueryData<TopicNote[]>(listKey, (prev) => prev?.filter((n) => n.id !== note.id));
+      return { snapshot };
+    },
+    onError: (_error, _note, context) => restoreQueries(queryClient, context?.snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: listKey }),
+  });
+};
@@ -0,0 +1,167 @@
+import { useCallback } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { queryKeys } from "@/lib/queryKeys";
+import { restoreQueries, snapshotQueries } from "@/lib/queryClient";
+import {
+  createTopic,
+  deleteTopic,
+  getTopic,
+  listTopics,
+  listUserTopics,
+  NewTopicFields,
+  swapTopicOrder,
+  Topic,
+  TopicUpdate,
+  updateTopic,
+} from "@/lib/repositories/topics";
+
+/** A subject's topics in the order the student arranged them. */
+export const useTopics = (subjectId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.topics.list(subjectId ?? ""),
+    queryFn: () => listTopics(subjectId!),
+    enabled: !!subjectId,
+    meta: { errorTitle: "Error loading topics" },
+  });
+
+/** Every topic of the signed-in user, across subjects. */
+export const useUserTopics = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.topics.userList(user?.id ?? ""),
+    queryFn: () => listUserTopics(user!.id),
+    enabled: !!user,
+    meta: { errorTitle: "Error loading topics" },
+  });
+};
+
+export const useTopic = (id: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.topics.detail(id ?? ""),
+    queryFn: () => getTopic(id!),
+    enabled: !!id,
+    meta: { errorTitle: "Error loading topic" },
+  });
+
+/**
+ * Patches a cached topic in place, for writes made outside these hooks such
+ * as recording a revision.
+ */
+export const usePatchCachedTopic = () => {
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    (topic: Pick<Topic, "id" | "subject_id">, patch: TopicUpdate) => {
+      const patchList = (prev: Topic[] | undefined) => prev?.map((t) => (t.id === topic.id ? { ...t, ...patch } : t));
+      queryClient.setQueryData<Topic[]>(queryKeys.topics.list(topic.subject_id), patchList);
+      queryClient.setQueriesData<Topic[]>({ queryKey: queryKeys.topics.userLists }, patchList);
+      queryClient.setQueryData<Topic>(queryKeys.topics.detail(topic.id), (prev) => prev && { ...prev, ...patch });
+    },
+    [queryClient],
+  );
+};
+
+/** Adds a topic at the end of a subject's list. */
+export const useCreateTopic = (subjectId: string | undefined) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (fields: NewTopicFields) => {
+      if (!user || !subjectId) throw new Error("You must be signed in to create a topic");
+      return createTopic(user.id, subjectId, fields);
+    },
+    onSuccess: (topic) => {
+      queryClient.setQueryData<Topic[]>(queryKeys.topics.list(topic.subject_id), (prev) =>
+        prev ? [...prev, topic] : prev,
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.topics.list(subjectId ?? "") });
+      queryClient.invalidateQueries({ queryKey: queryKeys.topics.userLists });
+    },
+  });
+};
+
+/** Saves changes to a topic, showing them right away. */
+export const useUpdateTopic = () => {
+  const queryClient = useQueryClient();
+  const patchCachedTopic = usePatchCachedTopic();
+
+  return useMutation({
+    mutationFn: ({ topic, update }: { topic: Pick<Topic, "id" | "subject_id">; update: TopicUpdate }) =>
+      updateTopic(topic.id, update),
+    onMutate: async ({ topic, update }) => {
+      const snapshot = await snapshotQueries(queryClient, queryKeys.topics.all);
+      patchCachedTopic(topic, update);
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => restoreQueries(queryClient, context?.snapshot),
+    onSuccess: (saved) => patchCachedTopic(saved, saved),
+    onSettled: (_data, _error, { topic }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.topics.list(topic.subject_id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.topics.userLists });
+    },
+  });
+};
+
+/** Moves a topic one place up or down by swapping it with its neighbour. */
+export const useSwapTopicOrder = (subjectId: string | undefined) => {
+  const queryClient = useQueryClient();
+  const listKey = queryKeys.topics.list(subjectId ?? "");
+
+  return useMutation({
+    mutationFn: ({ a, b }: { a: Topic; b: Topic }) => swapTopicOrder(a, b),
+    onMutate: async ({ a, b }) => {
+      const snapshot = await snapshotQueries(queryClient, listKey);
+      queryClient.setQueryData<Topic[]>(listKey, (prev) =>
+        prev
+          ?.map((topic) =>
+            topic.id === a.id
+              ? { ...topic, sort_order: b.sort_order }
+              : topic.id === b.id
+                ? { ...topic, sort_order: a.sort_order }
+                : topic,
+          )
+          .sort((x, y) => (x.sort_order ?? 0) - (y.sort_order ?? 0)),
+      );
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => restoreQueries(queryClient, context?.snapshot),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: listKey });
+      queryClient.invalidateQueries({ queryKey: queryKeys.topics.userLists });
+    },
+  });
+};
+
+/** Deletes a topic, removing it from the subject's list right away. */
+export const useDeleteTopic = (subjectId: string | undefined) => {
+  const queryClient = useQueryClient();
+  const listKey = queryKeys.topics.list(subjectId ?? "");
+
+  return useMutation({
+    mutationFn: (id: string) => deleteTopic(id),
+    onMutate: async (id) => {
+      const snapshot = [
+        ...(await snapshotQueries(queryClient, listKey)),
+        ...(await snapshotQueries(queryClient, queryKeys.topics.userLists)),
+      ];
+      const removeTopic = (prev: Topic[] | undefined) => prev?.filter((topic) => topic.id !== id);
+      queryClient.setQueryData<Topic[]>(listKey, removeTopic);
+      queryClient.setQueriesData<Topic[]>({ queryKey: queryKeys.topics.userLists }, removeTopic);
+      return { snapshot };
+    },
+    onError: (_error, _id, context) => restoreQueries(queryClient, context?.snapshot),
+    onSuccess: (_data, id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.topics.detail(id) });
+      queryClient.removeQueries({ queryKey: queryKeys.topicNotes.list(id) });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: listKey });
+      queryClient.invalidateQueries({ queryKey: queryKeys.topics.userLists });
+    },
+  });
+};
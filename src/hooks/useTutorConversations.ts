@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+
+export interface TutorConversation {
+  id: string;
+  title: string;
+  subject_id: string | null;
+  topic_id: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  subjects?: { name: string; color: string | null } | null;
+  topics?: { name: string } | null;
+}
+
+export interface NewTutorConversation {
+  title: string;
+  subject_id?: string | null;
+  topic_id?: string | null;
+}
+
+const CONVERSATION_SELECT = "id, title, subject_id, topic_id, created_at, updated_at, subjects(name, color), topics(name)";
+
+/** Characters that would break a PostgREST `or=(...)` filter. */
+const sanitizeSearch = (search: string) => search.replace(/[,()%*\\]/g, " ").trim();
+
+/**
+ * Loads and mutates the signed-in user's AI tutor conversations, most
+ * recently active first. With a search term, only chats whose title or any
+ * message contains it are returned.
+ */
+export const useTutorConversations = (search: string = "") => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [conversations, setConversations] = useState<TutorConversation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadConversations = useCallback(async () => {
+    if (!user) return;
+    const term = sanitizeSearch(search);
+
+    try {
+      let query = supabase
+        .from("tutor_conversations")
+        .select(CONVERSATION_SELECT)
+        .eq("user_id", user.id)
+        .order("updated_at", { ascending: false })
+        .limit(100);
+
+      if (term) {
+        const { data: matches, error: matchError } = await supabase
+          .from("tutor_messages")
+          .select("conversation_id")
+          .eq("user_id", user.id)
+          .ilike("content", `%${term}%`)
+          .limit(200);
+        if (matchError) throw matchError;
+
+        const ids = Array.from(new Set((matches || []).map((match) => match.conversation_id)));
+        query = ids.length
+          ? query.or(`title.ilike.%${term}%,id.in.(${ids.join(",")})`)
+          : query.ilike("title", `%${term}%`);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setConversations(data || []);
+    } catch (error) {
+      toast({
+        title: "Error loading chats",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, search, toast]);
+
+  useEffect(() => {
+    loadConversations();
+  }, [loadConversations]);
+
+  const createConversation = async (conversation: NewTutorConversation): Promise<TutorConversation | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from("tutor_conversations")
+        .insert({
+          user_id: user.id,
+          title: conversation.title.trim() || "New chat",
+          subject_id: conversation.subject_id || null,
+          topic_id: conversation.topic_id || null,
+        })
+        .select(CONVERSATION_SELECT)
+        .single();
+
+      if (error) throw error;
+      setConversations((prev) => [data, ...prev]);
+      return data;
+    } catch (error) {
+      toast({
+        title: "Error saving chat",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  /**
+   * Updates a conversation's title or subject/topic link and returns the
+   * refreshed row (with joined names), or null on failure.
+   */
+  const updateConversation = async (
+    id: string,
+    changes: Partial<NewTutorConversation>,
+  ): Promise<TutorConversation | null> => {
+    const { data, error } = await supabase
+      .from("tutor_conversations")
+      .update(changes)
+      .eq("id", id)
+      .select(CONVERSATION_SELECT)
+      .single();
+
+    if (error) {
+      toast({
+        title: "Error updating chat",
+        description: error.message,
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    setConversations((prev) => prev.map((c) => (c.id === id ? data : c)));
+    return data;
+  };
+
+  const deleteConversation = async (id: string) => {
+    const previous = conversations;
+    setConversations((prev) => prev.filter((c) => c.id !== id));
+
+    const { error } = await supabase.from("tutor_conversations").delete().eq("id", id);
+    if (error) {
+      setConversations(previous);
+      toast({
+        title: "Error deleting chat",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  /** Moves a conversation to the top after a new message, matching the server-side ordering. */
+  const markConversationActive = (id: string) => {
+    setConversations((prev) => {
+      const conversation = prev.find((c) => c.id === id);
+      if (!conversation) return prev;
+      return [{ ...conversation, updated_at: new Date().toISOString() }, ...prev.filter((c) => c.id !== id)];
+    });
+  };
+
+  return {
+    conversations,
+    loading,
+    createConversation,
+    updateConversation,
+    deleteConversation,
+    markConversationActive,
+    reload: loadConversations,
+  };
+};
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+
+export type UserSettings = Omit<Tables<"user_settings">, "user_id" | "created_at" | "updated_at">;
+
+/** Values used until the user saves their own settings row. */
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  focus_minutes: 25,
+  short_break_minutes: 5,
+  long_break_minutes: 15,
+  long_break_interval: 4,
+  auto_start_next_phase: false,
+  daily_study_minutes: 120,
+  coverage_min_revisions: 2,
+  notifications_enabled: false,
+  notify_phase_changes: true,
+  notify_exams: true,
+  exam_reminder_minutes: [1440, 60],
+  notify_due_revisions: true,
+  notify_overdue_todos: true,
+};
+
+/**
+ * Window event carrying saved settings, so every mounted `useUserSettings`
+ * (e.g. the background reminders) picks up changes made in Settings.
+ */
+const SETTINGS_SAVED_EVENT = "studox:user-settings-saved";
+
+/**
+ * Loads the signed-in user's row from `user_settings`, falling back to
+ * `DEFAULT_USER_SETTINGS` when the user has never saved any preferences.
+ */
+export const useUserSettings = () => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
+  const [loading, setLoading] = useState(true);
+
+  const loadSettings = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("user_settings")
+        .select("*")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) {
+        const { user_id, created_at, updated_at, ...rest } = data;
+        setSettings({ ...DEFAULT_USER_SETTINGS, ...rest });
+      }
+    } catch (error) {
+      console.error("Error loading user settings:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  useEffect(() => {
+    const handleSaved = (event: Event) => setSettings((event as CustomEvent<UserSettings>).detail);
+    window.addEventListener(SETTINGS_SAVED_EVENT, handleSaved);
+    return () => window.removeEventListener(SETTINGS_SAVED_EVENT, handleSaved);
+  }, []);
+
+  /**
+   * Saves a partial update, creating the settings row on first save.
+   * Throws on failure so callers can surface the error.
+   */
+  const saveSettings = async (patch: Partial<UserSettings>) => {
+    if (!user) return;
+    const next = { ...settings, ...patch };
+
+    const { error } = await supabase
+      .from("user_settings")
+      .upsert({ user_id: user.id, ...next }, { onConflict: "user_id" });
+
+    if (error) throw error;
+    window.dispatchEvent(new CustomEvent<UserSettings>(SETTINGS_SAVED_EVENT, { detail: next }));
+  };
+
+  return { settings, loading, saveSettings, reload: loadSettings };
+};
@@ -14,15 +14,154 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_usage_daily: {
+        Row: {
+          created_at: string | null
+          request_count: number
+          tokens_used: number
+          updated_at: string | null
+          usage_date: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          request_count?: number
+          tokens_used?: number
+          updated_at?: string | null
+          usage_date?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          request_count?: number
+          tokens_used?: number
+          updated_at?: string | null
+          usage_date?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string | null
+          id: string
+          label: string
+          last_used_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          label?: string
+          last_used_at?: string | null
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          label?: string
+          last_used_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      exam_attachments: {
+        Row: {
+          created_at: string | null
+          exam_id: string
+          file_path: string | null
+          file_size: number | null
+          id: string
+          kind: string
+          name: string
+          updated_at: string | null
+          url: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          exam_id: string
+          file_path?: string | null
+          file_size?: number | null
+          id?: string
+          kind: string
+          name: string
+          updated_at?: string | null
+          url?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          exam_id?: string
+          file_path?: string | null
+          file_size?: number | null
+          id?: string
+          kind?: string
+          name?: string
+          updated_at?: string | null
+          url?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_attachments_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_topics: {
+        Row: {
+          created_at: string | null
+          exam_id: string
+          topic_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          exam_id: string
+          topic_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          exam_id?: string
+          topic_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_topics_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exam_topics_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       exams: {
         Row: {
           created_at: string | null
+          credits: number | null
           exam_date: string
           exam_type: string | null
+          grade: string | null
           id: string
-          ppt_name: string | null
-          ppt_size: number | null
-          ppt_url: string | null
+          marks_obtained: number | null
+          max_marks: number | null
+          semester: string | null
           subject_id: string
           tags: string[] | null
           title: string
@@ -31,12 +170,14 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          credits?: number | null
           exam_date: string
           exam_type?: string | null
+          grade?: string | null
           id?: string
-          ppt_name?: string | null
-          ppt_size?: number | null
-          ppt_url?: string | null
+          marks_obtained?: number | null
+          max_marks?: number | null
+          semester?: string | null
           subject_id: string
           tags?: string[] | null
           title: string
@@ -45,12 +186,14 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          credits?: number | null
           exam_date?: string
           exam_type?: string | null
+          grade?: string | null
           id?: string
-          ppt_name?: string | null
-          ppt_size?: number | null
-          ppt_url?: string | null
+          marks_obtained?: number | null
+          max_marks?: number | null
+          semester?: string | null
           subject_id?: string
           tags?: string[] | null
           title?: string
@@ -67,6 +210,92 @@ export type Database = {
           },
         ]
       }
+      flashcards: {
+        Row: {
+          back: string
+          created_at: string | null
+          front: string
+          id: string
+          source_note_id: string | null
+          source_page: number | null
+          topic_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          back: string
+          created_at?: string | null
+          front: string
+          id?: string
+          source_note_id?: string | null
+          source_page?: number | null
+          topic_id: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          back?: string
+          created_at?: string | null
+          front?: string
+          id?: string
+          source_note_id?: string | null
+          source_page?: number | null
+          topic_id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flashcards_source_note_id_fkey"
+            columns: ["source_note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flashcards_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_versions: {
+        Row: {
+          content: string
+          created_at: string | null
+          id: string
+          note_id: string
+          title: string
+          user_id: string
+        }
+        Insert: {
+          content?: string
+          created_at?: string | null
+          id?: string
+          note_id: string
+          title: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string | null
+          id?: string
+          note_id?: string
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_versions_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notes: {
         Row: {
           content: string | null
@@ -75,6 +304,7 @@ export type Database = {
           file_size: number | null
           file_url: string | null
           id: string
+          note_type: string
           sort_order: number | null
           subject_id: string | null
           title: string
@@ -89,6 +319,7 @@ export type Database = {
           file_size?: number | null
           file_url?: string | null
           id?: string
+          note_type?: string
           sort_order?: number | null
           subject_id?: string | null
           title: string
@@ -103,6 +334,7 @@ export type Database = {
           file_size?: number | null
           file_url?: string | null
           id?: string
+          note_type?: string
           sort_order?: number | null
           subject_id?: string | null
           title?: string
@@ -130,6 +362,7 @@ export type Database = {
       papers: {
         Row: {
           created_at: string | null
+          exam_id: string | null
           file_name: string
           file_size: number | null
           file_url: string
@@ -141,6 +374,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          exam_id?: string | null
           file_name: string
           file_size?: number | null
           file_url: string
@@ -152,6 +386,7 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          exam_id?: string | null
           file_name?: string
           file_size?: number | null
           file_url?: string
@@ -162,6 +397,13 @@ export type Database = {
           year?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "papers_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "papers_subject_id_fkey"
             columns: ["subject_id"]
@@ -171,6 +413,56 @@ export type Database = {
           },
         ]
       }
+      pdf_annotations: {
+        Row: {
+          color: string
+          comment: string | null
+          created_at: string | null
+          id: string
+          kind: string
+          note_id: string
+          page_number: number
+          quote: string | null
+          rects: Json
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          comment?: string | null
+          created_at?: string | null
+          id?: string
+          kind: string
+          note_id: string
+          page_number: number
+          quote?: string | null
+          rects?: Json
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          color?: string
+          comment?: string | null
+          created_at?: string | null
+          id?: string
+          kind?: string
+          note_id?: string
+          page_number?: number
+          quote?: string | null
+          rects?: Json
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pdf_annotations_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -195,6 +487,113 @@ export type Database = {
         }
         Relationships: []
       }
+      quizzes: {
+        Row: {
+          attempts: number
+          best_score: number | null
+          created_at: string | null
+          id: string
+          last_score: number | null
+          last_taken_at: string | null
+          questions: Json
+          title: string
+          topic_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          best_score?: number | null
+          created_at?: string | null
+          id?: string
+          last_score?: number | null
+          last_taken_at?: string | null
+          questions?: Json
+          title: string
+          topic_id: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          best_score?: number | null
+          created_at?: string | null
+          id?: string
+          last_score?: number | null
+          last_taken_at?: string | null
+          questions?: Json
+          title?: string
+          topic_id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quizzes_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      study_plan_items: {
+        Row: {
+          completed_at: string | null
+          created_at: string | null
+          exam_id: string
+          id: string
+          kind: string
+          minutes: number
+          plan_date: string
+          status: string
+          topic_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string | null
+          exam_id: string
+          id?: string
+          kind?: string
+          minutes: number
+          plan_date: string
+          status?: string
+          topic_id: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string | null
+          exam_id?: string
+          id?: string
+          kind?: string
+          minutes?: number
+          plan_date?: string
+          status?: string
+          topic_id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "study_plan_items_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "study_plan_items_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       study_sessions: {
         Row: {
           completed: boolean | null
@@ -266,14 +665,146 @@ export type Database = {
         }
         Relationships: []
       }
+      time_entries: {
+        Row: {
+          client_id: string | null
+          created_at: string | null
+          duration_seconds: number
+          ended_at: string
+          id: string
+          notes: string | null
+          started_at: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          client_id?: string | null
+          created_at?: string | null
+          duration_seconds: number
+          ended_at: string
+          id?: string
+          notes?: string | null
+          started_at: string
+          type?: string
+          user_id: string
+        }
+        Update: {
+          client_id?: string | null
+          created_at?: string | null
+          duration_seconds?: number
+          ended_at?: string
+          id?: string
+          notes?: string | null
+          started_at?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      todos: {
+        Row: {
+          completed_at: string | null
+          created_at: string | null
+          due_date: string
+          id: string
+          roll_over: boolean
+          rolled_over_count: number
+          subject_id: string | null
+          title: string
+          topic_id: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string | null
+          due_date?: string
+          id?: string
+          roll_over?: boolean
+          rolled_over_count?: number
+          subject_id?: string | null
+          title: string
+          topic_id?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string | null
+          due_date?: string
+          id?: string
+          roll_over?: boolean
+          rolled_over_count?: number
+          subject_id?: string | null
+          title?: string
+          topic_id?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "todos_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "todos_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      topic_revisions: {
+        Row: {
+          created_at: string | null
+          id: string
+          interval_days: number | null
+          revised_at: string
+          topic_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          interval_days?: number | null
+          revised_at?: string
+          topic_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          interval_days?: number | null
+          revised_at?: string
+          topic_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "topic_revisions_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       topics: {
         Row: {
           created_at: string | null
           description: string | null
+          due_at: string | null
+          ease_factor: number
           id: string
+          interval_days: number
           is_shared: boolean | null
           last_revised_at: string | null
           name: string
+          repetitions: number
           revision_count: number | null
           share_token: string | null
           sort_order: number | null
@@ -285,10 +816,14 @@ export type Database = {
         Insert: {
           created_at?: string | null
           description?: string | null
+          due_at?: string | null
+          ease_factor?: number
           id?: string
+          interval_days?: number
           is_shared?: boolean | null
           last_revised_at?: string | null
           name: string
+          repetitions?: number
           revision_count?: number | null
           share_token?: string | null
           sort_order?: number | null
@@ -300,10 +835,14 @@ export type Database = {
         Update: {
           created_at?: string | null
           description?: string | null
+          due_at?: string | null
+          ease_factor?: number
           id?: string
+          interval_days?: number
           is_shared?: boolean | null
           last_revised_at?: string | null
           name?: string
+          repetitions?: number
           revision_count?: number | null
           share_token?: string | null
           sort_order?: number | null
@@ -322,12 +861,163 @@ export type Database = {
           },
         ]
       }
+      tutor_conversations: {
+        Row: {
+          created_at: string | null
+          id: string
+          subject_id: string | null
+          title: string
+          topic_id: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          subject_id?: string | null
+          title?: string
+          topic_id?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          subject_id?: string | null
+          title?: string
+          topic_id?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tutor_conversations_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tutor_conversations_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tutor_messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string | null
+          id: string
+          role: string
+          sources: Json
+          user_id: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string | null
+          id?: string
+          role: string
+          sources?: Json
+          user_id: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string | null
+          id?: string
+          role?: string
+          sources?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tutor_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "tutor_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_settings: {
+        Row: {
+          auto_start_next_phase: boolean
+          coverage_min_revisions: number
+          created_at: string | null
+          daily_study_minutes: number
+          exam_reminder_minutes: number[]
+          focus_minutes: number
+          long_break_interval: number
+          long_break_minutes: number
+          notifications_enabled: boolean
+          notify_due_revisions: boolean
+          notify_exams: boolean
+          notify_overdue_todos: boolean
+          notify_phase_changes: boolean
+          short_break_minutes: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          auto_start_next_phase?: boolean
+          coverage_min_revisions?: number
+          created_at?: string | null
+          daily_study_minutes?: number
+          exam_reminder_minutes?: number[]
+          focus_minutes?: number
+          long_break_interval?: number
+          long_break_minutes?: number
+          notifications_enabled?: boolean
+          notify_due_revisions?: boolean
+          notify_exams?: boolean
+          notify_overdue_todos?: boolean
+          notify_phase_changes?: boolean
+          short_break_minutes?: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          auto_start_next_phase?: boolean
+          coverage_min_revisions?: number
+          created_at?: string | null
+          daily_study_minutes?: number
+          exam_reminder_minutes?: number[]
+          focus_minutes?: number
+          long_break_interval?: number
+          long_break_minutes?: number
+          notifications_enabled?: boolean
+          notify_due_revisions?: boolean
+          notify_exams?: boolean
+          notify_overdue_todos?: boolean
+          notify_phase_changes?: boolean
+          short_break_minutes?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      record_ai_usage: {
+        Args: { _tokens: number; _usage_date: string; _user_id: string }
+        Returns: number
+      }
+      replace_study_plan: {
+        Args: { p_items: Json; p_today: string }
+        Returns: number
+      }
+      roll_over_todos: {
+        Args: { p_today: string }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
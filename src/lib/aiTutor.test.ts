@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from "vitest";
+import { trimChatHistory } from "./aiTutor";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const turn = (index: number, length = 10) => ({
+  role: index % 2 === 0 ? "user" : "assistant",
+  content: String(index).padEnd(length, "."),
+});
+
+describe("trimChatHistory", () => {
+  it("keeps a short conversation as it is", () => {
+    const messages = [turn(0), turn(1), turn(2)];
+    expect(trimChatHistory(messages)).toEqual(messages);
+  });
+
+  it("keeps only the 40 most recent turns", () => {
+    const messages = Array.from({ length: 45 }, (_, index) => turn(index));
+    expect(trimChatHistory(messages)).toEqual(messages.slice(5));
+  });
+
+  it("drops older turns once the history is over 32,000 characters", () => {
+    const messages = [turn(0, 20000), turn(1, 10000), turn(2, 10000), turn(3, 5000)];
+    expect(trimChatHistory(messages)).toEqual(messages.slice(1));
+  });
+
+  it("always keeps the latest turn", () => {
+    const messages = [turn(0), turn(1, 40000)];
+    expect(trimChatHistory(messages)).toEqual([messages[1]]);
+  });
+});
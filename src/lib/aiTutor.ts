@@ -0,0 +1,107 @@
+import { supabase } from "@/integrations/supabase/client";
+
+const AI_TUTOR_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-tutor`;
+
+/** Limits the function puts on the chat history of one request. */
+const MAX_CHAT_MESSAGES = 40;
+const MAX_CHAT_CHARS = 32000;
+
+/** Today's AI tutor token usage, as reported by the `ai-tutor` function. */
+export interface AiTutorUsage {
+  used: number;
+  limit: number;
+  remaining: number;
+  /** When the daily quota resets (next UTC midnight). */
+  resetsAt: string;
+}
+
+/**
+ * POSTs to the `ai-tutor` function with the signed-in user's access token,
+ * which the function uses to identify the user and enforce their quota.
+ * Returns the raw response so chat callers can read the stream.
+ */
+export const requestAiTutor = async (body: Record<string, unknown>): Promise<Response> => {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error("Please sign in to use the AI tutor.");
+  }
+
+  return fetch(AI_TUTOR_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify(body),
+  });
+};
+
+/**
+ * The most recent turns of a conversation that fit the function's history
+ * limits, so long chats keep working; older turns are left out. The latest
+ * turn is always kept, even when it is over the limit on its own.
+ */
+export const trimChatHistory = <T extends { content: string }>(messages: T[]): T[] => {
+  let chars = 0;
+  let start = messages.length;
+  while (start > 0 && messages.length - start < MAX_CHAT_MESSAGES) {
+    chars += messages[start - 1].content.length;
+    if (chars > MAX_CHAT_CHARS && start < messages.length) break;
+    start -= 1;
+  }
+  return messages.slice(start);
+};
+
+export const fetchAiTutorUsage = async (): Promise<AiTutorUsage> => {
+  const response = await requestAiTutor({ action: "usage" });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || "Failed to load AI tutor usage");
+  }
+  return body.usage as AiTutorUsage;
+};
+
+/** Models the deployment allows, as configured on the `ai-tutor` function. */
+export interface AiTutorModels {
+  provider: string;
+  defaultModel: string;
+  models: string[];
+}
+
+export const fetchAiTutorModels = async (): Promise<AiTutorModels> => {
+  const response = await requestAiTutor({ action: "models" });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || "Failed to load AI tutor models");
+  }
+  return body as AiTutorModels;
+};
+
+const MODEL_STORAGE_KEY = "studox_ai_tutor_model";
+
+/**
+ * The model picked on the tutor page, also used for flashcard and quiz
+ * generation. Null means the deployment's default.
+ */
+export const getPreferredAiTutorModel = (): string | null => {
+  try {
+    return localStorage.getItem(MODEL_STORAGE_KEY);
+  } catch (error) {
+    console.error("Failed to read AI tutor model:", error);
+    return null;
+  }
+};
+
+export const setPreferredAiTutorModel = (model: string | null) => {
+  try {
+    if (model) {
+      localStorage.setItem(MODEL_STORAGE_KEY, model);
+    } else {
+      localStorage.removeItem(MODEL_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error("Failed to persist AI tutor model:", error);
+  }
+};
@@ -0,0 +1,165 @@
+import { fromLocalDateKey, toLocalDateKey } from "@/lib/dates";
+
+export type AnalyticsRange = "week" | "month" | "semester";
+
+export const ANALYTICS_RANGE_OPTIONS: { value: AnalyticsRange; label: string }[] = [
+  { value: "week", label: "Last 7 days" },
+  { value: "month", label: "Last 30 days" },
+  { value: "semester", label: "Last 6 months" },
+];
+
+const RANGE_DAYS: Record<AnalyticsRange, number> = {
+  week: 7,
+  month: 30,
+  semester: 182,
+};
+
+/**
+ * Local midnight of the first day included in `range`, counting today.
+ */
+export const getRangeStart = (range: AnalyticsRange, now: Date = new Date()): Date => {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  start.setDate(start.getDate() - (RANGE_DAYS[range] - 1));
+  return start;
+};
+
+export interface TimeBucket {
+  /** Local date key of the bucket's first day. */
+  key: string;
+  label: string;
+}
+
+/**
+ * Chart buckets for a range: one per day for week and month, one per week
+ * (starting Monday) for the semester view so the chart stays readable.
+ */
+export const buildTimeBuckets = (range: AnalyticsRange, now: Date = new Date()): TimeBucket[] => {
+  const buckets: TimeBucket[] = [];
+  const cursor = getRangeStart(range, now);
+  const end = toLocalDateKey(now);
+
+  if (range === "semester") {
+    // Align to Monday so every bucket covers a full calendar week.
+    cursor.setDate(cursor.getDate() - ((cursor.getDay() + 6) % 7));
+    while (toLocalDateKey(cursor) <= end) {
+      buckets.push({
+        key: toLocalDateKey(cursor),
+        label: cursor.toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+      });
+      cursor.setDate(cursor.getDate() + 7);
+    }
+    return buckets;
+  }
+
+  while (toLocalDateKey(cursor) <= end) {
+    buckets.push({
+      key: toLocalDateKey(cursor),
+      label:
+        range === "week"
+          ? cursor.toLocaleDateString(undefined, { weekday: "short" })
+          : cursor.toLocaleDateString(undefined, { month: "numeric", day: "numeric" }),
+    });
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return buckets;
+};
+
+/**
+ * Returns the key of the bucket a timestamp falls into, or null when it is
+ * outside the buckets. `buckets` must be sorted ascending, as returned by
+ * `buildTimeBuckets`.
+ */
+export const findBucketKey = (buckets: TimeBucket[], value: Date | string): string | null => {
+  const key = toLocalDateKey(value);
+  if (buckets.length === 0 || key < buckets[0].key) return null;
+
+  for (let i = buckets.length - 1; i >= 0; i--) {
+    if (key >= buckets[i].key) return buckets[i].key;
+  }
+  return null;
+};
+
+export interface HeatmapCell {
+  key: string;
+  minutes: number;
+  /** 0 (nothing) to 4 (most active) for colouring. */
+  level: number;
+  /** Cells after today are rendered empty. */
+  isFuture: boolean;
+}
+
+/**
+ * Lays out the last 53 weeks as columns of seven days (Monday first), like a
+ * contribution graph. Levels are relative to the busiest day in the period.
+ */
+export const buildHeatmapWeeks = (
+  minutesByDay: Record<string, number>,
+  now: Date = new Date(),
+): HeatmapCell[][] => {
+  const today = toLocalDateKey(now);
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  start.setDate(start.getDate() - 52 * 7 - ((start.getDay() + 6) % 7));
+
+  const max = Math.max(0, ...Object.values(minutesByDay));
+  const weeks: HeatmapCell[][] = [];
+  const cursor = new Date(start);
+
+  for (let w = 0; w < 53; w++) {
+    const week: HeatmapCell[] = [];
+    for (let d = 0; d < 7; d++) {
+      const key = toLocalDateKey(cursor);
+      const minutes = minutesByDay[key] || 0;
+      week.push({
+        key,
+        minutes,
+        level: minutes > 0 && max > 0 ? Math.min(4, Math.ceil((minutes / max) * 4)) : 0,
+        isFuture: key > today,
+      });
+      cursor.setDate(cursor.getDate() + 1);
+    }
+    weeks.push(week);
+  }
+
+  return weeks;
+};
+
+/**
+ * Current and longest runs of consecutive days with any study time. The
+ * current streak still counts when today has nothing yet but yesterday does,
+ * so it does not reset first thing in the morning.
+ */
+export const computeStreaks = (
+  minutesByDay: Record<string, number>,
+  now: Date = new Date(),
+): { current: number; longest: number } => {
+  const studiedDays = Object.keys(minutesByDay)
+    .filter((key) => minutesByDay[key] > 0)
+    .sort();
+
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+  studiedDays.forEach((key) => {
+    if (previous) {
+      const expected = fromLocalDateKey(previous);
+      expected.setDate(expected.getDate() + 1);
+      run = toLocalDateKey(expected) === key ? run + 1 : 1;
+    } else {
+      run = 1;
+    }
+    longest = Math.max(longest, run);
+    previous = key;
+  });
+
+  let current = 0;
+  const cursor = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (!(minutesByDay[toLocalDateKey(cursor)] > 0)) {
+    cursor.setDate(cursor.getDate() - 1);
+  }
+  while (minutesByDay[toLocalDateKey(cursor)] > 0) {
+    current++;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+
+  return { current, longest };
+};
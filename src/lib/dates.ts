@@ -0,0 +1,37 @@
+/**
+ * Normalizes a JS Date or ISO string into a local-date key (YYYY-MM-DD).
+ * This avoids off-by-one issues that can occur when using toISOString()
+ * directly, especially for users outside of UTC.
+ */
+export const toLocalDateKey = (value: Date | string): string => {
+  const d = value instanceof Date ? value : new Date(value);
+  const year = d.getFullYear();
+  const month = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Parses a local-date key (YYYY-MM-DD) back into a Date at local midnight.
+ * `new Date("2025-12-02")` would be parsed as UTC, which shifts the day for
+ * users west of UTC.
+ */
+export const fromLocalDateKey = (key: string): Date => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Formats the time left until `target` as a countdown, e.g. "3d 04h 12m 09s".
+ * Days are dropped when under a day; returns null once the target has passed.
+ */
+export const formatCountdown = (target: Date | string, now: Date = new Date()): string | null => {
+  const ms = (target instanceof Date ? target : new Date(target)).getTime() - now.getTime();
+  if (ms <= 0) return null;
+
+  const totalSeconds = Math.floor(ms / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const clock = `${pad(Math.floor((totalSeconds % 86400) / 3600))}h ${pad(Math.floor((totalSeconds % 3600) / 60))}m ${pad(totalSeconds % 60)}s`;
+  return days > 0 ? `${days}d ${clock}` : clock;
+};
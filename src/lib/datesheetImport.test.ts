@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from "vitest";
+import { findRepeatedRows, guessColumnMapping, parseCsv, rowsFromCsv } from "./datesheetImport";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const importCsv = (text: string) => {
+  const table = parseCsv(text);
+  return rowsFromCsv(table, guessColumnMapping(table.headers));
+};
+
+describe("parseCsv", () => {
+  it("keeps each record's line in the file across blank lines and quoted line breaks", () => {
+    const table = parseCsv(
+      [
+        "",
+        "Subject,Date,Title",
+        "Physics,2026-11-21,MST",
+        "",
+        'Chemistry,2026-11-22,"Final',
+        'theory"',
+        "Biology,2026-11-23,Viva",
+      ].join("\r\n"),
+    );
+
+    expect(table.headers).toEqual(["Subject", "Date", "Title"]);
+    expect(table.records).toEqual([
+      ["Physics", "2026-11-21", "MST"],
+      ["Chemistry", "2026-11-22", "Final\r\ntheory"],
+      ["Biology", "2026-11-23", "Viva"],
+    ]);
+    expect(table.recordLines).toEqual([3, 5, 7]);
+  });
+
+  it("reports failures by their line in the file", () => {
+    const rows = importCsv("Subject,Date\n\nPhysics,soon\n\nChemistry,2026-11-22\n");
+
+    expect(rows.map((row) => [row.line, row.error])).toEqual([
+      [3, "Unreadable date"],
+      [5, null],
+    ]);
+  });
+});
+
+describe("findRepeatedRows", () => {
+  it("points rows with the same subject, date and time to the first one", () => {
+    const rows = importCsv(
+      [
+        "Subject,Date,Time,Title",
+        "Physics,2026-11-21,09:00,MST",
+        "physics.,21/11/2026,9 am,Mid-semester test",
+        "Physics,2026-11-21,14:00,Lab",
+        "Chemistry,2026-11-21,09:00,MST",
+        "Physics,2026-11-21,09:00,MST",
+      ].join("\n"),
+    );
+
+    expect(findRepeatedRows(rows)).toEqual(
+      new Map([
+        [3, 2],
+        [6, 2],
+      ]),
+    );
+  });
+
+  it("uses the given subject key and ignores rows that will not be imported", () => {
+    const rows = importCsv(
+      [
+        "Subject,Date,Title",
+        "DSA,2026-11-21,End term",
+        "Data Structures,2026-11-21,End term",
+        "Physics,someday,MST",
+        "Physics,someday,MST",
+        ",2026-11-22,Orientation",
+        ",2026-11-22,Orientation",
+      ].join("\n"),
+    );
+
+    expect(findRepeatedRows(rows).size).toBe(0);
+    expect(findRepeatedRows(rows, (row) => (row.subjectName ? "subject-dsa" : ""))).toEqual(new Map([[3, 2]]));
+  });
+});
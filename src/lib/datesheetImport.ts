@@ -0,0 +1,459 @@
+import { fromLocalDateKey } from "@/lib/dates";
+import { parseICalendar } from "@/lib/ical";
+
+/**
+ * Parsing and matching for importing exam datesheets from CSV or ICS files.
+ * Everything here is pure; `DatesheetImportDialog` does the inserts.
+ */
+
+export type ImportField = "title" | "date" | "time" | "subject" | "type" | "tags";
+
+/** Maps each exam field to a CSV column index, or null when not imported. */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: "title", label: "Title" },
+  { field: "date", label: "Date", required: true },
+  { field: "time", label: "Time" },
+  { field: "subject", label: "Subject" },
+  { field: "type", label: "Type" },
+  { field: "tags", label: "Tags" },
+];
+
+export interface ImportedExamRow {
+  /** 1-based line (CSV) or event (ICS) number, for the failure report. */
+  line: number;
+  title: string;
+  /** ISO timestamp, or null when the date could not be read. */
+  examDate: string | null;
+  examType: string | null;
+  tags: string[];
+  subjectName: string;
+  error: string | null;
+}
+
+export interface CsvTable {
+  headers: string[];
+  records: string[][];
+  /** 1-based line in the file each record starts on. */
+  recordLines: number[];
+}
+
+/** Time used for exams whose date has no time of day. */
+export const DEFAULT_EXAM_TIME = "09:00";
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/** Picks the delimiter that splits the header line into the most columns. */
+const detectDelimiter = (headerLine: string) => {
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, delimiter) =>
+    headerLine.split(delimiter).length > headerLine.split(best).length ? delimiter : best,
+  );
+};
+
+/**
+ * Parses CSV text (RFC 4180 quoting, comma, semicolon or tab separated).
+ * The first non-empty line is the header; blank lines are dropped. Line
+ * breaks inside quoted fields still count towards the record line numbers.
+ */
+export const parseCsv = (text: string): CsvTable => {
+  const content = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(content.split(/\r?\n/).find((line) => line.trim().length > 0) ?? "");
+  const rows: { line: number; cells: string[] }[] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n" || (char === "\r" && content[i + 1] !== "\n")) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = "";
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push({ line: rowLine, cells: row });
+
+  const nonEmpty = rows
+    .map((record) => ({ ...record, cells: record.cells.map((cell) => cell.trim()) }))
+    .filter(({ cells }) => cells.some((cell) => cell.length > 0));
+  const [header, ...records] = nonEmpty;
+  return {
+    headers: header?.cells ?? [],
+    records: records.map((record) => record.cells),
+    recordLines: records.map((record) => record.line),
+  };
+};
+
+/** Header keywords per field, in the order fields claim columns; title goes last as "name" is generic. */
+const HEADER_KEYWORDS: [ImportField, string[]][] = [
+  ["date", ["date", "day", "exam date"]],
+  ["time", ["time", "slot", "timing", "session"]],
+  ["subject", ["subject", "course", "module", "course name", "subject name"]],
+  ["type", ["type", "exam type", "category", "kind"]],
+  ["tags", ["tags", "tag", "labels"]],
+  ["title", ["title", "exam name", "exam", "name", "paper"]],
+];
+
+/**
+ * Guesses the column of each field from the header names: exact keyword
+ * matches first, then headers containing a keyword, trying keywords in
+ * order. A column is used for at most one field.
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map((header) => header.toLowerCase().replace(/[^a-z]+/g, " ").trim());
+  const mapping: ColumnMapping = { title: null, date: null, time: null, subject: null, type: null, tags: null };
+  const used = new Set<number>();
+
+  const assign = (matches: (header: string, keyword: string) => boolean) => {
+    HEADER_KEYWORDS.forEach(([field, keywords]) => {
+      if (mapping[field] !== null) return;
+      for (const keyword of keywords) {
+        const index = normalized.findIndex((header, i) => !used.has(i) && matches(header, keyword));
+        if (index >= 0) {
+          mapping[field] = index;
+          used.add(index);
+          return;
+        }
+      }
+    });
+  };
+
+  assign((header, keyword) => header === keyword);
+  assign((header, keyword) => header.split(" ").includes(keyword));
+  return mapping;
+};
+
+/** Reads "14:30", "2:30 pm", "9 AM" or "9.30am"; ranges like "09:30-12:30" use the start. */
+const parseTime = (text: string): { hours: number; minutes: number } | null => {
+  const match = text.trim().match(/^(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, "");
+  if (!match[2] && !meridiem) return null;
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  return { hours, minutes };
+};
+
+const monthIndex = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+
+const expandYear = (year: string) => (year.length === 2 ? 2000 + Number(year) : Number(year));
+
+/** Builds a local date, or null for impossible dates such as 31/02 that `Date` would roll over. */
+const localDate = (year: number, month: number, day: number) => {
+  const date = new Date(year, month, day);
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+};
+
+/**
+ * Reads the date part at the start of `text` and returns it with the rest
+ * of the text. Numeric dates are read day-first (21/11/2026), unless the
+ * second number cannot be a month.
+ */
+const parseDatePart = (text: string): { date: Date | null; rest: string } | null => {
+  const value = text.trim();
+  let match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(.*)$/);
+  if (match) {
+    return { date: localDate(Number(match[1]), Number(match[2]) - 1, Number(match[3])), rest: match[4] };
+  }
+
+  match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})(?!\d)(.*)$/);
+  if (match) {
+    let [day, month] = [Number(match[1]), Number(match[2])];
+    if (month > 12 && day <= 12) [day, month] = [month, day];
+    return { date: localDate(expandYear(match[3]), month - 1, day), rest: match[4] };
+  }
+
+  // "21 Nov 2026", "21-Nov-26", "Sat, 21 November 2026"
+  match = value.match(/^(?:[a-z]+,?\s+)?(\d{1,2})(?:st|nd|rd|th)?[\s-]+([a-z]+)[\s,-]+(\d{4}|\d{2})(?!\d)(.*)$/i);
+  if (match && monthIndex(match[2]) >= 0) {
+    return { date: localDate(expandYear(match[3]), monthIndex(match[2]), Number(match[1])), rest: match[4] };
+  }
+
+  // "Nov 21, 2026", "Saturday, November 21 2026"
+  match = value.match(/^(?:[a-z]+,\s+)?([a-z]+)\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})(.*)$/i);
+  if (match && monthIndex(match[1]) >= 0) {
+    return { date: localDate(Number(match[3]), monthIndex(match[1]), Number(match[2])), rest: match[4] };
+  }
+
+  return null;
+};
+
+/**
+ * Parses a datesheet date with an optional time, either in the same cell or
+ * in `timeText`. Dates without a time get `DEFAULT_EXAM_TIME`. Returns an ISO
+ * timestamp, or null when the date cannot be read.
+ */
+export const parseExamDateTime = (dateText: string, timeText = ""): string | null => {
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(dateText.trim())) {
+    const instant = new Date(dateText.trim());
+    return Number.isNaN(instant.getTime()) ? null : instant.toISOString();
+  }
+
+  const parsed = parseDatePart(dateText);
+  if (!parsed?.date) return null;
+
+  const time =
+    parseTime(timeText) ??
+    parseTime(parsed.rest.replace(/^[\sT,@-]+/, "")) ??
+    parseTime(DEFAULT_EXAM_TIME);
+  if (!time) return null;
+
+  const date = parsed.date;
+  date.setHours(time.hours, time.minutes, 0, 0);
+  return date.toISOString();
+};
+
+const splitTags = (raw: string) =>
+  raw
+    .split(/[,;|]/)
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+
+const validateRow = (row: Omit<ImportedExamRow, "error">): ImportedExamRow => ({
+  ...row,
+  error: !row.title ? "Missing title" : !row.examDate ? "Unreadable date" : null,
+});
+
+/**
+ * Turns CSV records into exam rows using the chosen column mapping. A
+ * missing title falls back to the subject and type, e.g. "Physics MST".
+ */
+export const rowsFromCsv = (table: CsvTable, mapping: ColumnMapping): ImportedExamRow[] =>
+  table.records.map((record, index) => {
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? "" : (record[column] ?? "").trim();
+    };
+    const subjectName = cell("subject");
+    const examType = cell("type");
+    const dateText = cell("date");
+
+    return validateRow({
+      line: table.recordLines[index],
+      title: cell("title") || [subjectName, examType].filter(Boolean).join(" "),
+      examDate: dateText ? parseExamDateTime(dateText, cell("time")) : null,
+      examType: examType || null,
+      tags: splitTags(cell("tags")),
+      subjectName,
+    });
+  });
+
+/**
+ * Turns the events of an `.ics` file into exam rows. Files exported from the
+ * datesheet round-trip: "Exam: Title (Subject)" summaries and the "Type:" and
+ * "Tags:" description lines are read back. All-day events get
+ * `DEFAULT_EXAM_TIME`.
+ */
+export const rowsFromIcs = (text: string): ImportedExamRow[] =>
+  parseICalendar(text).map((event, index) => {
+    const summary = event.summary.replace(/^Exam:\s*/i, "");
+    const exported = summary.match(/^(.*)\s+\(([^()]+)\)$/);
+    const description = event.description ?? "";
+    const examType = description.match(/^Type:\s*(.+)$/m)?.[1].trim() ?? null;
+    const describedTags = description.match(/^Tags:\s*(.+)$/m)?.[1];
+    const categories = (event.categories ?? []).filter((category) => category.toLowerCase() !== "exam");
+
+    let examDate: string | null = event.start;
+    if (event.allDay) {
+      const date = fromLocalDateKey(event.start);
+      const [hours, minutes] = DEFAULT_EXAM_TIME.split(":").map(Number);
+      date.setHours(hours, minutes, 0, 0);
+      examDate = date.toISOString();
+    }
+
+    return validateRow({
+      line: index + 1,
+      title: (exported ? exported[1] : summary).trim(),
+      examDate,
+      examType,
+      tags: describedTags ? splitTags(describedTags) : categories,
+      subjectName: exported ? exported[2].trim() : "",
+    });
+  });
+
+/**
+ * Finds rows that repeat an earlier row's exam: the same subject on the same
+ * date and time. Returns the line of the first row for each repeated line.
+ * Rows with an error or no subject are left alone, as they are not imported.
+ */
+export const findRepeatedRows = (
+  rows: ImportedExamRow[],
+  subjectKey: (row: ImportedExamRow) => string = (row) => normalizeSubjectName(row.subjectName),
+): Map<number, number> => {
+  const firstLines = new Map<string, number>();
+  const repeated = new Map<number, number>();
+  rows.forEach((row) => {
+    const subject = subjectKey(row);
+    if (row.error || !row.examDate || !subject) return;
+    const key = `${subject}|${new Date(row.examDate).getTime()}`;
+    const firstLine = firstLines.get(key);
+    if (firstLine === undefined) {
+      firstLines.set(key, row.line);
+    } else {
+      repeated.set(row.line, firstLine);
+    }
+  });
+  return repeated;
+};
+
+const STOP_WORDS = new Set(["and", "of", "the", "in", "to", "for", "with"]);
+
+/** Lowercases and strips punctuation, so "Data Structures & Algo." matches "data structures and algo". */
+export const normalizeSubjectName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const ROMAN_NUMERALS: Record<string, number> = {
+  i: 1, ii: 2, iii: 3, iv: 4, v: 5, vi: 6, vii: 7, viii: 8, ix: 9, x: 10, xi: 11, xii: 12,
+};
+
+/** The number a word stands for when it is a part number such as "2" or "II", else null. */
+const partNumber = (word: string): number | null =>
+  /^\d+$/.test(word) ? Number(word) : ROMAN_NUMERALS[word] ?? null;
+
+/** Splits a normalized name into its meaningful words and its part numbers ("Maths II" -> ["maths"], [2]). */
+const splitSubjectName = (normalized: string) => {
+  const words: string[] = [];
+  const parts: number[] = [];
+  normalized.split(" ").forEach((word) => {
+    if (!word || STOP_WORDS.has(word)) return;
+    const part = partNumber(word);
+    if (part === null) words.push(word);
+    else parts.push(part);
+  });
+  return { words, parts: parts.sort((a, b) => a - b).join(",") };
+};
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** Typos allowed in a word: none in short words, so "Bio" and "Geo" stay apart. */
+const allowedTypos = (word: string) => (word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0);
+
+/**
+ * Pairs each word of `a` with a word of `b` it equals or is a typo of, and
+ * returns the total number of typos, or null when some word has no partner
+ * (the names differ by a whole word, e.g. "Biochemistry" and "Chemistry").
+ */
+const alignWords = (a: string[], b: string[]): number | null => {
+  if (a.length !== b.length) return null;
+
+  const unused = [...b];
+  let typos = 0;
+  for (const word of a) {
+    let bestIndex = -1;
+    let bestDistance = Infinity;
+    unused.forEach((candidate, index) => {
+      const distance = editDistance(word, candidate);
+      if (distance < bestDistance && distance <= Math.min(allowedTypos(word), allowedTypos(candidate))) {
+        bestIndex = index;
+        bestDistance = distance;
+      }
+    });
+    if (bestIndex === -1) return null;
+    unused.splice(bestIndex, 1);
+    typos += bestDistance;
+  }
+  return typos;
+};
+
+/**
+ * Scores how likely two subject names mean the same subject, from 0 to 1.
+ * Handles case and punctuation, abbreviations ("DSA" for "Data Structures
+ * and Algorithms"), word order and small typos within words. Names with a
+ * different part number ("Mathematics I" and "Mathematics II") or an extra
+ * or different word ("Physics" and "Applied Physics") score 0.
+ */
+export const subjectNameSimilarity = (a: string, b: string): number => {
+  const x = normalizeSubjectName(a);
+  const y = normalizeSubjectName(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+
+  const nameX = splitSubjectName(x);
+  const nameY = splitSubjectName(y);
+  if (nameX.parts !== nameY.parts) return 0;
+
+  const compactX = nameX.words.join("");
+  const compactY = nameY.words.join("");
+  if (compactX === compactY) return 0.95;
+
+  const initialsX = nameX.words.map((word) => word[0]).join("");
+  const initialsY = nameY.words.map((word) => word[0]).join("");
+  if (
+    (nameX.words.length === 1 && compactX.length >= 2 && compactX === initialsY) ||
+    (nameY.words.length === 1 && compactY.length >= 2 && compactY === initialsX)
+  ) {
+    return 0.9;
+  }
+
+  const typos = alignWords(nameX.words, nameY.words);
+  if (typos === null) return 0;
+  return Math.min(0.9, 1 - typos / Math.max(compactX.length, compactY.length));
+};
+
+/** Scores below this are treated as a different subject. */
+export const SUBJECT_MATCH_THRESHOLD = 0.8;
+
+/**
+ * Finds the existing subject that best matches `name`. Returns null when
+ * none is close enough or two subjects match equally well, so an unclear
+ * name becomes a new subject rather than being filed under the wrong one.
+ */
+export const matchSubject = <T extends { name: string }>(name: string, subjects: T[]): T | null => {
+  let best: T | null = null;
+  let bestScore = 0;
+  let tied = false;
+  for (const subject of subjects) {
+    const score = subjectNameSimilarity(name, subject.name);
+    if (score > bestScore) {
+      best = subject;
+      bestScore = score;
+      tied = false;
+    } else if (score === bestScore && score > 0) {
+      tied = true;
+    }
+  }
+  return best && bestScore >= SUBJECT_MATCH_THRESHOLD && !tied ? best : null;
+};
@@ -0,0 +1,109 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { deleteExam } from "@/lib/repositories/exams";
+
+export type ExamAttachment = Tables<"exam_attachments">;
+
+/** Private bucket holding uploaded exam files. */
+export const EXAM_ATTACHMENTS_BUCKET = "exams";
+
+/**
+ * Uploads a file for an exam and records it as an attachment. Files are
+ * stored under `<user>/<subject>/<exam>/` so storage policies can check the
+ * owner from the first folder.
+ */
+export const uploadExamAttachment = async (
+  userId: string,
+  exam: { id: string; subject_id: string },
+  file: File,
+): Promise<ExamAttachment> => {
+  const path = `${userId}/${exam.subject_id}/${exam.id}/${file.name}`;
+
+  const { data: uploadData, error: uploadError } = await supabase.storage
+    .from(EXAM_ATTACHMENTS_BUCKET)
+    .upload(path, file, {
+      cacheControl: "3600",
+      upsert: false,
+    });
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from("exam_attachments")
+    .insert({
+      user_id: userId,
+      exam_id: exam.id,
+      kind: "file",
+      name: file.name,
+      file_path: uploadData.path,
+      file_size: file.size,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    await supabase.storage.from(EXAM_ATTACHMENTS_BUCKET).remove([uploadData.path]);
+    throw error;
+  }
+  return data;
+};
+
+/**
+ * Records an external link (slides, syllabus, drive folder) for an exam.
+ * URLs without a scheme get `https://`.
+ */
+export const addExamLink = async (
+  userId: string,
+  examId: string,
+  name: string,
+  url: string,
+): Promise<ExamAttachment> => {
+  const trimmed = url.trim();
+  const { data, error } = await supabase
+    .from("exam_attachments")
+    .insert({
+      user_id: userId,
+      exam_id: examId,
+      kind: "link",
+      name: name.trim() || trimmed,
+      url: /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`,
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Removes the stored files of the given attachments. Failures are logged
+ * rather than thrown so a missing object never blocks deleting its row.
+ */
+const removeAttachmentFiles = async (attachments: Pick<ExamAttachment, "file_path">[]) => {
+  const paths = attachments.map((attachment) => attachment.file_path).filter((path): path is string => !!path);
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(EXAM_ATTACHMENTS_BUCKET).remove(paths);
+  if (error) console.error("Error removing exam attachment files:", error);
+};
+
+/** Deletes one attachment and, for files, its stored object. */
+export const deleteExamAttachment = async (attachment: ExamAttachment) => {
+  const { error } = await supabase.from("exam_attachments").delete().eq("id", attachment.id);
+  if (error) throw error;
+  await removeAttachmentFiles([attachment]);
+};
+
+/**
+ * Deletes an exam together with its attachment files. The attachment rows
+ * go with the exam through the foreign key, but storage objects do not.
+ */
+export const deleteExamWithAttachments = async (examId: string) => {
+  const { data: attachments, error: attachmentsError } = await supabase
+    .from("exam_attachments")
+    .select("file_path")
+    .eq("exam_id", examId);
+  if (attachmentsError) throw attachmentsError;
+
+  await deleteExam(examId);
+  await removeAttachmentFiles(attachments || []);
+};
@@ -0,0 +1,43 @@
+export interface CoverageTopicInput {
+  topicId: string;
+  name: string;
+  revisionCount: number;
+  lastRevisedAt: string | null;
+}
+
+export interface CoverageTopic extends CoverageTopicInput {
+  /** Revised at least the required number of times. */
+  covered: boolean;
+}
+
+export interface ExamCoverage {
+  total: number;
+  covered: number;
+  /** Share of topics covered, 0–100. */
+  percent: number;
+  /** Uncovered topics first, least revised first. */
+  topics: CoverageTopic[];
+}
+
+/**
+ * Summarizes how much of an exam's syllabus has been revised: a topic counts
+ * as covered once it has been revised at least `minRevisions` times.
+ */
+export const summarizeExamCoverage = (topics: CoverageTopicInput[], minRevisions: number): ExamCoverage => {
+  const withStatus = topics
+    .map((topic) => ({ ...topic, covered: topic.revisionCount >= minRevisions }))
+    .sort(
+      (a, b) =>
+        Number(a.covered) - Number(b.covered) ||
+        a.revisionCount - b.revisionCount ||
+        a.name.localeCompare(b.name),
+    );
+  const covered = withStatus.filter((topic) => topic.covered).length;
+
+  return {
+    total: withStatus.length,
+    covered,
+    percent: withStatus.length > 0 ? Math.round((covered / withStatus.length) * 100) : 0,
+    topics: withStatus,
+  };
+};
@@ -0,0 +1,128 @@
+/**
+ * Exam results on the 10-point grading scale used by most Indian
+ * universities: percentages, grade points, subject averages and
+ * credit-weighted SGPA/CGPA.
+ */
+
+export const GRADE_SCALE: { grade: string; points: number; minPercent: number }[] = [
+  { grade: "O", points: 10, minPercent: 90 },
+  { grade: "A+", points: 9, minPercent: 80 },
+  { grade: "A", points: 8, minPercent: 70 },
+  { grade: "B+", points: 7, minPercent: 60 },
+  { grade: "B", points: 6, minPercent: 50 },
+  { grade: "C", points: 5, minPercent: 45 },
+  { grade: "P", points: 4, minPercent: 40 },
+  { grade: "F", points: 0, minPercent: 0 },
+];
+
+export interface ExamResult {
+  id: string;
+  subject_id: string;
+  exam_date: string;
+  marks_obtained: number | null;
+  max_marks: number | null;
+  grade: string | null;
+  credits: number | null;
+  semester: string | null;
+}
+
+/** Label for results recorded without a semester. */
+export const UNSPECIFIED_SEMESTER = "Unspecified";
+
+/** Score as a percentage, or null when marks are missing. */
+export const examPercent = (exam: Pick<ExamResult, "marks_obtained" | "max_marks">): number | null =>
+  exam.marks_obtained !== null && exam.max_marks ? (exam.marks_obtained / exam.max_marks) * 100 : null;
+
+export const gradeFromPercent = (percent: number): string =>
+  GRADE_SCALE.find((entry) => percent >= entry.minPercent)?.grade ?? "F";
+
+/**
+ * Grade points of an exam: from its letter grade when it is on the scale,
+ * otherwise from its marks. Null when neither is recorded.
+ */
+export const examGradePoints = (exam: ExamResult): number | null => {
+  const letter = exam.grade?.trim().toUpperCase();
+  const fromLetter = GRADE_SCALE.find((entry) => entry.grade === letter);
+  if (fromLetter) return fromLetter.points;
+
+  const percent = examPercent(exam);
+  if (percent === null) return null;
+  return GRADE_SCALE.find((entry) => entry.grade === gradeFromPercent(percent))?.points ?? 0;
+};
+
+/** Whether anything about the exam's result has been recorded. */
+export const hasResult = (exam: ExamResult) => exam.marks_obtained !== null || !!exam.grade?.trim();
+
+export interface GpaSummary {
+  /** Credit-weighted grade point average, or null with no graded credits. */
+  gpa: number | null;
+  credits: number;
+}
+
+/** Credit-weighted GPA over exams with both credits and a grade. */
+export const computeGpa = (exams: ExamResult[]): GpaSummary => {
+  let weighted = 0;
+  let credits = 0;
+  exams.forEach((exam) => {
+    const points = examGradePoints(exam);
+    if (!exam.credits || points === null) return;
+    weighted += points * exam.credits;
+    credits += exam.credits;
+  });
+  return { gpa: credits > 0 ? weighted / credits : null, credits };
+};
+
+export interface SemesterGpa extends GpaSummary {
+  semester: string;
+  /** CGPA over this and every earlier semester. */
+  cgpa: number | null;
+}
+
+/**
+ * SGPA per semester in the order the semesters were first examined, with the
+ * running CGPA after each.
+ */
+export const computeSemesterGpas = (exams: ExamResult[]): SemesterGpa[] => {
+  const bySemester = new Map<string, ExamResult[]>();
+  [...exams]
+    .sort((a, b) => new Date(a.exam_date).getTime() - new Date(b.exam_date).getTime())
+    .forEach((exam) => {
+      const semester = exam.semester?.trim() || UNSPECIFIED_SEMESTER;
+      bySemester.set(semester, [...(bySemester.get(semester) ?? []), exam]);
+    });
+
+  const seen: ExamResult[] = [];
+  return [...bySemester.entries()].map(([semester, semesterExams]) => {
+    seen.push(...semesterExams);
+    return { semester, ...computeGpa(semesterExams), cgpa: computeGpa(seen).gpa };
+  });
+};
+
+export interface SubjectAverage {
+  subjectId: string;
+  /** Total marks obtained over total maximum marks, as a percentage. */
+  averagePercent: number;
+  examCount: number;
+}
+
+/** Average score per subject over the exams with marks recorded. */
+export const computeSubjectAverages = (exams: ExamResult[]): SubjectAverage[] => {
+  const totals = new Map<string, { obtained: number; max: number; count: number }>();
+  exams.forEach((exam) => {
+    if (examPercent(exam) === null) return;
+    const total = totals.get(exam.subject_id) ?? { obtained: 0, max: 0, count: 0 };
+    totals.set(exam.subject_id, {
+      obtained: total.obtained + (exam.marks_obtained ?? 0),
+      max: total.max + (exam.max_marks ?? 0),
+      count: total.count + 1,
+    });
+  });
+
+  return [...totals.entries()].map(([subjectId, total]) => ({
+    subjectId,
+    averagePercent: (total.obtained / total.max) * 100,
+    examCount: total.count,
+  }));
+};
+
+export const formatGpa = (gpa: number | null) => (gpa === null ? "—" : gpa.toFixed(2));
@@ -0,0 +1,203 @@
+import { triggerDownload } from "@/lib/storage";
+
+/**
+ * Minimal iCalendar (RFC 5545) writer for exporting exams and study blocks,
+ * and a reader for importing exam datesheets. The `calendar-feed` edge
+ * function builds the same events for subscribed calendars, so keep the
+ * writers in step.
+ */
+
+export interface ICalEvent {
+  /** Stable id, so re-imports and feed refreshes update instead of duplicating. */
+  uid: string;
+  summary: string;
+  description?: string;
+  /** A timestamp for timed events, or a local date key (YYYY-MM-DD) for all-day events. */
+  start: string;
+  allDay?: boolean;
+  /** Length of a timed event. */
+  durationMinutes?: number;
+  categories?: string[];
+}
+
+/** Default length of an exam, which has no end time in the app. */
+export const EXAM_DURATION_MINUTES = 120;
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const toUtcStamp = (value: Date) => value.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/** Folds lines longer than 75 octets, as required by the spec. */
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const buildEvent = (event: ICalEvent, stamp: string): string[] => {
+  const lines = ["BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+
+  if (event.allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${event.start.replace(/-/g, "")}`);
+  } else {
+    lines.push(`DTSTART:${toUtcStamp(new Date(event.start))}`);
+    if (event.durationMinutes) lines.push(`DURATION:PT${event.durationMinutes}M`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(",")}`);
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+/** Serializes events into a complete VCALENDAR document. */
+export const buildICalendar = (events: ICalEvent[], calendarName = "studox"): string => {
+  const stamp = toUtcStamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//studox//Study calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...events.flatMap((event) => buildEvent(event, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+export const examToICalEvent = (exam: {
+  id: string;
+  title: string;
+  exam_date: string;
+  exam_type?: string | null;
+  tags?: string[] | null;
+  subject_name?: string | null;
+}): ICalEvent => ({
+  uid: `exam-${exam.id}@studox`,
+  summary: `Exam: ${exam.title}${exam.subject_name ? ` (${exam.subject_name})` : ""}`,
+  description: [exam.exam_type && `Type: ${exam.exam_type}`, exam.tags?.length && `Tags: ${exam.tags.join(", ")}`]
+    .filter(Boolean)
+    .join("\n"),
+  start: exam.exam_date,
+  durationMinutes: EXAM_DURATION_MINUTES,
+  categories: ["Exam"],
+});
+
+export const studyBlockToICalEvent = (item: {
+  id: string;
+  plan_date: string;
+  kind: string;
+  minutes: number;
+  status: string;
+  topic_name: string | null;
+  exam_title: string | null;
+}): ICalEvent => ({
+  uid: `study-${item.id}@studox`,
+  summary: `${item.status === "done" ? "✓ " : ""}${item.kind === "learn" ? "Learn" : "Revise"}: ${item.topic_name || "Topic"} (${item.minutes} min)`,
+  description: item.exam_title ? `Study block for ${item.exam_title}` : undefined,
+  start: item.plan_date,
+  allDay: true,
+  categories: ["Study"],
+});
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+
+/** Splits a list value on commas that are not escaped. */
+const splitList = (value: string) =>
+  value
+    .split(/(?<!\\),/)
+    .map((item) => unescapeText(item).trim())
+    .filter((item) => item.length > 0);
+
+/**
+ * Reads a DTSTART value. UTC times become ISO timestamps, dates become local
+ * date keys, and floating or TZID times are read as local wall-clock time.
+ */
+const parseDateTime = (value: string, params: string): Pick<ICalEvent, "start" | "allDay"> | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (!hour || /VALUE=DATE(?!-)/i.test(params)) {
+    return { start: `${year}-${month}-${day}`, allDay: true };
+  }
+
+  const date = utc
+    ? new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +(second ?? 0)))
+    : new Date(+year, +month - 1, +day, +hour, +minute, +(second ?? 0));
+  return Number.isNaN(date.getTime()) ? null : { start: date.toISOString() };
+};
+
+/**
+ * Parses the events of an iCalendar document. Events without a readable
+ * DTSTART are skipped; recurrence rules are ignored.
+ */
+export const parseICalendar = (text: string): ICalEvent[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: ICalEvent[] = [];
+  let current: Record<string, { params: string; value: string }> | null = null;
+
+  for (const line of lines) {
+    if (/^BEGIN:VEVENT$/i.test(line.trim())) {
+      current = {};
+      continue;
+    }
+    if (!current) continue;
+
+    if (/^END:VEVENT$/i.test(line.trim())) {
+      const start = current.DTSTART && parseDateTime(current.DTSTART.value.trim(), current.DTSTART.params);
+      if (start) {
+        const durationMatch = current.DURATION?.value.match(/^PT(?:(\d+)H)?(?:(\d+)M)?$/);
+        const durationMinutes = durationMatch
+          ? Number(durationMatch[1] ?? 0) * 60 + Number(durationMatch[2] ?? 0)
+          : undefined;
+        events.push({
+          uid: current.UID?.value.trim() ?? "",
+          summary: unescapeText(current.SUMMARY?.value ?? "").trim(),
+          description: current.DESCRIPTION ? unescapeText(current.DESCRIPTION.value).trim() : undefined,
+          ...start,
+          durationMinutes: durationMinutes || undefined,
+          categories: current.CATEGORIES ? splitList(current.CATEGORIES.value) : undefined,
+        });
+      }
+      current = null;
+      continue;
+    }
+
+    const separator = line.indexOf(":");
+    if (separator <= 0) continue;
+    const [name, ...params] = line.slice(0, separator).split(";");
+    current[name.toUpperCase()] = { params: params.join(";"), value: line.slice(separator + 1) };
+  }
+
+  return events;
+};
+
+/** Downloads events as an `.ics` file. */
+export const downloadICalendar = (fileName: string, events: ICalEvent[]) => {
+  const url = URL.createObjectURL(new Blob([buildICalendar(events)], { type: "text/calendar" }));
+  triggerDownload(url, fileName);
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** Subscription URL of the `calendar-feed` edge function for a feed token. */
+export const calendarFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${encodeURIComponent(token)}`;
+
+/** The same URL with the `webcal:` scheme, which opens the subscribe dialog of most calendar apps. */
+export const calendarFeedWebcalUrl = (token: string) => calendarFeedUrl(token).replace(/^https?:/, "webcal:");
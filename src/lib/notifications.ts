@@ -0,0 +1,206 @@
+import { toLocalDateKey } from "@/lib/dates";
+
+/**
+ * Browser notifications shown through the service worker in `public/sw.js`,
+ * which also brings the app to the front when one is clicked.
+ *
+ * Reminders are worked out in the page, so they only arrive while studox is
+ * open in a tab; a background tab is enough.
+ */
+
+/** Path of the service worker, served from `public/`. */
+export const SERVICE_WORKER_URL = "/sw.js";
+
+/** Message the service worker posts to the page when a notification is clicked. */
+export const NOTIFICATION_CLICK_MESSAGE = "studox:notification-click";
+
+/**
+ * Prefix of the localStorage keys that remember which reminders a user was
+ * already shown, so reloading the page does not repeat them. Each user has
+ * their own record, since accounts can share a browser.
+ */
+const SENT_STORAGE_KEY = "studox_sent_notifications";
+
+const sentStorageKey = (userId: string) => `${SENT_STORAGE_KEY}:${userId}`;
+
+/** How long a shown reminder is remembered. */
+const SENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Daily summaries (due revisions, overdue todos) are not sent before this hour. */
+export const DAILY_REMINDER_HOUR = 8;
+
+/** Lead times offered for exam reminders, in minutes before the exam. */
+export const EXAM_REMINDER_OPTIONS = [15, 60, 180, 1440, 2880, 10080];
+
+export interface AppNotification {
+  title: string;
+  body: string;
+  /** Notifications with the same tag replace each other instead of stacking. */
+  tag: string;
+  /** App path opened when the notification is clicked. */
+  url: string;
+}
+
+export interface ReminderExam {
+  id: string;
+  title: string;
+  exam_date: string;
+  subjects?: { name: string } | null;
+}
+
+export const notificationsSupported = () => typeof window !== "undefined" && "Notification" in window;
+
+/**
+ * Formats a lead time the way the settings list it, e.g. "1 hour" or "2 days".
+ */
+export const formatLeadTime = (minutes: number): string => {
+  const [value, unit] =
+    minutes % 10080 === 0
+      ? [minutes / 10080, "week"]
+      : minutes % 1440 === 0
+        ? [minutes / 1440, "day"]
+        : minutes % 60 === 0
+          ? [minutes / 60, "hour"]
+          : [minutes, "minute"];
+  return `${value} ${unit}${value === 1 ? "" : "s"}`;
+};
+
+/**
+ * Registers the service worker, which also keeps studox usable offline.
+ * Failures are logged rather than thrown: notifications fall back to the
+ * plain Notification API without it.
+ */
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!("serviceWorker" in navigator)) return null;
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (error) {
+    console.error("Failed to register service worker:", error);
+    return null;
+  }
+};
+
+/**
+ * Asks for permission to show notifications unless the user already
+ * answered. Browsers only show the prompt in response to a click.
+ */
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return "denied";
+  if (Notification.permission !== "default") return Notification.permission;
+  return Notification.requestPermission();
+};
+
+/**
+ * Shows a notification if permission has been granted. Returns whether it
+ * was shown.
+ */
+export const showNotification = async ({ title, body, tag, url }: AppNotification): Promise<boolean> => {
+  if (!notificationsSupported() || Notification.permission !== "granted") return false;
+
+  const options: NotificationOptions = { body, tag, icon: "/logog.png", data: { url } };
+  try {
+    const registration = "serviceWorker" in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(title, options);
+      return true;
+    }
+
+    const notification = new Notification(title, options);
+    notification.onclick = () => {
+      window.focus();
+      window.location.assign(url);
+      notification.close();
+    };
+    return true;
+  } catch (error) {
+    console.error("Failed to show notification:", error);
+    return false;
+  }
+};
+
+const readSentLog = (userId: string): Record<string, number> => {
+  try {
+    const raw = localStorage.getItem(sentStorageKey(userId));
+    return raw ? (JSON.parse(raw) as Record<string, number>) : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Shows a notification unless one with the same key was already shown to
+ * the user on this device, then remembers the key. Returns whether it was shown.
+ */
+export const notifyOnce = async (
+  userId: string,
+  key: string,
+  notification: AppNotification,
+  now: Date = new Date(),
+) => {
+  const sent = readSentLog(userId);
+  if (sent[key]) return false;
+  if (!(await showNotification(notification))) return false;
+
+  const cutoff = now.getTime() - SENT_RETENTION_MS;
+  const next = Object.fromEntries(Object.entries(sent).filter(([, sentAt]) => sentAt >= cutoff));
+  next[key] = now.getTime();
+  try {
+    localStorage.setItem(sentStorageKey(userId), JSON.stringify(next));
+  } catch (error) {
+    console.error("Failed to persist sent notifications:", error);
+  }
+  return true;
+};
+
+/**
+ * The lead time whose reminder is due for an exam: the shortest one already
+ * reached, or null before the first or once the exam has started. Longer lead
+ * times that were missed, e.g. while the app was closed, are skipped.
+ */
+export const dueExamReminderLead = (examDate: string, leadMinutes: number[], now: Date = new Date()) => {
+  const startsAt = new Date(examDate).getTime();
+  if (now.getTime() >= startsAt) return null;
+
+  const reached = leadMinutes.filter((lead) => now.getTime() >= startsAt - lead * 60 * 1000);
+  return reached.length > 0 ? Math.min(...reached) : null;
+};
+
+/**
+ * Exam reminders due now, keyed so each lead time is shown once per exam.
+ */
+export const buildExamReminders = (
+  exams: ReminderExam[],
+  leadMinutes: number[],
+  now: Date = new Date(),
+): { key: string; notification: AppNotification }[] =>
+  exams.flatMap((exam) => {
+    const lead = dueExamReminderLead(exam.exam_date, leadMinutes, now);
+    if (lead === null) return [];
+
+    const startsAt = new Date(exam.exam_date);
+    const when = startsAt.toLocaleString([], {
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    return [
+      {
+        key: `exam:${exam.id}:${lead}`,
+        notification: {
+          title: `${exam.title} in ${formatLeadTime(lead)}`,
+          body: exam.subjects ? `${exam.subjects.name} · ${when}` : when,
+          tag: `exam-${exam.id}`,
+          url: "/datesheet",
+        },
+      },
+    ];
+  });
+
+/**
+ * Keys a daily summary to the local day so it is shown at most once a day,
+ * and not before `DAILY_REMINDER_HOUR`.
+ */
+export const dailyReminderKey = (kind: string, now: Date = new Date()): string | null =>
+  now.getHours() >= DAILY_REMINDER_HOUR ? `${kind}:${toLocalDateKey(now)}` : null;
@@ -0,0 +1,127 @@
+import type { RecallQuality } from "@/lib/spacedRepetition";
+
+/**
+ * Writes made without a connection, kept in IndexedDB until they can be
+ * replayed against Supabase by `lib/offlineSync.ts`.
+ *
+ * Only the writes students make mid-study are queued: Pomodoro sessions,
+ * todos and topic revisions. Rows created offline get their id on the
+ * client so later queued writes can refer to them.
+ */
+export type OfflineMutation =
+  | {
+      kind: "study_session.start";
+      session: {
+        id: string;
+        topic_id: string | null;
+        duration_minutes: number;
+        session_type: string;
+        started_at: string;
+      };
+    }
+  | {
+      kind: "study_session.complete";
+      sessionId: string;
+      completedAt: string;
+      /** Set when a session is ended early. */
+      durationMinutes?: number;
+    }
+  | {
+      kind: "todo.add";
+      todo: {
+        id: string;
+        title: string;
+        due_date: string;
+        subject_id: string | null;
+        topic_id: string | null;
+        roll_over: boolean;
+      };
+    }
+  | {
+      kind: "todo.toggle";
+      todoId: string;
+      completedAt: string | null;
+      /** `updated_at` of the todo when it was changed, used to detect edits made elsewhere. */
+      baseUpdatedAt: string | null;
+    }
+  | { kind: "todo.remove"; todoId: string }
+  | { kind: "topic.revision"; topicId: string; quality: RecallQuality; revisedAt: string };
+
+export interface QueuedMutation {
+  id: number;
+  /** Owner of the change; it is only replayed while they are signed in. */
+  userId: string;
+  queuedAt: string;
+  mutation: OfflineMutation;
+}
+
+/** Window event fired whenever the queue or its replay state changes. */
+export const OFFLINE_QUEUE_CHANGED_EVENT = "studox:offline-queue-changed";
+
+const DB_NAME = "studox-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "mutations";
+
+/** Messages a failed `fetch` rejects with across browsers. */
+const NETWORK_ERROR_PATTERN = /failed to fetch|networkerror|load failed|network request failed/i;
+
+/**
+ * Whether a failed write should be queued rather than reported: the browser
+ * is offline or the request never reached Supabase.
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === "string" && NETWORK_ERROR_PATTERN.test(message);
+};
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id", autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs one request against the mutations store and resolves with its result
+ * once the transaction has committed.
+ */
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+export const notifyOfflineQueueChanged = () => window.dispatchEvent(new Event(OFFLINE_QUEUE_CHANGED_EVENT));
+
+/** Adds a write to the end of the queue. */
+export const enqueueMutation = async (userId: string, mutation: OfflineMutation) => {
+  await withStore("readwrite", (store) =>
+    store.add({ userId, queuedAt: new Date().toISOString(), mutation } satisfies Omit<QueuedMutation, "id">),
+  );
+  notifyOfflineQueueChanged();
+};
+
+/** The user's queued writes in the order they were made. */
+export const listQueuedMutations = async (userId: string): Promise<QueuedMutation[]> => {
+  const all = await withStore<QueuedMutation[]>("readonly", (store) => store.getAll());
+  return all.filter((entry) => entry.userId === userId).sort((a, b) => a.id - b.id);
+};
+
+export const removeQueuedMutation = async (id: number) => {
+  await withStore("readwrite", (store) => store.delete(id));
+  notifyOfflineQueueChanged();
+};
@@ -0,0 +1,158 @@
+import { supabase } from "@/integrations/supabase/client";
+import { buildTopicRevisionUpdate } from "@/lib/revisions";
+import { findTopic, updateTopic } from "@/lib/repositories/topics";
+import {
+  isNetworkError,
+  listQueuedMutations,
+  notifyOfflineQueueChanged,
+  QueuedMutation,
+  removeQueuedMutation,
+} from "@/lib/offlineQueue";
+
+export interface ReplaySummary {
+  applied: number;
+  /** Changes dropped because the row was changed or deleted elsewhere first. */
+  conflicts: number;
+  /** Changes Supabase rejected, e.g. for a subject deleted in the meantime. */
+  failed: number;
+}
+
+/**
+ * How a queued change went: written, or skipped because the server copy
+ * changed since it was made and the server copy wins.
+ */
+type ReplayOutcome = "applied" | "conflict";
+
+let replaying: Promise<ReplaySummary> | null = null;
+
+/** Whether queued changes are being sent right now. */
+export const isReplayingOfflineQueue = () => replaying !== null;
+
+/**
+ * Writes one queued change. Inserts use the id made on the client and skip
+ * rows that already exist, so a change replayed twice is harmless.
+ */
+const applyMutation = async ({ userId, mutation }: QueuedMutation): Promise<ReplayOutcome> => {
+  switch (mutation.kind) {
+    case "study_session.start": {
+      const { error } = await supabase
+        .from("study_sessions")
+        .upsert({ ...mutation.session, user_id: userId }, { onConflict: "id", ignoreDuplicates: true });
+      if (error) throw error;
+      return "applied";
+    }
+
+    case "study_session.complete": {
+      const { data, error } = await supabase
+        .from("study_sessions")
+        .update({
+          completed: true,
+          completed_at: mutation.completedAt,
+          ...(mutation.durationMinutes !== undefined && { duration_minutes: mutation.durationMinutes }),
+        })
+        .eq("id", mutation.sessionId)
+        .select("id");
+      if (error) throw error;
+      return data.length > 0 ? "applied" : "conflict";
+    }
+
+    case "todo.add": {
+      const { error } = await supabase
+        .from("todos")
+        .upsert({ ...mutation.todo, user_id: userId }, { onConflict: "id", ignoreDuplicates: true });
+      if (error) throw error;
+      return "applied";
+    }
+
+    case "todo.toggle": {
+      const { data: current, error: loadError } = await supabase
+        .from("todos")
+        .select("updated_at")
+        .eq("id", mutation.todoId)
+        .maybeSingle();
+      if (loadError) throw loadError;
+      if (!current) return "conflict";
+      // Edited on another device since this change was made: keep that edit.
+      if (mutation.baseUpdatedAt && current.updated_at !== mutation.baseUpdatedAt) return "conflict";
+
+      const { error } = await supabase
+        .from("todos")
+        .update({ completed_at: mutation.completedAt })
+        .eq("id", mutation.todoId);
+      if (error) throw error;
+      return "applied";
+    }
+
+    case "todo.remove": {
+      const { error } = await supabase.from("todos").delete().eq("id", mutation.todoId);
+      if (error) throw error;
+      return "applied";
+    }
+
+    case "topic.revision": {
+      const topic = await findTopic(mutation.topicId);
+      if (!topic) return "conflict";
+
+      // Revisions always add up. The schedule is only replaced when this
+      // revision is newer than the last one recorded elsewhere.
+      const revisedAt = new Date(mutation.revisedAt);
+      const isLatest = !topic.last_revised_at || new Date(topic.last_revised_at) <= revisedAt;
+      const update = isLatest
+        ? buildTopicRevisionUpdate(topic, mutation.quality, revisedAt)
+        : { revision_count: (topic.revision_count ?? 0) + 1 };
+
+      await updateTopic(topic.id, update);
+      return "applied";
+    }
+  }
+};
+
+const replayQueue = async (userId: string): Promise<ReplaySummary> => {
+  const summary: ReplaySummary = { applied: 0, conflicts: 0, failed: 0 };
+  const queue = await listQueuedMutations(userId);
+  // Later toggles of a todo this run already wrote build on that write, not
+  // on the server copy they were made against.
+  const touchedTodoIds = new Set<string>();
+
+  for (const entry of queue) {
+    const { mutation } = entry;
+    try {
+      const outcome = await applyMutation(
+        mutation.kind === "todo.toggle" && touchedTodoIds.has(mutation.todoId)
+          ? { ...entry, mutation: { ...mutation, baseUpdatedAt: null } }
+          : entry,
+      );
+      if (outcome === "applied") {
+        summary.applied += 1;
+        if (mutation.kind === "todo.add") touchedTodoIds.add(mutation.todo.id);
+        if (mutation.kind === "todo.toggle") touchedTodoIds.add(mutation.todoId);
+      } else {
+        summary.conflicts += 1;
+      }
+    } catch (error) {
+      // Still offline: stop and keep this change and the rest for later.
+      if (isNetworkError(error)) break;
+      console.error("Dropping queued change Supabase rejected:", mutation, error);
+      summary.failed += 1;
+    }
+    await removeQueuedMutation(entry.id);
+  }
+
+  return summary;
+};
+
+/**
+ * Sends the user's queued changes to Supabase in the order they were made.
+ * Stops at the first network error and leaves the rest queued. Only one
+ * replay runs at a time; overlapping calls share it.
+ */
+export const replayOfflineQueue = (userId: string): Promise<ReplaySummary> => {
+  if (!replaying) {
+    replaying = replayQueue(userId).finally(() => {
+      replaying = null;
+      notifyOfflineQueueChanged();
+    });
+    notifyOfflineQueueChanged();
+  }
+  return replaying;
+};
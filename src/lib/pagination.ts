@@ -0,0 +1,25 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+
+/** Rows requested per page; PostgREST returns at most 1,000 rows per request by default. */
+export const PAGE_SIZE = 1000;
+
+/**
+ * Reads every row of a query by requesting it page by page with `.range()`,
+ * so long histories are not silently cut off at the server's row limit.
+ *
+ * `fetchPage` must apply a stable order (e.g. by `id`) so pages neither
+ * overlap nor skip rows.
+ */
+export const selectAllPages = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>,
+): Promise<T[]> => {
+  const rows: T[] = [];
+
+  for (;;) {
+    const { data, error } = await fetchPage(rows.length, rows.length + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
@@ -0,0 +1,102 @@
+import { GlobalWorkerOptions, TextLayer, getDocument } from "pdfjs-dist";
+import type { PageViewport, PDFDocumentProxy, PDFPageProxy, RenderTask } from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import workerSrc from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+GlobalWorkerOptions.workerSrc = workerSrc;
+
+export type { PDFDocumentProxy, PDFPageProxy, RenderTask, TextLayer };
+
+/**
+ * Area on a page as fractions (0-1) of the page size, so it stays aligned
+ * with the rendered page at any zoom level.
+ */
+export interface PdfRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Text the reader selected on a page. */
+export interface PdfTextSelection {
+  pageNumber: number;
+  text: string;
+  rects: PdfRect[];
+}
+
+/**
+ * Starts loading a PDF from a (signed) URL. The returned task can be
+ * destroyed if the caller unmounts before loading finishes.
+ */
+export const loadPdfDocument = (url: string) => getDocument({ url });
+
+const isTextItem = (item: unknown): item is TextItem =>
+  typeof item === "object" && item !== null && "str" in item;
+
+/**
+ * Text items of a page with their position, used for search highlights.
+ */
+export const getPageTextItems = async (page: PDFPageProxy): Promise<TextItem[]> => {
+  const content = await page.getTextContent();
+  return content.items.filter(isTextItem);
+};
+
+/**
+ * Renders the transparent, selectable text layer for a page into `container`.
+ * The container (or a parent) must set `--total-scale-factor` to the viewport
+ * scale; see the `.textLayer` rules in index.css.
+ */
+export const renderPdfTextLayer = (page: PDFPageProxy, viewport: PageViewport, container: HTMLElement) => {
+  container.replaceChildren();
+  const textLayer = new TextLayer({ textContentSource: page.streamTextContent(), container, viewport });
+  return { textLayer, promise: textLayer.render() };
+};
+
+/**
+ * Extracts plain text per page (index 0 is page 1). Pages are read one at a
+ * time to keep memory flat on large documents.
+ */
+export const extractPdfText = async (doc: PDFDocumentProxy): Promise<string[]> => {
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+    const page = await doc.getPage(pageNumber);
+    const items = await getPageTextItems(page);
+    pages.push(
+      items
+        .map((item) => item.str + (item.hasEOL ? "\n" : ""))
+        .join("")
+        .replace(/[ \t]+/g, " "),
+    );
+    page.cleanup();
+  }
+  return pages;
+};
+
+/**
+ * localStorage key mapping a document key (usually the note id) to the page
+ * the user was last reading.
+ */
+const LAST_PAGE_KEY = "studox_pdf_last_page";
+
+export const getLastPdfPage = (documentKey: string): number | null => {
+  try {
+    const raw = localStorage.getItem(LAST_PAGE_KEY);
+    const pages: Record<string, number> = raw ? JSON.parse(raw) : {};
+    return typeof pages[documentKey] === "number" ? pages[documentKey] : null;
+  } catch (error) {
+    console.error("Failed to read last PDF page:", error);
+    return null;
+  }
+};
+
+export const setLastPdfPage = (documentKey: string, page: number) => {
+  try {
+    const raw = localStorage.getItem(LAST_PAGE_KEY);
+    const pages: Record<string, number> = raw ? JSON.parse(raw) : {};
+    pages[documentKey] = page;
+    localStorage.setItem(LAST_PAGE_KEY, JSON.stringify(pages));
+  } catch (error) {
+    console.error("Failed to persist last PDF page:", error);
+  }
+};
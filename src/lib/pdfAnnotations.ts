@@ -0,0 +1,102 @@
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { PdfRect } from "@/lib/pdf";
+
+export type PdfAnnotationKind = "highlight" | "comment" | "bookmark";
+
+export interface PdfAnnotation {
+  id: string;
+  note_id: string;
+  page_number: number;
+  kind: PdfAnnotationKind;
+  quote: string | null;
+  comment: string | null;
+  rects: PdfRect[];
+  color: string;
+  created_at: string | null;
+}
+
+/**
+ * Highlight colours. `overlay` is drawn over the page (semi-transparent so
+ * the text stays readable), `swatch` is used for the picker and sidebar.
+ */
+export const HIGHLIGHT_COLORS: Record<string, { label: string; overlay: string; swatch: string }> = {
+  yellow: { label: "Yellow", overlay: "bg-yellow-300/40", swatch: "bg-yellow-300" },
+  green: { label: "Green", overlay: "bg-green-300/40", swatch: "bg-green-300" },
+  blue: { label: "Blue", overlay: "bg-sky-300/40", swatch: "bg-sky-300" },
+  pink: { label: "Pink", overlay: "bg-pink-300/40", swatch: "bg-pink-300" },
+};
+
+export const DEFAULT_HIGHLIGHT_COLOR = "yellow";
+/** Selections anchoring a comment are tinted so they stand out from highlights. */
+export const COMMENT_HIGHLIGHT_COLOR = "blue";
+
+const isPdfRect = (value: unknown): value is PdfRect =>
+  typeof value === "object" &&
+  value !== null &&
+  ["x", "y", "width", "height"].every((key) => typeof (value as Record<string, unknown>)[key] === "number");
+
+/**
+ * Maps a `pdf_annotations` row to the client shape, dropping malformed rects
+ * instead of failing the whole list.
+ */
+export const toPdfAnnotation = (row: Tables<"pdf_annotations">): PdfAnnotation => ({
+  id: row.id,
+  note_id: row.note_id,
+  page_number: row.page_number,
+  kind: row.kind as PdfAnnotationKind,
+  quote: row.quote,
+  comment: row.comment,
+  rects: Array.isArray(row.rects) ? (row.rects as unknown[]).filter(isPdfRect) : [],
+  color: row.color,
+  created_at: row.created_at,
+});
+
+export const toRectsJson = (rects: PdfRect[]): Json =>
+  rects.map((rect) => ({ x: rect.x, y: rect.y, width: rect.width, height: rect.height }));
+
+/** Orders annotations by page, then by position on the page. */
+export const comparePdfAnnotations = (a: PdfAnnotation, b: PdfAnnotation) =>
+  a.page_number - b.page_number ||
+  (a.rects[0]?.y ?? 0) - (b.rects[0]?.y ?? 0) ||
+  (a.created_at || "").localeCompare(b.created_at || "");
+
+const quoteMarkdown = (text: string) => `> ${text.replace(/\s+/g, " ").trim()}`;
+
+/**
+ * Builds a Markdown summary of a document's highlights and comments, grouped
+ * by page, with bookmarks listed first.
+ */
+export const buildHighlightsMarkdown = (title: string, annotations: PdfAnnotation[]): string => {
+  const sorted = [...annotations].sort(comparePdfAnnotations);
+  const bookmarks = sorted.filter((annotation) => annotation.kind === "bookmark");
+  const notes = sorted.filter((annotation) => annotation.kind !== "bookmark");
+  const lines = [`# ${title} – highlights`, "", `_Exported on ${new Date().toLocaleDateString()}_`, ""];
+
+  if (bookmarks.length > 0) {
+    lines.push("## Bookmarks", "");
+    bookmarks.forEach((bookmark) => {
+      lines.push(`- Page ${bookmark.page_number}${bookmark.comment ? `: ${bookmark.comment}` : ""}`);
+    });
+    lines.push("");
+  }
+
+  let currentPage: number | null = null;
+  notes.forEach((annotation) => {
+    if (annotation.page_number !== currentPage) {
+      currentPage = annotation.page_number;
+      lines.push(`## Page ${currentPage}`, "");
+    }
+    if (annotation.quote) {
+      lines.push(quoteMarkdown(annotation.quote), "");
+    }
+    if (annotation.comment?.trim()) {
+      lines.push(annotation.comment.trim(), "");
+    }
+  });
+
+  if (notes.length === 0 && bookmarks.length === 0) {
+    lines.push("No highlights yet.", "");
+  }
+
+  return lines.join("\n");
+};
@@ -0,0 +1,58 @@
+import { QueryCache, QueryClient, QueryKey } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+
+declare module "@tanstack/react-query" {
+  interface Register {
+    queryMeta: {
+      /** Toast title shown when the query fails. */
+      errorTitle?: string;
+    };
+  }
+}
+
+/**
+ * Shared React Query client. Failed reads are reported once per query
+ * through their `meta.errorTitle`; failed writes are reported by the page
+ * that made them.
+ *
+ * Requests are always attempted, even when the browser reports being
+ * offline, so the service worker can answer reads from its cache.
+ */
+export const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      if (!query.meta?.errorTitle) return;
+      toast({
+        title: query.meta.errorTitle,
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  }),
+  defaultOptions: {
+    queries: {
+      networkMode: "offlineFirst",
+      staleTime: 30 * 1000,
+      retry: 1,
+    },
+    mutations: {
+      networkMode: "offlineFirst",
+    },
+  },
+});
+
+export type QuerySnapshot = [QueryKey, unknown][];
+
+/**
+ * Stops in-flight fetches for `queryKey` and keeps the cached data, so an
+ * optimistic update is not overwritten and can be rolled back.
+ */
+export const snapshotQueries = async (client: QueryClient, queryKey: QueryKey): Promise<QuerySnapshot> => {
+  await client.cancelQueries({ queryKey });
+  return client.getQueriesData({ queryKey });
+};
+
+/** Puts back the data saved by `snapshotQueries` after a failed write. */
+export const restoreQueries = (client: QueryClient, snapshot: QuerySnapshot | undefined) => {
+  snapshot?.forEach(([queryKey, data]) => client.setQueryData(queryKey, data));
+};
@@ -0,0 +1,29 @@
+/**
+ * React Query keys for the data hooks. Each entity's keys start with its
+ * table name, so `invalidateQueries({ queryKey: queryKeys.topics.all })`
+ * refreshes every cached list and single row of that entity.
+ */
+export const queryKeys = {
+  subjects: {
+    all: ["subjects"] as const,
+    lists: ["subjects", "list"] as const,
+    list: (userId: string) => ["subjects", "list", userId] as const,
+    detail: (id: string) => ["subjects", "detail", id] as const,
+  },
+  topics: {
+    all: ["topics"] as const,
+    list: (subjectId: string) => ["topics", "list", subjectId] as const,
+    /** Every topic of a user, across subjects. */
+    userLists: ["topics", "user"] as const,
+    userList: (userId: string) => ["topics", "user", userId] as const,
+    detail: (id: string) => ["topics", "detail", id] as const,
+  },
+  topicNotes: {
+    all: ["notes"] as const,
+    list: (topicId: string) => ["notes", "list", topicId] as const,
+  },
+  exams: {
+    all: ["exams"] as const,
+    list: (userId: string) => ["exams", "list", userId] as const,
+  },
+};
@@ -0,0 +1,79 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+
+export type Exam = Tables<"exams">;
+
+/** An exam with the name and color of its subject, for lists that show both. */
+export type ExamWithSubject = Exam & { subjects: Pick<Tables<"subjects">, "name" | "color"> | null };
+
+export type ExamUpdate = TablesUpdate<"exams">;
+
+/** Fields a student fills in when adding an exam. */
+export type NewExamFields = Pick<TablesInsert<"exams">, "title" | "exam_date" | "exam_type" | "tags" | "subject_id">;
+
+/** Earliest first, the order the datesheet lists them in. */
+export const byExamDate = (a: Pick<Exam, "exam_date">, b: Pick<Exam, "exam_date">) =>
+  new Date(a.exam_date).getTime() - new Date(b.exam_date).getTime();
+
+/** The user's exams, earliest first. */
+export const listExams = async (userId: string): Promise<Exam[]> => {
+  const { data, error } = await supabase
+    .from("exams")
+    .select("*")
+    .eq("user_id", userId)
+    .order("exam_date", { ascending: true });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * The user's exams from `from` on, earliest first, with their subject. Pass
+ * `until` to stop at a date, e.g. the longest reminder lead time.
+ */
+export const listUpcomingExams = async (userId: string, from: Date, until?: Date): Promise<ExamWithSubject[]> => {
+  let query = supabase
+    .from("exams")
+    .select("*, subjects(name, color)")
+    .eq("user_id", userId)
+    .gte("exam_date", from.toISOString());
+  if (until) query = query.lte("exam_date", until.toISOString());
+
+  const { data, error } = await query.order("exam_date", { ascending: true });
+  if (error) throw error;
+  return data;
+};
+
+export const createExam = async (userId: string, fields: NewExamFields): Promise<Exam> => {
+  const { data, error } = await supabase
+    .from("exams")
+    .insert({ ...fields, user_id: userId })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/** Creates several exams in one request. The insert is all-or-nothing. */
+export const createExams = async (userId: string, exams: NewExamFields[]): Promise<Exam[]> => {
+  const { data, error } = await supabase
+    .from("exams")
+    .insert(exams.map((fields) => ({ ...fields, user_id: userId })))
+    .select("*");
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateExam = async (id: string, update: ExamUpdate): Promise<Exam> => {
+  const { data, error } = await supabase.from("exams").update(update).eq("id", id).select("*").single();
+  if (error) throw error;
+  return data;
+};
+
+/** Deletes an exam; its topic links and attachment rows go with it via cascading foreign keys. */
+export const deleteExam = async (id: string) => {
+  const { error } = await supabase.from("exams").delete().eq("id", id);
+  if (error) throw error;
+};
@@ -0,0 +1,62 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+
+export type Subject = Tables<"subjects">;
+
+/** Fields a student edits in the subject dialog. */
+export type SubjectFields = Required<Pick<TablesUpdate<"subjects">, "name" | "description" | "color">>;
+
+/** The user's subjects, newest first. */
+export const listSubjects = async (userId: string): Promise<Subject[]> => {
+  const { data, error } = await supabase
+    .from("subjects")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+export const getSubject = async (id: string): Promise<Subject> => {
+  const { data, error } = await supabase.from("subjects").select("*").eq("id", id).single();
+  if (error) throw error;
+  return data;
+};
+
+export const createSubject = async (userId: string, fields: SubjectFields): Promise<Subject> => {
+  const { data, error } = await supabase
+    .from("subjects")
+    .insert({ ...fields, user_id: userId })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/** Creates several subjects in one request, e.g. the ones a datesheet import refers to. */
+export const createSubjects = async (
+  userId: string,
+  subjects: Pick<SubjectFields, "name" | "color">[],
+): Promise<Subject[]> => {
+  const { data, error } = await supabase
+    .from("subjects")
+    .insert(subjects.map((fields) => ({ ...fields, user_id: userId })))
+    .select("*");
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateSubject = async (id: string, fields: SubjectFields): Promise<Subject> => {
+  const { data, error } = await supabase.from("subjects").update(fields).eq("id", id).select("*").single();
+  if (error) throw error;
+  return data;
+};
+
+/** Deletes a subject; its topics, notes and exams go with it via cascading foreign keys. */
+export const deleteSubject = async (id: string) => {
+  const { error } = await supabase.from("subjects").delete().eq("id", id);
+  if (error) throw error;
+};
@@ -0,0 +1,180 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { extractStoragePath } from "@/lib/storage";
+
+/**
+ * A file, link or Markdown note attached to a topic. `note_type` says which:
+ * files keep their storage path in `file_url`, links keep the URL in
+ * `content` and Markdown notes keep their text in `content`.
+ */
+export type TopicNote = Tables<"notes">;
+
+/** Private bucket holding uploaded topic files. */
+export const TOPIC_NOTES_BUCKET = "notes";
+
+export const isLinkNote = (note: Pick<TopicNote, "note_type">) => note.note_type === "link";
+
+export const isMarkdownNote = (note: Pick<TopicNote, "note_type">) => note.note_type === "markdown";
+
+/** Whether a note has what it needs to open: a file, a URL, or any Markdown. */
+const isComplete = (note: TopicNote) => {
+  if (isMarkdownNote(note)) return true;
+  if (isLinkNote(note)) return !!note.content;
+  return !!note.file_url;
+};
+
+/**
+ * The user's notes for a topic in the order they arranged them, with unsorted
+ * ones after the rest, newest first. File and link rows missing their file
+ * or URL are left out.
+ */
+export const listTopicNotes = async (userId: string, topicId: string): Promise<TopicNote[]> => {
+  const { data, error } = await supabase
+    .from("notes")
+    .select("*")
+    .eq("topic_id", topicId)
+    .eq("user_id", userId)
+    .order("sort_order", { ascending: true, nullsFirst: false })
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data.filter(isComplete).map((note, index) => ({ ...note, sort_order: note.sort_order ?? index + 1 }));
+};
+
+/** Inserts a note at the end of the topic's list. */
+const insertTopicNote = async (
+  userId: string,
+  topic: { id: string; subject_id: string },
+  fields: Pick<TopicNote, "title" | "note_type" | "content" | "file_url" | "file_name" | "file_size">,
+): Promise<TopicNote> => {
+  const { data: last, error: lastError } = await supabase
+    .from("notes")
+    .select("sort_order")
+    .eq("topic_id", topic.id)
+    .order("sort_order", { ascending: false, nullsFirst: false })
+    .limit(1);
+  if (lastError) throw lastError;
+
+  const { data, error } = await supabase
+    .from("notes")
+    .insert({
+      ...fields,
+      user_id: userId,
+      topic_id: topic.id,
+      subject_id: topic.subject_id,
+      sort_order: (last[0]?.sort_order ?? 0) + 1,
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Uploads a file for a topic and records it as a note. Files are stored
+ * under `<user>/<subject>/<topic>/` and the row keeps the storage path, since
+ * the bucket is private and files are opened through signed URLs.
+ */
+export const uploadTopicFile = async (
+  userId: string,
+  topic: { id: string; subject_id: string },
+  file: File,
+): Promise<TopicNote> => {
+  const path = `${userId}/${topic.subject_id}/${topic.id}/${file.name}`;
+
+  const { data: uploadData, error: uploadError } = await supabase.storage
+    .from(TOPIC_NOTES_BUCKET)
+    .upload(path, file, {
+      cacheControl: "3600",
+      upsert: false,
+    });
+  if (uploadError) throw uploadError;
+
+  try {
+    return await insertTopicNote(userId, topic, {
+      title: file.name.replace(/\.[^.]+$/, ""),
+      note_type: "file",
+      content: null,
+      file_url: uploadData.path,
+      file_name: file.name,
+      file_size: file.size,
+    });
+  } catch (error) {
+    await supabase.storage.from(TOPIC_NOTES_BUCKET).remove([uploadData.path]);
+    throw error;
+  }
+};
+
+/** Records a web link for a topic. URLs without a scheme get `https://`. */
+export const addTopicLink = (
+  userId: string,
+  topic: { id: string; subject_id: string },
+  title: string,
+  url: string,
+): Promise<TopicNote> => {
+  const trimmed = url.trim();
+  return insertTopicNote(userId, topic, {
+    title: title.trim(),
+    note_type: "link",
+    content: /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`,
+    file_url: null,
+    file_name: null,
+    file_size: null,
+  });
+};
+
+/** Creates an empty Markdown note for a topic. */
+export const createMarkdownNote = (userId: string, topic: { id: string; subject_id: string }): Promise<TopicNote> =>
+  insertTopicNote(userId, topic, {
+    title: "Untitled note",
+    note_type: "markdown",
+    content: "",
+    file_url: null,
+    file_name: null,
+    file_size: null,
+  });
+
+/** Saves a Markdown note's title and text. A blank title becomes "Untitled note". */
+export const updateMarkdownNote = async (
+  id: string,
+  fields: { title: string; content: string },
+): Promise<TopicNote> => {
+  const { data, error } = await supabase
+    .from("notes")
+    .update({ title: fields.title.trim() || "Untitled note", content: fields.content })
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/** Swaps the positions of two notes. */
+export const swapTopicNoteOrder = async (
+  a: Pick<TopicNote, "id" | "sort_order">,
+  b: Pick<TopicNote, "id" | "sort_order">,
+) => {
+  const results = await Promise.all([
+    supabase.from("notes").update({ sort_order: b.sort_order }).eq("id", a.id),
+    supabase.from("notes").update({ sort_order: a.sort_order }).eq("id", b.id),
+  ]);
+  const failed = results.find((result) => result.error);
+  if (failed?.error) throw failed.error;
+};
+
+/**
+ * Deletes a note and, for uploaded files, the stored file. A file that
+ * cannot be removed is logged rather than blocking the delete.
+ */
+export const deleteTopicNote = async (note: Pick<TopicNote, "id" | "note_type" | "file_url">) => {
+  const storagePath = isLinkNote(note) ? null : extractStoragePath(TOPIC_NOTES_BUCKET, note.file_url);
+  if (storagePath) {
+    const { error } = await supabase.storage.from(TOPIC_NOTES_BUCKET).remove([storagePath]);
+    if (error) console.error("Failed to remove note file:", error);
+  }
+
+  const { error } = await supabase.from("notes").delete().eq("id", note.id);
+  if (error) throw error;
+};
@@ -0,0 +1,148 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+
+export type Topic = Tables<"topics">;
+
+export type TopicUpdate = TablesUpdate<"topics">;
+
+/** A topic with the name of its subject, e.g. for the tutor's topic header. */
+export type TopicWithSubject = Topic & { subjects: Pick<Tables<"subjects">, "name"> | null };
+
+/** Fields a student fills in when adding a topic. */
+export interface NewTopicFields {
+  name: string;
+  description: string | null;
+  video_url: string | null;
+}
+
+/**
+ * Older rows may lack a `sort_order` or `is_shared`; give them the position
+ * they are listed at and treat them as not shared.
+ */
+const normalizeTopics = (topics: Topic[]): Topic[] =>
+  topics.map((topic, index) => ({
+    ...topic,
+    sort_order: topic.sort_order ?? index + 1,
+    is_shared: topic.is_shared ?? false,
+  }));
+
+/**
+ * A subject's topics in the order the student arranged them, with unsorted
+ * ones after the rest, newest first.
+ */
+export const listTopics = async (subjectId: string): Promise<Topic[]> => {
+  const { data, error } = await supabase
+    .from("topics")
+    .select("*")
+    .eq("subject_id", subjectId)
+    .order("sort_order", { ascending: true, nullsFirst: false })
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return normalizeTopics(data);
+};
+
+/** Every topic of the user across subjects, in the order the student arranged them. */
+export const listUserTopics = async (userId: string): Promise<Topic[]> => {
+  const { data, error } = await supabase
+    .from("topics")
+    .select("*")
+    .eq("user_id", userId)
+    .order("sort_order", { ascending: true, nullsFirst: false })
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+/** The user's topics in the given subjects, e.g. the subjects with an upcoming exam. */
+export const listTopicsInSubjects = async (userId: string, subjectIds: string[]): Promise<Topic[]> => {
+  if (subjectIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("topics")
+    .select("*")
+    .eq("user_id", userId)
+    .in("subject_id", subjectIds);
+
+  if (error) throw error;
+  return data;
+};
+
+/** How many of the user's topics are due for revision by `until`. */
+export const countDueTopics = async (userId: string, until: Date): Promise<number> => {
+  const { count, error } = await supabase
+    .from("topics")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .not("due_at", "is", null)
+    .lte("due_at", until.toISOString());
+
+  if (error) throw error;
+  return count ?? 0;
+};
+
+export const getTopic = async (id: string): Promise<Topic> => {
+  const { data, error } = await supabase.from("topics").select("*").eq("id", id).single();
+  if (error) throw error;
+  return data;
+};
+
+/** Like `getTopic`, but resolves to null when the topic no longer exists. */
+export const findTopic = async (id: string): Promise<Topic | null> => {
+  const { data, error } = await supabase.from("topics").select("*").eq("id", id).maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+export const getTopicWithSubject = async (id: string): Promise<TopicWithSubject> => {
+  const { data, error } = await supabase.from("topics").select("*, subjects(name)").eq("id", id).single();
+  if (error) throw error;
+  return data;
+};
+
+/** Adds a topic at the end of its subject's list. */
+export const createTopic = async (userId: string, subjectId: string, fields: NewTopicFields): Promise<Topic> => {
+  const { data: last, error: lastError } = await supabase
+    .from("topics")
+    .select("sort_order")
+    .eq("subject_id", subjectId)
+    .order("sort_order", { ascending: false, nullsFirst: false })
+    .limit(1);
+  if (lastError) throw lastError;
+
+  const { data, error } = await supabase
+    .from("topics")
+    .insert({
+      ...fields,
+      subject_id: subjectId,
+      user_id: userId,
+      sort_order: (last[0]?.sort_order ?? 0) + 1,
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateTopic = async (id: string, update: TopicUpdate): Promise<Topic> => {
+  const { data, error } = await supabase.from("topics").update(update).eq("id", id).select("*").single();
+  if (error) throw error;
+  return data;
+};
+
+/** Swaps the positions of two topics. */
+export const swapTopicOrder = async (a: Pick<Topic, "id" | "sort_order">, b: Pick<Topic, "id" | "sort_order">) => {
+  const results = await Promise.all([
+    supabase.from("topics").update({ sort_order: b.sort_order }).eq("id", a.id),
+    supabase.from("topics").update({ sort_order: a.sort_order }).eq("id", b.id),
+  ]);
+  const failed = results.find((result) => result.error);
+  if (failed?.error) throw failed.error;
+};
+
+export const deleteTopic = async (id: string) => {
+  const { error } = await supabase.from("topics").delete().eq("id", id);
+  if (error) throw error;
+};
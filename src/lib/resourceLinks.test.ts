@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { getLinkPreview, getYouTubeEmbedUrl, parseTimestamp } from "./resourceLinks";
+
+describe("parseTimestamp", () => {
+  it("reads plain seconds and h/m/s forms", () => {
+    expect(parseTimestamp("90")).toBe(90);
+    expect(parseTimestamp("90s")).toBe(90);
+    expect(parseTimestamp("1m30s")).toBe(90);
+    expect(parseTimestamp("1h2m3s")).toBe(3723);
+  });
+
+  it("returns null for missing or unreadable values", () => {
+    expect(parseTimestamp(null)).toBeNull();
+    expect(parseTimestamp("")).toBeNull();
+    expect(parseTimestamp("1:30")).toBeNull();
+    expect(parseTimestamp("abc")).toBeNull();
+  });
+});
+
+describe("getYouTubeEmbedUrl", () => {
+  it("embeds watch, short and shorts links", () => {
+    expect(getYouTubeEmbedUrl("https://www.youtube.com/watch?v=dQw4w9WgXcQ")).toBe(
+      "https://www.youtube.com/embed/dQw4w9WgXcQ",
+    );
+    expect(getYouTubeEmbedUrl("youtu.be/dQw4w9WgXcQ")).toBe("https://www.youtube.com/embed/dQw4w9WgXcQ");
+    expect(getYouTubeEmbedUrl("https://youtube.com/shorts/dQw4w9WgXcQ")).toBe(
+      "https://www.youtube.com/embed/dQw4w9WgXcQ",
+    );
+  });
+
+  it("keeps the start time from ?t=, ?start= and #t=", () => {
+    expect(getYouTubeEmbedUrl("https://youtu.be/dQw4w9WgXcQ?t=1m30s")).toBe(
+      "https://www.youtube.com/embed/dQw4w9WgXcQ?start=90",
+    );
+    expect(getYouTubeEmbedUrl("https://www.youtube.com/watch?v=dQw4w9WgXcQ&start=42")).toBe(
+      "https://www.youtube.com/embed/dQw4w9WgXcQ?start=42",
+    );
+    expect(getYouTubeEmbedUrl("https://www.youtube.com/watch?v=dQw4w9WgXcQ#t=15")).toBe(
+      "https://www.youtube.com/embed/dQw4w9WgXcQ?start=15",
+    );
+  });
+
+  it("embeds playlists and videos within a playlist", () => {
+    expect(getYouTubeEmbedUrl("https://www.youtube.com/playlist?list=PL123")).toBe(
+      "https://www.youtube.com/embed/videoseries?list=PL123",
+    );
+    expect(getYouTubeEmbedUrl("https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PL123&t=10")).toBe(
+      "https://www.youtube.com/embed/dQw4w9WgXcQ?list=PL123&start=10",
+    );
+  });
+
+  it("returns null for other YouTube pages and other hosts", () => {
+    expect(getYouTubeEmbedUrl("https://www.youtube.com/@channel")).toBeNull();
+    expect(getYouTubeEmbedUrl("https://example.com/watch?v=dQw4w9WgXcQ")).toBeNull();
+    expect(getYouTubeEmbedUrl("")).toBeNull();
+  });
+});
+
+describe("getLinkPreview", () => {
+  it("frames YouTube links as video", () => {
+    expect(getLinkPreview("https://youtu.be/dQw4w9WgXcQ?t=90")).toEqual({
+      provider: "youtube",
+      url: "https://youtu.be/dQw4w9WgXcQ?t=90",
+      embedUrl: "https://www.youtube.com/embed/dQw4w9WgXcQ?start=90",
+      aspect: "video",
+    });
+  });
+
+  it("embeds Vimeo videos, keeping the privacy hash and start time, and showcases", () => {
+    expect(getLinkPreview("https://vimeo.com/123456").embedUrl).toBe("https://player.vimeo.com/video/123456");
+    expect(getLinkPreview("https://vimeo.com/123456/abcdef12#t=30").embedUrl).toBe(
+      "https://player.vimeo.com/video/123456?h=abcdef12#t=30s",
+    );
+    expect(getLinkPreview("https://vimeo.com/showcase/789").embedUrl).toBe(
+      "https://vimeo.com/showcase/789/embed",
+    );
+    expect(getLinkPreview("https://vimeo.com/channels").embedUrl).toBeNull();
+  });
+
+  it("embeds Loom share links with their start time", () => {
+    expect(getLinkPreview("https://www.loom.com/share/abc123def?t=45")).toMatchObject({
+      provider: "loom",
+      embedUrl: "https://www.loom.com/embed/abc123def?t=45",
+      aspect: "video",
+    });
+  });
+
+  it("previews Drive files and folders", () => {
+    expect(getLinkPreview("https://drive.google.com/file/d/FILE_id-1/view?usp=sharing")).toMatchObject({
+      provider: "google-drive",
+      embedUrl: "https://drive.google.com/file/d/FILE_id-1/preview",
+      aspect: "document",
+    });
+    expect(getLinkPreview("https://drive.google.com/open?id=FILE_id-1").embedUrl).toBe(
+      "https://drive.google.com/file/d/FILE_id-1/preview",
+    );
+    expect(getLinkPreview("https://drive.google.com/drive/folders/FOLDER1").embedUrl).toBe(
+      "https://drive.google.com/embeddedfolderview?id=FOLDER1#list",
+    );
+  });
+
+  it("previews Docs, Slides, Sheets and Forms", () => {
+    expect(getLinkPreview("https://docs.google.com/document/d/DOC1/edit").embedUrl).toBe(
+      "https://docs.google.com/document/d/DOC1/preview",
+    );
+    expect(getLinkPreview("https://docs.google.com/presentation/d/DECK1/edit#slide=id.p").embedUrl).toBe(
+      "https://docs.google.com/presentation/d/DECK1/embed",
+    );
+    expect(getLinkPreview("https://docs.google.com/spreadsheets/d/SHEET1/edit").embedUrl).toBe(
+      "https://docs.google.com/spreadsheets/d/SHEET1/preview",
+    );
+    expect(getLinkPreview("https://docs.google.com/forms/d/e/FORM1/viewform").embedUrl).toBe(
+      "https://docs.google.com/forms/d/e/FORM1/viewform?embedded=true",
+    );
+    expect(getLinkPreview("https://docs.google.com/document/d/e/PUB1/pub").embedUrl).toBe(
+      "https://docs.google.com/document/d/e/PUB1/pub?embedded=true",
+    );
+  });
+
+  it("embeds OneDrive links with a resid and SharePoint links, but not 1drv.ms short links", () => {
+    expect(getLinkPreview("https://onedrive.live.com/redir?resid=ABC!123&authkey=KEY").embedUrl).toBe(
+      "https://onedrive.live.com/embed?resid=ABC%21123&authkey=KEY",
+    );
+    expect(getLinkPreview("https://contoso.sharepoint.com/:w:/g/personal/doc?e=abc").embedUrl).toBe(
+      "https://contoso.sharepoint.com/:w:/g/personal/doc?e=abc&action=embedview",
+    );
+    expect(getLinkPreview("https://1drv.ms/w/s!Abc")).toMatchObject({ provider: "onedrive", embedUrl: null });
+  });
+
+  it("serves viewable Dropbox files raw and leaves other files to a new tab", () => {
+    expect(getLinkPreview("https://www.dropbox.com/s/abc/notes.pdf?dl=0").embedUrl).toBe(
+      "https://www.dropbox.com/s/abc/notes.pdf?raw=1",
+    );
+    expect(getLinkPreview("https://www.dropbox.com/s/abc/notes.zip?dl=0")).toMatchObject({
+      provider: "dropbox",
+      embedUrl: null,
+    });
+  });
+
+  it("frames GitHub images from raw.githubusercontent.com and nothing else", () => {
+    expect(getLinkPreview("https://github.com/owner/repo/blob/main/docs/diagram.png").embedUrl).toBe(
+      "https://raw.githubusercontent.com/owner/repo/main/docs/diagram.png",
+    );
+    expect(getLinkPreview("https://github.com/owner/repo")).toMatchObject({ provider: "github", embedUrl: null });
+    expect(getLinkPreview("https://github.com/owner/repo/blob/main/README.md").embedUrl).toBeNull();
+  });
+
+  it("frames unknown hosts as web pages and adds a missing scheme", () => {
+    expect(getLinkPreview("example.com/article")).toEqual({
+      provider: "web",
+      url: "https://example.com/article",
+      embedUrl: "https://example.com/article",
+      aspect: "document",
+    });
+  });
+
+  it("opens Office files in the Office viewer and directly frames viewable files", () => {
+    expect(getLinkPreview("https://example.com/slides.pptx")).toMatchObject({
+      provider: "office",
+      embedUrl: `https://view.officeapps.live.com/op/embed.aspx?src=${encodeURIComponent("https://example.com/slides.pptx")}`,
+    });
+    expect(getLinkPreview("https://example.com/paper.pdf")).toMatchObject({
+      provider: "file",
+      embedUrl: "https://example.com/paper.pdf",
+    });
+  });
+
+  it("leaves links that are not web URLs unframed", () => {
+    expect(getLinkPreview("ftp://example.com/notes.pdf")).toEqual({
+      provider: "web",
+      url: "ftp://example.com/notes.pdf",
+      embedUrl: null,
+      aspect: "document",
+    });
+  });
+});
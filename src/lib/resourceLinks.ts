@@ -0,0 +1,302 @@
+/**
+ * Classifies the links students attach to topics and turns them into URLs
+ * that can be shown in the in-app preview.
+ *
+ * Each provider has its own embed rules: video sites have dedicated player
+ * URLs, Google files have `/preview` or `/embed` pages, and some sites
+ * (GitHub, unconverted OneDrive short links) refuse to be framed at all, so
+ * they only open in a new tab.
+ */
+
+export type LinkProvider =
+  | "youtube"
+  | "vimeo"
+  | "loom"
+  | "google-drive"
+  | "google-docs"
+  | "onedrive"
+  | "dropbox"
+  | "github"
+  | "office"
+  | "file"
+  | "web";
+
+export const LINK_PROVIDER_LABELS: Record<LinkProvider, string> = {
+  youtube: "YouTube",
+  vimeo: "Vimeo",
+  loom: "Loom",
+  "google-drive": "Google Drive",
+  "google-docs": "Google Docs",
+  onedrive: "OneDrive",
+  dropbox: "Dropbox",
+  github: "GitHub",
+  office: "Office document",
+  file: "File",
+  web: "Web page",
+};
+
+export interface LinkPreview {
+  provider: LinkProvider;
+  /** The link itself, with `https://` added when it had no scheme; open this in a new tab. */
+  url: string;
+  /** Frame source for the in-app preview, or null when the provider does not allow framing. */
+  embedUrl: string | null;
+  /** Video players keep a 16:9 frame; everything else gets a tall document frame. */
+  aspect: "video" | "document";
+}
+
+/** Extensions browsers can show directly in a frame. */
+const VIEWABLE_FILE_PATTERN = /\.(pdf|jpe?g|png|gif|webp|svg|mp4|webm|mp3|ogg|wav)$/i;
+const IMAGE_FILE_PATTERN = /\.(jpe?g|png|gif|webp)$/i;
+const OFFICE_FILE_PATTERN = /\.(docx?|pptx?|xlsx?)$/i;
+
+/** Parses a link, adding `https://` when it has no scheme. Returns null for anything that is not a web URL. */
+export const parseLink = (raw: string | null | undefined): URL | null => {
+  const trimmed = raw?.trim();
+  if (!trimmed) return null;
+
+  try {
+    const url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+const hostIs = (url: URL, ...domains: string[]) =>
+  domains.some((domain) => url.hostname === domain || url.hostname.endsWith(`.${domain}`));
+
+/** Whether the file name or URL path ends in a Word, PowerPoint or Excel extension. */
+export const isOfficeDocument = (nameOrPath: string | null | undefined) => OFFICE_FILE_PATTERN.test(nameOrPath ?? "");
+
+/**
+ * Office Online viewer for a Word, PowerPoint or Excel file. The file must
+ * be reachable by Microsoft's servers, e.g. a public or signed URL.
+ */
+export const getOfficeViewerUrl = (fileUrl: string) =>
+  `https://view.officeapps.live.com/op/embed.aspx?src=${encodeURIComponent(fileUrl)}`;
+
+/**
+ * Converts a timestamp such as `90`, `90s`, `1m30s` or `1h2m3s` to seconds.
+ * Returns null when there is none or it cannot be read.
+ */
+export const parseTimestamp = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  if (/^\d+$/.test(value)) return Number(value);
+
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!match || !match[0]) return null;
+  const [, hours = "0", minutes = "0", seconds = "0"] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+};
+
+/** Reads a start time from `?t=`, `?start=` or `#t=`. */
+const readStartTime = (url: URL) =>
+  parseTimestamp(url.searchParams.get("t") ?? url.searchParams.get("start")) ??
+  parseTimestamp(new URLSearchParams(url.hash.slice(1)).get("t"));
+
+const YOUTUBE_ID_PATTERN = /^[\w-]{11}$/;
+
+const isYouTubeHost = (url: URL) => hostIs(url, "youtube.com", "youtube-nocookie.com") || url.hostname === "youtu.be";
+
+/**
+ * The video id of a YouTube link: `watch?v=`, `youtu.be/`, `/embed/`,
+ * `/shorts/`, `/live/` and `/v/` forms. Null for playlists and other pages.
+ */
+export const extractYouTubeVideoId = (link: string | null | undefined): string | null => {
+  const url = parseLink(link);
+  if (!url || !isYouTubeHost(url)) return null;
+
+  const [first, second] = url.pathname.split("/").filter(Boolean);
+  const id =
+    url.hostname === "youtu.be"
+      ? first
+      : first === "watch"
+        ? url.searchParams.get("v")
+        : ["embed", "shorts", "live", "v"].includes(first)
+          ? second
+          : null;
+
+  return id && YOUTUBE_ID_PATTERN.test(id) ? id : null;
+};
+
+/**
+ * YouTube player URL for a video, a playlist, or a video within a playlist,
+ * starting at the link's timestamp. Null when the link is neither.
+ */
+export const getYouTubeEmbedUrl = (link: string | null | undefined): string | null => {
+  const url = parseLink(link);
+  if (!url || !isYouTubeHost(url)) return null;
+
+  const videoId = extractYouTubeVideoId(url.href);
+  const playlistId = url.searchParams.get("list");
+  if (!videoId && !playlistId) return null;
+
+  const params = new URLSearchParams();
+  if (playlistId) params.set("list", playlistId);
+  const start = readStartTime(url);
+  if (videoId && start) params.set("start", String(start));
+
+  const query = params.toString();
+  return `https://www.youtube.com/embed/${videoId ?? "videoseries"}${query ? `?${query}` : ""}`;
+};
+
+/**
+ * Vimeo player URL. Unlisted videos keep their privacy hash, either from
+ * `vimeo.com/<id>/<hash>` or `?h=`; `#t=` start times are kept.
+ */
+const getVimeoEmbedUrl = (url: URL): string | null => {
+  const segments = url.pathname.split("/").filter(Boolean);
+
+  if (segments[0] === "showcase" && segments[1]) {
+    return `https://vimeo.com/showcase/${segments[1]}/embed`;
+  }
+
+  const idIndex = segments.findIndex((segment) => /^\d+$/.test(segment));
+  if (idIndex === -1) return null;
+
+  const hash = url.searchParams.get("h") ?? segments[idIndex + 1]?.match(/^[\da-f]+$/i)?.[0];
+  const start = readStartTime(url);
+  return `https://player.vimeo.com/video/${segments[idIndex]}${hash ? `?h=${hash}` : ""}${start ? `#t=${start}s` : ""}`;
+};
+
+/** Loom player URL for `/share/` and `/embed/` links, keeping `?t=`. */
+const getLoomEmbedUrl = (url: URL): string | null => {
+  const match = url.pathname.match(/^\/(?:share|embed)\/([\da-f]+)/i);
+  if (!match) return null;
+
+  const start = readStartTime(url);
+  return `https://www.loom.com/embed/${match[1]}${start ? `?t=${start}` : ""}`;
+};
+
+/** Drive's preview page for files and its embedded view for folders. */
+const getGoogleDriveEmbedUrl = (url: URL): string | null => {
+  const folder = url.pathname.match(/\/folders\/([\w-]+)/);
+  if (folder) return `https://drive.google.com/embeddedfolderview?id=${folder[1]}#list`;
+
+  const fileId = url.pathname.match(/\/file\/d\/([\w-]+)/)?.[1] ?? url.searchParams.get("id");
+  return fileId ? `https://drive.google.com/file/d/${fileId}/preview` : null;
+};
+
+/**
+ * Preview or embed page for Google Docs, Slides, Sheets and Forms, for both
+ * shared (`/d/<id>`) and published-to-the-web (`/d/e/<id>`) links.
+ */
+const getGoogleDocsEmbedUrl = (url: URL): string | null => {
+  const match = url.pathname.match(/^\/(document|presentation|spreadsheets|forms)\/d\/(e\/)?([\w-]+)/);
+  if (!match) return null;
+
+  const [, kind, published, id] = match;
+  const base = `https://docs.google.com/${kind}/d/${published ?? ""}${id}`;
+
+  if (kind === "forms") return `${base}/viewform?embedded=true`;
+  if (kind === "presentation") return `${base}/embed`;
+  if (!published) return `${base}/preview`;
+  return kind === "document" ? `${base}/pub?embedded=true` : `${base}/pubhtml?widget=true&headers=false`;
+};
+
+/**
+ * OneDrive's embed page for personal links that carry a `resid`, and the
+ * embed view for SharePoint (work or school) links. `1drv.ms` short links
+ * only resolve through a redirect, so they cannot be previewed.
+ */
+const getOneDriveEmbedUrl = (url: URL): string | null => {
+  if (hostIs(url, "sharepoint.com")) {
+    const embed = new URL(url.href);
+    embed.searchParams.set("action", "embedview");
+    return embed.href;
+  }
+  if (!hostIs(url, "onedrive.live.com") || !url.searchParams.has("resid")) return null;
+
+  const embed = new URL("https://onedrive.live.com/embed");
+  url.searchParams.forEach((value, key) => embed.searchParams.set(key, value));
+  return embed.href;
+};
+
+/**
+ * Dropbox pages cannot be framed, but with `raw=1` a shared file is served
+ * as-is, which works for files a browser can show. Other files open in a
+ * new tab.
+ */
+const getDropboxEmbedUrl = (url: URL): string | null => {
+  if (!VIEWABLE_FILE_PATTERN.test(url.pathname)) return null;
+
+  const raw = new URL(url.href);
+  raw.searchParams.delete("dl");
+  raw.searchParams.set("raw", "1");
+  return raw.href;
+};
+
+/**
+ * GitHub does not allow framing. Images in a repository are served from
+ * `raw.githubusercontent.com`, which does; everything else opens in a new tab.
+ */
+const getGitHubEmbedUrl = (url: URL): string | null => {
+  if (!IMAGE_FILE_PATTERN.test(url.pathname)) return null;
+  if (url.hostname === "raw.githubusercontent.com") return url.href;
+
+  const blob = url.pathname.match(/^\/([^/]+)\/([^/]+)\/blob\/(.+)$/);
+  return url.hostname === "github.com" && blob
+    ? `https://raw.githubusercontent.com/${blob[1]}/${blob[2]}/${blob[3]}`
+    : null;
+};
+
+/** Which provider a link belongs to. Anything unrecognised is a plain web page. */
+export const getLinkProvider = (link: string | null | undefined): LinkProvider => {
+  const url = parseLink(link);
+  if (!url) return "web";
+
+  if (isYouTubeHost(url)) return "youtube";
+  if (hostIs(url, "vimeo.com")) return "vimeo";
+  if (hostIs(url, "loom.com")) return "loom";
+  if (url.hostname === "drive.google.com") return "google-drive";
+  if (url.hostname === "docs.google.com") return "google-docs";
+  if (hostIs(url, "onedrive.live.com", "1drv.ms", "sharepoint.com")) return "onedrive";
+  if (hostIs(url, "dropbox.com", "dropboxusercontent.com")) return "dropbox";
+  if (hostIs(url, "github.com", "githubusercontent.com")) return "github";
+  if (isOfficeDocument(url.pathname)) return "office";
+  if (VIEWABLE_FILE_PATTERN.test(url.pathname)) return "file";
+  return "web";
+};
+
+/**
+ * Works out how to preview a link: its provider, the URL to frame following
+ * that provider's embed rules, and the frame shape. Links a provider does
+ * not let us embed get a null `embedUrl`.
+ */
+export const getLinkPreview = (link: string): LinkPreview => {
+  const url = parseLink(link);
+  if (!url) return { provider: "web", url: link, embedUrl: null, aspect: "document" };
+
+  const provider = getLinkProvider(url.href);
+  const preview = (embedUrl: string | null, aspect: LinkPreview["aspect"] = "document"): LinkPreview => ({
+    provider,
+    url: url.href,
+    embedUrl,
+    aspect,
+  });
+
+  switch (provider) {
+    case "youtube":
+      return preview(getYouTubeEmbedUrl(url.href), "video");
+    case "vimeo":
+      return preview(getVimeoEmbedUrl(url), "video");
+    case "loom":
+      return preview(getLoomEmbedUrl(url), "video");
+    case "google-drive":
+      return preview(getGoogleDriveEmbedUrl(url));
+    case "google-docs":
+      return preview(getGoogleDocsEmbedUrl(url));
+    case "onedrive":
+      return preview(getOneDriveEmbedUrl(url));
+    case "dropbox":
+      return preview(getDropboxEmbedUrl(url));
+    case "github":
+      return preview(getGitHubEmbedUrl(url));
+    case "office":
+      return preview(getOfficeViewerUrl(url.href));
+    case "file":
+    case "web":
+      return preview(url.href);
+  }
+};
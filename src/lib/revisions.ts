@@ -0,0 +1,58 @@
+import { RecallQuality, RevisionSchedule, scheduleNextRevision } from "@/lib/spacedRepetition";
+import { enqueueMutation, isNetworkError } from "@/lib/offlineQueue";
+import { updateTopic } from "@/lib/repositories/topics";
+
+export interface RevisableTopic extends Partial<RevisionSchedule> {
+  id: string;
+  revision_count: number | null;
+}
+
+export interface TopicRevisionUpdate extends RevisionSchedule {
+  revision_count: number;
+  last_revised_at: string;
+  due_at: string;
+}
+
+/**
+ * The fields a revision rated `quality` at `revisedAt` writes to a topic:
+ * the bumped `revision_count`, `last_revised_at` and the next SM-2 schedule.
+ */
+export const buildTopicRevisionUpdate = (
+  topic: RevisableTopic,
+  quality: RecallQuality,
+  revisedAt: Date = new Date(),
+): TopicRevisionUpdate => ({
+  ...scheduleNextRevision(topic, quality, revisedAt),
+  revision_count: (topic.revision_count ?? 0) + 1,
+  last_revised_at: revisedAt.toISOString(),
+});
+
+/**
+ * Records a revision for a topic: bumps `revision_count`, stamps
+ * `last_revised_at` and stores the next SM-2 schedule for the given rating.
+ * Without a connection the revision is queued and replayed once back online.
+ *
+ * Returns the fields that were written so callers can patch local state
+ * without reloading the topic.
+ */
+export const recordTopicRevision = async (
+  userId: string,
+  topic: RevisableTopic,
+  quality: RecallQuality,
+): Promise<TopicRevisionUpdate> => {
+  const update = buildTopicRevisionUpdate(topic, quality);
+
+  try {
+    await updateTopic(topic.id, update);
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    await enqueueMutation(userId, {
+      kind: "topic.revision",
+      topicId: topic.id,
+      quality,
+      revisedAt: update.last_revised_at,
+    });
+  }
+
+  return update;
+};
@@ -0,0 +1,145 @@
+/**
+ * SM-2 style spaced-repetition scheduling for topic revisions.
+ *
+ * Each topic stores an ease factor, the current interval in days, the number
+ * of consecutive successful recalls and the date it is next due. After every
+ * revision the student rates how well they recalled the topic and the next
+ * due date is derived from that rating.
+ */
+
+export type RecallQuality = "again" | "hard" | "good" | "easy";
+
+export interface RevisionSchedule {
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+}
+
+export interface ScheduledRevision extends RevisionSchedule {
+  /** ISO timestamp of when the topic should next be revised. */
+  due_at: string;
+}
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+
+/** Rating buttons shown to the student, in display order. */
+export const RECALL_QUALITY_OPTIONS: { value: RecallQuality; label: string; description: string }[] = [
+  { value: "again", label: "Again", description: "Forgot most of it" },
+  { value: "hard", label: "Hard", description: "Recalled with effort" },
+  { value: "good", label: "Good", description: "Recalled after a pause" },
+  { value: "easy", label: "Easy", description: "Recalled instantly" },
+];
+
+/**
+ * Maps the four rating buttons onto the 0-5 quality scale used by SM-2.
+ * Anything below 3 counts as a failed recall.
+ */
+const QUALITY_SCORES: Record<RecallQuality, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+/**
+ * Converts a practice score (flashcards known, quiz answers correct) into a
+ * recall rating, so practice sessions can be recorded as revisions.
+ */
+export const recallQualityFromScore = (correct: number, total: number): RecallQuality => {
+  const ratio = total > 0 ? correct / total : 0;
+  if (ratio < 0.5) return "again";
+  if (ratio < 0.7) return "hard";
+  if (ratio < 0.9) return "good";
+  return "easy";
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Computes the next schedule for a topic after a revision.
+ *
+ * - A failed recall ("again") restarts the repetition sequence and makes the
+ *   topic due again tomorrow without changing the ease factor.
+ * - Successful recalls follow the classic SM-2 intervals: 1 day, 6 days, then
+ *   the previous interval multiplied by the (updated) ease factor.
+ */
+export const scheduleNextRevision = (
+  current: Partial<RevisionSchedule> | null | undefined,
+  quality: RecallQuality,
+  revisedAt: Date = new Date(),
+): ScheduledRevision => {
+  const score = QUALITY_SCORES[quality];
+  const easeFactor = current?.ease_factor ?? DEFAULT_EASE_FACTOR;
+  const previousInterval = current?.interval_days ?? 0;
+  const previousRepetitions = current?.repetitions ?? 0;
+
+  let nextEaseFactor = easeFactor;
+  let repetitions: number;
+  let intervalDays: number;
+
+  if (score < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    nextEaseFactor = Math.max(
+      MIN_EASE_FACTOR,
+      easeFactor + (0.1 - (5 - score) * (0.08 + (5 - score) * 0.02)),
+    );
+    repetitions = previousRepetitions + 1;
+
+    if (repetitions === 1) {
+      intervalDays = 1;
+    } else if (repetitions === 2) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.max(1, Math.round(previousInterval * nextEaseFactor));
+    }
+  }
+
+  return {
+    ease_factor: Math.round(nextEaseFactor * 100) / 100,
+    interval_days: intervalDays,
+    repetitions,
+    due_at: new Date(revisedAt.getTime() + intervalDays * DAY_MS).toISOString(),
+  };
+};
+
+/**
+ * Returns true when a topic's due date has been reached by the end of the
+ * given day, so anything due later today is already part of the queue.
+ */
+export const isRevisionDue = (dueAt: string | null, now: Date = new Date()): boolean => {
+  if (!dueAt) return false;
+  const endOfDay = new Date(now);
+  endOfDay.setHours(23, 59, 59, 999);
+  return new Date(dueAt).getTime() <= endOfDay.getTime();
+};
+
+export interface RevisionQueueItem {
+  due_at: string | null;
+  /** Date of the nearest upcoming exam for the topic's subject, if any. */
+  next_exam_date: string | null;
+}
+
+/**
+ * Orders the revision queue by due date first and, for topics due on the same
+ * day, by whichever has the nearest upcoming exam.
+ */
+export const compareRevisionQueueItems = (a: RevisionQueueItem, b: RevisionQueueItem): number => {
+  const dayOf = (value: string | null) => {
+    if (!value) return Number.POSITIVE_INFINITY;
+    const d = new Date(value);
+    return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+  };
+
+  const dueA = dayOf(a.due_at);
+  const dueB = dayOf(b.due_at);
+  if (dueA !== dueB) return dueA < dueB ? -1 : 1;
+
+  const examA = a.next_exam_date ? new Date(a.next_exam_date).getTime() : Number.POSITIVE_INFINITY;
+  const examB = b.next_exam_date ? new Date(b.next_exam_date).getTime() : Number.POSITIVE_INFINITY;
+  if (examA !== examB) return examA < examB ? -1 : 1;
+
+  return 0;
+};
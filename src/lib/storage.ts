@@ -0,0 +1,40 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Creates a time-limited URL for a file in one of the private storage buckets.
+ * Throws on failure so callers can surface the error in a toast.
+ */
+export const createSignedStorageUrl = async (
+  bucket: string,
+  path: string,
+  expiresIn: number = 3600,
+): Promise<string> => {
+  const { data, error } = await supabase.storage.from(bucket).createSignedUrl(path, expiresIn);
+  if (error) throw error;
+  if (!data?.signedUrl) throw new Error("Could not create a link for this file.");
+  return data.signedUrl;
+};
+
+/**
+ * Starts a browser download for a URL using a temporary anchor element.
+ */
+export const triggerDownload = (url: string, fileName: string) => {
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+/**
+ * Returns the object path inside `bucket` for a stored file reference. Older
+ * rows keep a full public or signed storage URL, newer ones just the path.
+ */
+export const extractStoragePath = (bucket: string, fileUrl: string | null): string | null => {
+  if (!fileUrl) return null;
+  if (!fileUrl.startsWith("http")) return fileUrl;
+
+  const match = fileUrl.match(new RegExp(`/storage/v1/object/(?:public|sign)/${bucket}/([^?]+)`));
+  return match ? decodeURIComponent(match[1]) : fileUrl;
+};
@@ -0,0 +1,194 @@
+import { fromLocalDateKey, toLocalDateKey } from "@/lib/dates";
+
+export type StudyPlanItemKind = "learn" | "revise";
+export type StudyPlanItemStatus = "planned" | "done" | "missed";
+
+export interface PlannerExam {
+  id: string;
+  subjectId: string;
+  examDate: string;
+  /** Syllabus topics linked to the exam; when empty, all topics of its subject. */
+  topicIds?: string[];
+}
+
+export interface PlannerTopic {
+  id: string;
+  subjectId: string;
+  revisionCount: number;
+  dueAt: string | null;
+  easeFactor: number;
+}
+
+/** One study block of the generated plan. */
+export interface PlannedSession {
+  /** Local date key (YYYY-MM-DD). */
+  date: string;
+  topicId: string;
+  examId: string;
+  kind: StudyPlanItemKind;
+  minutes: number;
+}
+
+export interface StudyPlanInput {
+  exams: PlannerExam[];
+  topics: PlannerTopic[];
+  /** The student's daily study budget in minutes. */
+  dailyMinutes: number;
+  /** Length of one study block, usually the Pomodoro focus length. */
+  sessionMinutes: number;
+  /** First day of the plan; defaults to today. */
+  start?: Date;
+  /** Blocks already completed per topic, so re-planning does not repeat them. */
+  doneBlocksByTopic?: Record<string, number>;
+  /** Planned minutes already completed on the first day. */
+  doneMinutesOnStart?: number;
+}
+
+export interface StudyPlanResult {
+  sessions: PlannedSession[];
+  /** Blocks that did not fit before their exam, keyed by exam id. */
+  unscheduled: Record<string, number>;
+}
+
+interface PlanTask {
+  topicId: string;
+  examId: string;
+  examDateKey: string;
+  kind: StudyPlanItemKind;
+  /** Index of the first day the task may be scheduled on. */
+  notBefore: number;
+}
+
+/**
+ * Blocks a topic still needs before its exam:
+ * - never revised: learn it, then revise it on a later day;
+ * - revised but due again by the exam: one revision;
+ * - revised and not due before the exam: nothing.
+ */
+const tasksForTopic = (topic: PlannerTopic, exam: PlannerExam, done: number): StudyPlanItemKind[] => {
+  const needed: StudyPlanItemKind[] =
+    topic.revisionCount === 0
+      ? ["learn", "revise"]
+      : !topic.dueAt || new Date(topic.dueAt) <= new Date(exam.examDate)
+        ? ["revise"]
+        : [];
+  return needed.slice(done);
+};
+
+/**
+ * Builds a day-by-day schedule from today up to the last upcoming exam.
+ *
+ * Each topic is planned for the nearest upcoming exam that covers it: one
+ * listing it in its syllabus, or any exam of its subject without one. Days
+ * are filled up to the daily budget, earliest exam first (which fits the most
+ * blocks before their deadlines), weakest topics (lowest ease factor, fewest
+ * revisions) first within an exam. A topic gets at most one block per day, so
+ * its revision always lands after the day it was learned.
+ */
+export const generateStudyPlan = ({
+  exams,
+  topics,
+  dailyMinutes,
+  sessionMinutes,
+  start = new Date(),
+  doneBlocksByTopic = {},
+  doneMinutesOnStart = 0,
+}: StudyPlanInput): StudyPlanResult => {
+  const startKey = toLocalDateKey(start);
+  const upcoming = exams
+    .map((exam) => ({ ...exam, examDateKey: toLocalDateKey(exam.examDate) }))
+    .filter((exam) => exam.examDateKey > startKey)
+    .sort((a, b) => new Date(a.examDate).getTime() - new Date(b.examDate).getTime());
+
+  const tasks: PlanTask[] = [];
+  const assigned = new Set<string>();
+  upcoming.forEach((exam) => {
+    topics
+      .filter(
+        (topic) =>
+          !assigned.has(topic.id) &&
+          (exam.topicIds?.length ? exam.topicIds.includes(topic.id) : topic.subjectId === exam.subjectId),
+      )
+      .sort((a, b) => a.easeFactor - b.easeFactor || a.revisionCount - b.revisionCount)
+      .forEach((topic) => {
+        assigned.add(topic.id);
+        const kinds = tasksForTopic(topic, exam, doneBlocksByTopic[topic.id] ?? 0);
+        kinds.forEach((kind, index) => {
+          // A revision waits until the learning block has been placed.
+          const notBefore = index > 0 && kinds[0] === "learn" ? Number.POSITIVE_INFINITY : 0;
+          tasks.push({ topicId: topic.id, examId: exam.id, examDateKey: exam.examDateKey, kind, notBefore });
+        });
+      });
+  });
+
+  const blockMinutes = Math.max(1, Math.min(sessionMinutes, dailyMinutes));
+  const sessions: PlannedSession[] = [];
+  const lastExamKey = upcoming[upcoming.length - 1]?.examDateKey;
+  const day = fromLocalDateKey(startKey);
+
+  for (let dayIndex = 0; lastExamKey && tasks.length > 0; dayIndex++) {
+    const dateKey = toLocalDateKey(day);
+    if (dateKey >= lastExamKey) break;
+
+    const budget = dailyMinutes - (dayIndex === 0 ? doneMinutesOnStart : 0);
+    let capacity = Math.floor(budget / blockMinutes);
+    const topicsToday = new Set<string>();
+
+    // Tasks are already ordered by exam date, then by topic priority.
+    for (let i = 0; i < tasks.length && capacity > 0; ) {
+      const task = tasks[i];
+      if (task.examDateKey <= dateKey || task.notBefore > dayIndex || topicsToday.has(task.topicId)) {
+        i++;
+        continue;
+      }
+
+      sessions.push({ date: dateKey, topicId: task.topicId, examId: task.examId, kind: task.kind, minutes: blockMinutes });
+      topicsToday.add(task.topicId);
+      tasks.splice(i, 1);
+      capacity--;
+
+      if (task.kind === "learn") {
+        tasks
+          .filter((other) => other.topicId === task.topicId)
+          .forEach((other) => (other.notBefore = dayIndex + 1));
+      }
+    }
+
+    day.setDate(day.getDate() + 1);
+  }
+
+  const unscheduled: Record<string, number> = {};
+  tasks.forEach((task) => {
+    unscheduled[task.examId] = (unscheduled[task.examId] ?? 0) + 1;
+  });
+
+  return { sessions, unscheduled };
+};
+
+export interface PlanProgress {
+  /** Blocks scheduled up to and including today. */
+  due: number;
+  done: number;
+  missed: number;
+  /** Share of due blocks completed, 0-100. */
+  percent: number;
+}
+
+/**
+ * Progress against plan: completed blocks out of everything that should have
+ * been done by today.
+ */
+export const summarizePlanProgress = (
+  items: { plan_date: string; status: StudyPlanItemStatus }[],
+  todayKey: string = toLocalDateKey(new Date()),
+): PlanProgress => {
+  const dueItems = items.filter((item) => item.plan_date <= todayKey);
+  const done = dueItems.filter((item) => item.status === "done").length;
+  const missed = dueItems.filter((item) => item.status === "missed").length;
+  return {
+    due: dueItems.length,
+    done,
+    missed,
+    percent: dueItems.length > 0 ? Math.round((done / dueItems.length) * 100) : 0,
+  };
+};
@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { getPreferredAiTutorModel, requestAiTutor } from "@/lib/aiTutor";
+import { toTutorRequestContext, type TutorTopicContext } from "@/lib/tutorContext";
+
+export type StudySetKind = "flashcards" | "quiz";
+
+/**
+ * Shape returned by the `ai-tutor` function's `generate` action. The function
+ * validates with the same rules; the client checks again so a misbehaving
+ * deployment cannot put malformed rows into the tables.
+ */
+const sourceField = z.number().int().positive().nullable().optional();
+
+export const generatedFlashcardsSchema = z.object({
+  flashcards: z
+    .array(
+      z.object({
+        front: z.string().trim().min(1),
+        back: z.string().trim().min(1),
+        source: sourceField,
+      }),
+    )
+    .min(1),
+});
+
+export const quizQuestionSchema = z.object({
+  question: z.string().trim().min(1),
+  options: z.array(z.string().trim().min(1)).length(4),
+  answerIndex: z.number().int().min(0).max(3),
+  explanation: z.string().default(""),
+  sourceNoteId: z.string().nullable().optional(),
+  sourcePage: z.number().int().positive().nullable().optional(),
+});
+
+export const generatedQuizSchema = z.object({
+  title: z.string().trim().min(1),
+  questions: z
+    .array(quizQuestionSchema.omit({ sourceNoteId: true, sourcePage: true }).extend({ source: sourceField }))
+    .min(1),
+});
+
+export type GeneratedFlashcards = z.infer<typeof generatedFlashcardsSchema>;
+export type GeneratedQuiz = z.infer<typeof generatedQuizSchema>;
+/** A quiz question as stored in `quizzes.questions`. */
+export type QuizQuestion = z.infer<typeof quizQuestionSchema>;
+
+/** Default number of cards / questions to ask for. */
+export const DEFAULT_STUDY_SET_COUNTS: Record<StudySetKind, number> = { flashcards: 10, quiz: 8 };
+
+const requestStudySet = async (kind: StudySetKind, context: TutorTopicContext, count: number) => {
+  const response = await requestAiTutor({
+    action: "generate",
+    kind,
+    count,
+    model: getPreferredAiTutorModel() ?? undefined,
+    context: toTutorRequestContext(context),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || "Failed to generate study set");
+  }
+  return body.set as unknown;
+};
+
+/**
+ * Asks the tutor for flashcards built from the topic's notes. Throws when
+ * the reply does not match the expected shape.
+ */
+export const generateFlashcards = async (
+  context: TutorTopicContext,
+  count: number = DEFAULT_STUDY_SET_COUNTS.flashcards,
+): Promise<GeneratedFlashcards> => {
+  const result = generatedFlashcardsSchema.safeParse(await requestStudySet("flashcards", context, count));
+  if (!result.success) throw new Error("The generated flashcards were not in the expected format.");
+  return result.data;
+};
+
+/**
+ * Asks the tutor for a multiple-choice quiz built from the topic's notes.
+ */
+export const generateQuiz = async (
+  context: TutorTopicContext,
+  count: number = DEFAULT_STUDY_SET_COUNTS.quiz,
+): Promise<GeneratedQuiz> => {
+  const result = generatedQuizSchema.safeParse(await requestStudySet("quiz", context, count));
+  if (!result.success) throw new Error("The generated quiz was not in the expected format.");
+  return result.data;
+};
+
+/**
+ * Reads stored quiz questions (`quizzes.questions`), dropping any that do not
+ * validate instead of breaking the whole quiz.
+ */
+export const parseQuizQuestions = (value: unknown): QuizQuestion[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) => {
+    const result = quizQuestionSchema.safeParse(item);
+    return result.success ? [result.data] : [];
+  });
+};
+
+/** Fisher-Yates shuffle returning a new array, used to vary practice order. */
+export const shuffle = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
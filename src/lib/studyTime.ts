@@ -0,0 +1,65 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface TopicStudyTime {
+  topicId: string;
+  topicName: string;
+  subjectId: string;
+  minutes: number;
+}
+
+export interface AttributedStudyTime {
+  /** Focus minutes keyed by topic id. */
+  byTopic: Record<string, TopicStudyTime>;
+  /** Focus minutes keyed by subject id, summed over the subject's topics. */
+  bySubject: Record<string, number>;
+}
+
+/**
+ * Formats a minute count the way the dashboard shows study time, e.g. "2h 5m".
+ */
+export const formatStudyMinutes = (minutes: number): string =>
+  `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+/**
+ * Sums completed Pomodoro focus sessions that were started with a topic
+ * selected. Breaks are left out so the numbers reflect time spent studying.
+ *
+ * Pass `topicIds` to limit the query to a single subject's topics.
+ */
+export const loadAttributedStudyTime = async (
+  userId: string,
+  topicIds?: string[],
+): Promise<AttributedStudyTime> => {
+  const result: AttributedStudyTime = { byTopic: {}, bySubject: {} };
+  if (topicIds && topicIds.length === 0) return result;
+
+  let query = supabase
+    .from("study_sessions")
+    .select("topic_id, duration_minutes, topics(name, subject_id)")
+    .eq("user_id", userId)
+    .eq("completed", true)
+    .eq("session_type", "focus")
+    .not("topic_id", "is", null);
+
+  if (topicIds) {
+    query = query.in("topic_id", topicIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  (data || []).forEach((session) => {
+    if (!session.topic_id || !session.topics) return;
+    const existing = result.byTopic[session.topic_id];
+    result.byTopic[session.topic_id] = {
+      topicId: session.topic_id,
+      topicName: session.topics.name,
+      subjectId: session.topics.subject_id,
+      minutes: (existing?.minutes || 0) + session.duration_minutes,
+    };
+    result.bySubject[session.topics.subject_id] =
+      (result.bySubject[session.topics.subject_id] || 0) + session.duration_minutes;
+  });
+
+  return result;
+};
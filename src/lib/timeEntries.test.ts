@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { queueLocalStopwatchEntry, STOPWATCH_HISTORY_KEY, syncLocalStopwatchHistory } from "./timeEntries";
+
+const { upsert } = vi.hoisted(() => ({ upsert: vi.fn() }));
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: { from: () => ({ upsert }) },
+}));
+
+const entry = (id: string) => ({
+  id,
+  durationSeconds: 600,
+  startedAt: "2026-10-18T09:00:00.000Z",
+  endedAt: "2026-10-18T09:10:00.000Z",
+  notes: null,
+});
+
+const storedIds = () =>
+  (JSON.parse(localStorage.getItem(STOPWATCH_HISTORY_KEY) ?? "[]") as { id: string }[]).map((item) => item.id);
+
+const uploadedIds = () => upsert.mock.calls.flatMap(([rows]) => rows.map((row: { client_id: string }) => row.client_id));
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  });
+  upsert.mockReset();
+  upsert.mockResolvedValue({ error: null });
+});
+
+describe("syncLocalStopwatchHistory", () => {
+  it("uploads only the signed-in user's queued entries and leaves the rest queued", async () => {
+    queueLocalStopwatchEntry("user-a", entry("a-1"));
+    queueLocalStopwatchEntry("user-b", entry("b-1"));
+
+    await syncLocalStopwatchHistory("user-b");
+
+    expect(uploadedIds()).toEqual(["b-1"]);
+    expect(upsert.mock.calls[0][0][0]).toMatchObject({ user_id: "user-b", client_id: "b-1" });
+    expect(storedIds()).toEqual(["a-1"]);
+  });
+
+  it("moves entries from the old stopwatch, which have no owner, to the first user who syncs", async () => {
+    localStorage.setItem(STOPWATCH_HISTORY_KEY, JSON.stringify([entry("legacy")]));
+    queueLocalStopwatchEntry("user-a", entry("a-1"));
+
+    await syncLocalStopwatchHistory("user-b");
+
+    expect(uploadedIds()).toEqual(["legacy"]);
+    expect(storedIds()).toEqual(["a-1"]);
+  });
+
+  it("keeps the entries queued when the upload fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    upsert.mockResolvedValue({ error: { message: "Failed to fetch" } });
+    queueLocalStopwatchEntry("user-a", entry("a-1"));
+
+    await syncLocalStopwatchHistory("user-a");
+
+    expect(storedIds()).toEqual(["a-1"]);
+  });
+});
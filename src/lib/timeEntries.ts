@@ -0,0 +1,103 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * localStorage key the stopwatch used before entries were stored in the
+ * `time_entries` table. Entries are also queued here when an upload fails so
+ * they are retried on the next sync. Several accounts may share the queue on
+ * one device, so queued entries record who they belong to.
+ */
+export const STOPWATCH_HISTORY_KEY = "studox_stopwatch_history";
+
+export interface StopwatchHistoryEntry {
+  id: string;
+  /** Who recorded the entry. Entries from the old device-local stopwatch have none. */
+  userId?: string;
+  durationSeconds: number;
+  startedAt: string;
+  endedAt: string;
+  notes?: string | null;
+}
+
+const readLocalEntries = (): StopwatchHistoryEntry[] => {
+  try {
+    const raw = localStorage.getItem(STOPWATCH_HISTORY_KEY);
+    const parsed: StopwatchHistoryEntry[] = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Failed to read stopwatch history:", error);
+    return [];
+  }
+};
+
+/**
+ * Whether `userId` may upload a local entry: their own, and entries from the
+ * old stopwatch, which did not record an owner and move to the first account
+ * that syncs on the device.
+ */
+const belongsTo = (entry: StopwatchHistoryEntry, userId: string) => !entry.userId || entry.userId === userId;
+
+/**
+ * Appends a user's entry to the local stopwatch queue. Used as a fallback
+ * when the entry cannot be saved to Supabase right away.
+ */
+export const queueLocalStopwatchEntry = (userId: string, entry: StopwatchHistoryEntry) => {
+  try {
+    const existing = readLocalEntries();
+    existing.push({ ...entry, userId });
+    localStorage.setItem(STOPWATCH_HISTORY_KEY, JSON.stringify(existing));
+  } catch (error) {
+    console.error("Failed to persist stopwatch history:", error);
+  }
+};
+
+const pendingSyncs = new Map<string, Promise<void>>();
+
+/**
+ * Uploads the user's stopwatch entries stored in localStorage into
+ * `time_entries` and clears them locally once they are saved. Entries
+ * queued by other accounts on the device are left for them.
+ *
+ * The local entry id is stored as `client_id`, and `(user_id, client_id)` is
+ * unique, so retrying after a partial failure never creates duplicates.
+ * Concurrent callers for the same user share a single upload.
+ */
+export const syncLocalStopwatchHistory = (userId: string): Promise<void> => {
+  const pending = pendingSyncs.get(userId);
+  if (pending) return pending;
+
+  const run = async () => {
+    const entries = readLocalEntries().filter((entry) => belongsTo(entry, userId));
+    if (entries.length === 0) return;
+
+    const { error } = await supabase.from("time_entries").upsert(
+      entries.map((entry) => ({
+        user_id: userId,
+        type: "stopwatch",
+        started_at: entry.startedAt,
+        ended_at: entry.endedAt,
+        duration_seconds: entry.durationSeconds,
+        notes: entry.notes ?? null,
+        client_id: entry.id,
+      })),
+      { onConflict: "user_id,client_id", ignoreDuplicates: true },
+    );
+
+    if (error) {
+      console.error("Failed to upload stopwatch history:", error);
+      return;
+    }
+
+    // Only drop the entries we uploaded; new ones may have been queued meanwhile.
+    const uploadedIds = new Set(entries.map((entry) => entry.id));
+    const remaining = readLocalEntries().filter((entry) => !uploadedIds.has(entry.id));
+    if (remaining.length > 0) {
+      localStorage.setItem(STOPWATCH_HISTORY_KEY, JSON.stringify(remaining));
+    } else {
+      localStorage.removeItem(STOPWATCH_HISTORY_KEY);
+    }
+  };
+
+  const promise = run().finally(() => pendingSyncs.delete(userId));
+  pendingSyncs.set(userId, promise);
+  return promise;
+};
@@ -0,0 +1,175 @@
+import { getTopicWithSubject } from "@/lib/repositories/topics";
+import { listTopicNotes } from "@/lib/repositories/topicNotes";
+import { createSignedStorageUrl, extractStoragePath } from "@/lib/storage";
+import { extractPdfText, loadPdfDocument } from "@/lib/pdf";
+
+/**
+ * A numbered piece of study material sent to the AI tutor. The tutor cites
+ * sources as `[id]`, which the chat maps back to the note (and PDF page).
+ */
+export interface TutorSource {
+  id: number;
+  noteId: string;
+  title: string;
+  /** 1-based PDF page, or null for Markdown notes. */
+  page: number | null;
+  text: string;
+}
+
+/** What a chat needs to resolve a citation, without the source text. */
+export type TutorCitation = Omit<TutorSource, "text">;
+
+export interface TutorTopicContext {
+  topicId: string;
+  subjectId: string;
+  topicName: string;
+  subjectName: string | null;
+  description: string | null;
+  sources: TutorSource[];
+  /** True when some material was left out to stay within the size budget. */
+  truncated: boolean;
+}
+
+/** Character budget for all sources together; the function enforces the same limit. */
+const MAX_CONTEXT_CHARS = 60000;
+const MAX_SOURCE_CHARS = 8000;
+
+/** Extracted PDF text per note version, so reopening a topic chat is instant. */
+const pdfTextCache = new Map<string, string[]>();
+
+const loadPdfPages = async (note: { id: string; file_url: string | null; updated_at: string | null }) => {
+  const cacheKey = `${note.id}:${note.updated_at || ""}`;
+  const cached = pdfTextCache.get(cacheKey);
+  if (cached) return cached;
+
+  const storagePath = extractStoragePath("notes", note.file_url);
+  if (!storagePath) return [];
+
+  const url = await createSignedStorageUrl("notes", storagePath, 600);
+  const loadingTask = loadPdfDocument(url);
+  try {
+    const pages = await extractPdfText(await loadingTask.promise);
+    pdfTextCache.set(cacheKey, pages);
+    return pages;
+  } finally {
+    loadingTask.destroy();
+  }
+};
+
+/**
+ * Collects what the tutor should know about a topic: its name, subject and
+ * description, every Markdown note, and the text of each PDF page. PDFs that
+ * cannot be read (e.g. scanned images) are skipped rather than failing.
+ */
+export const loadTopicTutorContext = async (userId: string, topicId: string): Promise<TutorTopicContext> => {
+  const [topic, notes] = await Promise.all([getTopicWithSubject(topicId), listTopicNotes(userId, topicId)]);
+
+  const sources: TutorSource[] = [];
+  let budget = MAX_CONTEXT_CHARS;
+  let truncated = false;
+
+  const addSource = (source: Omit<TutorSource, "id">) => {
+    const text = source.text.trim();
+    if (!text) return;
+    if (budget <= 0) {
+      truncated = true;
+      return;
+    }
+    const clipped = text.slice(0, Math.min(MAX_SOURCE_CHARS, budget));
+    if (clipped.length < text.length) truncated = true;
+    sources.push({ ...source, id: sources.length + 1, text: clipped });
+    budget -= clipped.length;
+  };
+
+  // Markdown notes first: they are the student's own summaries.
+  notes
+    .filter((note) => note.note_type === "markdown")
+    .forEach((note) => addSource({ noteId: note.id, title: note.title, page: null, text: note.content || "" }));
+
+  for (const note of notes) {
+    if (note.note_type !== "file" || !note.file_name?.toLowerCase().endsWith(".pdf")) continue;
+    if (budget <= 0) {
+      truncated = true;
+      break;
+    }
+
+    try {
+      const pages = await loadPdfPages(note);
+      pages.forEach((text, index) => addSource({ noteId: note.id, title: note.title, page: index + 1, text }));
+    } catch (error) {
+      console.error(`Could not read PDF "${note.title}" for the tutor:`, error);
+    }
+  }
+
+  return {
+    topicId: topic.id,
+    subjectId: topic.subject_id,
+    topicName: topic.name,
+    subjectName: topic.subjects?.name ?? null,
+    description: topic.description,
+    sources,
+    truncated,
+  };
+};
+
+/**
+ * The `context` field sent to the `ai-tutor` function. Note ids stay on the
+ * client; the function only needs the numbered text.
+ */
+export const toTutorRequestContext = (context: TutorTopicContext) => ({
+  topic: {
+    name: context.topicName,
+    description: context.description,
+    subject: context.subjectName,
+  },
+  sources: context.sources.map(({ id, title, page, text }) => ({ id, title, page, text })),
+});
+
+const CITATION_PATTERN = /\[(\d+)\]/g;
+
+/**
+ * Splits an answer around its `[n]` markers. Markers that match a known
+ * source become citation parts; anything else stays as text.
+ */
+export const splitCitations = <T extends TutorCitation>(content: string, sources: T[]): (string | T)[] => {
+  const sourcesById = new Map(sources.map((source) => [source.id, source]));
+  const parts: (string | T)[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(CITATION_PATTERN)) {
+    const source = sourcesById.get(Number(match[1]));
+    if (!source) continue;
+    parts.push(content.slice(lastIndex, match.index), source);
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  parts.push(content.slice(lastIndex));
+  return parts;
+};
+
+/** Sources cited in an answer, in order of first citation. */
+export const findCitedSources = (content: string, sources: TutorCitation[]): TutorCitation[] => {
+  const cited: TutorCitation[] = [];
+  splitCitations(content, sources).forEach((part) => {
+    if (typeof part !== "string" && !cited.some((source) => source.id === part.id)) {
+      cited.push({ id: part.id, noteId: part.noteId, title: part.title, page: part.page });
+    }
+  });
+  return cited;
+};
+
+/**
+ * Reads the citations saved with a tutor message (`tutor_messages.sources`),
+ * skipping anything malformed.
+ */
+export const parseTutorCitations = (value: unknown): TutorCitation[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (item): item is TutorCitation =>
+      typeof item === "object" &&
+      item !== null &&
+      typeof item.id === "number" &&
+      typeof item.noteId === "string" &&
+      typeof item.title === "string" &&
+      (item.page === null || typeof item.page === "number"),
+  );
+};
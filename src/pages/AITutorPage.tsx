@@ -1,63 +1,315 @@
 import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { ArrowLeft, Send, Loader2 } from "lucide-react";
-import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Send, Loader2, BookOpen, History } from "lucide-react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { ChatMessage } from "@/components/AITutor/ChatMessage";
+import { TutorHistorySidebar } from "@/components/AITutor/TutorHistorySidebar";
+import { TutorLink, TutorLinkPicker } from "@/components/AITutor/TutorLinkPicker";
+import { TutorModelPicker } from "@/components/AITutor/TutorModelPicker";
+import { TutorUsageMeter } from "@/components/AITutor/TutorUsageMeter";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { TutorConversation, useTutorConversations } from "@/hooks/useTutorConversations";
+import { useAiTutorModels } from "@/hooks/useAiTutorModels";
+import { useAiTutorUsage } from "@/hooks/useAiTutorUsage";
+import { requestAiTutor, trimChatHistory } from "@/lib/aiTutor";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import {
+  findCitedSources,
+  loadTopicTutorContext,
+  parseTutorCitations,
+  toTutorRequestContext,
+  type TutorCitation,
+  type TutorTopicContext,
+} from "@/lib/tutorContext";
 
 interface Message {
   role: "user" | "assistant";
   content: string;
+  /** Sources cited by an assistant answer, saved with the message. */
+  sources?: TutorCitation[];
 }
 
+const GENERIC_GREETING =
+  "Hello! I'm your AI tutor. Ask me anything about the topics you're studying, and I'll help you understand them better.";
+
+/**
+ * Greeting for a chat linked to a topic, summarising what the tutor read.
+ */
+const buildTopicGreeting = (context: TutorTopicContext) => {
+  const noteCount = new Set(context.sources.map((source) => source.noteId)).size;
+  const materials =
+    noteCount > 0
+      ? `I've read ${noteCount} of your notes for it and will point you to the exact note and page I'm drawing on.`
+      : "I couldn't find any readable notes for it yet, so I'll answer from general knowledge.";
+  return `Let's study "${context.topicName}". ${materials} What would you like to go over?`;
+};
+
+/** New chats are titled after the start of their first question. */
+const CONVERSATION_TITLE_LENGTH = 60;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const NO_LINK: TutorLink = { subjectId: null, topicId: null };
+
+/**
+ * AI tutor chat. Conversations are saved to `tutor_conversations` /
+ * `tutor_messages` and listed in the history sidebar. `?conversation=<id>`
+ * opens a saved chat; `?topic=<id>` starts a new chat grounded in a topic.
+ */
 const AITutorPage = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const conversationParam = searchParams.get("conversation");
+  const topicParam = searchParams.get("topic");
+  const { user } = useAuth();
   const { toast } = useToast();
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      role: "assistant",
-      content: "Hello! I'm your AI tutor. Ask me anything about the topics you're studying, and I'll help you understand them better.",
-    },
-  ]);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const {
+    conversations,
+    loading: conversationsLoading,
+    createConversation,
+    updateConversation,
+    deleteConversation,
+    markConversationActive,
+  } = useTutorConversations(search);
+  const { usage, reload: reloadUsage } = useAiTutorUsage();
+  const { models, model, selectedModel, selectModel } = useAiTutorModels();
+  const [conversation, setConversation] = useState<TutorConversation | null>(null);
+  const [link, setLink] = useState<TutorLink>(NO_LINK);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [messagesLoading, setMessagesLoading] = useState(false);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [tutorContext, setTutorContext] = useState<TutorTopicContext | null>(null);
+  const [contextLoading, setContextLoading] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setSearch(searchInput), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [searchInput]);
+
+  /**
+   * Opens the conversation named in the URL, or resets to a new chat (linked
+   * to `?topic=` when given). A conversation created while sending the first
+   * message is already in state and is not reloaded.
+   */
+  useEffect(() => {
+    if (conversationParam) {
+      if (conversation?.id !== conversationParam && user) {
+        loadConversation(conversationParam);
+      }
+      return;
+    }
+
+    setConversation(null);
+    setMessages([]);
+    setLink({ subjectId: null, topicId: topicParam });
+  }, [conversationParam, topicParam, user]);
+
+  /**
+   * Loads the linked topic's notes and PDF text so answers can cite them.
+   */
+  useEffect(() => {
+    setTutorContext(null);
+    if (!user || !link.topicId) return;
+
+    let cancelled = false;
+    setContextLoading(true);
+    loadTopicTutorContext(user.id, link.topicId)
+      .then((context) => {
+        if (cancelled) return;
+        setTutorContext(context);
+        setLink((prev) => (prev.subjectId ? prev : { ...prev, subjectId: context.subjectId }));
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        toast({
+          title: "Error loading topic notes",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setContextLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, link.topicId]);
+
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
   }, [messages]);
 
+  const loadConversation = async (id: string) => {
+    setMessagesLoading(true);
+    try {
+      const [conversationRes, messagesRes] = await Promise.all([
+        supabase
+          .from("tutor_conversations")
+          .select("id, title, subject_id, topic_id, created_at, updated_at")
+          .eq("id", id)
+          .single(),
+        supabase
+          .from("tutor_messages")
+          .select("role, content, sources")
+          .eq("conversation_id", id)
+          .order("created_at", { ascending: true }),
+      ]);
+
+      if (conversationRes.error) throw conversationRes.error;
+      if (messagesRes.error) throw messagesRes.error;
+
+      setConversation(conversationRes.data);
+      setLink({ subjectId: conversationRes.data.subject_id, topicId: conversationRes.data.topic_id });
+      setMessages(
+        (messagesRes.data || []).map((message) => ({
+          role: message.role === "user" ? "user" : "assistant",
+          content: message.content,
+          sources: parseTutorCitations(message.sources),
+        })),
+      );
+    } catch (error) {
+      toast({
+        title: "Error loading chat",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      setSearchParams({}, { replace: true });
+    } finally {
+      setMessagesLoading(false);
+    }
+  };
+
+  /**
+   * Saves a message to the open conversation. A failed save is reported but
+   * does not interrupt the chat.
+   */
+  const saveMessage = async (conversationId: string, message: Message) => {
+    if (!user) return;
+
+    const { error } = await supabase.from("tutor_messages").insert({
+      conversation_id: conversationId,
+      user_id: user.id,
+      role: message.role,
+      content: message.content,
+      sources: message.sources ?? [],
+    });
+
+    if (error) {
+      console.error("Error saving tutor message:", error);
+      toast({
+        title: "Message not saved",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    markConversationActive(conversationId);
+  };
+
+  /**
+   * Creates the conversation for a new chat when its first message is sent.
+   */
+  const startConversation = async (firstMessage: string) => {
+    const created = await createConversation({
+      title: firstMessage.trim().replace(/\s+/g, " ").slice(0, CONVERSATION_TITLE_LENGTH),
+      subject_id: link.subjectId,
+      topic_id: link.topicId,
+    });
+    if (created) {
+      setConversation(created);
+      setSearchParams({ conversation: created.id }, { replace: true });
+    }
+    return created;
+  };
+
+  const handleNewChat = () => {
+    setConversation(null);
+    setMessages([]);
+    setLink(NO_LINK);
+    setSearchParams({});
+    setHistoryOpen(false);
+  };
+
+  const handleSelectConversation = (id: string) => {
+    setSearchParams({ conversation: id });
+    setHistoryOpen(false);
+  };
+
+  const handleRenameConversation = async (id: string, title: string) => {
+    const updated = await updateConversation(id, { title });
+    if (updated && conversation?.id === id) setConversation(updated);
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    await deleteConversation(id);
+    if (conversation?.id === id) handleNewChat();
+  };
+
+  /**
+   * Changes what the chat is about. Saved chats keep the new link; the tutor
+   * re-reads notes when the topic changes.
+   */
+  const handleLinkChange = async (next: TutorLink) => {
+    setLink(next);
+    if (conversation) {
+      const updated = await updateConversation(conversation.id, {
+        subject_id: next.subjectId,
+        topic_id: next.topicId,
+      });
+      if (updated) setConversation(updated);
+    }
+  };
+
+  /**
+   * Opens a cited note in its topic's resources page, at the cited PDF page.
+   */
+  const handleOpenSource = (source: TutorCitation) => {
+    const subjectId = tutorContext?.subjectId ?? link.subjectId;
+    const topicId = tutorContext?.topicId ?? link.topicId;
+    if (!subjectId || !topicId) return;
+
+    const params = new URLSearchParams({ note: source.noteId });
+    if (source.page) params.set("page", String(source.page));
+    navigate(`/subject/${subjectId}/topic/${topicId}/resources?${params}`);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
+    if (!input.trim() || isLoading || contextLoading) return;
 
     const userMessage: Message = { role: "user", content: input };
-    setMessages((prev) => [...prev, userMessage]);
+    const history = [...messages, userMessage];
+    setMessages(history);
     setInput("");
     setIsLoading(true);
+    let assistantStarted = false;
 
     try {
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-tutor`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-          },
-          body: JSON.stringify({
-            messages: [...messages, userMessage].map((m) => ({
-              role: m.role,
-              content: m.content,
-            })),
-          }),
-        }
-      );
+      const activeConversation = conversation ?? (await startConversation(userMessage.content));
+      if (activeConversation) {
+        await saveMessage(activeConversation.id, userMessage);
+      }
+
+      const response = await requestAiTutor({
+        messages: trimChatHistory(history).map((m) => ({
+          role: m.role,
+          content: m.content,
+        })),
+        context: tutorContext ? toTutorRequestContext(tutorContext) : undefined,
+        model,
+      });
 
       if (!response.ok) {
         const error = await response.json();
@@ -73,6 +325,7 @@ const AITutorPage = () => {
 
       // Add initial assistant message
       setMessages((prev) => [...prev, { role: "assistant", content: "" }]);
+      assistantStarted = true;
 
       while (true) {
         const { done, value } = await reader.read();
@@ -92,39 +345,76 @@ const AITutorPage = () => {
           const jsonStr = line.slice(6).trim();
           if (jsonStr === "[DONE]") break;
 
+          let parsed;
           try {
-            const parsed = JSON.parse(jsonStr);
-            const content = parsed.choices?.[0]?.delta?.content;
-            if (content) {
-              assistantMessage += content;
-              setMessages((prev) => {
-                const newMessages = [...prev];
-                newMessages[newMessages.length - 1] = {
-                  role: "assistant",
-                  content: assistantMessage,
-                };
-                return newMessages;
-              });
-            }
+            parsed = JSON.parse(jsonStr);
           } catch (err) {
             console.error("Error parsing JSON:", err);
+            continue;
+          }
+
+          // The function ends the stream with an error event when the provider fails mid-reply.
+          if (parsed.error) {
+            throw new Error(parsed.error.message || "The AI tutor could not finish its reply");
+          }
+
+          const content = parsed.choices?.[0]?.delta?.content;
+          if (content) {
+            assistantMessage += content;
+            setMessages((prev) => {
+              const newMessages = [...prev];
+              newMessages[newMessages.length - 1] = {
+                role: "assistant",
+                content: assistantMessage,
+              };
+              return newMessages;
+            });
           }
         }
       }
-    } catch (error: any) {
+
+      // Keep only the sources the answer cites, so they survive later note changes.
+      const finalMessage: Message = {
+        role: "assistant",
+        content: assistantMessage,
+        sources: tutorContext ? findCitedSources(assistantMessage, tutorContext.sources) : [],
+      };
+      setMessages((prev) => [...prev.slice(0, -1), finalMessage]);
+      if (activeConversation && assistantMessage) {
+        await saveMessage(activeConversation.id, finalMessage);
+      }
+    } catch (error) {
       console.error("Error:", error);
       toast({
         title: "Error",
-        description: error.message || "Failed to get response from AI tutor",
+        description: (error as Error).message || "Failed to get response from AI tutor",
         variant: "destructive",
       });
       // Remove the empty assistant message on error
-      setMessages((prev) => prev.slice(0, -1));
+      if (assistantStarted) {
+        setMessages((prev) => prev.slice(0, -1));
+      }
     } finally {
       setIsLoading(false);
+      reloadUsage();
     }
   };
 
+  const historySidebar = (
+    <TutorHistorySidebar
+      conversations={conversations}
+      loading={conversationsLoading}
+      activeId={conversation?.id ?? null}
+      search={searchInput}
+      onSearchChange={setSearchInput}
+      onSelect={handleSelectConversation}
+      onNew={handleNewChat}
+      onRename={handleRenameConversation}
+      onDelete={handleDeleteConversation}
+      className="h-full"
+    />
+  );
+
   return (
     <div className="h-screen flex flex-col bg-gradient-to-br from-background via-background to-primary/5">
       <header className="border-b bg-card/50 backdrop-blur-sm">
@@ -134,42 +424,104 @@ const AITutorPage = () => {
             Back to Dashboard
           </Button>
           <h1 className="text-xl font-display font-bold">AI Tutor</h1>
-          <div className="w-20" /> {/* Spacer for centering */}
+          <Button variant="ghost" className="md:hidden" onClick={() => setHistoryOpen(true)}>
+            <History className="w-4 h-4 mr-2" />
+            Chats
+          </Button>
+          <div className="w-20 hidden md:block" /> {/* Spacer for centering */}
         </div>
       </header>
 
-      <div className="flex-1 container mx-auto px-4 py-6 flex flex-col max-w-4xl">
-        <ScrollArea className="flex-1 pr-4" ref={scrollRef}>
-          <div className="space-y-4">
-            {messages.map((message, index) => (
-              <ChatMessage key={index} role={message.role} content={message.content} />
-            ))}
-            {isLoading && (
-              <div className="flex items-center gap-2 text-muted-foreground px-4">
-                <Loader2 className="w-4 h-4 animate-spin" />
-                <span className="text-sm">AI is thinking...</span>
-              </div>
-            )}
+      <Sheet open={historyOpen} onOpenChange={setHistoryOpen}>
+        <SheetContent side="left" className="p-0 flex flex-col">
+          <SheetHeader className="px-4 pt-4">
+            <SheetTitle>Chats</SheetTitle>
+          </SheetHeader>
+          {historySidebar}
+        </SheetContent>
+      </Sheet>
+
+      <div className="flex-1 flex min-h-0">
+        <aside className="hidden md:flex w-72 shrink-0 flex-col border-r bg-card/30">{historySidebar}</aside>
+
+        <div className="flex-1 min-w-0 container mx-auto px-4 py-6 flex flex-col max-w-4xl">
+          <div className="flex flex-wrap items-center gap-2 text-sm mb-4">
+            <BookOpen className="w-4 h-4 text-primary" />
+            <TutorLinkPicker value={link} onChange={handleLinkChange} disabled={isLoading} />
+            {contextLoading ? (
+              <span className="flex items-center gap-2 text-muted-foreground">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Reading your notes for this topic...
+              </span>
+            ) : tutorContext ? (
+              <>
+                <Badge variant="secondary">
+                  {tutorContext.sources.length} source{tutorContext.sources.length === 1 ? "" : "s"}
+                </Badge>
+                {tutorContext.truncated && (
+                  <span className="text-xs text-muted-foreground">(some material was too long to include)</span>
+                )}
+              </>
+            ) : null}
+            <div className="ml-auto flex items-center gap-3">
+              <TutorModelPicker models={models} value={selectedModel} onChange={selectModel} disabled={isLoading} />
+              <TutorUsageMeter usage={usage} />
+            </div>
           </div>
-        </ScrollArea>
-
-        <form onSubmit={handleSubmit} className="mt-4 flex gap-2">
-          <Textarea
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            placeholder="Ask me anything about your studies..."
-            className="min-h-[60px] max-h-[120px]"
-            onKeyDown={(e) => {
-              if (e.key === "Enter" && !e.shiftKey) {
-                e.preventDefault();
-                handleSubmit(e);
-              }
-            }}
-          />
-          <Button type="submit" size="icon" disabled={isLoading || !input.trim()} className="shrink-0">
-            <Send className="w-4 h-4" />
-          </Button>
-        </form>
+
+          <ScrollArea className="flex-1 pr-4" ref={scrollRef}>
+            <div className="space-y-4">
+              <ChatMessage
+                role="assistant"
+                content={tutorContext ? buildTopicGreeting(tutorContext) : GENERIC_GREETING}
+              />
+              {messagesLoading ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                messages.map((message, index) => (
+                  <ChatMessage
+                    key={index}
+                    role={message.role}
+                    content={message.content}
+                    sources={message.sources ?? tutorContext?.sources}
+                    onOpenSource={handleOpenSource}
+                  />
+                ))
+              )}
+              {isLoading && (
+                <div className="flex items-center gap-2 text-muted-foreground px-4">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  <span className="text-sm">AI is thinking...</span>
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+
+          <form onSubmit={handleSubmit} className="mt-4 flex gap-2">
+            <Textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Ask me anything about your studies..."
+              className="min-h-[60px] max-h-[120px]"
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSubmit(e);
+                }
+              }}
+            />
+            <Button
+              type="submit"
+              size="icon"
+              disabled={isLoading || contextLoading || messagesLoading || !input.trim()}
+              className="shrink-0"
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          </form>
+        </div>
       </div>
     </div>
   );
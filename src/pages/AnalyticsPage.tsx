@@ -0,0 +1,415 @@
+import { useEffect, useState } from "react";
+import { AppSidebarLayout } from "@/components/AppSidebarLayout";
+import { useAuth } from "@/hooks/useAuth";
+import { useSubjects } from "@/hooks/useSubjects";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { StatCard } from "@/components/Dashboard/StatCard";
+import { StudyHeatmap } from "@/components/Analytics/StudyHeatmap";
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { BarChart3, Brain, Clock, Flame, Trophy } from "lucide-react";
+import {
+  AnalyticsRange,
+  ANALYTICS_RANGE_OPTIONS,
+  buildTimeBuckets,
+  computeStreaks,
+  findBucketKey,
+  getRangeStart,
+} from "@/lib/analytics";
+import { toLocalDateKey } from "@/lib/dates";
+import { selectAllPages } from "@/lib/pagination";
+import { formatStudyMinutes } from "@/lib/studyTime";
+import { syncLocalStopwatchHistory } from "@/lib/timeEntries";
+
+interface SessionRow {
+  duration_minutes: number;
+  session_type: string | null;
+  started_at: string | null;
+  topic_id: string | null;
+  topics: { name: string; subject_id: string } | null;
+}
+
+interface TimeEntryRow {
+  duration_seconds: number;
+  started_at: string;
+}
+
+const ALL_SUBJECTS = "all";
+const UNASSIGNED_COLOR = "hsl(var(--muted-foreground))";
+const DEFAULT_SUBJECT_COLOR = "#6366f1";
+
+/** How far back data is loaded: enough for the year heatmap and every range. */
+const HISTORY_DAYS = 53 * 7 + 7;
+
+/**
+ * Study analytics: time per subject and topic for a selectable range, a
+ * year-long activity heatmap with streaks, revisions over time and the
+ * focus/break split of Pomodoro sessions.
+ *
+ * Subject and topic totals only include Pomodoro focus sessions started with
+ * a topic selected. Untagged focus sessions and stopwatch time are shown as
+ * "Unassigned" so the subject chart still adds up to total study time.
+ */
+const AnalyticsPage = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [range, setRange] = useState<AnalyticsRange>("week");
+  const [topicSubjectId, setTopicSubjectId] = useState<string>(ALL_SUBJECTS);
+  const [sessions, setSessions] = useState<SessionRow[]>([]);
+  const [timeEntries, setTimeEntries] = useState<TimeEntryRow[]>([]);
+  const [revisions, setRevisions] = useState<string[]>([]);
+  const { data: subjects = [] } = useSubjects();
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      loadAnalytics();
+    }
+  }, [user]);
+
+  /**
+   * Loads a year of sessions, stopwatch entries and revisions up front; the
+   * range selector then filters in memory without further requests.
+   */
+  const loadAnalytics = async () => {
+    if (!user) return;
+
+    try {
+      await syncLocalStopwatchHistory(user.id);
+
+      const since = new Date();
+      since.setDate(since.getDate() - HISTORY_DAYS);
+      const sinceIso = since.toISOString();
+
+      // A year of history can exceed the server's per-request row limit, so
+      // sessions, entries and revisions are read page by page.
+      const [sessionRows, timeEntryRows, revisionRows] = await Promise.all([
+        selectAllPages((from, to) =>
+          supabase
+            .from("study_sessions")
+            .select("duration_minutes, session_type, started_at, topic_id, topics(name, subject_id)")
+            .eq("user_id", user.id)
+            .eq("completed", true)
+            .gte("started_at", sinceIso)
+            .order("id")
+            .range(from, to),
+        ),
+        selectAllPages((from, to) =>
+          supabase
+            .from("time_entries")
+            .select("duration_seconds, started_at")
+            .eq("user_id", user.id)
+            .gte("started_at", sinceIso)
+            .order("id")
+            .range(from, to),
+        ),
+        selectAllPages((from, to) =>
+          supabase
+            .from("topic_revisions")
+            .select("revised_at")
+            .eq("user_id", user.id)
+            .gte("revised_at", sinceIso)
+            .order("id")
+            .range(from, to),
+        ),
+      ]);
+
+      setSessions(sessionRows);
+      setTimeEntries(timeEntryRows);
+      setRevisions(revisionRows.map((revision) => revision.revised_at));
+    } catch (error) {
+      toast({
+        title: "Error loading analytics",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isBreak = (session: SessionRow) => session.session_type === "break";
+  const rangeStart = getRangeStart(range);
+  const inRange = (value: string | null) => !!value && new Date(value) >= rangeStart;
+
+  const rangeSessions = sessions.filter((session) => inRange(session.started_at));
+  const rangeFocusSessions = rangeSessions.filter((session) => !isBreak(session));
+  const rangeStopwatchMinutes = timeEntries
+    .filter((entry) => inRange(entry.started_at))
+    .reduce((sum, entry) => sum + Math.round(entry.duration_seconds / 60), 0);
+
+  // Time per subject, with untagged time collected under "Unassigned".
+  const minutesBySubject: Record<string, number> = {};
+  let unassignedMinutes = rangeStopwatchMinutes;
+  rangeFocusSessions.forEach((session) => {
+    if (session.topics) {
+      const subjectId = session.topics.subject_id;
+      minutesBySubject[subjectId] = (minutesBySubject[subjectId] || 0) + session.duration_minutes;
+    } else {
+      unassignedMinutes += session.duration_minutes;
+    }
+  });
+  const subjectChartData = subjects
+    .filter((subject) => minutesBySubject[subject.id])
+    .map((subject) => ({
+      name: subject.name,
+      minutes: minutesBySubject[subject.id],
+      color: subject.color || DEFAULT_SUBJECT_COLOR,
+    }))
+    .sort((a, b) => b.minutes - a.minutes);
+  if (unassignedMinutes > 0) {
+    subjectChartData.push({ name: "Unassigned", minutes: unassignedMinutes, color: UNASSIGNED_COLOR });
+  }
+  const totalRangeMinutes = subjectChartData.reduce((sum, item) => sum + item.minutes, 0);
+
+  // Top topics, optionally limited to one subject.
+  const minutesByTopic: Record<string, { name: string; subjectId: string; minutes: number }> = {};
+  rangeFocusSessions.forEach((session) => {
+    if (!session.topic_id || !session.topics) return;
+    if (topicSubjectId !== ALL_SUBJECTS && session.topics.subject_id !== topicSubjectId) return;
+    const existing = minutesByTopic[session.topic_id];
+    minutesByTopic[session.topic_id] = {
+      name: session.topics.name,
+      subjectId: session.topics.subject_id,
+      minutes: (existing?.minutes || 0) + session.duration_minutes,
+    };
+  });
+  const subjectColors = Object.fromEntries(subjects.map((subject) => [subject.id, subject.color]));
+  const topicChartData = Object.values(minutesByTopic)
+    .sort((a, b) => b.minutes - a.minutes)
+    .slice(0, 10)
+    .map((topic) => ({
+      name: topic.name,
+      minutes: topic.minutes,
+      color: subjectColors[topic.subjectId] || DEFAULT_SUBJECT_COLOR,
+    }));
+
+  // Revisions per day (week/month) or per week (semester).
+  const buckets = buildTimeBuckets(range);
+  const revisionCounts: Record<string, number> = {};
+  revisions.forEach((revisedAt) => {
+    const key = findBucketKey(buckets, revisedAt);
+    if (key) revisionCounts[key] = (revisionCounts[key] || 0) + 1;
+  });
+  const revisionChartData = buckets.map((bucket) => ({
+    label: bucket.label,
+    revisions: revisionCounts[bucket.key] || 0,
+  }));
+  const rangeRevisionCount = revisions.filter((revisedAt) => inRange(revisedAt)).length;
+
+  // Focus vs break split of Pomodoro time.
+  const focusMinutes = rangeFocusSessions.reduce((sum, session) => sum + session.duration_minutes, 0);
+  const breakMinutes = rangeSessions
+    .filter(isBreak)
+    .reduce((sum, session) => sum + session.duration_minutes, 0);
+  const pomodoroMinutes = focusMinutes + breakMinutes;
+  const focusShare = pomodoroMinutes > 0 ? Math.round((focusMinutes / pomodoroMinutes) * 100) : 0;
+  const ratioChartData = [
+    { name: "focus", minutes: focusMinutes, fill: "var(--color-focus)" },
+    { name: "break", minutes: breakMinutes, fill: "var(--color-break)" },
+  ];
+
+  // Daily study minutes for the heatmap and streaks: focus sessions + stopwatch.
+  const minutesByDay: Record<string, number> = {};
+  sessions.forEach((session) => {
+    if (isBreak(session) || !session.started_at) return;
+    const key = toLocalDateKey(session.started_at);
+    minutesByDay[key] = (minutesByDay[key] || 0) + session.duration_minutes;
+  });
+  timeEntries.forEach((entry) => {
+    const key = toLocalDateKey(entry.started_at);
+    minutesByDay[key] = (minutesByDay[key] || 0) + Math.round(entry.duration_seconds / 60);
+  });
+  const streaks = computeStreaks(minutesByDay);
+
+  const rangeLabel = ANALYTICS_RANGE_OPTIONS.find((option) => option.value === range)?.label.toLowerCase();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <AppSidebarLayout>
+      <main className="mx-auto max-w-6xl px-6 py-8 space-y-6">
+        <header className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+          <div className="flex items-center gap-3">
+            <BarChart3 className="w-6 h-6 text-primary" />
+            <div>
+              <h1 className="text-2xl font-display font-semibold">Analytics</h1>
+              <p className="text-sm text-muted-foreground">
+                See where your study time goes and how consistent you have been.
+              </p>
+            </div>
+          </div>
+          <Select value={range} onValueChange={(value) => setRange(value as AnalyticsRange)}>
+            <SelectTrigger className="w-full md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANALYTICS_RANGE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </header>
+
+        <section className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <StatCard title="Study time" value={formatStudyMinutes(totalRangeMinutes)} icon={Clock} description={rangeLabel} />
+          <StatCard title="Revisions" value={rangeRevisionCount} icon={Brain} description={rangeLabel} />
+          <StatCard
+            title="Current streak"
+            value={`${streaks.current} ${streaks.current === 1 ? "day" : "days"}`}
+            icon={Flame}
+          />
+          <StatCard
+            title="Longest streak"
+            value={`${streaks.longest} ${streaks.longest === 1 ? "day" : "days"}`}
+            icon={Trophy}
+            description="in the last year"
+          />
+        </section>
+
+        <section className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="p-4 space-y-3">
+            <p className="text-sm font-medium">Time per subject</p>
+            {subjectChartData.length === 0 ? (
+              <div className="h-64 rounded-md bg-muted flex items-center justify-center text-xs text-muted-foreground">
+                No study time recorded in this range.
+              </div>
+            ) : (
+              <ChartContainer
+                className="h-64 w-full"
+                config={{ minutes: { label: "Study minutes", color: "hsl(var(--primary))" } }}
+              >
+                <BarChart data={subjectChartData} layout="vertical" margin={{ left: 8 }}>
+                  <CartesianGrid horizontal={false} strokeDasharray="3 3" />
+                  <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={(v) => `${v}m`} />
+                  <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={100} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="minutes" radius={4}>
+                    {subjectChartData.map((item) => (
+                      <Cell key={item.name} fill={item.color} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            )}
+          </Card>
+
+          <Card className="p-4 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm font-medium">Top topics</p>
+              <Select value={topicSubjectId} onValueChange={setTopicSubjectId}>
+                <SelectTrigger className="h-8 w-40 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SUBJECTS}>All subjects</SelectItem>
+                  {subjects.map((subject) => (
+                    <SelectItem key={subject.id} value={subject.id}>
+                      {subject.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {topicChartData.length === 0 ? (
+              <div className="h-64 rounded-md bg-muted flex items-center justify-center text-xs text-muted-foreground text-center px-4">
+                No focus sessions tagged with a topic in this range. Pick a topic on the timer page to see it here.
+              </div>
+            ) : (
+              <ChartContainer
+                className="h-64 w-full"
+                config={{ minutes: { label: "Focus minutes", color: "hsl(var(--primary))" } }}
+              >
+                <BarChart data={topicChartData} layout="vertical" margin={{ left: 8 }}>
+                  <CartesianGrid horizontal={false} strokeDasharray="3 3" />
+                  <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={(v) => `${v}m`} />
+                  <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={120} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="minutes" radius={4}>
+                    {topicChartData.map((item) => (
+                      <Cell key={item.name} fill={item.color} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            )}
+          </Card>
+        </section>
+
+        <Card className="p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Study activity</p>
+            <p className="text-xs text-muted-foreground">
+              Focus sessions and stopwatch time over the last year
+            </p>
+          </div>
+          <StudyHeatmap minutesByDay={minutesByDay} />
+        </Card>
+
+        <section className="grid grid-cols-1 lg:grid-cols-[2fr,1fr] gap-6">
+          <Card className="p-4 space-y-3">
+            <p className="text-sm font-medium">
+              Revisions {range === "semester" ? "per week" : "per day"}
+            </p>
+            <ChartContainer
+              className="h-56 w-full"
+              config={{ revisions: { label: "Revisions", color: "hsl(var(--primary))" } }}
+            >
+              <BarChart data={revisionChartData}>
+                <CartesianGrid vertical={false} strokeDasharray="3 3" />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={12} />
+                <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="revisions" fill="var(--color-revisions)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </Card>
+
+          <Card className="p-4 space-y-3">
+            <p className="text-sm font-medium">Focus vs break</p>
+            {pomodoroMinutes === 0 ? (
+              <div className="h-56 rounded-md bg-muted flex items-center justify-center text-xs text-muted-foreground">
+                No Pomodoro sessions in this range.
+              </div>
+            ) : (
+              <>
+                <ChartContainer
+                  className="h-44 w-full"
+                  config={{
+                    focus: { label: "Focus", color: "hsl(var(--primary))" },
+                    break: { label: "Break", color: "hsl(var(--muted-foreground))" },
+                  }}
+                >
+                  <PieChart>
+                    <ChartTooltip content={<ChartTooltipContent nameKey="name" hideLabel />} />
+                    <Pie data={ratioChartData} dataKey="minutes" nameKey="name" innerRadius={45} outerRadius={70} />
+                  </PieChart>
+                </ChartContainer>
+                <div className="text-center text-sm">
+                  <span className="font-medium">{focusShare}% focus</span>
+                  <span className="text-muted-foreground">
+                    {" "}
+                    · {formatStudyMinutes(focusMinutes)} focus / {formatStudyMinutes(breakMinutes)} break
+                  </span>
+                </div>
+              </>
+            )}
+          </Card>
+        </section>
+      </main>
+    </AppSidebarLayout>
+  );
+};
+
+export default AnalyticsPage;
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { AppSidebarLayout } from "@/components/AppSidebarLayout";
 import { Calendar } from "@/components/ui/calendar";
 import { supabase } from "@/integrations/supabase/client";
@@ -6,7 +6,20 @@ import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { CalendarDays } from "lucide-react";
+import { CalendarDays, Download } from "lucide-react";
+import { ExamCountdowns } from "@/components/Planner/ExamCountdowns";
+import { ExamCoverage } from "@/components/Datesheet/ExamCoverage";
+import { useExamTopics } from "@/hooks/useExamTopics";
+import { summarizeExamCoverage } from "@/lib/examCoverage";
+import { StudyPlanCard } from "@/components/Planner/StudyPlanCard";
+import { StudyPlanDay } from "@/components/Planner/StudyPlanDay";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import { useStudyPlan } from "@/hooks/useStudyPlan";
+import { useExams } from "@/hooks/useExams";
+import { useSubjects } from "@/hooks/useSubjects";
+import { fromLocalDateKey, toLocalDateKey } from "@/lib/dates";
+import { downloadICalendar, examToICalEvent, studyBlockToICalEvent } from "@/lib/ical";
+import { syncLocalStopwatchHistory } from "@/lib/timeEntries";
 
 interface StudyAggregate {
   date: string;
@@ -21,30 +34,22 @@ interface ExamSummary {
   subject_name?: string;
 }
 
-/**
- * Normalizes a JS Date or ISO string into a local-date key (YYYY-MM-DD).
- * This avoids off-by-one issues that can occur when using toISOString()
- * directly, especially for users outside of UTC.
- */
-const toLocalDateKey = (value: Date | string): string => {
-  const d = value instanceof Date ? value : new Date(value);
-  const year = d.getFullYear();
-  const month = String(d.getMonth() + 1).padStart(2, "0");
-  const day = String(d.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
-};
-
 /**
  * Calendar planner page that shows what you studied and which exams fall on each day.
  * The UI mirrors the clean calendar layout from the reference design while using
- * existing Supabase data.
+ * existing Supabase data. It also hosts the study planner: exam countdowns and a
+ * day-by-day plan toward upcoming exams.
  */
 const CalendarPage = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
   const [studyByDate, setStudyByDate] = useState<Record<string, StudyAggregate>>({});
-  const [examsByDate, setExamsByDate] = useState<Record<string, ExamSummary[]>>({});
+  const { data: exams } = useExams();
+  const { data: subjects } = useSubjects();
+  const { settings, loading: settingsLoading, saveSettings } = useUserSettings();
+  const studyPlan = useStudyPlan(settingsLoading ? null : settings);
+  const { topicsByExam } = useExamTopics();
 
   useEffect(() => {
     if (user) {
@@ -53,30 +58,51 @@ const CalendarPage = () => {
   }, [user]);
 
   /**
-   * Loads study time (Pomodoro sessions) and exams, then groups them by day.
+   * Groups exams by day, with their subject's name so the "Exams on this day"
+   * panel can show which subject an exam belongs to.
+   */
+  const examsByDate = useMemo(() => {
+    const subjectNames = new Map((subjects ?? []).map((subject) => [subject.id, subject.name]));
+    const examsMap: Record<string, ExamSummary[]> = {};
+    (exams ?? []).forEach((exam) => {
+      const dateKey = toLocalDateKey(exam.exam_date);
+      if (!examsMap[dateKey]) {
+        examsMap[dateKey] = [];
+      }
+      examsMap[dateKey].push({
+        id: exam.id,
+        title: exam.title,
+        exam_date: exam.exam_date,
+        subject_name: subjectNames.get(exam.subject_id),
+      });
+    });
+    return examsMap;
+  }, [exams, subjects]);
+
+  /**
+   * Loads study time (Pomodoro sessions and stopwatch entries), then groups
+   * it by day.
    */
   const loadData = async () => {
     if (!user) return;
 
     try {
-      const [sessionsRes, examsRes] = await Promise.all([
+      await syncLocalStopwatchHistory(user.id);
+
+      const [sessionsRes, timeEntriesRes] = await Promise.all([
         supabase
           .from("study_sessions")
           .select("duration_minutes, started_at")
           .eq("user_id", user.id)
           .eq("completed", true),
         supabase
-          .from("exams")
-          /**
-           * We also fetch the related subject's name so that the "Exams on this day"
-           * panel can show which subject an exam belongs to.
-           */
-          .select("id, title, exam_date, subject_id, subjects(name)")
+          .from("time_entries")
+          .select("duration_seconds, started_at")
           .eq("user_id", user.id),
       ]);
 
       if (sessionsRes.error) throw sessionsRes.error;
-      if (examsRes.error) throw examsRes.error;
+      if (timeEntriesRes.error) throw timeEntriesRes.error;
 
       const studyMap: Record<string, StudyAggregate> = {};
       (sessionsRes.data || []).forEach((session) => {
@@ -87,23 +113,15 @@ const CalendarPage = () => {
         }
         studyMap[dateKey].totalMinutes += session.duration_minutes || 0;
       });
-
-      const examsMap: Record<string, ExamSummary[]> = {};
-      (examsRes.data || []).forEach((exam: any) => {
-        const dateKey = toLocalDateKey(exam.exam_date);
-        if (!examsMap[dateKey]) {
-          examsMap[dateKey] = [];
+      (timeEntriesRes.data || []).forEach((entry) => {
+        const dateKey = toLocalDateKey(entry.started_at);
+        if (!studyMap[dateKey]) {
+          studyMap[dateKey] = { date: dateKey, totalMinutes: 0 };
         }
-        examsMap[dateKey].push({
-          id: exam.id,
-          title: exam.title,
-          exam_date: exam.exam_date,
-          subject_name: exam.subjects?.name,
-        });
+        studyMap[dateKey].totalMinutes += Math.round(entry.duration_seconds / 60);
       });
 
       setStudyByDate(studyMap);
-      setExamsByDate(examsMap);
     } catch (error: any) {
       toast({
         title: "Error loading calendar",
@@ -116,6 +134,31 @@ const CalendarPage = () => {
   const selectedKey = selectedDate ? toLocalDateKey(selectedDate) : "";
   const selectedStudy = studyByDate[selectedKey];
   const selectedExams = examsByDate[selectedKey] || [];
+  const selectedPlanItems = studyPlan.items.filter((item) => item.plan_date === selectedKey);
+  const plannedDays = [...new Set(studyPlan.items.map((item) => item.plan_date))].map(fromLocalDateKey);
+  const examDays = Object.keys(examsByDate).map(fromLocalDateKey);
+
+  /**
+   * Downloads exams and the study plan (without missed blocks) as an `.ics` file.
+   */
+  const handleExportIcs = () => {
+    downloadICalendar("studox-calendar.ics", [
+      ...Object.values(examsByDate).flat().map(examToICalEvent),
+      ...studyPlan.items.filter((item) => item.status !== "missed").map(studyBlockToICalEvent),
+    ]);
+  };
+
+  const handleDailyMinutesChange = async (minutes: number) => {
+    try {
+      await saveSettings({ daily_study_minutes: minutes });
+    } catch (error) {
+      toast({
+        title: "Error saving study budget",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
 
   return (
     <AppSidebarLayout>
@@ -126,18 +169,39 @@ const CalendarPage = () => {
             <div>
               <h1 className="text-2xl font-display font-bold">Calendar</h1>
               <p className="text-muted-foreground text-sm">
-                See your study activity and exams on a simple calendar.
+                See your study activity, exams and study plan on a simple calendar.
               </p>
             </div>
+            <Button variant="outline" size="sm" className="ml-auto" onClick={handleExportIcs}>
+              <Download className="w-4 h-4 mr-2" />
+              Export .ics
+            </Button>
           </header>
           <Card className="p-4">
             <Calendar
               mode="single"
               selected={selectedDate}
               onSelect={setSelectedDate}
+              modifiers={{ planned: plannedDays, exam: examDays }}
+              modifiersClassNames={{
+                planned: "underline decoration-primary decoration-2 underline-offset-4",
+                exam: "ring-1 ring-destructive",
+              }}
               className="w-full"
             />
           </Card>
+          <div className="mt-4 space-y-4">
+            <StudyPlanCard
+              dailyMinutes={settings.daily_study_minutes}
+              onDailyMinutesChange={handleDailyMinutesChange}
+              progress={studyPlan.progress}
+              hasPlan={studyPlan.items.length > 0}
+              generating={studyPlan.generating}
+              onGenerate={(dailyMinutes) => studyPlan.generatePlan({ dailyMinutes })}
+              disabled={settingsLoading || studyPlan.loading}
+            />
+            <ExamCountdowns exams={studyPlan.exams} items={studyPlan.items} unscheduled={studyPlan.unscheduled} />
+          </div>
         </section>
 
         <section className="space-y-4">
@@ -160,12 +224,18 @@ const CalendarPage = () => {
             </Button>
           </Card>
 
+          <StudyPlanDay
+            items={selectedPlanItems}
+            studiedMinutes={selectedStudy?.totalMinutes ?? 0}
+            onToggle={studyPlan.toggleItem}
+          />
+
           <Card className="p-4">
             <h2 className="text-sm font-semibold mb-2">Study overview</h2>
             {selectedStudy ? (
               <p className="text-sm text-muted-foreground">
                 You studied for <span className="font-semibold">{selectedStudy.totalMinutes} minutes</span> on this day
-                using focused Pomodoro sessions.
+                across Pomodoro and stopwatch sessions.
               </p>
             ) : (
               <p className="text-sm text-muted-foreground">No recorded study sessions for this day.</p>
@@ -179,17 +249,24 @@ const CalendarPage = () => {
             ) : (
               <ul className="space-y-2 text-sm">
                 {selectedExams.map((exam) => (
-                  <li key={exam.id} className="flex items-center justify-between">
-                    <span>
-                      {exam.title}
-                      {exam.subject_name ? ` · ${exam.subject_name}` : ""}
-                    </span>
-                    <span className="text-muted-foreground">
-                      {new Date(exam.exam_date).toLocaleTimeString(undefined, {
-                        hour: "2-digit",
-                        minute: "2-digit",
-                      })}
-                    </span>
+                  <li key={exam.id} className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span>
+                        {exam.title}
+                        {exam.subject_name ? ` · ${exam.subject_name}` : ""}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {new Date(exam.exam_date).toLocaleTimeString(undefined, {
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                      </span>
+                    </div>
+                    <ExamCoverage
+                      coverage={summarizeExamCoverage(topicsByExam[exam.id] || [], settings.coverage_min_revisions)}
+                      minRevisions={settings.coverage_min_revisions}
+                      compact
+                    />
                   </li>
                 ))}
               </ul>
@@ -1,5 +1,10 @@
 import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useTodos } from "@/hooks/useTodos";
+import { useCreateSubject, useDeleteSubject, useSubjects, useUpdateSubject } from "@/hooks/useSubjects";
+import { useUserTopics } from "@/hooks/useTopics";
+import type { Subject, SubjectFields } from "@/lib/repositories/subjects";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -9,18 +14,15 @@ import { CreateSubjectDialog } from "@/components/Dashboard/CreateSubjectDialog"
 import { useToast } from "@/hooks/use-toast";
 import { BookOpen, Brain, Clock, Plus } from "lucide-react";
 import { AppSidebarLayout } from "@/components/AppSidebarLayout";
+import { DueRevisionQueue } from "@/components/Revision/DueRevisionQueue";
+import { syncLocalStopwatchHistory } from "@/lib/timeEntries";
+import { toLocalDateKey } from "@/lib/dates";
+import { selectAllPages } from "@/lib/pagination";
+import { AttributedStudyTime, formatStudyMinutes, loadAttributedStudyTime } from "@/lib/studyTime";
 import { Calendar } from "@/components/ui/calendar";
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
 
-interface Subject {
-  id: string;
-  name: string;
-  description: string | null;
-  color: string;
-  user_id: string;
-}
-
 interface TimelinePoint {
   /** Short label for the X axis, e.g. "Mon" or "12/02". */
   label: string;
@@ -28,83 +30,78 @@ interface TimelinePoint {
   minutes: number;
 }
 
-interface DailyTodo {
-  id: string;
-  text: string;
-  done: boolean;
-}
-
 const Dashboard = () => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [subjects, setSubjects] = useState<Subject[]>([]);
-  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const { data: subjects = [], isPending: loading } = useSubjects();
+  const { data: topics = [] } = useUserTopics();
+  const createSubject = useCreateSubject();
+  const updateSubject = useUpdateSubject();
+  const deleteSubject = useDeleteSubject();
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingSubject, setEditingSubject] = useState<Subject | null>(null);
-  const [stats, setStats] = useState({
-    totalSubjects: 0,
-    totalTopics: 0,
-    totalRevisions: 0,
-    studyTime: 0,
-  });
+  const [studyTime, setStudyTime] = useState(0);
   const [timeline, setTimeline] = useState<TimelinePoint[]>([]);
-  const [todos, setTodos] = useState<DailyTodo[]>([]);
+  const [attributedTime, setAttributedTime] = useState<AttributedStudyTime>({ byTopic: {}, bySubject: {} });
+  const { todos, today, addTodo, toggleTodo, removeTodo } = useTodos();
   const [todoInput, setTodoInput] = useState("");
 
   useEffect(() => {
     if (user) {
-      loadSubjects();
       loadStats();
       loadTimeline();
+      loadAttributedTime();
     }
   }, [user]);
 
-  const loadSubjects = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("subjects")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      setSubjects(data || []);
-    } catch (error: any) {
-      toast({
-        title: "Error loading subjects",
-        description: error.message,
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
+  /**
+   * Loads total study time, combining Pomodoro `study_sessions` with
+   * stopwatch `time_entries`, after uploading any stopwatch history that is
+   * still only stored on this device. Both are read page by page, since the
+   * total covers the whole history. Subject, topic and revision counts come
+   * from the cached subjects and topics.
+   */
   const loadStats = async () => {
+    if (!user) return;
+
     try {
-      const [subjectsRes, topicsRes, sessionsRes] = await Promise.all([
-        supabase.from("subjects").select("id", { count: "exact", head: true }),
-        supabase.from("topics").select("id, revision_count", { count: "exact" }),
-        supabase.from("study_sessions").select("duration_minutes").eq("completed", true),
+      await syncLocalStopwatchHistory(user.id);
+
+      const [sessionRows, timeEntryRows] = await Promise.all([
+        selectAllPages((from, to) =>
+          supabase
+            .from("study_sessions")
+            .select("duration_minutes")
+            .eq("user_id", user.id)
+            .eq("completed", true)
+            .order("id")
+            .range(from, to),
+        ),
+        selectAllPages((from, to) =>
+          supabase
+            .from("time_entries")
+            .select("duration_seconds")
+            .eq("user_id", user.id)
+            .order("id")
+            .range(from, to),
+        ),
       ]);
 
-      const totalRevisions = topicsRes.data?.reduce((sum, topic) => sum + (topic.revision_count || 0), 0) || 0;
-      const studyTime = sessionsRes.data?.reduce((sum, session) => sum + session.duration_minutes, 0) || 0;
-
-      setStats({
-        totalSubjects: subjectsRes.count || 0,
-        totalTopics: topicsRes.count || 0,
-        totalRevisions,
-        studyTime,
-      });
+      const pomodoroMinutes = sessionRows.reduce((sum, session) => sum + session.duration_minutes, 0);
+      const stopwatchMinutes = Math.round(timeEntryRows.reduce((sum, entry) => sum + entry.duration_seconds, 0) / 60);
+      setStudyTime(pomodoroMinutes + stopwatchMinutes);
     } catch (error: any) {
       console.error("Error loading stats:", error);
     }
   };
 
+  const totalRevisions = topics.reduce((sum, topic) => sum + (topic.revision_count || 0), 0);
+
   /**
-   * Loads study sessions for the last 7 days and aggregates them into a simple
-   * per-day timeline that powers the dashboard graph.
+   * Loads study sessions and stopwatch entries for the last 7 days and
+   * aggregates them into a simple per-day timeline that powers the dashboard graph.
    */
   const loadTimeline = async () => {
     if (!user) return;
@@ -113,29 +110,42 @@ const Dashboard = () => {
       const today = new Date();
       const since = new Date();
       since.setDate(today.getDate() - 6);
+      since.setHours(0, 0, 0, 0);
+
+      const [sessionsRes, timeEntriesRes] = await Promise.all([
+        supabase
+          .from("study_sessions")
+          .select("duration_minutes, started_at")
+          .eq("user_id", user.id)
+          .eq("completed", true)
+          .gte("started_at", since.toISOString()),
+        supabase
+          .from("time_entries")
+          .select("duration_seconds, started_at")
+          .eq("user_id", user.id)
+          .gte("started_at", since.toISOString()),
+      ]);
 
-      const { data, error } = await supabase
-        .from("study_sessions")
-        .select("duration_minutes, started_at")
-        .eq("user_id", user.id)
-        .eq("completed", true)
-        .gte("started_at", since.toISOString());
-
-      if (error) throw error;
+      if (sessionsRes.error) throw sessionsRes.error;
+      if (timeEntriesRes.error) throw timeEntriesRes.error;
 
+      // Days are the user's local days, like on the history and analytics pages.
       const byDate: Record<string, number> = {};
-      (data || []).forEach((session) => {
+      (sessionsRes.data || []).forEach((session) => {
         if (!session.started_at) return;
-        const d = new Date(session.started_at);
-        const key = d.toISOString().slice(0, 10);
+        const key = toLocalDateKey(session.started_at);
         byDate[key] = (byDate[key] || 0) + (session.duration_minutes || 0);
       });
+      (timeEntriesRes.data || []).forEach((entry) => {
+        const key = toLocalDateKey(entry.started_at);
+        byDate[key] = (byDate[key] || 0) + Math.round(entry.duration_seconds / 60);
+      });
 
       const points: TimelinePoint[] = [];
       for (let i = 6; i >= 0; i--) {
         const d = new Date();
         d.setDate(today.getDate() - i);
-        const key = d.toISOString().slice(0, 10);
+        const key = toLocalDateKey(d);
         const label = d.toLocaleDateString(undefined, { weekday: "short" });
         points.push({ label, minutes: byDate[key] || 0 });
       }
@@ -147,43 +157,39 @@ const Dashboard = () => {
   };
 
   /**
-   * Adds a simple client-side todo for the current day. These todos are meant
-   * as lightweight reminders and are not persisted to Supabase yet.
+   * Loads focus minutes per subject and topic from Pomodoro sessions that were
+   * started with a topic selected.
+   */
+  const loadAttributedTime = async () => {
+    if (!user) return;
+
+    try {
+      setAttributedTime(await loadAttributedStudyTime(user.id));
+    } catch (error) {
+      console.error("Error loading study time by topic:", error);
+    }
+  };
+
+  const topTopics = Object.values(attributedTime.byTopic)
+    .sort((a, b) => b.minutes - a.minutes)
+    .slice(0, 5);
+
+  /**
+   * Quick-entry for today's todos. Todos are stored in Supabase and unfinished
+   * ones roll over to the next day; the full list lives on the todos page.
    */
-  const handleAddTodo = () => {
+  const handleAddTodo = async () => {
     const value = todoInput.trim();
     if (!value) return;
-    setTodos((prev) => [
-      ...prev,
-      { id: crypto.randomUUID(), text: value, done: false },
-    ]);
     setTodoInput("");
+    await addTodo({ title: value, due_date: today });
   };
 
-  const handleToggleTodo = (id: string) => {
-    setTodos((prev) =>
-      prev.map((t) => (t.id === id ? { ...t, done: !t.done } : t)),
-    );
-  };
+  const todayTodos = todos.filter((t) => t.due_date === today);
 
-  const handleRemoveTodo = (id: string) => {
-    setTodos((prev) => prev.filter((t) => t.id !== id));
-  };
-
-  const handleCreateSubject = async (data: {
-    name: string;
-    description: string;
-    color: string;
-  }) => {
+  const handleCreateSubject = async (data: SubjectFields) => {
     try {
-      const { error } = await supabase.from("subjects").insert({
-        name: data.name,
-        description: data.description,
-        color: data.color,
-        user_id: user!.id,
-      });
-
-      if (error) throw error;
+      await createSubject.mutateAsync(data);
 
       toast({
         title: "Success",
@@ -191,8 +197,6 @@ const Dashboard = () => {
       });
 
       setCreateDialogOpen(false);
-      loadSubjects();
-      loadStats();
     } catch (error: any) {
       toast({
         title: "Error creating subject",
@@ -204,17 +208,12 @@ const Dashboard = () => {
 
   const handleDeleteSubject = async (id: string) => {
     try {
-      const { error } = await supabase.from("subjects").delete().eq("id", id);
-
-      if (error) throw error;
+      await deleteSubject.mutateAsync(id);
 
       toast({
         title: "Success",
         description: "Subject deleted successfully",
       });
-
-      loadSubjects();
-      loadStats();
     } catch (error: any) {
       toast({
         title: "Error deleting subject",
@@ -233,26 +232,13 @@ const Dashboard = () => {
   };
 
   /**
-   * Updates the selected subject in Supabase and refreshes local state and stats.
+   * Updates the selected subject; the list shows the change before it is saved.
    */
-  const handleUpdateSubject = async (data: {
-    name: string;
-    description: string;
-    color: string;
-  }) => {
+  const handleUpdateSubject = async (data: SubjectFields) => {
     if (!editingSubject) return;
 
     try {
-      const { error } = await supabase
-        .from("subjects")
-        .update({
-          name: data.name,
-          description: data.description,
-          color: data.color,
-        })
-        .eq("id", editingSubject.id);
-
-      if (error) throw error;
+      await updateSubject.mutateAsync({ id: editingSubject.id, fields: data });
 
       toast({
         title: "Success",
@@ -261,8 +247,6 @@ const Dashboard = () => {
 
       setEditDialogOpen(false);
       setEditingSubject(null);
-      loadSubjects();
-      loadStats();
     } catch (error: any) {
       toast({
         title: "Error updating subject",
@@ -319,7 +303,7 @@ const Dashboard = () => {
             <p className="text-sm font-medium mb-2">Timeline</p>
                 {timeline.length === 0 ? (
                   <div className="h-32 rounded-md bg-muted flex items-center justify-center text-xs text-muted-foreground">
-                    No completed Pomodoro sessions recorded in the last 7 days.
+                    No completed study sessions recorded in the last 7 days.
                   </div>
                 ) : (
                   <ChartContainer
@@ -347,7 +331,12 @@ const Dashboard = () => {
               </div>
 
               <div className="space-y-3">
-                <p className="text-sm font-medium">Today&apos;s todos</p>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">Today&apos;s todos</p>
+                  <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => navigate("/todos")}>
+                    View all
+                  </Button>
+                </div>
                 <div className="flex gap-2">
                   <input
                     className="flex-1 rounded-md border bg-background px-2 py-1 text-sm"
@@ -362,13 +351,13 @@ const Dashboard = () => {
                     Add
                   </Button>
                 </div>
-                {todos.length === 0 ? (
+                {todayTodos.length === 0 ? (
                   <p className="text-xs text-muted-foreground">
                     No todos yet. Add 2–3 key tasks you want to finish today.
                   </p>
                 ) : (
                   <ul className="space-y-1 text-sm max-h-32 overflow-auto pr-1">
-                    {todos.map((todo) => (
+                    {todayTodos.map((todo) => (
                       <li
                         key={todo.id}
                         className="flex items-center justify-between gap-2"
@@ -377,22 +366,27 @@ const Dashboard = () => {
                           <input
                             type="checkbox"
                             className="h-3.5 w-3.5 rounded border"
-                            checked={todo.done}
-                            onChange={() => handleToggleTodo(todo.id)}
+                            checked={!!todo.completed_at}
+                            onChange={() => toggleTodo(todo)}
                           />
                           <span
                             className={
-                              todo.done ? "line-through text-muted-foreground" : ""
+                              todo.completed_at ? "line-through text-muted-foreground" : ""
                             }
                           >
-                            {todo.text}
+                            {todo.title}
                           </span>
+                          {todo.rolled_over_count > 0 && !todo.completed_at && (
+                            <span className="text-[10px] text-muted-foreground">
+                              (carried over)
+                            </span>
+                          )}
                         </label>
                         <Button
                           variant="ghost"
                           size="icon"
                           className="h-6 w-6 text-xs"
-                          onClick={() => handleRemoveTodo(todo.id)}
+                          onClick={() => removeTodo(todo.id)}
                         >
                           ×
                         </Button>
@@ -405,6 +399,11 @@ const Dashboard = () => {
           </Card>
         </section>
 
+        {/* Spaced-repetition queue: topics whose next revision date has arrived */}
+        <section>
+          <DueRevisionQueue />
+        </section>
+
         {/* Three-column layout: projects/subjects, calendar, summary */}
         <section className="grid grid-cols-1 lg:grid-cols-[2fr,2fr,1.5fr] gap-6">
           {/* Projects & subjects */}
@@ -433,9 +432,10 @@ const Dashboard = () => {
                       id={subject.id}
                       name={subject.name}
                       description={subject.description || undefined}
-                      color={subject.color}
+                      color={subject.color || "#6366f1"}
                       topicsCount={0}
                       completedTopics={0}
+                      studyMinutes={attributedTime.bySubject[subject.id] || 0}
                       onEdit={() => handleEditSubject(subject)}
                       onDelete={() => handleDeleteSubject(subject.id)}
                     />
@@ -464,23 +464,42 @@ const Dashboard = () => {
               <div className="space-y-2 text-sm">
                 <div className="flex items-center justify-between">
                   <span>Total subjects</span>
-                  <span className="font-medium">{stats.totalSubjects}</span>
+                  <span className="font-medium">{subjects.length}</span>
                 </div>
                 <div className="flex items-center justify-between">
                   <span>Total topics</span>
-                  <span className="font-medium">{stats.totalTopics}</span>
+                  <span className="font-medium">{topics.length}</span>
                 </div>
                 <div className="flex items-center justify-between">
                   <span>Total revisions</span>
-                  <span className="font-medium">{stats.totalRevisions}</span>
+                  <span className="font-medium">{totalRevisions}</span>
                 </div>
                 <div className="flex items-center justify-between">
                   <span>Study time</span>
                   <span className="font-medium">
-                    {`${Math.floor(stats.studyTime / 60)}h ${stats.studyTime % 60}m`}
+                    {formatStudyMinutes(studyTime)}
                   </span>
                 </div>
               </div>
+              {topTopics.length > 0 && (
+                <div className="space-y-2 border-t pt-3">
+                  <p className="text-xs font-medium text-muted-foreground">Most studied topics</p>
+                  <ul className="space-y-1 text-sm">
+                    {topTopics.map((entry) => (
+                      <li key={entry.topicId} className="flex items-center justify-between gap-2">
+                        <button
+                          type="button"
+                          className="truncate text-left hover:underline"
+                          onClick={() => navigate(`/subject/${entry.subjectId}/topic/${entry.topicId}/resources`)}
+                        >
+                          {entry.topicName}
+                        </button>
+                        <span className="font-medium shrink-0">{formatStudyMinutes(entry.minutes)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </Card>
           </div>
         </section>
@@ -504,7 +523,7 @@ const Dashboard = () => {
             ? {
                 name: editingSubject.name,
                 description: editingSubject.description || "",
-                color: editingSubject.color,
+                color: editingSubject.color || "#6366f1",
               }
             : undefined
         }
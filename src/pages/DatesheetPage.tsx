@@ -2,6 +2,7 @@ import { useEffect, useState, ChangeEvent } from "react";
 import { AppSidebarLayout } from "@/components/AppSidebarLayout";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -9,7 +10,21 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { CalendarDays, FileText } from "lucide-react";
+import { CalendarDays, Download, NotebookPen, Upload } from "lucide-react";
+import { createSignedStorageUrl } from "@/lib/storage";
+import { downloadICalendar, examToICalEvent } from "@/lib/ical";
+import { DatesheetImportDialog } from "@/components/Datesheet/DatesheetImportDialog";
+import { ExamAttachments } from "@/components/Datesheet/ExamAttachments";
+import { ExamAttachment, uploadExamAttachment } from "@/lib/examAttachments";
+import { ExamCoverage } from "@/components/Datesheet/ExamCoverage";
+import { ExamTopicsDialog } from "@/components/Datesheet/ExamTopicsDialog";
+import { useExamTopics } from "@/hooks/useExamTopics";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import { summarizeExamCoverage } from "@/lib/examCoverage";
+import { useSubjects } from "@/hooks/useSubjects";
+import { useCreateExam, useDeleteExam, useExams } from "@/hooks/useExams";
+import type { Exam } from "@/lib/repositories/exams";
+import { queryKeys } from "@/lib/queryKeys";
 
 interface SubjectSummary {
   id: string;
@@ -17,30 +32,37 @@ interface SubjectSummary {
   color: string | null;
 }
 
-interface Exam {
+interface PracticePaper {
   id: string;
-  user_id: string;
-  subject_id: string;
   title: string;
-  exam_date: string;
-  exam_type: string | null;
-  tags: string[] | null;
-  ppt_url: string | null;
-  ppt_name: string | null;
-  ppt_size: number | null;
+  year: number | null;
+  file_url: string;
+  exam_id: string | null;
 }
 
 /**
  * Global exam datesheet page that shows all exams across subjects.
- * Users can add exams, attach PPTs, and see upcoming exams in one place.
+ * Users can add exams, attach files and links, and see upcoming exams in one place.
+ * Each exam can be linked to the syllabus topics it covers, with a meter showing
+ * how many of them have been revised enough.
  */
 const DatesheetPage = () => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [subjects, setSubjects] = useState<SubjectSummary[]>([]);
-  const [exams, setExams] = useState<Exam[]>([]);
-  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  const { data: subjects = [] } = useSubjects();
+  const { data: exams = [], isPending: examsPending } = useExams();
+  const createExam = useCreateExam();
+  const deleteExam = useDeleteExam();
+  const [practicePapers, setPracticePapers] = useState<PracticePaper[]>([]);
+  const [attachments, setAttachments] = useState<ExamAttachment[]>([]);
+  const [loadingExtras, setLoadingExtras] = useState(true);
+  const loading = examsPending || loadingExtras;
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [editingTopicsExam, setEditingTopicsExam] = useState<Exam | null>(null);
+  const { topicsByExam, saveExamTopics } = useExamTopics();
+  const { settings, saveSettings } = useUserSettings();
   const [creatingExam, setCreatingExam] = useState(false);
   const [newExam, setNewExam] = useState({
     title: "",
@@ -49,7 +71,7 @@ const DatesheetPage = () => {
     examType: "",
     tagsInput: "",
   });
-  const [examFile, setExamFile] = useState<File | null>(null);
+  const [examFiles, setExamFiles] = useState<File[]>([]);
 
   useEffect(() => {
     if (user) {
@@ -58,32 +80,33 @@ const DatesheetPage = () => {
   }, [user]);
 
   /**
-   * Loads all subjects and exams for the current user so the datesheet can
-   * show a complete, cross-subject view of upcoming exams.
+   * Loads the practice papers and attachments linked to the user's exams.
+   * Subjects and exams come from their shared queries.
    */
   const loadData = async () => {
     if (!user) return;
-    setLoading(true);
+    setLoadingExtras(true);
 
     try {
-      const [subjectsRes, examsRes] = await Promise.all([
+      const [papersRes, attachmentsRes] = await Promise.all([
         supabase
-          .from("subjects")
-          .select("id, name, color")
+          .from("papers")
+          .select("id, title, year, file_url, exam_id")
           .eq("user_id", user.id)
-          .order("created_at", { ascending: true }),
+          .not("exam_id", "is", null)
+          .order("year", { ascending: false, nullsFirst: false }),
         supabase
-          .from("exams")
+          .from("exam_attachments")
           .select("*")
           .eq("user_id", user.id)
-          .order("exam_date", { ascending: true }),
+          .order("created_at", { ascending: true }),
       ]);
 
-      if (subjectsRes.error) throw subjectsRes.error;
-      if (examsRes.error) throw examsRes.error;
+      if (papersRes.error) throw papersRes.error;
+      if (attachmentsRes.error) throw attachmentsRes.error;
 
-      setSubjects(subjectsRes.data || []);
-      setExams(examsRes.data || []);
+      setPracticePapers(papersRes.data || []);
+      setAttachments(attachmentsRes.data || []);
     } catch (error: any) {
       toast({
         title: "Error loading datesheet",
@@ -91,7 +114,7 @@ const DatesheetPage = () => {
         variant: "destructive",
       });
     } finally {
-      setLoading(false);
+      setLoadingExtras(false);
     }
   };
 
@@ -102,12 +125,7 @@ const DatesheetPage = () => {
       .filter((tag) => tag.length > 0);
 
   const handleExamFileChange = (event: ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (!files || files.length === 0) {
-      setExamFile(null);
-      return;
-    }
-    setExamFile(files[0]);
+    setExamFiles(Array.from(event.target.files ?? []));
   };
 
   const handleCreateExam = async () => {
@@ -134,57 +152,28 @@ const DatesheetPage = () => {
     try {
       const tags = parseTags(newExam.tagsInput);
 
-      const { data: inserted, error: insertError } = await supabase
-        .from("exams")
-        .insert({
-          title: newExam.title.trim(),
-          exam_date: new Date(newExam.examDate).toISOString(),
-          exam_type: newExam.examType || null,
-          tags: tags.length > 0 ? tags : null,
-          subject_id: newExam.subjectId,
-          user_id: user.id,
-        })
-        .select("*")
-        .single();
-
-      if (insertError) throw insertError;
-
-      let finalExam: Exam = inserted as Exam;
-
-      if (examFile) {
-        const path = `${user.id}/${newExam.subjectId}/${inserted.id}/${examFile.name}`;
-
-        const { data: uploadData, error: uploadError } = await supabase.storage
-          .from("exams")
-          .upload(path, examFile, {
-            cacheControl: "3600",
-            upsert: false,
-          });
-
-        if (uploadError) throw uploadError;
-
-        const { data: publicUrlData } = supabase.storage.from("exams").getPublicUrl(uploadData.path);
-
-        const { data: updated, error: updateError } = await supabase
-          .from("exams")
-          .update({
-            ppt_url: publicUrlData.publicUrl,
-            ppt_name: examFile.name,
-            ppt_size: examFile.size,
-          })
-          .eq("id", inserted.id)
-          .select("*")
-          .single();
+      const inserted = await createExam.mutateAsync({
+        title: newExam.title.trim(),
+        exam_date: new Date(newExam.examDate).toISOString(),
+        exam_type: newExam.examType || null,
+        tags: tags.length > 0 ? tags : null,
+        subject_id: newExam.subjectId,
+      });
 
-        if (updateError) throw updateError;
-        finalExam = updated as Exam;
+      // The exam exists now, so a failed upload is reported without undoing it.
+      const uploaded: ExamAttachment[] = [];
+      for (const file of examFiles) {
+        try {
+          uploaded.push(await uploadExamAttachment(user.id, inserted, file));
+        } catch (error) {
+          toast({
+            title: `Error uploading ${file.name}`,
+            description: (error as Error).message,
+            variant: "destructive",
+          });
+        }
       }
-
-      setExams((prev) =>
-        [...prev, finalExam].sort(
-          (a, b) => new Date(a.exam_date).getTime() - new Date(b.exam_date).getTime(),
-        ),
-      );
+      setAttachments((prev) => [...prev, ...uploaded]);
 
       toast({
         title: "Exam created",
@@ -199,7 +188,7 @@ const DatesheetPage = () => {
         examType: "",
         tagsInput: "",
       });
-      setExamFile(null);
+      setExamFiles([]);
     } catch (error: any) {
       toast({
         title: "Error creating exam",
@@ -211,26 +200,14 @@ const DatesheetPage = () => {
     }
   };
 
+  /**
+   * Deletes an exam along with its attachment files in storage.
+   */
   const handleDeleteExam = async (exam: Exam) => {
     try {
-      if (exam.ppt_url) {
-        try {
-          const url = new URL(exam.ppt_url);
-          const parts = url.pathname.split("/object/sign/").pop() || "";
-          const pathWithParams = parts.split("?")[0];
-          const [, objectPath] = pathWithParams.split("/exams/");
-          if (objectPath) {
-            await supabase.storage.from("exams").remove([objectPath]);
-          }
-        } catch {
-          // swallow storage delete issues
-        }
-      }
+      await deleteExam.mutateAsync(exam.id);
 
-      const { error } = await supabase.from("exams").delete().eq("id", exam.id);
-      if (error) throw error;
-
-      setExams((prev) => prev.filter((e) => e.id !== exam.id));
+      setAttachments((prev) => prev.filter((attachment) => attachment.exam_id !== exam.id));
 
       toast({
         title: "Exam deleted",
@@ -245,7 +222,57 @@ const DatesheetPage = () => {
     }
   };
 
+  /**
+   * Opens a linked paper from the private `papers` bucket via a signed URL.
+   */
+  const handleOpenPaper = async (paper: PracticePaper) => {
+    try {
+      const url = await createSignedStorageUrl("papers", paper.file_url);
+      window.open(url, "_blank", "noopener,noreferrer");
+    } catch (error) {
+      toast({
+        title: "Error accessing file",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const subjectById = new Map(subjects.map((s) => [s.id, s]));
+  const now = new Date();
+
+  /**
+   * Downloads every exam as an `.ics` file for importing into another calendar.
+   */
+  const handleExportIcs = () => {
+    downloadICalendar(
+      "studox-exams.ics",
+      exams.map((exam) => examToICalEvent({ ...exam, subject_name: subjectById.get(exam.subject_id)?.name })),
+    );
+  };
+
+  /**
+   * Refetches exams, and subjects when the import created some, so the page
+   * shows what was imported.
+   */
+  const handleImported = (_imported: Exam[], createdSubjects: SubjectSummary[]) => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.exams.all });
+    if (createdSubjects.length > 0) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.subjects.all });
+    }
+  };
+
+  const handleMinRevisionsChange = async (value: string) => {
+    try {
+      await saveSettings({ coverage_min_revisions: Number(value) });
+    } catch (error) {
+      toast({
+        title: "Error saving settings",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
 
   return (
     <AppSidebarLayout>
@@ -260,88 +287,136 @@ const DatesheetPage = () => {
               </p>
             </div>
           </div>
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                Add Exam
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Add Exam</DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="exam-title">Title</Label>
-                  <Input
-                    id="exam-title"
-                    value={newExam.title}
-                    onChange={(e) => setNewExam({ ...newExam, title: e.target.value })}
-                    placeholder="e.g., Mid-Semester Test"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="exam-subject">Subject</Label>
-                  <Select
-                    value={newExam.subjectId}
-                    onValueChange={(value) => setNewExam({ ...newExam, subjectId: value })}
-                  >
-                    <SelectTrigger id="exam-subject">
-                      <SelectValue placeholder="Choose subject" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {subjects.map((subject) => (
-                        <SelectItem key={subject.id} value={subject.id}>
-                          {subject.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div>
-                  <Label htmlFor="exam-date">Exam Date &amp; Time</Label>
-                  <Input
-                    id="exam-date"
-                    type="datetime-local"
-                    value={newExam.examDate}
-                    onChange={(e) => setNewExam({ ...newExam, examDate: e.target.value })}
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="exam-type">Exam Type (EST / MST / Other)</Label>
-                  <Input
-                    id="exam-type"
-                    value={newExam.examType}
-                    onChange={(e) => setNewExam({ ...newExam, examType: e.target.value })}
-                    placeholder="e.g., EST, MST, Viva"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="exam-tags">Tags (comma-separated)</Label>
-                  <Input
-                    id="exam-tags"
-                    value={newExam.tagsInput}
-                    onChange={(e) => setNewExam({ ...newExam, tagsInput: e.target.value })}
-                    placeholder="e.g., important, unit-1, high-weightage"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="exam-file">Attach PPT (optional)</Label>
-                  <Input
-                    id="exam-file"
-                    type="file"
-                    accept=".ppt,.pptx,.pdf"
-                    onChange={handleExamFileChange}
-                  />
-                </div>
-                <Button onClick={handleCreateExam} className="w-full" disabled={creatingExam || loading}>
-                  {creatingExam ? "Creating..." : "Create Exam"}
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={handleExportIcs} disabled={loading || exams.length === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              Export .ics
+            </Button>
+            <Button variant="outline" onClick={() => setImportOpen(true)} disabled={loading}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  Add Exam
                 </Button>
-              </div>
-            </DialogContent>
-          </Dialog>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add Exam</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="exam-title">Title</Label>
+                    <Input
+                      id="exam-title"
+                      value={newExam.title}
+                      onChange={(e) => setNewExam({ ...newExam, title: e.target.value })}
+                      placeholder="e.g., Mid-Semester Test"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="exam-subject">Subject</Label>
+                    <Select
+                      value={newExam.subjectId}
+                      onValueChange={(value) => setNewExam({ ...newExam, subjectId: value })}
+                    >
+                      <SelectTrigger id="exam-subject">
+                        <SelectValue placeholder="Choose subject" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {subjects.map((subject) => (
+                          <SelectItem key={subject.id} value={subject.id}>
+                            {subject.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="exam-date">Exam Date &amp; Time</Label>
+                    <Input
+                      id="exam-date"
+                      type="datetime-local"
+                      value={newExam.examDate}
+                      onChange={(e) => setNewExam({ ...newExam, examDate: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="exam-type">Exam Type (EST / MST / Other)</Label>
+                    <Input
+                      id="exam-type"
+                      value={newExam.examType}
+                      onChange={(e) => setNewExam({ ...newExam, examType: e.target.value })}
+                      placeholder="e.g., EST, MST, Viva"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="exam-tags">Tags (comma-separated)</Label>
+                    <Input
+                      id="exam-tags"
+                      value={newExam.tagsInput}
+                      onChange={(e) => setNewExam({ ...newExam, tagsInput: e.target.value })}
+                      placeholder="e.g., important, unit-1, high-weightage"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="exam-file">Attach files (optional)</Label>
+                    <Input
+                      id="exam-file"
+                      type="file"
+                      multiple
+                      accept=".ppt,.pptx,.pdf,.doc,.docx,.png,.jpg,.jpeg"
+                      onChange={handleExamFileChange}
+                    />
+                  </div>
+                  <Button onClick={handleCreateExam} className="w-full" disabled={creatingExam || loading}>
+                    {creatingExam ? "Creating..." : "Create Exam"}
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </div>
         </header>
 
+        <DatesheetImportDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          subjects={subjects}
+          exams={exams}
+          onImported={handleImported}
+        />
+        <ExamTopicsDialog
+          exam={editingTopicsExam}
+          selectedTopicIds={
+            (editingTopicsExam && topicsByExam[editingTopicsExam.id]?.map((topic) => topic.topicId)) || []
+          }
+          onOpenChange={(open) => !open && setEditingTopicsExam(null)}
+          onSave={(topicIds) =>
+            editingTopicsExam ? saveExamTopics(editingTopicsExam.id, topicIds) : Promise.resolve(false)
+          }
+        />
+
+        {!loading && exams.length > 0 && (
+          <div className="mb-4 flex items-center justify-end gap-2 text-sm text-muted-foreground">
+            <span>Count a topic as covered after</span>
+            <Select value={String(settings.coverage_min_revisions)} onValueChange={handleMinRevisionsChange}>
+              <SelectTrigger className="w-20 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[1, 2, 3, 4, 5].map((count) => (
+                  <SelectItem key={count} value={String(count)}>
+                    {count}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span>revisions</span>
+          </div>
+        )}
+
         {loading ? (
           <div className="min-h-[200px] flex items-center justify-center">
             <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary" />
@@ -358,6 +433,8 @@ const DatesheetPage = () => {
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {exams.map((exam) => {
               const subject = subjectById.get(exam.subject_id);
+              const isUpcoming = new Date(exam.exam_date) >= now;
+              const papersForExam = practicePapers.filter((paper) => paper.exam_id === exam.id);
               return (
                 <Card key={exam.id} className="p-6 flex flex-col justify-between">
                   <div className="space-y-2">
@@ -405,17 +482,38 @@ const DatesheetPage = () => {
                       </div>
                     )}
                   </div>
-                  {exam.ppt_url && (
-                    <a
-                      href={exam.ppt_url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="mt-4 inline-flex items-center text-sm text-primary hover:underline"
-                    >
-                      <FileText className="w-4 h-4 mr-2" />
-                      {exam.ppt_name || "View PPT"}
-                    </a>
+                  <div className="mt-4">
+                    <ExamCoverage
+                      coverage={summarizeExamCoverage(topicsByExam[exam.id] || [], settings.coverage_min_revisions)}
+                      minRevisions={settings.coverage_min_revisions}
+                      onEditTopics={() => setEditingTopicsExam(exam)}
+                    />
+                  </div>
+                  {isUpcoming && papersForExam.length > 0 && (
+                    <div className="mt-4 space-y-1">
+                      <p className="text-xs font-medium text-muted-foreground">Papers to practice</p>
+                      {papersForExam.map((paper) => (
+                        <button
+                          key={paper.id}
+                          type="button"
+                          onClick={() => handleOpenPaper(paper)}
+                          className="flex items-center text-sm text-primary hover:underline text-left"
+                        >
+                          <NotebookPen className="w-4 h-4 mr-2 shrink-0" />
+                          {paper.title}
+                          {paper.year ? ` (${paper.year})` : ""}
+                        </button>
+                      ))}
+                    </div>
                   )}
+                  <ExamAttachments
+                    exam={exam}
+                    attachments={attachments.filter((attachment) => attachment.exam_id === exam.id)}
+                    onAdded={(attachment) => setAttachments((prev) => [...prev, attachment])}
+                    onDeleted={(attachmentId) =>
+                      setAttachments((prev) => prev.filter((attachment) => attachment.id !== attachmentId))
+                    }
+                  />
                 </Card>
               );
             })}
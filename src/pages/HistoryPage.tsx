@@ -3,6 +3,8 @@ import { AppSidebarLayout } from "@/components/AppSidebarLayout";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Card } from "@/components/ui/card";
+import { toLocalDateKey, fromLocalDateKey } from "@/lib/dates";
+import { syncLocalStopwatchHistory } from "@/lib/timeEntries";
 
 interface Session {
   id: string;
@@ -11,18 +13,16 @@ interface Session {
   started_at: string | null;
 }
 
-interface StopwatchHistoryEntry {
+interface TimeEntry {
   id: string;
-  durationSeconds: number;
-  startedAt: string;
-  endedAt: string;
+  duration_seconds: number;
+  started_at: string;
+  notes: string | null;
 }
 
-const STOPWATCH_HISTORY_KEY = "studox_stopwatch_history";
-
 /**
  * Study history view backed by both the `study_sessions` table (Pomodoro)
- * and client-side stopwatch entries stored in localStorage.
+ * and the `time_entries` table (stopwatch).
  *
  * This shows a simple list of past sessions grouped by date along with total
  * study time so the user can review how much they have studied.
@@ -30,7 +30,7 @@ const STOPWATCH_HISTORY_KEY = "studox_stopwatch_history";
 const HistoryPage = () => {
   const { user } = useAuth();
   const [sessions, setSessions] = useState<Session[]>([]);
-  const [stopwatchEntries, setStopwatchEntries] = useState<StopwatchHistoryEntry[]>([]);
+  const [stopwatchEntries, setStopwatchEntries] = useState<TimeEntry[]>([]);
 
   useEffect(() => {
     if (user) {
@@ -58,18 +58,24 @@ const HistoryPage = () => {
   };
 
   /**
-   * Loads stopwatch entries from localStorage so that manually-ended
-   * stopwatch sessions appear alongside Pomodoro history.
+   * Loads stopwatch entries from `time_entries`. Any entries still stored in
+   * localStorage (from before syncing existed, or saved while offline) are
+   * uploaded first so they are included.
    */
-  const loadStopwatchEntries = () => {
+  const loadStopwatchEntries = async () => {
+    if (!user) return;
+
     try {
-      const raw = localStorage.getItem(STOPWATCH_HISTORY_KEY);
-      if (!raw) {
-        setStopwatchEntries([]);
-        return;
-      }
-      const parsed: StopwatchHistoryEntry[] = JSON.parse(raw);
-      setStopwatchEntries(parsed || []);
+      await syncLocalStopwatchHistory(user.id);
+
+      const { data, error } = await supabase
+        .from("time_entries")
+        .select("id, duration_seconds, started_at, notes")
+        .eq("user_id", user.id)
+        .order("started_at", { ascending: false });
+
+      if (error) throw error;
+      setStopwatchEntries(data || []);
     } catch (error) {
       console.error("Error loading stopwatch history:", error);
       setStopwatchEntries([]);
@@ -77,7 +83,7 @@ const HistoryPage = () => {
   };
 
   const stopwatchMinutes =
-    stopwatchEntries.reduce((sum, e) => sum + Math.round(e.durationSeconds / 60), 0) || 0;
+    stopwatchEntries.reduce((sum, e) => sum + Math.round(e.duration_seconds / 60), 0) || 0;
 
   const pomodoroMinutes =
     sessions.reduce((sum, s) => sum + (s.duration_minutes || 0), 0) || 0;
@@ -85,15 +91,15 @@ const HistoryPage = () => {
   const totalMinutes = pomodoroMinutes + stopwatchMinutes;
 
   const groupedPomodoro = sessions.reduce<Record<string, Session[]>>((acc, s) => {
-    const key = s.started_at ? s.started_at.slice(0, 10) : "unknown";
+    const key = s.started_at ? toLocalDateKey(s.started_at) : "unknown";
     acc[key] = acc[key] || [];
     acc[key].push(s);
     return acc;
   }, {});
 
-  const groupedStopwatch = stopwatchEntries.reduce<Record<string, StopwatchHistoryEntry[]>>(
+  const groupedStopwatch = stopwatchEntries.reduce<Record<string, TimeEntry[]>>(
     (acc, e) => {
-      const key = e.startedAt ? e.startedAt.slice(0, 10) : "unknown";
+      const key = toLocalDateKey(e.started_at);
       acc[key] = acc[key] || [];
       acc[key].push(e);
       return acc;
@@ -103,7 +109,7 @@ const HistoryPage = () => {
 
   const allDates = Array.from(
     new Set([...Object.keys(groupedPomodoro), ...Object.keys(groupedStopwatch)]),
-  ).filter(Boolean);
+  ).filter((key) => key !== "unknown");
 
   const sortedDates = allDates.sort((a, b) => (a < b ? 1 : -1));
 
@@ -133,7 +139,7 @@ const HistoryPage = () => {
             {sortedDates.map((dateKey) => (
               <Card key={dateKey} className="p-4 space-y-2">
                 <p className="text-xs uppercase tracking-wide text-muted-foreground">
-                  {new Date(dateKey).toLocaleDateString(undefined, {
+                  {fromLocalDateKey(dateKey).toLocaleDateString(undefined, {
                     weekday: "long",
                     year: "numeric",
                     month: "short",
@@ -153,9 +159,12 @@ const HistoryPage = () => {
                   ))}
                   {(groupedStopwatch[dateKey] || []).map((e) => (
                     <li key={e.id} className="flex items-center justify-between">
-                      <span>Stopwatch session</span>
+                      <span>
+                        Stopwatch session
+                        {e.notes ? <span className="text-muted-foreground"> · {e.notes}</span> : null}
+                      </span>
                       <span className="text-muted-foreground">
-                        {Math.round(e.durationSeconds / 60)} min
+                        {Math.round(e.duration_seconds / 60)} min
                       </span>
                     </li>
                   ))}
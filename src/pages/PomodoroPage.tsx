@@ -1,9 +1,35 @@
+import { useEffect, useState } from "react";
 import { PomodoroTimer } from "@/components/Pomodoro/PomodoroTimer";
 import { StopwatchTimer } from "@/components/Pomodoro/StopwatchTimer";
+import { FocusTopicPicker } from "@/components/Pomodoro/FocusTopicPicker";
+import { Link, useSearchParams } from "react-router-dom";
 import { AppSidebarLayout } from "@/components/AppSidebarLayout";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useUserSettings } from "@/hooks/useUserSettings";
+
+/** localStorage key remembering the last topic picked for the timer. */
+const FOCUS_TOPIC_KEY = "studox_pomodoro_topic";
 
 const PomodoroPage = () => {
+  const { settings } = useUserSettings();
+  const [searchParams, setSearchParams] = useSearchParams();
+  /**
+   * `?topic=<id>&start=1` comes from a topic's "Start focus session" action;
+   * otherwise the last selected topic is restored.
+   */
+  const [topicId, setTopicId] = useState<string | null>(
+    () => searchParams.get("topic") || localStorage.getItem(FOCUS_TOPIC_KEY),
+  );
+  const [autoStartFocus] = useState(() => searchParams.get("start") === "1");
+
+  useEffect(() => {
+    if (topicId) {
+      localStorage.setItem(FOCUS_TOPIC_KEY, topicId);
+    } else {
+      localStorage.removeItem(FOCUS_TOPIC_KEY);
+    }
+  }, [topicId]);
+
   /**
    * Pomodoro page is rendered inside the shared app sidebar layout so the user
    * keeps the same navigation chrome while using the timer.
@@ -17,6 +43,13 @@ const PomodoroPage = () => {
             <p className="text-muted-foreground text-lg">
               Use Pomodoro cycles or a simple stopwatch to stay focused and productive.
             </p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Change durations and auto-start in{" "}
+              <Link to="/settings" className="text-primary hover:underline">
+                Settings
+              </Link>
+              .
+            </p>
           </div>
 
           {/**
@@ -29,8 +62,13 @@ const PomodoroPage = () => {
               <TabsTrigger value="stopwatch">Stopwatch</TabsTrigger>
             </TabsList>
 
-            <TabsContent value="pomodoro">
-              <PomodoroTimer />
+            <TabsContent value="pomodoro" className="space-y-4">
+              <FocusTopicPicker topicId={topicId} onChange={setTopicId} />
+              <PomodoroTimer
+                topicId={topicId ?? undefined}
+                autoStartFocus={autoStartFocus}
+                onAutoStartHandled={() => setSearchParams({}, { replace: true })}
+              />
             </TabsContent>
             <TabsContent value="stopwatch">
               <StopwatchTimer />
@@ -40,10 +78,12 @@ const PomodoroPage = () => {
           <div className="mt-12 p-6 bg-muted/30 rounded-xl">
             <h3 className="font-display font-semibold text-lg mb-3">How it works</h3>
             <ol className="space-y-2 text-muted-foreground">
-              <li>1. Focus for 25 minutes on a single task</li>
-              <li>2. Take a 5-minute break when the timer ends</li>
+              <li>1. Focus for {settings.focus_minutes} minutes on a single task</li>
+              <li>2. Take a {settings.short_break_minutes}-minute break when the timer ends</li>
               <li>3. Repeat this cycle to maintain high productivity</li>
-              <li>4. After 4 cycles, take a longer 15-30 minute break</li>
+              <li>
+                4. After {settings.long_break_interval} cycles, take a longer {settings.long_break_minutes}-minute break
+              </li>
             </ol>
           </div>
         </div>
@@ -0,0 +1,333 @@
+import { useEffect, useState } from "react";
+import { AppSidebarLayout } from "@/components/AppSidebarLayout";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useExams } from "@/hooks/useExams";
+import { useSubjects } from "@/hooks/useSubjects";
+import type { Exam } from "@/lib/repositories/exams";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ChartContainer, ChartTooltip } from "@/components/ui/chart";
+import { StatCard } from "@/components/Dashboard/StatCard";
+import { ExamResultDialog } from "@/components/Results/ExamResultDialog";
+import { CartesianGrid, Cell, Scatter, ScatterChart, XAxis, YAxis, ZAxis } from "recharts";
+import { Award, ClipboardCheck, GraduationCap, Percent, TrendingUp } from "lucide-react";
+import {
+  computeGpa,
+  computeSemesterGpas,
+  computeSubjectAverages,
+  examPercent,
+  formatGpa,
+  gradeFromPercent,
+  hasResult,
+  UNSPECIFIED_SEMESTER,
+} from "@/lib/grades";
+import { formatStudyMinutes, loadAttributedStudyTime } from "@/lib/studyTime";
+
+interface StudyScorePoint {
+  name: string;
+  color: string;
+  hours: number;
+  minutes: number;
+  score: number;
+}
+
+const DEFAULT_SUBJECT_COLOR = "#6366f1";
+
+/**
+ * Exam results: marks and grades per exam, average score per subject,
+ * credit-weighted SGPA per semester with the running CGPA, and how study
+ * time per subject lines up with the scores.
+ *
+ * Study time is the Pomodoro focus time attributed to each subject's topics,
+ * the same figure the subject pages show.
+ */
+const ResultsPage = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data: exams = [], isPending: examsPending } = useExams();
+  const { data: subjects = [], isPending: subjectsPending } = useSubjects();
+  const [minutesBySubject, setMinutesBySubject] = useState<Record<string, number>>({});
+  const [studyTimeLoading, setStudyTimeLoading] = useState(true);
+  const [editingExam, setEditingExam] = useState<Exam | null>(null);
+  const loading = examsPending || subjectsPending || studyTimeLoading;
+
+  useEffect(() => {
+    if (user) {
+      loadStudyTime();
+    }
+  }, [user]);
+
+  const loadStudyTime = async () => {
+    if (!user) return;
+
+    try {
+      const studyTime = await loadAttributedStudyTime(user.id);
+      setMinutesBySubject(studyTime.bySubject);
+    } catch (error) {
+      toast({
+        title: "Error loading results",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setStudyTimeLoading(false);
+    }
+  };
+
+  const handleSaved = () => {
+    toast({ title: "Result saved" });
+  };
+
+  const subjectById = new Map(subjects.map((subject) => [subject.id, subject]));
+  const now = new Date();
+  const pastExams = exams.filter((exam) => new Date(exam.exam_date) <= now).reverse();
+  const gradedExams = exams.filter(hasResult);
+  const scoredPercents = gradedExams
+    .map((exam) => examPercent(exam))
+    .filter((percent): percent is number => percent !== null);
+  const averageScore =
+    scoredPercents.length > 0 ? scoredPercents.reduce((sum, percent) => sum + percent, 0) / scoredPercents.length : null;
+
+  const overall = computeGpa(gradedExams);
+  const semesterGpas = computeSemesterGpas(gradedExams);
+  const latestSemester = semesterGpas[semesterGpas.length - 1];
+  const semesters = [
+    ...new Set(exams.map((exam) => exam.semester?.trim()).filter((semester): semester is string => !!semester)),
+  ];
+
+  const subjectAverages = computeSubjectAverages(exams)
+    .map((average) => ({ ...average, subject: subjectById.get(average.subjectId) }))
+    .sort((a, b) => b.averagePercent - a.averagePercent);
+
+  const studyScorePoints: StudyScorePoint[] = subjectAverages.map((average) => {
+    const minutes = minutesBySubject[average.subjectId] || 0;
+    return {
+      name: average.subject?.name || "Unknown subject",
+      color: average.subject?.color || DEFAULT_SUBJECT_COLOR,
+      hours: Math.round((minutes / 60) * 10) / 10,
+      minutes,
+      score: Math.round(average.averagePercent * 10) / 10,
+    };
+  });
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <AppSidebarLayout>
+      <main className="mx-auto max-w-6xl px-6 py-8 space-y-6">
+        <header className="flex items-center gap-3">
+          <GraduationCap className="w-6 h-6 text-primary" />
+          <div>
+            <h1 className="text-2xl font-display font-semibold">Results</h1>
+            <p className="text-sm text-muted-foreground">
+              Record your marks and track your grades, SGPA and CGPA.
+            </p>
+          </div>
+        </header>
+
+        <section className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <StatCard
+            title="CGPA"
+            value={formatGpa(overall.gpa)}
+            icon={Award}
+            description={`${overall.credits} credits graded`}
+          />
+          <StatCard
+            title="Latest SGPA"
+            value={formatGpa(latestSemester?.gpa ?? null)}
+            icon={TrendingUp}
+            description={latestSemester?.semester}
+          />
+          <StatCard title="Graded exams" value={gradedExams.length} icon={ClipboardCheck} />
+          <StatCard
+            title="Average score"
+            value={averageScore === null ? "—" : `${averageScore.toFixed(1)}%`}
+            icon={Percent}
+            description="across exams with marks"
+          />
+        </section>
+
+        <section className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="p-4 space-y-3">
+            <p className="text-sm font-medium">Semesters</p>
+            {semesterGpas.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Record results with credits to see your SGPA and CGPA.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground">
+                    <th className="py-1 font-medium">Semester</th>
+                    <th className="py-1 font-medium text-right">Credits</th>
+                    <th className="py-1 font-medium text-right">SGPA</th>
+                    <th className="py-1 font-medium text-right">CGPA</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {semesterGpas.map((semester) => (
+                    <tr key={semester.semester} className="border-t">
+                      <td className="py-2">{semester.semester}</td>
+                      <td className="py-2 text-right">{semester.credits}</td>
+                      <td className="py-2 text-right font-medium">{formatGpa(semester.gpa)}</td>
+                      <td className="py-2 text-right">{formatGpa(semester.cgpa)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {semesterGpas.some((semester) => semester.semester === UNSPECIFIED_SEMESTER) && (
+              <p className="text-xs text-muted-foreground">
+                Results without a semester are grouped under "{UNSPECIFIED_SEMESTER}".
+              </p>
+            )}
+          </Card>
+
+          <Card className="p-4 space-y-3">
+            <p className="text-sm font-medium">Average score per subject</p>
+            {subjectAverages.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No marks recorded yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {subjectAverages.map((average) => (
+                  <li key={average.subjectId} className="space-y-1">
+                    <div className="flex items-center justify-between gap-3 text-sm">
+                      <span className="flex items-center gap-2 min-w-0">
+                        <span
+                          className="w-2.5 h-2.5 rounded-full shrink-0"
+                          style={{ backgroundColor: average.subject?.color || DEFAULT_SUBJECT_COLOR }}
+                        />
+                        <span className="truncate">{average.subject?.name || "Unknown subject"}</span>
+                      </span>
+                      <span className="shrink-0 text-muted-foreground">
+                        {average.averagePercent.toFixed(1)}% · {gradeFromPercent(average.averagePercent)} ·{" "}
+                        {average.examCount} exam{average.examCount === 1 ? "" : "s"}
+                      </span>
+                    </div>
+                    <Progress value={average.averagePercent} className="h-1.5" />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+        </section>
+
+        <Card className="p-4 space-y-3">
+          <div>
+            <p className="text-sm font-medium">Study time vs score</p>
+            <p className="text-xs text-muted-foreground">
+              Focus time logged on each subject's topics against its average score.
+            </p>
+          </div>
+          {studyScorePoints.length === 0 ? (
+            <div className="h-64 rounded-md bg-muted flex items-center justify-center text-xs text-muted-foreground">
+              Record marks for an exam to compare them with your study time.
+            </div>
+          ) : (
+            <ChartContainer
+              className="h-64 w-full"
+              config={{ score: { label: "Average score", color: "hsl(var(--primary))" } }}
+            >
+              <ScatterChart margin={{ top: 8, right: 16, bottom: 8, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  type="number"
+                  dataKey="hours"
+                  name="Study time"
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(v) => `${v}h`}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="score"
+                  name="Average score"
+                  domain={[0, 100]}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(v) => `${v}%`}
+                />
+                <ZAxis range={[80, 80]} />
+                <ChartTooltip
+                  content={({ active, payload }) => {
+                    const point = payload?.[0]?.payload as StudyScorePoint | undefined;
+                    if (!active || !point) return null;
+                    return (
+                      <div className="rounded-lg border bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                        <p className="font-medium">{point.name}</p>
+                        <p className="text-muted-foreground">
+                          {formatStudyMinutes(point.minutes)} studied · {point.score}%
+                        </p>
+                      </div>
+                    );
+                  }}
+                />
+                <Scatter data={studyScorePoints}>
+                  {studyScorePoints.map((point) => (
+                    <Cell key={point.name} fill={point.color} />
+                  ))}
+                </Scatter>
+              </ScatterChart>
+            </ChartContainer>
+          )}
+        </Card>
+
+        <Card className="p-4 space-y-3">
+          <p className="text-sm font-medium">Past exams</p>
+          {pastExams.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Exams appear here once their date has passed.</p>
+          ) : (
+            <ul className="divide-y">
+              {pastExams.map((exam) => {
+                const subject = subjectById.get(exam.subject_id);
+                const percent = examPercent(exam);
+                const grade = exam.grade || (percent !== null ? gradeFromPercent(percent) : null);
+                return (
+                  <li key={exam.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{exam.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {subject?.name || "Unknown subject"} · {new Date(exam.exam_date).toLocaleDateString()}
+                        {exam.semester ? ` · ${exam.semester}` : ""}
+                        {exam.credits ? ` · ${exam.credits} credits` : ""}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {percent !== null && (
+                        <span className="text-sm text-muted-foreground">
+                          {exam.marks_obtained}/{exam.max_marks} · {percent.toFixed(1)}%
+                        </span>
+                      )}
+                      {grade && <Badge variant="secondary">{grade}</Badge>}
+                      <Button size="sm" variant="outline" onClick={() => setEditingExam(exam)}>
+                        {hasResult(exam) ? "Edit result" : "Record result"}
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </Card>
+      </main>
+
+      <ExamResultDialog
+        exam={editingExam}
+        semesters={semesters}
+        onOpenChange={(open) => !open && setEditingExam(null)}
+        onSaved={handleSaved}
+      />
+    </AppSidebarLayout>
+  );
+};
+
+export default ResultsPage;
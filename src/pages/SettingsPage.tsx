@@ -1,13 +1,87 @@
+import { useEffect, useState } from "react";
 import { AppSidebarLayout } from "@/components/AppSidebarLayout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useUserSettings, UserSettings, DEFAULT_USER_SETTINGS } from "@/hooks/useUserSettings";
+import { CalendarFeedSettings } from "@/components/Settings/CalendarFeedSettings";
+import { NotificationSettings } from "@/components/Settings/NotificationSettings";
+
+type DurationField = "focus_minutes" | "short_break_minutes" | "long_break_minutes" | "long_break_interval";
+
+type PomodoroSettings = Pick<UserSettings, DurationField | "auto_start_next_phase">;
+
+const pickPomodoroSettings = (settings: UserSettings): PomodoroSettings => ({
+  focus_minutes: settings.focus_minutes,
+  short_break_minutes: settings.short_break_minutes,
+  long_break_minutes: settings.long_break_minutes,
+  long_break_interval: settings.long_break_interval,
+  auto_start_next_phase: settings.auto_start_next_phase,
+});
+
+const DURATION_FIELDS: { key: DurationField; label: string; min: number; max: number }[] = [
+  { key: "focus_minutes", label: "Focus length (minutes)", min: 1, max: 180 },
+  { key: "short_break_minutes", label: "Short break (minutes)", min: 1, max: 60 },
+  { key: "long_break_minutes", label: "Long break (minutes)", min: 1, max: 120 },
+  { key: "long_break_interval", label: "Focus sessions before a long break", min: 1, max: 12 },
+];
 
 /**
- * Placeholder settings page for user and application preferences.
+ * Settings page for user and application preferences.
  *
- * This is wired to the `/settings` route and the `Settings` sidebar entry.
- * As settings features are added (theme, notifications, profile tweaks, etc.),
- * they can be surfaced here behind a consistent layout.
+ * Holds the Pomodoro configuration and notification preferences stored in
+ * `user_settings`, and the subscribable calendar feed links.
+ * Further preferences (theme, profile tweaks, etc.) can be
+ * surfaced here behind the same layout.
  */
 const SettingsPage = () => {
+  const { settings, loading, saveSettings } = useUserSettings();
+  const { toast } = useToast();
+  const [form, setForm] = useState<PomodoroSettings>(pickPomodoroSettings(settings));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(pickPomodoroSettings(settings));
+  }, [settings]);
+
+  /**
+   * Validates the Pomodoro form against the same bounds as the database
+   * checks and saves it.
+   */
+  const handleSavePomodoro = async () => {
+    const invalid = DURATION_FIELDS.find(
+      ({ key, min, max }) => !Number.isInteger(form[key]) || form[key] < min || form[key] > max,
+    );
+    if (invalid) {
+      toast({
+        title: "Invalid value",
+        description: `${invalid.label} must be between ${invalid.min} and ${invalid.max}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveSettings(form);
+      toast({
+        title: "Settings saved",
+        description: "Your Pomodoro preferences have been updated.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error saving settings",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
   return (
     <AppSidebarLayout>
       <main className="mx-auto max-w-4xl px-6 py-8 space-y-4">
@@ -18,17 +92,70 @@ const SettingsPage = () => {
             new features are introduced.
           </p>
         </header>
-        <section className="rounded-lg border bg-card p-6 text-sm text-muted-foreground">
-          {/* Placeholder content while real settings are designed */}
-          There are no configurable settings yet. When preferences such as theme,
-          notification frequency, or account options are implemented, they will be
-          managed from this page.
-        </section>
+
+        <Card className="p-6 space-y-5">
+          <div>
+            <h2 className="text-lg font-display font-semibold">Pomodoro</h2>
+            <p className="text-sm text-muted-foreground">
+              Set the length of focus sessions and breaks, and how many focus sessions
+              come before a long break.
+            </p>
+          </div>
+
+          {loading ? (
+            <div className="min-h-[120px] flex items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {DURATION_FIELDS.map(({ key, label, min, max }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`settings-${key}`}>{label}</Label>
+                    <Input
+                      id={`settings-${key}`}
+                      type="number"
+                      min={min}
+                      max={max}
+                      value={Number.isNaN(form[key]) ? "" : form[key]}
+                      onChange={(e) => setForm({ ...form, [key]: parseInt(e.target.value, 10) })}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                <div>
+                  <Label htmlFor="settings-auto-start">Auto-start next phase</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Start the following break or focus session as soon as the timer ends.
+                  </p>
+                </div>
+                <Switch
+                  id="settings-auto-start"
+                  checked={form.auto_start_next_phase}
+                  onCheckedChange={(checked) => setForm({ ...form, auto_start_next_phase: checked })}
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setForm(pickPomodoroSettings(DEFAULT_USER_SETTINGS))} disabled={saving}>
+                  Restore defaults
+                </Button>
+                <Button onClick={handleSavePomodoro} disabled={saving}>
+                  {saving ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </>
+          )}
+        </Card>
+
+        {!loading && <NotificationSettings settings={settings} onSave={saveSettings} />}
+
+        <CalendarFeedSettings />
       </main>
     </AppSidebarLayout>
   );
 };
 
 export default SettingsPage;
-
-
@@ -4,7 +4,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, FileText, FileDown, Eye, Link as LinkIcon, ExternalLink } from "lucide-react";
+import { ArrowLeft, FileText, FileDown, Eye, Link as LinkIcon, ExternalLink, NotebookPen } from "lucide-react";
 import { AppSidebarLayout } from "@/components/AppSidebarLayout";
 import {
   Dialog,
@@ -13,6 +13,11 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useNavigate } from "react-router-dom";
+import { MarkdownContent } from "@/components/Notes/MarkdownContent";
+import { PdfViewer } from "@/components/Pdf/PdfViewer";
+import { LinkPreviewFrame } from "@/components/Notes/LinkPreviewFrame";
+import { getOfficeViewerUrl, getYouTubeEmbedUrl, isOfficeDocument } from "@/lib/resourceLinks";
+import { extractStoragePath } from "@/lib/storage";
 
 interface Subject {
   id: string;
@@ -34,20 +39,29 @@ interface TopicNote {
   file_name: string | null;
   file_size: number | null;
   content: string | null;
+  note_type: string;
   created_at: string | null;
   sort_order: number | null;
 }
 
 /**
- * Checks if a note is a link (has content URL but no file_url).
+ * Checks if a note is a link (URL stored in content, no file).
  */
 const isLinkNote = (note: TopicNote): boolean => {
-  return !note.file_url && !!note.content && (note.content.startsWith("http://") || note.content.startsWith("https://"));
+  return note.note_type === "link";
+};
+
+/**
+ * Checks if a note is a Markdown note written in the app.
+ */
+const isMarkdownNote = (note: TopicNote): boolean => {
+  return note.note_type === "markdown";
 };
 
 /**
  * Shared topic page for viewing topics shared via share_token.
- * This is a read-only view that displays topic information, video, and PPTs.
+ * This is a read-only view that displays topic information, video, PPTs,
+ * links and Markdown notes.
  */
 const SharedTopicPage = () => {
   const { shareToken } = useParams<{ shareToken: string }>();
@@ -60,6 +74,7 @@ const SharedTopicPage = () => {
   const [loading, setLoading] = useState(true);
   const [previewNote, setPreviewNote] = useState<TopicNote | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [readingNote, setReadingNote] = useState<TopicNote | null>(null);
 
   useEffect(() => {
     if (shareToken) {
@@ -113,9 +128,8 @@ const SharedTopicPage = () => {
       // RLS policy allows public access to notes for shared topics
       const { data: notesData, error: notesError } = await supabase
         .from("notes")
-        .select("id, title, file_url, file_name, file_size, content, created_at, sort_order")
+        .select("id, title, file_url, file_name, file_size, content, note_type, created_at, sort_order")
         .eq("topic_id", topicData.id)
-        .or("file_url.not.is.null,content.not.is.null")
         .order("sort_order", { ascending: true, nullsFirst: false })
         .order("created_at", { ascending: false });
 
@@ -127,13 +141,11 @@ const SharedTopicPage = () => {
           variant: "destructive",
         });
       } else {
-        // Filter to only include notes with file_url OR content that is a URL
+        // Skip file or link rows that are missing their file or URL
         const filteredData = (notesData || []).filter((note) => {
-          if (note.file_url) return true; // File-based note
-          if (note.content && (note.content.startsWith("http://") || note.content.startsWith("https://"))) {
-            return true; // Link-based note
-          }
-          return false;
+          if (isMarkdownNote(note)) return true;
+          if (isLinkNote(note)) return !!note.content;
+          return !!note.file_url;
         });
         
         // Ensure all notes have a sort_order value
@@ -154,114 +166,6 @@ const SharedTopicPage = () => {
     }
   };
 
-  /**
-   * Extracts YouTube video ID from various YouTube URL formats.
-   */
-  const extractYouTubeVideoId = (url: string | null): string | null => {
-    if (!url) return null;
-    
-    const youtubeRegex = /(?:youtube\.com\/(?:[^\/]+\/.+\/|(?:v|e(?:mbed)?)\/|.*[?&]v=)|youtu\.be\/)([^"&?\/\s]{11})/;
-    const match = url.match(youtubeRegex);
-    return match ? match[1] : null;
-  };
-
-  /**
-   * Generates YouTube embed URL from video ID.
-   */
-  const getYouTubeEmbedUrl = (videoId: string): string => {
-    return `https://www.youtube.com/embed/${videoId}`;
-  };
-
-  /**
-   * Checks if a URL is a YouTube URL.
-   */
-  const isYouTubeUrl = (url: string): boolean => {
-    return /(?:youtube\.com|youtu\.be)/.test(url);
-  };
-
-  /**
-   * Checks if a URL is a Google Drive URL.
-   */
-  const isGoogleDriveUrl = (url: string): boolean => {
-    return /drive\.google\.com/.test(url);
-  };
-
-  /**
-   * Extracts Google Drive file ID from various URL formats.
-   */
-  const extractGoogleDriveFileId = (url: string): string | null => {
-    const patterns = [
-      /\/file\/d\/([a-zA-Z0-9_-]+)/,
-      /[?&]id=([a-zA-Z0-9_-]+)/,
-      /\/uc\?id=([a-zA-Z0-9_-]+)/,
-    ];
-
-    for (const pattern of patterns) {
-      const match = url.match(pattern);
-      if (match && match[1]) {
-        return match[1];
-      }
-    }
-    return null;
-  };
-
-  /**
-   * Converts a Google Drive URL to a viewable format.
-   */
-  const convertGoogleDriveToViewer = (url: string): string => {
-    const fileId = extractGoogleDriveFileId(url);
-    if (fileId) {
-      return `https://drive.google.com/file/d/${fileId}/preview`;
-    }
-    return url;
-  };
-
-  /**
-   * Checks if a URL points to a directly viewable file (PDF, image, etc.).
-   */
-  const isDirectFileUrl = (url: string): boolean => {
-    const directFileExtensions = /\.(pdf|jpg|jpeg|png|gif|webp|svg|mp4|webm|mp3|ogg)$/i;
-    return directFileExtensions.test(url);
-  };
-
-  /**
-   * Converts a YouTube URL to an embeddable format.
-   */
-  const convertToYouTubeEmbed = (url: string): string => {
-    const videoId = extractYouTubeVideoId(url);
-    if (videoId) {
-      return `https://www.youtube.com/embed/${videoId}`;
-    }
-    return url;
-  };
-
-  /**
-   * Converts various file hosting URLs to viewable formats.
-   */
-  const convertUrlToViewable = (url: string): string => {
-    if (isYouTubeUrl(url)) {
-      return convertToYouTubeEmbed(url);
-    }
-    if (isGoogleDriveUrl(url)) {
-      return convertGoogleDriveToViewer(url);
-    }
-    return url;
-  };
-
-  /**
-   * Extracts the storage path from a file_url.
-   */
-  const extractStoragePath = (fileUrl: string | null): string | null => {
-    if (!fileUrl) return null;
-    
-    if (!fileUrl.startsWith("http")) {
-      return fileUrl;
-    }
-    
-    const match = fileUrl.match(/\/storage\/v1\/object\/(?:public|sign)\/notes\/(.+)$/);
-    return match ? match[1] : fileUrl;
-  };
-
   /**
    * Generates a signed URL for downloading or previewing a file.
    * Note: This might fail for shared topics due to RLS policies.
@@ -293,16 +197,14 @@ const SharedTopicPage = () => {
     // Handle link-based notes
     if (isLinkNote(note) && note.content) {
       setPreviewNote(note);
-      // Convert URLs to viewable formats (YouTube, Google Drive, etc.)
-      const urlToPreview = convertUrlToViewable(note.content);
-      setPreviewUrl(urlToPreview);
+      setPreviewUrl(note.content);
       return;
     }
 
     // Handle file-based notes
     if (!note.file_url) return;
 
-    const storagePath = extractStoragePath(note.file_url);
+    const storagePath = extractStoragePath("notes", note.file_url);
     if (!storagePath) {
       toast({
         title: "Error",
@@ -325,7 +227,7 @@ const SharedTopicPage = () => {
   const handleDownload = async (note: TopicNote) => {
     if (!note.file_url) return;
 
-    const storagePath = extractStoragePath(note.file_url);
+    const storagePath = extractStoragePath("notes", note.file_url);
     if (!storagePath) {
       toast({
         title: "Error",
@@ -354,13 +256,6 @@ const SharedTopicPage = () => {
     return fileName.toLowerCase().endsWith(".pdf");
   };
 
-  /**
-   * Gets Office Online viewer URL for PPT/PPTX files.
-   */
-  const getOfficeOnlineUrl = (signedUrl: string): string => {
-    return `https://view.officeapps.live.com/op/embed.aspx?src=${encodeURIComponent(signedUrl)}`;
-  };
-
   if (loading) {
     return (
       <AppSidebarLayout>
@@ -416,13 +311,13 @@ const SharedTopicPage = () => {
         </header>
 
         {/* YouTube Video Section */}
-        {topic.video_url && extractYouTubeVideoId(topic.video_url) && (
+        {topic.video_url && getYouTubeEmbedUrl(topic.video_url) && (
           <section>
             <h2 className="text-sm font-semibold mb-3">Video</h2>
             <Card className="p-4">
               <div className="aspect-video w-full">
                 <iframe
-                  src={getYouTubeEmbedUrl(extractYouTubeVideoId(topic.video_url)!)}
+                  src={getYouTubeEmbedUrl(topic.video_url)!}
                   title={topic.name}
                   allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
                   allowFullScreen
@@ -444,6 +339,7 @@ const SharedTopicPage = () => {
             <div className="space-y-3">
               {notes.map((note) => {
                 const isLink = isLinkNote(note);
+                const isMarkdown = isMarkdownNote(note);
                 return (
                   <Card key={note.id} className="p-4 flex items-center justify-between">
                     <div className="flex items-center gap-3 flex-1">
@@ -452,6 +348,8 @@ const SharedTopicPage = () => {
                       }`}>
                         {isLink ? (
                           <LinkIcon className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+                        ) : isMarkdown ? (
+                          <NotebookPen className="w-4 h-4 text-primary" />
                         ) : (
                           <FileText className="w-4 h-4 text-primary" />
                         )}
@@ -462,6 +360,8 @@ const SharedTopicPage = () => {
                           <p className="text-xs text-muted-foreground truncate">
                             {note.content}
                           </p>
+                        ) : isMarkdown ? (
+                          <p className="text-xs text-muted-foreground">Markdown note</p>
                         ) : note.file_size != null ? (
                           <p className="text-xs text-muted-foreground">
                             {(note.file_size / (1024 * 1024)).toFixed(2)} MB
@@ -479,6 +379,15 @@ const SharedTopicPage = () => {
                         >
                           <ExternalLink className="w-4 h-4" />
                         </Button>
+                      ) : isMarkdown ? (
+                        <Button
+                          size="icon"
+                          variant="outline"
+                          onClick={() => setReadingNote(note)}
+                          title="Read note"
+                        >
+                          <Eye className="w-4 h-4" />
+                        </Button>
                       ) : note.file_url ? (
                         <>
                           <Button
@@ -507,6 +416,22 @@ const SharedTopicPage = () => {
           )}
         </section>
 
+        {/* Markdown note (read-only) */}
+        <Dialog open={!!readingNote} onOpenChange={(open) => !open && setReadingNote(null)}>
+          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{readingNote?.title}</DialogTitle>
+            </DialogHeader>
+            {readingNote && (
+              readingNote.content?.trim() ? (
+                <MarkdownContent content={readingNote.content} />
+              ) : (
+                <p className="text-sm text-muted-foreground">This note is empty.</p>
+              )
+            )}
+          </DialogContent>
+        </Dialog>
+
         {/* Preview Dialog */}
         <Dialog open={!!previewNote} onOpenChange={(open) => !open && setPreviewNote(null)}>
           <DialogContent className="max-w-4xl max-h-[90vh]">
@@ -515,122 +440,16 @@ const SharedTopicPage = () => {
             </DialogHeader>
             <div className="mt-4">
               {previewUrl && previewNote && (
-                <div className={`w-full ${isLinkNote(previewNote) && (isYouTubeUrl(previewNote.content || "") || isGoogleDriveUrl(previewNote.content || "")) ? "" : "h-[70vh]"}`}>
+                <div className={`w-full ${isLinkNote(previewNote) ? "" : "h-[70vh]"}`}>
                   {isLinkNote(previewNote) ? (
-                    // Link-based notes
-                    isYouTubeUrl(previewNote.content || "") ? (
-                      // YouTube links
-                      <div className="w-full flex flex-col border rounded bg-muted overflow-hidden">
-                        <div className="aspect-video w-full bg-black">
-                          <iframe
-                            src={previewUrl}
-                            className="w-full h-full border-0 rounded"
-                            title={previewNote.title}
-                            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                            allowFullScreen
-                          />
-                        </div>
-                        <div className="p-3 border-t bg-background flex items-center justify-between shrink-0">
-                          <p className="text-xs text-muted-foreground truncate">
-                            Viewing: {previewNote.content}
-                          </p>
-                          <div className="flex gap-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => window.open(previewNote.content || "", "_blank")}
-                            >
-                              Open in new tab
-                            </Button>
-                          </div>
-                        </div>
-                      </div>
-                    ) : isGoogleDriveUrl(previewNote.content || "") ? (
-                      // Google Drive links
-                      <div className="w-full flex flex-col border rounded bg-muted overflow-hidden">
-                        <div className="w-full" style={{ height: "70vh" }}>
-                          <iframe
-                            src={previewUrl}
-                            className="w-full h-full border-0"
-                            title={previewNote.title}
-                            allow="autoplay"
-                          />
-                        </div>
-                        <div className="p-3 border-t bg-background flex items-center justify-between shrink-0">
-                          <p className="text-xs text-muted-foreground truncate">
-                            Viewing: {previewNote.content}
-                          </p>
-                          <div className="flex gap-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => window.open(previewNote.content || "", "_blank")}
-                            >
-                              Open in new tab
-                            </Button>
-                          </div>
-                        </div>
-                      </div>
-                    ) : isDirectFileUrl(previewNote.content || "") ? (
-                      // Direct file URLs
-                      <div className="w-full h-full flex flex-col border rounded bg-muted">
-                        <iframe
-                          src={previewUrl}
-                          className="w-full flex-1 border-0"
-                          title={previewNote.title}
-                        />
-                        <div className="p-3 border-t bg-background flex items-center justify-between">
-                          <p className="text-xs text-muted-foreground truncate">
-                            Viewing: {previewNote.content}
-                          </p>
-                          <div className="flex gap-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => window.open(previewNote.content || "", "_blank")}
-                            >
-                              Open in new tab
-                            </Button>
-                          </div>
-                        </div>
-                      </div>
-                    ) : (
-                      // Other links
-                      <div className="w-full h-full flex flex-col border rounded bg-muted">
-                        <iframe
-                          src={previewUrl}
-                          className="w-full flex-1 border-0"
-                          title={previewNote.title}
-                          sandbox="allow-same-origin allow-scripts allow-popups allow-forms"
-                        />
-                        <div className="p-3 border-t bg-background flex items-center justify-between">
-                          <p className="text-xs text-muted-foreground truncate">
-                            Viewing: {previewNote.content}
-                          </p>
-                          <div className="flex gap-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => window.open(previewNote.content || "", "_blank")}
-                            >
-                              Open in new tab
-                            </Button>
-                          </div>
-                        </div>
-                      </div>
-                    )
+                    <LinkPreviewFrame link={previewNote.content || ""} title={previewNote.title} />
                   ) : canPreviewInline(previewNote.file_name) ? (
-                    // PDF files
-                    <iframe
-                      src={previewUrl}
-                      className="w-full h-full border rounded"
-                      title={previewNote.title}
-                    />
-                  ) : previewNote.file_name?.toLowerCase().endsWith(".ppt") ||
-                    previewNote.file_name?.toLowerCase().endsWith(".pptx") ? (
+                    // PDF files open in the in-app reader
+                    <PdfViewer url={previewUrl} documentKey={previewNote.id} />
+                  ) : isOfficeDocument(previewNote.file_name) ? (
                     <div className="w-full h-full flex flex-col border rounded bg-muted">
                       <iframe
-                        src={getOfficeOnlineUrl(previewUrl)}
+                        src={getOfficeViewerUrl(previewUrl)}
                         className="w-full flex-1 border-0"
                         title={previewNote.title}
                       />
@@ -1,96 +1,86 @@
 import { useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
-import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Plus, Trash2, BookOpen, ChevronUp, ChevronDown, Share2, Copy, Check, ListVideo } from "lucide-react";
+import { ArrowLeft, Plus, Trash2, BookOpen, ChevronUp, ChevronDown, Share2, Copy, Check, ListVideo, Timer } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { AppSidebarLayout } from "@/components/AppSidebarLayout";
-
-interface Subject {
-  id: string;
-  name: string;
-  description: string | null;
-  color: string;
-}
-
-interface Topic {
-  id: string;
-  name: string;
-  description: string | null;
-  revision_count: number;
-  last_revised_at: string | null;
-  video_url: string | null;
-  sort_order: number | null;
-  share_token: string | null;
-  is_shared: boolean | null;
-}
+import { DueRevisionQueue } from "@/components/Revision/DueRevisionQueue";
+import { RecallRatingDialog } from "@/components/Revision/RecallRatingDialog";
+import { PapersLibrary } from "@/components/Papers/PapersLibrary";
+import { useSubject } from "@/hooks/useSubjects";
+import {
+  useCreateTopic,
+  useDeleteTopic,
+  usePatchCachedTopic,
+  useSwapTopicOrder,
+  useTopics,
+  useUpdateTopic,
+} from "@/hooks/useTopics";
+import type { Topic } from "@/lib/repositories/topics";
+import { getYouTubeEmbedUrl, parseLink } from "@/lib/resourceLinks";
+import { recordTopicRevision } from "@/lib/revisions";
+import { isRevisionDue, RecallQuality } from "@/lib/spacedRepetition";
+import { formatStudyMinutes, loadAttributedStudyTime } from "@/lib/studyTime";
 
 const SubjectPage = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
   const { toast } = useToast();
-  const [subject, setSubject] = useState<Subject | null>(null);
-  const [topics, setTopics] = useState<Topic[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: subject, isPending: subjectPending } = useSubject(id);
+  const { data: topics = [], isPending: topicsPending } = useTopics(id);
+  const createTopic = useCreateTopic(id);
+  const updateTopic = useUpdateTopic();
+  const swapTopicOrder = useSwapTopicOrder(id);
+  const deleteTopic = useDeleteTopic(id);
+  const patchCachedTopic = usePatchCachedTopic();
+  const loading = subjectPending || topicsPending;
   const [dialogOpen, setDialogOpen] = useState(false);
   const [newTopic, setNewTopic] = useState({ name: "", description: "", video_url: "" });
   const [shareDialogOpen, setShareDialogOpen] = useState(false);
   const [selectedTopicForShare, setSelectedTopicForShare] = useState<Topic | null>(null);
   const [shareLinkCopied, setShareLinkCopied] = useState(false);
   const [shortenedUrl, setShortenedUrl] = useState<string | null>(null);
+  const [ratingTopic, setRatingTopic] = useState<Topic | null>(null);
+  const [topicMinutes, setTopicMinutes] = useState<Record<string, number>>({});
+
+  // Study time only needs reloading when topics are added or removed, not
+  // whenever a cached topic is patched.
+  const topicIdsKey = topics.map((topic) => topic.id).join(",");
 
   useEffect(() => {
-    if (user && id) {
-      loadSubjectAndTopics();
+    if (user && !topicsPending) {
+      loadStudyTime(topics.map((topic) => topic.id));
     }
-  }, [user, id]);
+  }, [user, topicsPending, topicIdsKey]);
 
   /**
-   * Loads the current subject and its topics.
-   * Orders topics by sort_order (ascending), then by created_at (descending) as fallback.
+   * Loads focus minutes per topic from Pomodoro sessions started with the
+   * topic selected. Failures only hide the numbers, so they are just logged.
    */
-  const loadSubjectAndTopics = async () => {
+  const loadStudyTime = async (topicIds: string[]) => {
+    if (!user) return;
+
     try {
-      const [subjectRes, topicsRes] = await Promise.all([
-        supabase.from("subjects").select("*").eq("id", id).single(),
-        supabase.from("topics")
-          .select("*")
-          .eq("subject_id", id)
-          .order("sort_order", { ascending: true, nullsFirst: false })
-          .order("created_at", { ascending: false }),
-      ]);
-
-      if (subjectRes.error) throw subjectRes.error;
-      if (topicsRes.error) throw topicsRes.error;
-
-      setSubject(subjectRes.data);
-      
-      // Ensure all topics have a sort_order value and is_shared is boolean (not null)
-      const topicsWithSortOrder = (topicsRes.data || []).map((topic, index) => ({
-        ...topic,
-        sort_order: topic.sort_order ?? index + 1,
-        is_shared: topic.is_shared ?? false, // Ensure boolean, not null
-      }));
-      
-      setTopics(topicsWithSortOrder);
-    } catch (error: any) {
-      toast({
-        title: "Error loading data",
-        description: error.message,
-        variant: "destructive",
+      const { byTopic } = await loadAttributedStudyTime(user.id, topicIds);
+      const minutes: Record<string, number> = {};
+      Object.values(byTopic).forEach((entry) => {
+        minutes[entry.topicId] = entry.minutes;
       });
-    } finally {
-      setLoading(false);
+      setTopicMinutes(minutes);
+    } catch (error) {
+      console.error("Error loading topic study time:", error);
     }
   };
 
+  const subjectMinutes = Object.values(topicMinutes).reduce((sum, minutes) => sum + minutes, 0);
+
   /**
    * Counts how many topics have the same name as the given topic.
    */
@@ -98,18 +88,6 @@ const SubjectPage = () => {
     return topics.filter(t => t.name === topicName).length;
   };
 
-  /**
-   * Validates YouTube URL format and extracts video ID if valid.
-   * Supports both youtube.com/watch?v= and youtu.be/ formats.
-   */
-  const validateYouTubeUrl = (url: string): string | null => {
-    if (!url.trim()) return null;
-    
-    const youtubeRegex = /(?:youtube\.com\/(?:[^\/]+\/.+\/|(?:v|e(?:mbed)?)\/|.*[?&]v=)|youtu\.be\/)([^"&?\/\s]{11})/;
-    const match = url.match(youtubeRegex);
-    return match ? match[1] : null;
-  };
-
   /**
    * Handles topic creation with video URL and sort_order.
    */
@@ -123,46 +101,27 @@ const SubjectPage = () => {
       return;
     }
 
-    // Validate YouTube URL if provided
+    // Validate YouTube URL if provided; playlists and start times are kept
     let videoUrl = newTopic.video_url?.trim() || null;
     if (videoUrl) {
-      const videoId = validateYouTubeUrl(videoUrl);
-      if (!videoId) {
+      if (!getYouTubeEmbedUrl(videoUrl)) {
         toast({
           title: "Invalid YouTube URL",
-          description: "Please enter a valid YouTube video URL",
+          description: "Please enter a valid YouTube video or playlist URL",
           variant: "destructive",
         });
         return;
       }
-      // Normalize to embeddable format
-      videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
+      videoUrl = parseLink(videoUrl)!.href;
     }
 
     try {
-      // Get the maximum sort_order for this subject to place new topic at the end
-      const { data: existingTopics } = await supabase
-        .from("topics")
-        .select("sort_order")
-        .eq("subject_id", id!)
-        .order("sort_order", { ascending: false })
-        .limit(1);
-
-      const maxSortOrder = existingTopics && existingTopics.length > 0 
-        ? (existingTopics[0].sort_order ?? 0)
-        : 0;
-
-      const { error } = await supabase.from("topics").insert({
+      await createTopic.mutateAsync({
         name: newTopic.name,
         description: newTopic.description || null,
         video_url: videoUrl,
-        subject_id: id!,
-        user_id: user!.id,
-        sort_order: maxSortOrder + 1,
       });
 
-      if (error) throw error;
-
       toast({
         title: "Success",
         description: "Topic created successfully",
@@ -170,7 +129,6 @@ const SubjectPage = () => {
 
       setDialogOpen(false);
       setNewTopic({ name: "", description: "", video_url: "" });
-      loadSubjectAndTopics();
     } catch (error: any) {
       toast({
         title: "Error creating topic",
@@ -180,32 +138,27 @@ const SubjectPage = () => {
     }
   };
 
-  const handleIncrementRevision = async (topicId: string, currentCount: number) => {
+  /**
+   * Records a revision for the topic being rated and stores its next SM-2
+   * schedule. The recall rating decides how far out the next revision is.
+   */
+  const handleRecordRevision = async (quality: RecallQuality) => {
+    if (!ratingTopic || !user) return;
+    const topic = ratingTopic;
+    setRatingTopic(null);
+
     try {
-      const { error } = await supabase
-        .from("topics")
-        .update({
-          revision_count: currentCount + 1,
-          last_revised_at: new Date().toISOString(),
-        })
-        .eq("id", topicId);
-
-      if (error) throw error;
-
-      setTopics(topics.map(t => 
-        t.id === topicId 
-          ? { ...t, revision_count: currentCount + 1, last_revised_at: new Date().toISOString() }
-          : t
-      ));
+      const update = await recordTopicRevision(user.id, topic, quality);
+      patchCachedTopic(topic, update);
 
       toast({
         title: "Revision recorded",
-        description: "Keep up the great work!",
+        description: `Next revision on ${new Date(update.due_at).toLocaleDateString()}.`,
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error",
-        description: error.message,
+        description: (error as Error).message,
         variant: "destructive",
       });
     }
@@ -217,22 +170,8 @@ const SubjectPage = () => {
   const handleMoveUp = async (topicId: string, currentIndex: number) => {
     if (currentIndex === 0) return; // Already at the top
 
-    const currentTopic = topics[currentIndex];
-    const previousTopic = topics[currentIndex - 1];
-
     try {
-      // Swap sort_order values
-      const [currentSortOrder, previousSortOrder] = [
-        currentTopic.sort_order ?? currentIndex + 1,
-        previousTopic.sort_order ?? currentIndex,
-      ];
-
-      await Promise.all([
-        supabase.from("topics").update({ sort_order: previousSortOrder }).eq("id", currentTopic.id),
-        supabase.from("topics").update({ sort_order: currentSortOrder }).eq("id", previousTopic.id),
-      ]);
-
-      loadSubjectAndTopics();
+      await swapTopicOrder.mutateAsync({ a: topics[currentIndex], b: topics[currentIndex - 1] });
     } catch (error: any) {
       toast({
         title: "Error reordering topic",
@@ -248,22 +187,8 @@ const SubjectPage = () => {
   const handleMoveDown = async (topicId: string, currentIndex: number) => {
     if (currentIndex === topics.length - 1) return; // Already at the bottom
 
-    const currentTopic = topics[currentIndex];
-    const nextTopic = topics[currentIndex + 1];
-
     try {
-      // Swap sort_order values
-      const [currentSortOrder, nextSortOrder] = [
-        currentTopic.sort_order ?? currentIndex + 1,
-        nextTopic.sort_order ?? currentIndex + 2,
-      ];
-
-      await Promise.all([
-        supabase.from("topics").update({ sort_order: nextSortOrder }).eq("id", currentTopic.id),
-        supabase.from("topics").update({ sort_order: currentSortOrder }).eq("id", nextTopic.id),
-      ]);
-
-      loadSubjectAndTopics();
+      await swapTopicOrder.mutateAsync({ a: topics[currentIndex], b: topics[currentIndex + 1] });
     } catch (error: any) {
       toast({
         title: "Error reordering topic",
@@ -305,26 +230,10 @@ const SubjectPage = () => {
         ? crypto.randomUUID() 
         : currentTopic.share_token;
 
-      const { error, data } = await supabase
-        .from("topics")
-        .update({
-          is_shared: newIsShared,
-          share_token: shareToken,
-        })
-        .eq("id", topic.id)
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      // Update local state immediately with the updated topic from database
-      // Ensure boolean values are properly set (not null)
-      const updatedTopic = { 
-        ...data,
-        is_shared: data.is_shared ?? false, // Ensure boolean, not null
-        sort_order: data.sort_order ?? currentTopic.sort_order ?? 1,
-      };
-      setTopics(topics.map(t => t.id === topic.id ? updatedTopic : t));
+      const updatedTopic = await updateTopic.mutateAsync({
+        topic,
+        update: { is_shared: newIsShared, share_token: shareToken },
+      });
 
       if (newIsShared && shareToken) {
         // Generate the full share URL
@@ -413,16 +322,12 @@ const SubjectPage = () => {
 
   const handleDeleteTopic = async (topicId: string) => {
     try {
-      const { error } = await supabase.from("topics").delete().eq("id", topicId);
-
-      if (error) throw error;
+      await deleteTopic.mutateAsync(topicId);
 
       toast({
         title: "Success",
         description: "Topic deleted successfully",
       });
-
-      loadSubjectAndTopics();
     } catch (error: any) {
       toast({
         title: "Error deleting topic",
@@ -452,19 +357,26 @@ const SubjectPage = () => {
               <div className="flex items-center gap-3">
                 <div
                   className="w-3 h-3 rounded-full"
-                  style={{ backgroundColor: subject.color }}
+                  style={{ backgroundColor: subject.color || "#6366f1" }}
                 />
                 <div>
                   <h1 className="text-2xl font-display font-bold">{subject.name}</h1>
                   {subject.description && (
                     <p className="text-sm text-muted-foreground">{subject.description}</p>
                   )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Focus time: {formatStudyMinutes(subjectMinutes)}
+                  </p>
                 </div>
               </div>
             </div>
           </header>
         )}
 
+        {topics.length > 0 && (
+          <DueRevisionQueue subjectId={id} className="mb-8" />
+        )}
+
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-3xl font-display font-bold">Topics</h2>
           <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
@@ -576,6 +488,17 @@ const SubjectPage = () => {
                         <ListVideo className="w-4 h-4 text-blue-600 dark:text-blue-400" />
                       </Button>
                     )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        navigate(`/pomodoro?topic=${topic.id}&start=1`);
+                      }}
+                      title="Start focus session"
+                    >
+                      <Timer className="w-4 h-4" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="icon"
@@ -607,7 +530,7 @@ const SubjectPage = () => {
                       size="sm"
                       onClick={(e) => {
                         e.stopPropagation();
-                        handleIncrementRevision(topic.id, topic.revision_count);
+                        setRatingTopic(topic);
                       }}
                       className="font-mono font-bold"
                     >
@@ -645,17 +568,41 @@ const SubjectPage = () => {
                       </Button>
                     </div>
                   </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-muted-foreground">Focus time</span>
+                    <span className="text-xs font-medium">{formatStudyMinutes(topicMinutes[topic.id] || 0)}</span>
+                  </div>
                   {topic.last_revised_at && (
                     <p className="text-xs text-muted-foreground">
                       Last revised: {new Date(topic.last_revised_at).toLocaleDateString()}
                     </p>
                   )}
+                  {topic.due_at && (
+                    <p className={`text-xs ${isRevisionDue(topic.due_at) ? "text-primary font-medium" : "text-muted-foreground"}`}>
+                      {isRevisionDue(topic.due_at)
+                        ? "Due for revision"
+                        : `Next revision: ${new Date(topic.due_at).toLocaleDateString()}`}
+                    </p>
+                  )}
                 </div>
               </Card>
             ))}
           </div>
         )}
 
+        {id && (
+          <div className="mt-12">
+            <PapersLibrary subjectId={id} />
+          </div>
+        )}
+
+        <RecallRatingDialog
+          open={!!ratingTopic}
+          onOpenChange={(open) => !open && setRatingTopic(null)}
+          topicName={ratingTopic?.name}
+          onRate={handleRecordRevision}
+        />
+
         {/* Share Dialog */}
         <Dialog open={shareDialogOpen} onOpenChange={setShareDialogOpen}>
           <DialogContent>
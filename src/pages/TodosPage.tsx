@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { AppSidebarLayout } from "@/components/AppSidebarLayout";
+import { Todo, useTodos } from "@/hooks/useTodos";
+import { useSubjects } from "@/hooks/useSubjects";
+import { useUserTopics } from "@/hooks/useTopics";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ListTodo, Trash2 } from "lucide-react";
+import { fromLocalDateKey } from "@/lib/dates";
+
+const NO_LINK = "none";
+
+/**
+ * Dedicated todos page with today, upcoming and overdue views.
+ *
+ * The dashboard widget remains the quick-entry surface for today's tasks;
+ * this page adds due dates, subject/topic links and a view of everything
+ * that is planned or late.
+ */
+const TodosPage = () => {
+  const { todos, loading, today, addTodo, toggleTodo, removeTodo } = useTodos();
+  const { data: subjects = [] } = useSubjects();
+  const { data: topics = [] } = useUserTopics();
+  const [newTodo, setNewTodo] = useState({
+    title: "",
+    dueDate: today,
+    subjectId: NO_LINK,
+    topicId: NO_LINK,
+    rollOver: true,
+  });
+
+  const handleAddTodo = async () => {
+    if (!newTodo.title.trim()) return;
+
+    await addTodo({
+      title: newTodo.title,
+      due_date: newTodo.dueDate || today,
+      subject_id: newTodo.subjectId === NO_LINK ? null : newTodo.subjectId,
+      topic_id: newTodo.topicId === NO_LINK ? null : newTodo.topicId,
+      roll_over: newTodo.rollOver,
+    });
+
+    setNewTodo((prev) => ({ ...prev, title: "", topicId: NO_LINK }));
+  };
+
+  const todayTodos = todos.filter((t) => t.due_date === today);
+  const upcomingTodos = todos.filter((t) => t.due_date > today);
+  const overdueTodos = todos.filter((t) => t.due_date < today && !t.completed_at);
+  const topicsForSubject = topics.filter((t) => t.subject_id === newTodo.subjectId);
+
+  const renderTodoList = (items: Todo[], emptyMessage: string, showDate: boolean) => {
+    if (loading) {
+      return (
+        <div className="min-h-[120px] flex items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+        </div>
+      );
+    }
+
+    if (items.length === 0) {
+      return <Card className="p-6 text-sm text-muted-foreground">{emptyMessage}</Card>;
+    }
+
+    return (
+      <Card className="divide-y">
+        {items.map((todo) => (
+          <div key={todo.id} className="flex items-center justify-between gap-3 p-4">
+            <label className="flex items-start gap-3 flex-1 cursor-pointer">
+              <Checkbox
+                className="mt-0.5"
+                checked={!!todo.completed_at}
+                onCheckedChange={() => toggleTodo(todo)}
+              />
+              <div className="space-y-1">
+                <p className={`text-sm ${todo.completed_at ? "line-through text-muted-foreground" : ""}`}>
+                  {todo.title}
+                </p>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  {showDate && (
+                    <span>
+                      {fromLocalDateKey(todo.due_date).toLocaleDateString(undefined, {
+                        weekday: "short",
+                        month: "short",
+                        day: "numeric",
+                      })}
+                    </span>
+                  )}
+                  {todo.subjects && (
+                    <span className="inline-flex items-center gap-1">
+                      <span
+                        className="inline-block w-2 h-2 rounded-full"
+                        style={{ backgroundColor: todo.subjects.color || "#6366f1" }}
+                      />
+                      {todo.subjects.name}
+                      {todo.topics ? ` · ${todo.topics.name}` : ""}
+                    </span>
+                  )}
+                  {todo.rolled_over_count > 0 && !todo.completed_at && (
+                    <span>
+                      Carried over {todo.rolled_over_count} {todo.rolled_over_count === 1 ? "day" : "days"}
+                    </span>
+                  )}
+                  {!todo.roll_over && <span>Hard deadline</span>}
+                </div>
+              </div>
+            </label>
+            <Button variant="ghost" size="icon" onClick={() => removeTodo(todo.id)} title="Delete">
+              <Trash2 className="w-4 h-4 text-destructive" />
+            </Button>
+          </div>
+        ))}
+      </Card>
+    );
+  };
+
+  return (
+    <AppSidebarLayout>
+      <main className="mx-auto max-w-4xl px-6 py-8 space-y-6">
+        <header className="flex items-center gap-3">
+          <ListTodo className="w-6 h-6 text-primary" />
+          <div>
+            <h1 className="text-2xl font-display font-semibold">Todos</h1>
+            <p className="text-sm text-muted-foreground">
+              Plan tasks by day. Unfinished daily todos roll over to the next day automatically.
+            </p>
+          </div>
+        </header>
+
+        <Card className="p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-[2fr,1fr] gap-3">
+            <div>
+              <Label htmlFor="todo-title">Task</Label>
+              <Input
+                id="todo-title"
+                value={newTodo.title}
+                onChange={(e) => setNewTodo({ ...newTodo, title: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleAddTodo();
+                }}
+                placeholder="e.g., Solve 10 integration problems"
+              />
+            </div>
+            <div>
+              <Label htmlFor="todo-date">Due date</Label>
+              <Input
+                id="todo-date"
+                type="date"
+                value={newTodo.dueDate}
+                onChange={(e) => setNewTodo({ ...newTodo, dueDate: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="todo-subject">Subject (optional)</Label>
+              <Select
+                value={newTodo.subjectId}
+                onValueChange={(value) => setNewTodo({ ...newTodo, subjectId: value, topicId: NO_LINK })}
+              >
+                <SelectTrigger id="todo-subject">
+                  <SelectValue placeholder="No subject" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LINK}>No subject</SelectItem>
+                  {subjects.map((subject) => (
+                    <SelectItem key={subject.id} value={subject.id}>
+                      {subject.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="todo-topic">Topic (optional)</Label>
+              <Select
+                value={newTodo.topicId}
+                onValueChange={(value) => setNewTodo({ ...newTodo, topicId: value })}
+                disabled={newTodo.subjectId === NO_LINK}
+              >
+                <SelectTrigger id="todo-topic">
+                  <SelectValue placeholder="No topic" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LINK}>No topic</SelectItem>
+                  {topicsForSubject.map((topic) => (
+                    <SelectItem key={topic.id} value={topic.id}>
+                      {topic.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+              <Checkbox
+                checked={newTodo.rollOver}
+                onCheckedChange={(checked) => setNewTodo({ ...newTodo, rollOver: checked === true })}
+              />
+              Roll over to the next day if unfinished
+            </label>
+            <Button onClick={handleAddTodo} disabled={!newTodo.title.trim()}>
+              Add todo
+            </Button>
+          </div>
+        </Card>
+
+        <Tabs defaultValue="today" className="w-full">
+          <TabsList className="grid w-full grid-cols-3 mb-4">
+            <TabsTrigger value="today">Today ({todayTodos.filter((t) => !t.completed_at).length})</TabsTrigger>
+            <TabsTrigger value="upcoming">Upcoming ({upcomingTodos.filter((t) => !t.completed_at).length})</TabsTrigger>
+            <TabsTrigger value="overdue">Overdue ({overdueTodos.length})</TabsTrigger>
+          </TabsList>
+          <TabsContent value="today">
+            {renderTodoList(todayTodos, "Nothing planned for today.", false)}
+          </TabsContent>
+          <TabsContent value="upcoming">
+            {renderTodoList(upcomingTodos, "No upcoming todos.", true)}
+          </TabsContent>
+          <TabsContent value="overdue">
+            {renderTodoList(overdueTodos, "Nothing overdue. Nice work!", true)}
+          </TabsContent>
+        </Tabs>
+      </main>
+    </AppSidebarLayout>
+  );
+};
+
+export default TodosPage;
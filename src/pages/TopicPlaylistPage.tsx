@@ -1,34 +1,14 @@
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { useAuth } from "@/hooks/useAuth";
-import { supabase } from "@/integrations/supabase/client";
-import { useToast } from "@/hooks/use-toast";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft, Play, FileText, Link as LinkIcon } from "lucide-react";
 import { AppSidebarLayout } from "@/components/AppSidebarLayout";
-
-interface Topic {
-  id: string;
-  name: string;
-  description: string | null;
-  video_url: string | null;
-  subject_id: string;
-}
-
-interface TopicNote {
-  id: string;
-  title: string;
-  file_url: string | null;
-  file_name: string | null;
-  content: string | null;
-  topic_id: string;
-}
-
-interface Subject {
-  id: string;
-  name: string;
-}
+import { useSubject } from "@/hooks/useSubjects";
+import { useTopics } from "@/hooks/useTopics";
+import { useNotesForTopics } from "@/hooks/useTopicNotes";
+import { isLinkNote, isMarkdownNote } from "@/lib/repositories/topicNotes";
+import { getLinkProvider, getYouTubeEmbedUrl } from "@/lib/resourceLinks";
 
 /**
  * Topic playlist page that compiles all topics with the same name
@@ -36,137 +16,30 @@ interface Subject {
  */
 const TopicPlaylistPage = () => {
   const { subjectId, topicName } = useParams<{ subjectId: string; topicName: string }>();
-  const { user } = useAuth();
-  const { toast } = useToast();
   const navigate = useNavigate();
 
-  const [subject, setSubject] = useState<Subject | null>(null);
-  const [topics, setTopics] = useState<Topic[]>([]);
-  const [allResources, setAllResources] = useState<TopicNote[]>([]);
-  const [loading, setLoading] = useState(true);
+  const decodedTopicName = topicName ? decodeURIComponent(topicName) : "";
+  const { data: subject, isPending: subjectPending } = useSubject(subjectId);
+  const { data: subjectTopics = [], isPending: topicsPending } = useTopics(subjectId);
+  const topics = subjectTopics.filter((topic) => topic.name === decodedTopicName);
+  const { data: notes, isPending: notesPending } = useNotesForTopics(topics.map((topic) => topic.id));
+  // Files and links only; Markdown notes are read on each topic's page.
+  const allResources = notes.filter((note) => !isMarkdownNote(note));
+  const loading = subjectPending || topicsPending || (topics.length > 0 && notesPending);
   const [currentVideoIndex, setCurrentVideoIndex] = useState(0);
 
-  useEffect(() => {
-    if (user && subjectId && topicName) {
-      loadPlaylistData();
-    }
-  }, [user, subjectId, topicName]);
-
-  /**
-   * Loads all topics with the same name and their resources.
-   */
-  const loadPlaylistData = async () => {
-    if (!subjectId || !topicName || !user) return;
-
-    try {
-      // Decode the topic name from URL
-      const decodedTopicName = decodeURIComponent(topicName);
-
-      // Load subject
-      const { data: subjectData, error: subjectError } = await supabase
-        .from("subjects")
-        .select("id, name")
-        .eq("id", subjectId)
-        .single();
-
-      if (subjectError) throw subjectError;
-      setSubject(subjectData);
-
-      // Load all topics with the same name
-      const { data: topicsData, error: topicsError } = await supabase
-        .from("topics")
-        .select("id, name, description, video_url, subject_id")
-        .eq("subject_id", subjectId)
-        .eq("user_id", user.id)
-        .eq("name", decodedTopicName)
-        .order("sort_order", { ascending: true, nullsFirst: false })
-        .order("created_at", { ascending: false });
-
-      if (topicsError) throw topicsError;
-      setTopics(topicsData || []);
-
-      // Load all resources (notes/PPTs/links) from all topics with this name
-      if (topicsData && topicsData.length > 0) {
-        const topicIds = topicsData.map(t => t.id);
-        
-        const { data: notesData, error: notesError } = await supabase
-          .from("notes")
-          .select("id, title, file_url, file_name, content, topic_id")
-          .in("topic_id", topicIds)
-          .eq("user_id", user.id)
-          .or("file_url.not.is.null,content.not.is.null")
-          .order("sort_order", { ascending: true, nullsFirst: false })
-          .order("created_at", { ascending: false });
-
-        if (notesError) {
-          console.error("Error loading resources:", notesError);
-        } else {
-          // Filter to only include notes with file_url OR content that is a URL
-          const filteredData = (notesData || []).filter((note) => {
-            if (note.file_url) return true;
-            if (note.content && (note.content.startsWith("http://") || note.content.startsWith("https://"))) {
-              return true;
-            }
-            return false;
-          });
-          setAllResources(filteredData);
-        }
-      }
-    } catch (error: any) {
-      toast({
-        title: "Error loading playlist",
-        description: error.message,
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  /**
-   * Extracts YouTube video ID from various YouTube URL formats.
-   */
-  const extractYouTubeVideoId = (url: string | null): string | null => {
-    if (!url) return null;
-    
-    const youtubeRegex = /(?:youtube\.com\/(?:[^\/]+\/.+\/|(?:v|e(?:mbed)?)\/|.*[?&]v=)|youtu\.be\/)([^"&?\/\s]{11})/;
-    const match = url.match(youtubeRegex);
-    return match ? match[1] : null;
-  };
-
-  /**
-   * Generates YouTube embed URL from video ID.
-   */
-  const getYouTubeEmbedUrl = (videoId: string): string => {
-    return `https://www.youtube.com/embed/${videoId}`;
-  };
-
   /**
    * Gets all videos from topics (filtering out nulls).
    */
   const getVideos = (): string[] => {
     return topics
       .map(topic => topic.video_url)
-      .filter((url): url is string => url !== null && extractYouTubeVideoId(url) !== null);
-  };
-
-  /**
-   * Checks if a note is a link.
-   */
-  const isLinkNote = (note: TopicNote): boolean => {
-    return !note.file_url && !!note.content && (note.content.startsWith("http://") || note.content.startsWith("https://"));
-  };
-
-  /**
-   * Checks if a URL is a YouTube URL.
-   */
-  const isYouTubeUrl = (url: string): boolean => {
-    return /(?:youtube\.com|youtu\.be)/.test(url);
+      .filter((url): url is string => url !== null && getYouTubeEmbedUrl(url) !== null);
   };
 
   const videos = getVideos();
   const currentVideo = videos[currentVideoIndex] || null;
-  const currentVideoId = currentVideo ? extractYouTubeVideoId(currentVideo) : null;
+  const currentEmbedUrl = getYouTubeEmbedUrl(currentVideo);
 
   if (loading) {
     return (
@@ -232,10 +105,10 @@ const TopicPlaylistPage = () => {
               {/* Main Video Player */}
               <div className="lg:col-span-2">
                 <Card className="p-4">
-                  {currentVideoId ? (
+                  {currentEmbedUrl ? (
                     <div className="aspect-video w-full bg-black rounded">
                       <iframe
-                        src={getYouTubeEmbedUrl(currentVideoId)}
+                        src={currentEmbedUrl}
                         className="w-full h-full border-0 rounded"
                         title={`${topics[0].name} - Video ${currentVideoIndex + 1}`}
                         allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
@@ -256,7 +129,6 @@ const TopicPlaylistPage = () => {
                   Playlist
                 </h3>
                 {videos.map((videoUrl, index) => {
-                  const videoId = extractYouTubeVideoId(videoUrl);
                   const isActive = index === currentVideoIndex;
                   
                   return (
@@ -303,7 +175,7 @@ const TopicPlaylistPage = () => {
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               {allResources.map((resource) => {
                 const isLink = isLinkNote(resource);
-                const isYouTube = isLink && resource.content && isYouTubeUrl(resource.content);
+                const isYouTube = isLink && getLinkProvider(resource.content) === "youtube";
                 
                 return (
                   <Card
@@ -1,8 +1,6 @@
 import { useEffect, useState } from "react";
-import { useNavigate, useParams } from "react-router-dom";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { AppSidebarLayout } from "@/components/AppSidebarLayout";
-import { supabase } from "@/integrations/supabase/client";
-import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -13,154 +11,70 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { ArrowLeft, FileText, Trash2, FileDown, Eye, ChevronUp, ChevronDown, Link as LinkIcon, ExternalLink } from "lucide-react";
-
-interface Subject {
-  id: string;
-  name: string;
-}
-
-interface Topic {
-  id: string;
-  name: string;
-  video_url: string | null;
-}
-
-interface TopicNote {
-  id: string;
-  title: string;
-  file_url: string | null;
-  file_name: string | null;
-  file_size: number | null;
-  content: string | null; // Used to store link URLs
-  created_at: string | null;
-  sort_order: number | null;
-}
-
-/**
- * Checks if a note is a link (has content URL but no file_url).
- */
-const isLinkNote = (note: TopicNote): boolean => {
-  return !note.file_url && !!note.content && (note.content.startsWith("http://") || note.content.startsWith("https://"));
-};
+import { ArrowLeft, FileText, Trash2, FileDown, Eye, ChevronUp, ChevronDown, Link as LinkIcon, ExternalLink, NotebookPen, Pencil, Bot } from "lucide-react";
+import { LinkPreviewFrame } from "@/components/Notes/LinkPreviewFrame";
+import { MarkdownNote, MarkdownNoteEditor } from "@/components/Notes/MarkdownNoteEditor";
+import { AnnotatedPdfViewer } from "@/components/Pdf/AnnotatedPdfViewer";
+import { TopicPracticeCard } from "@/components/Practice/TopicPracticeCard";
+import { useSubject } from "@/hooks/useSubjects";
+import { useTopic } from "@/hooks/useTopics";
+import {
+  useAddTopicLink,
+  useCreateMarkdownNote,
+  useDeleteTopicNote,
+  usePatchCachedTopicNote,
+  useSwapTopicNoteOrder,
+  useTopicNotes,
+  useUploadTopicFile,
+} from "@/hooks/useTopicNotes";
+import { isLinkNote, isMarkdownNote, TOPIC_NOTES_BUCKET, TopicNote } from "@/lib/repositories/topicNotes";
+import { getOfficeViewerUrl, getYouTubeEmbedUrl, isOfficeDocument } from "@/lib/resourceLinks";
+import { createSignedStorageUrl, extractStoragePath } from "@/lib/storage";
 
 /**
- * Topic resources page for managing PPTs associated with a specific topic.
+ * Topic resources page for managing PPTs, links and Markdown notes
+ * associated with a specific topic.
  *
- * This uses the existing `notes` table and `notes` storage bucket to store
- * uploaded PPT/PPTX/PDF files, so no schema changes are required.
+ * This uses the existing `notes` table and `notes` storage bucket; each row's
+ * `note_type` says whether it is an uploaded file, a link or a Markdown note.
  */
 const TopicResourcesPage = () => {
   const { subjectId, topicId } = useParams<{ subjectId: string; topicId: string }>();
-  const { user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
-
-  const [subject, setSubject] = useState<Subject | null>(null);
-  const [topic, setTopic] = useState<Topic | null>(null);
-  const [notes, setNotes] = useState<TopicNote[]>([]);
-  const [uploading, setUploading] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const { data: subject } = useSubject(subjectId);
+  const { data: topic } = useTopic(topicId);
+  const { data: notes = [] } = useTopicNotes(topicId);
+  const topicRef = subjectId && topicId ? { id: topicId, subject_id: subjectId } : null;
+  const uploadFile = useUploadTopicFile(topicRef);
+  const addLink = useAddTopicLink(topicRef);
+  const createMarkdownNote = useCreateMarkdownNote(topicRef);
+  const swapNoteOrder = useSwapTopicNoteOrder(topicId);
+  const deleteNote = useDeleteTopicNote(topicId);
+  const patchCachedNote = usePatchCachedTopicNote();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewNote, setPreviewNote] = useState<TopicNote | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  /** PDF page to open the preview at, e.g. when following an AI tutor citation. */
+  const [previewPage, setPreviewPage] = useState<number | null>(null);
   const [linkDialogOpen, setLinkDialogOpen] = useState(false);
   const [newLink, setNewLink] = useState({ title: "", url: "" });
-
-  useEffect(() => {
-    if (user && subjectId && topicId) {
-      loadTopicContext();
-      loadNotes();
-    }
-  }, [user, subjectId, topicId]);
+  const [editingNote, setEditingNote] = useState<MarkdownNote | null>(null);
 
   /**
-   * Loads subject and topic metadata so the header can show clear context.
-   * Also loads video_url for YouTube video display.
+   * `?note=<id>&page=<n>` comes from an AI tutor citation: open that note (at
+   * the cited PDF page) once the resource list has loaded.
    */
-  const loadTopicContext = async () => {
-    try {
-      const [subjectRes, topicRes] = await Promise.all([
-        supabase.from("subjects").select("id, name").eq("id", subjectId).single(),
-        supabase.from("topics").select("id, name, video_url").eq("id", topicId).single(),
-      ]);
-
-      if (subjectRes.error) throw subjectRes.error;
-      if (topicRes.error) throw topicRes.error;
-
-      setSubject(subjectRes.data);
-      setTopic(topicRes.data);
-    } catch (error: any) {
-      toast({
-        title: "Error loading topic",
-        description: error.message,
-        variant: "destructive",
-      });
-    }
-  };
-
-  /**
-   * Extracts YouTube video ID from various YouTube URL formats.
-   * Supports youtube.com/watch?v=, youtube.com/embed/, and youtu.be/ formats.
-   */
-  const extractYouTubeVideoId = (url: string | null): string | null => {
-    if (!url) return null;
-    
-    const youtubeRegex = /(?:youtube\.com\/(?:[^\/]+\/.+\/|(?:v|e(?:mbed)?)\/|.*[?&]v=)|youtu\.be\/)([^"&?\/\s]{11})/;
-    const match = url.match(youtubeRegex);
-    return match ? match[1] : null;
-  };
-
-  /**
-   * Generates YouTube embed URL from video ID.
-   */
-  const getYouTubeEmbedUrl = (videoId: string): string => {
-    return `https://www.youtube.com/embed/${videoId}`;
-  };
-
-  /**
-   * Loads notes with file attachments and links for this topic.
-   * Includes both file-based notes (file_url) and link-based notes (content with URL).
-   * Orders by sort_order (ascending), then by created_at (descending) as fallback.
-   */
-  const loadNotes = async () => {
-    if (!topicId || !user) return;
+  useEffect(() => {
+    const noteId = searchParams.get("note");
+    if (!noteId || notes.length === 0) return;
 
-    try {
-      const { data, error } = await supabase
-        .from("notes")
-        .select("id, title, file_url, file_name, file_size, content, created_at, sort_order")
-        .eq("topic_id", topicId)
-        .eq("user_id", user.id)
-        .or("file_url.not.is.null,content.not.is.null")
-        .order("sort_order", { ascending: true, nullsFirst: false })
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      
-      // Filter to only include notes with file_url OR content that is a URL
-      const filteredData = (data || []).filter((note) => {
-        if (note.file_url) return true; // File-based note
-        if (note.content && (note.content.startsWith("http://") || note.content.startsWith("https://"))) {
-          return true; // Link-based note
-        }
-        return false;
-      });
-      
-      // Ensure all notes have a sort_order value
-      const notesWithSortOrder = filteredData.map((note, index) => ({
-        ...note,
-        sort_order: note.sort_order ?? index + 1,
-      }));
-      
-      setNotes(notesWithSortOrder);
-    } catch (error: any) {
-      toast({
-        title: "Error loading resources",
-        description: error.message,
-        variant: "destructive",
-      });
-    }
-  };
+    const page = Number(searchParams.get("page")) || null;
+    setSearchParams({}, { replace: true });
+    handleOpenSource(noteId, page);
+  }, [notes]);
 
   /**
    * Handles PPT/PPTX/PDF uploads into the existing `notes` storage bucket.
@@ -175,50 +89,8 @@ const TopicResourcesPage = () => {
       return;
     }
 
-    if (!user || !subjectId || !topicId) return;
-
-    setUploading(true);
     try {
-      const path = `${user.id}/${subjectId}/${topicId}/${selectedFile.name}`;
-
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from("notes")
-        .upload(path, selectedFile, {
-          cacheControl: "3600",
-          upsert: false,
-        });
-
-      if (uploadError) throw uploadError;
-
-      /**
-       * Store the storage path directly in file_url so we can generate signed URLs later.
-       * Since the bucket is private, we can't use public URLs.
-       */
-      // Get the maximum sort_order for this topic to place new note at the end
-      const { data: existingNotes } = await supabase
-        .from("notes")
-        .select("sort_order")
-        .eq("topic_id", topicId)
-        .order("sort_order", { ascending: false })
-        .limit(1);
-
-      const maxSortOrder = existingNotes && existingNotes.length > 0 
-        ? (existingNotes[0].sort_order ?? 0)
-        : 0;
-
-      const { error: insertError } = await supabase.from("notes").insert({
-        user_id: user.id,
-        topic_id: topicId,
-        subject_id: subjectId,
-        title: selectedFile.name.replace(/\.[^.]+$/, ""),
-        file_url: uploadData.path, // Store the storage path, not a public URL
-        file_name: selectedFile.name,
-        file_size: selectedFile.size,
-        sort_order: maxSortOrder + 1,
-        content: null, // No content for file-based notes
-      });
-
-      if (insertError) throw insertError;
+      await uploadFile.mutateAsync(selectedFile);
 
       toast({
         title: "PPT uploaded",
@@ -226,35 +98,13 @@ const TopicResourcesPage = () => {
       });
 
       setSelectedFile(null);
-      loadNotes();
     } catch (error: any) {
       toast({
         title: "Error uploading PPT",
         description: error.message,
         variant: "destructive",
       });
-    } finally {
-      setUploading(false);
-    }
-  };
-
-  /**
-   * Extracts the storage path from a file_url.
-   * Handles both old public URLs and new path-only storage.
-   */
-  const extractStoragePath = (fileUrl: string | null): string | null => {
-    if (!fileUrl) return null;
-    
-    // If it's already a path (no http), return as-is
-    if (!fileUrl.startsWith("http")) {
-      return fileUrl;
     }
-    
-    // Extract path from Supabase storage URL
-    // Format: https://<project>.supabase.co/storage/v1/object/public/notes/path/to/file
-    // or: https://<project>.supabase.co/storage/v1/object/sign/notes/path/to/file
-    const match = fileUrl.match(/\/storage\/v1\/object\/(?:public|sign)\/notes\/(.+)$/);
-    return match ? match[1] : fileUrl;
   };
 
   /**
@@ -262,12 +112,7 @@ const TopicResourcesPage = () => {
    */
   const getSignedUrl = async (filePath: string, expiresIn: number = 3600): Promise<string | null> => {
     try {
-      const { data, error } = await supabase.storage
-        .from("notes")
-        .createSignedUrl(filePath, expiresIn);
-
-      if (error) throw error;
-      return data?.signedUrl || null;
+      return await createSignedStorageUrl(TOPIC_NOTES_BUCKET, filePath, expiresIn);
     } catch (error: any) {
       console.error("Error generating signed URL:", error);
       toast({
@@ -285,7 +130,7 @@ const TopicResourcesPage = () => {
   const handleDownload = async (note: TopicNote) => {
     if (!note.file_url) return;
 
-    const storagePath = extractStoragePath(note.file_url);
+    const storagePath = extractStoragePath(TOPIC_NOTES_BUCKET, note.file_url);
     if (!storagePath) {
       toast({
         title: "Error",
@@ -308,105 +153,38 @@ const TopicResourcesPage = () => {
   };
 
   /**
-   * Checks if a URL is a YouTube URL.
-   */
-  const isYouTubeUrl = (url: string): boolean => {
-    return /(?:youtube\.com|youtu\.be)/.test(url);
-  };
-
-  /**
-   * Checks if a URL is a Google Drive URL.
-   */
-  const isGoogleDriveUrl = (url: string): boolean => {
-    return /drive\.google\.com/.test(url);
-  };
-
-  /**
-   * Extracts Google Drive file ID from various URL formats.
-   */
-  const extractGoogleDriveFileId = (url: string): string | null => {
-    // Matches formats like:
-    // https://drive.google.com/file/d/FILE_ID/view
-    // https://drive.google.com/open?id=FILE_ID
-    // https://drive.google.com/uc?id=FILE_ID
-    const patterns = [
-      /\/file\/d\/([a-zA-Z0-9_-]+)/,
-      /[?&]id=([a-zA-Z0-9_-]+)/,
-      /\/uc\?id=([a-zA-Z0-9_-]+)/,
-    ];
-
-    for (const pattern of patterns) {
-      const match = url.match(pattern);
-      if (match && match[1]) {
-        return match[1];
-      }
-    }
-    return null;
-  };
-
-  /**
-   * Converts a Google Drive URL to a viewable format.
-   */
-  const convertGoogleDriveToViewer = (url: string): string => {
-    const fileId = extractGoogleDriveFileId(url);
-    if (fileId) {
-      // Use Google Drive viewer for better compatibility
-      return `https://drive.google.com/file/d/${fileId}/preview`;
-    }
-    return url; // Return original URL if file ID not found
-  };
-
-  /**
-   * Checks if a URL points to a directly viewable file (PDF, image, etc.).
-   */
-  const isDirectFileUrl = (url: string): boolean => {
-    const directFileExtensions = /\.(pdf|jpg|jpeg|png|gif|webp|svg|mp4|webm|mp3|ogg)$/i;
-    return directFileExtensions.test(url);
-  };
-
-  /**
-   * Converts a YouTube URL to an embeddable format.
+   * Opens a cited note: Markdown notes in the editor, files and links in the
+   * preview dialog at the cited PDF page.
    */
-  const convertToYouTubeEmbed = (url: string): string => {
-    const videoId = extractYouTubeVideoId(url);
-    if (videoId) {
-      return `https://www.youtube.com/embed/${videoId}`;
+  const handleOpenSource = (noteId: string, page: number | null) => {
+    const note = notes.find((n) => n.id === noteId);
+    if (!note) return;
+
+    if (isMarkdownNote(note)) {
+      setEditingNote(note);
+    } else {
+      handlePreview(note, page);
     }
-    return url; // Return original URL if not a valid YouTube URL
-  };
-
-  /**
-   * Converts various file hosting URLs to viewable formats.
-   */
-  const convertUrlToViewable = (url: string): string => {
-    if (isYouTubeUrl(url)) {
-      return convertToYouTubeEmbed(url);
-    }
-    if (isGoogleDriveUrl(url)) {
-      return convertGoogleDriveToViewer(url);
-    }
-    // For direct file URLs, return as-is (they can be viewed directly)
-    return url;
   };
 
   /**
    * Handles file preview by generating a signed URL and opening it in a dialog.
    * For link-based notes, converts URLs to viewable formats (YouTube, Google Drive, etc.).
    */
-  const handlePreview = async (note: TopicNote) => {
+  const handlePreview = async (note: TopicNote, page: number | null = null) => {
+    setPreviewPage(page);
+
     // Handle link-based notes
     if (isLinkNote(note) && note.content) {
       setPreviewNote(note);
-      // Convert URLs to viewable formats (YouTube, Google Drive, etc.)
-      const urlToPreview = convertUrlToViewable(note.content);
-      setPreviewUrl(urlToPreview);
+      setPreviewUrl(note.content);
       return;
     }
 
     // Handle file-based notes
     if (!note.file_url) return;
 
-    const storagePath = extractStoragePath(note.file_url);
+    const storagePath = extractStoragePath(TOPIC_NOTES_BUCKET, note.file_url);
     if (!storagePath) {
       toast({
         title: "Error",
@@ -436,38 +214,8 @@ const TopicResourcesPage = () => {
       return;
     }
 
-    // Validate URL format
-    let url = newLink.url.trim();
-    if (!url.startsWith("http://") && !url.startsWith("https://")) {
-      url = `https://${url}`;
-    }
-
     try {
-      // Get the maximum sort_order for this topic to place new link at the end
-      const { data: existingNotes } = await supabase
-        .from("notes")
-        .select("sort_order")
-        .eq("topic_id", topicId)
-        .order("sort_order", { ascending: false })
-        .limit(1);
-
-      const maxSortOrder = existingNotes && existingNotes.length > 0 
-        ? (existingNotes[0].sort_order ?? 0)
-        : 0;
-
-      const { error } = await supabase.from("notes").insert({
-        user_id: user!.id,
-        topic_id: topicId!,
-        subject_id: subjectId!,
-        title: newLink.title.trim(),
-        content: url, // Store the link URL in content field
-        file_url: null, // No file for link-based notes
-        file_name: null,
-        file_size: null,
-        sort_order: maxSortOrder + 1,
-      });
-
-      if (error) throw error;
+      await addLink.mutateAsync(newLink);
 
       toast({
         title: "Link added",
@@ -476,7 +224,6 @@ const TopicResourcesPage = () => {
 
       setLinkDialogOpen(false);
       setNewLink({ title: "", url: "" });
-      loadNotes();
     } catch (error: any) {
       toast({
         title: "Error adding link",
@@ -487,21 +234,34 @@ const TopicResourcesPage = () => {
   };
 
   /**
-   * Determines if a file can be previewed inline (PDFs can be shown in iframe).
+   * Creates an empty Markdown note at the end of the resource list and opens
+   * it in the editor.
    */
-  const canPreviewInline = (fileName: string | null): boolean => {
-    if (!fileName) return false;
-    return fileName.toLowerCase().endsWith(".pdf");
+  const handleCreateMarkdownNote = async () => {
+    try {
+      setEditingNote(await createMarkdownNote.mutateAsync());
+    } catch (error) {
+      toast({
+        title: "Error creating note",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Keeps the resource list in step with autosaves from the editor.
+   */
+  const handleNoteSaved = (saved: MarkdownNote & { updated_at: string }) => {
+    if (topicId) patchCachedNote(topicId, saved.id, saved);
   };
 
   /**
-   * Gets a preview URL for PPT/PPTX files using Office Online viewer.
-   * Note: Office Online requires the file to be publicly accessible or use a special format.
-   * For private files, we'll provide download/open options instead.
+   * Determines if a file can be previewed inline (PDFs open in the in-app reader).
    */
-  const getOfficeOnlineUrl = (signedUrl: string): string => {
-    // Office Online viewer format
-    return `https://view.officeapps.live.com/op/embed.aspx?src=${encodeURIComponent(signedUrl)}`;
+  const canPreviewInline = (fileName: string | null): boolean => {
+    if (!fileName) return false;
+    return fileName.toLowerCase().endsWith(".pdf");
   };
 
   /**
@@ -510,22 +270,8 @@ const TopicResourcesPage = () => {
   const handleMoveUp = async (noteId: string, currentIndex: number) => {
     if (currentIndex === 0) return; // Already at the top
 
-    const currentNote = notes[currentIndex];
-    const previousNote = notes[currentIndex - 1];
-
     try {
-      // Swap sort_order values
-      const [currentSortOrder, previousSortOrder] = [
-        currentNote.sort_order ?? currentIndex + 1,
-        previousNote.sort_order ?? currentIndex,
-      ];
-
-      await Promise.all([
-        supabase.from("notes").update({ sort_order: previousSortOrder }).eq("id", currentNote.id),
-        supabase.from("notes").update({ sort_order: currentSortOrder }).eq("id", previousNote.id),
-      ]);
-
-      loadNotes();
+      await swapNoteOrder.mutateAsync({ a: notes[currentIndex], b: notes[currentIndex - 1] });
     } catch (error: any) {
       toast({
         title: "Error reordering PPT",
@@ -541,22 +287,8 @@ const TopicResourcesPage = () => {
   const handleMoveDown = async (noteId: string, currentIndex: number) => {
     if (currentIndex === notes.length - 1) return; // Already at the bottom
 
-    const currentNote = notes[currentIndex];
-    const nextNote = notes[currentIndex + 1];
-
     try {
-      // Swap sort_order values
-      const [currentSortOrder, nextSortOrder] = [
-        currentNote.sort_order ?? currentIndex + 1,
-        nextNote.sort_order ?? currentIndex + 2,
-      ];
-
-      await Promise.all([
-        supabase.from("notes").update({ sort_order: nextSortOrder }).eq("id", currentNote.id),
-        supabase.from("notes").update({ sort_order: currentSortOrder }).eq("id", nextNote.id),
-      ]);
-
-      loadNotes();
+      await swapNoteOrder.mutateAsync({ a: notes[currentIndex], b: notes[currentIndex + 1] });
     } catch (error: any) {
       toast({
         title: "Error reordering PPT",
@@ -572,22 +304,15 @@ const TopicResourcesPage = () => {
    */
   const handleDeleteNote = async (note: TopicNote) => {
     try {
-      // Delete file from storage if it's a file-based note
-      if (note.file_url && !isLinkNote(note)) {
-        const storagePath = extractStoragePath(note.file_url);
-        if (storagePath) {
-          await supabase.storage.from("notes").remove([storagePath]);
-        }
-      }
-      
-      await supabase.from("notes").delete().eq("id", note.id);
+      await deleteNote.mutateAsync(note);
       toast({
         title: "Deleted",
-        description: isLinkNote(note) 
+        description: isLinkNote(note)
           ? "The link has been removed from this topic."
-          : "The PPT has been removed from this topic.",
+          : isMarkdownNote(note)
+            ? "The note has been removed from this topic."
+            : "The PPT has been removed from this topic.",
       });
-      loadNotes();
     } catch (error: any) {
       toast({
         title: "Error deleting resource",
@@ -614,16 +339,20 @@ const TopicResourcesPage = () => {
               </h1>
             </div>
           </div>
+          <Button variant="outline" onClick={() => navigate(`/ai-tutor?topic=${topicId}`)}>
+            <Bot className="w-4 h-4 mr-2" />
+            Ask AI tutor
+          </Button>
         </header>
 
         {/* YouTube Video Section */}
-        {topic?.video_url && extractYouTubeVideoId(topic.video_url) && (
+        {topic?.video_url && getYouTubeEmbedUrl(topic.video_url) && (
           <section>
             <h2 className="text-sm font-semibold mb-3">Video</h2>
             <Card className="p-4">
               <div className="aspect-video w-full">
                 <iframe
-                  src={getYouTubeEmbedUrl(extractYouTubeVideoId(topic.video_url)!)}
+                  src={getYouTubeEmbedUrl(topic.video_url)!}
                   title={topic.name}
                   allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
                   allowFullScreen
@@ -634,7 +363,7 @@ const TopicResourcesPage = () => {
           </section>
         )}
 
-        <section className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <section className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <Card className="p-6 space-y-4">
             <h2 className="text-sm font-semibold">Upload PPT / PDF</h2>
             <p className="text-xs text-muted-foreground">
@@ -645,8 +374,8 @@ const TopicResourcesPage = () => {
               accept=".ppt,.pptx,.pdf"
               onChange={(e) => setSelectedFile(e.target.files?.[0] || null)}
             />
-            <Button onClick={handleUpload} disabled={uploading || !selectedFile}>
-              {uploading ? "Uploading..." : "Upload file"}
+            <Button onClick={handleUpload} disabled={uploadFile.isPending || !selectedFile}>
+              {uploadFile.isPending ? "Uploading..." : "Upload file"}
             </Button>
           </Card>
 
@@ -670,6 +399,17 @@ const TopicResourcesPage = () => {
               Add Link
             </Button>
           </Card>
+
+          <Card className="p-6 space-y-4">
+            <h2 className="text-sm font-semibold">Write Notes</h2>
+            <p className="text-xs text-muted-foreground">
+              Write your own notes in Markdown with a live preview. Changes save automatically.
+            </p>
+            <Button onClick={handleCreateMarkdownNote}>
+              <NotebookPen className="w-4 h-4 mr-2" />
+              New note
+            </Button>
+          </Card>
         </section>
 
         <section>
@@ -682,6 +422,7 @@ const TopicResourcesPage = () => {
             <div className="space-y-3">
               {notes.map((note, index) => {
                 const isLink = isLinkNote(note);
+                const isMarkdown = isMarkdownNote(note);
                 return (
                   <Card key={note.id} className="p-4 flex items-center justify-between">
                     <div className="flex items-center gap-3 flex-1">
@@ -712,6 +453,8 @@ const TopicResourcesPage = () => {
                       }`}>
                         {isLink ? (
                           <LinkIcon className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+                        ) : isMarkdown ? (
+                          <NotebookPen className="w-4 h-4 text-primary" />
                         ) : (
                           <FileText className="w-4 h-4 text-primary" />
                         )}
@@ -722,6 +465,11 @@ const TopicResourcesPage = () => {
                           <p className="text-xs text-muted-foreground truncate">
                             {note.content}
                           </p>
+                        ) : isMarkdown ? (
+                          <p className="text-xs text-muted-foreground">
+                            Markdown note
+                            {note.updated_at ? ` · edited ${new Date(note.updated_at).toLocaleString()}` : ""}
+                          </p>
                         ) : note.file_size != null ? (
                           <p className="text-xs text-muted-foreground">
                             {(note.file_size / (1024 * 1024)).toFixed(2)} MB
@@ -739,6 +487,15 @@ const TopicResourcesPage = () => {
                         >
                           <ExternalLink className="w-4 h-4" />
                         </Button>
+                      ) : isMarkdown ? (
+                        <Button
+                          size="icon"
+                          variant="outline"
+                          onClick={() => setEditingNote(note)}
+                          title="Edit note"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
                       ) : note.file_url ? (
                         <>
                           <Button
@@ -775,132 +532,45 @@ const TopicResourcesPage = () => {
           )}
         </section>
 
+        <TopicPracticeCard
+          topicId={topicId}
+          topicName={topic?.name}
+          hasSources={notes.some((note) => isMarkdownNote(note) || canPreviewInline(note.file_name))}
+          onOpenSource={handleOpenSource}
+        />
+
+        <MarkdownNoteEditor
+          note={editingNote}
+          onOpenChange={(open) => !open && setEditingNote(null)}
+          onSaved={handleNoteSaved}
+        />
+
         {/* Preview Dialog */}
         <Dialog open={!!previewNote} onOpenChange={(open) => !open && setPreviewNote(null)}>
-          <DialogContent className="max-w-4xl max-h-[90vh]">
+          <DialogContent
+            className={`max-h-[90vh] ${previewNote && canPreviewInline(previewNote.file_name) ? "max-w-6xl w-[95vw]" : "max-w-4xl"}`}
+          >
             <DialogHeader>
               <DialogTitle>{previewNote?.title || "Preview"}</DialogTitle>
             </DialogHeader>
             <div className="mt-4">
               {previewUrl && previewNote && (
-                <div className={`w-full ${isLinkNote(previewNote) && (isYouTubeUrl(previewNote.content || "") || isGoogleDriveUrl(previewNote.content || "")) ? "" : "h-[70vh]"}`}>
+                <div className={`w-full ${isLinkNote(previewNote) ? "" : "h-[70vh]"}`}>
                   {isLinkNote(previewNote) ? (
-                    // Link-based notes - open in iframe
-                    // Special handling for YouTube and Google Drive links
-                    isYouTubeUrl(previewNote.content || "") ? (
-                      // YouTube links - use embed format with proper aspect ratio
-                      <div className="w-full flex flex-col border rounded bg-muted overflow-hidden">
-                        <div className="aspect-video w-full bg-black">
-                          <iframe
-                            src={previewUrl}
-                            className="w-full h-full border-0"
-                            title={previewNote.title}
-                            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                            allowFullScreen
-                          />
-                        </div>
-                        <div className="p-3 border-t bg-background flex items-center justify-between shrink-0">
-                          <p className="text-xs text-muted-foreground truncate">
-                            Viewing: {previewNote.content}
-                          </p>
-                          <div className="flex gap-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => window.open(previewNote.content || "", "_blank")}
-                            >
-                              Open in new tab
-                            </Button>
-                          </div>
-                        </div>
-                      </div>
-                    ) : isGoogleDriveUrl(previewNote.content || "") ? (
-                      // Google Drive links - use viewer format
-                      <div className="w-full flex flex-col border rounded bg-muted overflow-hidden">
-                        <div className="w-full" style={{ height: "70vh" }}>
-                          <iframe
-                            src={previewUrl}
-                            className="w-full h-full border-0"
-                            title={previewNote.title}
-                            allow="autoplay"
-                          />
-                        </div>
-                        <div className="p-3 border-t bg-background flex items-center justify-between shrink-0">
-                          <p className="text-xs text-muted-foreground truncate">
-                            Viewing: {previewNote.content}
-                          </p>
-                          <div className="flex gap-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => window.open(previewNote.content || "", "_blank")}
-                            >
-                              Open in new tab
-                            </Button>
-                          </div>
-                        </div>
-                      </div>
-                    ) : isDirectFileUrl(previewNote.content || "") ? (
-                      // Direct file URLs (PDFs, images, etc.) - can be viewed directly
-                      <div className="w-full h-full flex flex-col border rounded bg-muted">
-                        <iframe
-                          src={previewUrl}
-                          className="w-full flex-1 border-0"
-                          title={previewNote.title}
-                        />
-                        <div className="p-3 border-t bg-background flex items-center justify-between">
-                          <p className="text-xs text-muted-foreground truncate">
-                            Viewing: {previewNote.content}
-                          </p>
-                          <div className="flex gap-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => window.open(previewNote.content || "", "_blank")}
-                            >
-                              Open in new tab
-                            </Button>
-                          </div>
-                        </div>
-                      </div>
-                    ) : (
-                      // Other links - open in iframe with sandbox
-                      <div className="w-full h-full flex flex-col border rounded bg-muted">
-                        <iframe
-                          src={previewUrl}
-                          className="w-full flex-1 border-0"
-                          title={previewNote.title}
-                          sandbox="allow-same-origin allow-scripts allow-popups allow-forms"
-                        />
-                        <div className="p-3 border-t bg-background flex items-center justify-between">
-                          <p className="text-xs text-muted-foreground truncate">
-                            Viewing: {previewNote.content}
-                          </p>
-                          <div className="flex gap-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => window.open(previewNote.content || "", "_blank")}
-                            >
-                              Open in new tab
-                            </Button>
-                          </div>
-                        </div>
-                      </div>
-                    )
+                    <LinkPreviewFrame link={previewNote.content || ""} title={previewNote.title} />
                   ) : canPreviewInline(previewNote.file_name) ? (
-                    // PDF files can be previewed directly in iframe
-                    <iframe
-                      src={previewUrl}
-                      className="w-full h-full border rounded"
+                    // PDF files open in the in-app reader with annotations
+                    <AnnotatedPdfViewer
+                      url={previewUrl}
+                      noteId={previewNote.id}
                       title={previewNote.title}
+                      initialPage={previewPage ?? undefined}
                     />
-                  ) : previewNote.file_name?.toLowerCase().endsWith(".ppt") ||
-                    previewNote.file_name?.toLowerCase().endsWith(".pptx") ? (
-                    // PPT/PPTX files - try Office Online viewer
+                  ) : isOfficeDocument(previewNote.file_name) ? (
+                    // Word, PowerPoint and Excel files - try Office Online viewer
                     <div className="w-full h-full flex flex-col border rounded bg-muted">
                       <iframe
-                        src={getOfficeOnlineUrl(previewUrl)}
+                        src={getOfficeViewerUrl(previewUrl)}
                         className="w-full flex-1 border-0"
                         title={previewNote.title}
                       />
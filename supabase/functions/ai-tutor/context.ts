@@ -0,0 +1,111 @@
+// Builds the tutor's system prompt. When the chat was started from a topic,
+// the client sends the topic details plus numbered sources (Markdown notes and
+// text extracted from PDF pages) and the model is asked to cite them as [n].
+
+export interface TutorSource {
+  id: number;
+  title: string;
+  /** 1-based PDF page, or null for Markdown notes */
+  page: number | null;
+  text: string;
+}
+
+export interface TutorContext {
+  topic: {
+    name: string;
+    description?: string | null;
+    subject?: string | null;
+  };
+  sources?: TutorSource[];
+}
+
+// Hard limits so a large upload cannot blow past the model's context window.
+// The client already trims to roughly the same budget.
+const MAX_SOURCE_CHARS = 8000;
+const MAX_CONTEXT_CHARS = 60000;
+
+const BASE_PROMPT =
+  "You are an expert AI tutor helping students understand complex topics. Provide clear, concise explanations with examples. Break down difficult concepts into simpler parts. Be encouraging and supportive.";
+
+const isSource = (value: unknown): value is TutorSource => {
+  if (typeof value !== "object" || value === null) return false;
+  const source = value as Record<string, unknown>;
+  return (
+    typeof source.id === "number" &&
+    typeof source.title === "string" &&
+    typeof source.text === "string" &&
+    (source.page === null || source.page === undefined || typeof source.page === "number")
+  );
+};
+
+/**
+ * Validates the untrusted `context` field of the request body. Returns null
+ * when it is missing or malformed, so the tutor falls back to a generic chat.
+ */
+export const parseTutorContext = (value: unknown): TutorContext | null => {
+  if (typeof value !== "object" || value === null) return null;
+  const context = value as Record<string, unknown>;
+  const topic = context.topic as Record<string, unknown> | undefined;
+  if (!topic || typeof topic.name !== "string" || !topic.name.trim()) return null;
+
+  return {
+    topic: {
+      name: topic.name,
+      description: typeof topic.description === "string" ? topic.description : null,
+      subject: typeof topic.subject === "string" ? topic.subject : null,
+    },
+    sources: Array.isArray(context.sources) ? context.sources.filter(isSource) : [],
+  };
+};
+
+const formatSourceLabel = (source: TutorSource) =>
+  source.page ? `"${source.title}", page ${source.page}` : `"${source.title}"`;
+
+/**
+ * Returns the system prompt, grounded in the topic's sources when a context
+ * is given.
+ */
+export const buildSystemPrompt = (context: TutorContext | null): string => {
+  if (!context) return BASE_PROMPT;
+
+  const { topic } = context;
+  const lines = [
+    BASE_PROMPT,
+    "",
+    `The student is studying the topic "${topic.name}"${topic.subject ? ` in the subject "${topic.subject}"` : ""}.`,
+  ];
+  if (topic.description?.trim()) {
+    lines.push(`Topic description: ${topic.description.trim()}`);
+  }
+
+  let budget = MAX_CONTEXT_CHARS;
+  const sourceBlocks: string[] = [];
+  for (const source of context.sources || []) {
+    const text = source.text.trim().slice(0, Math.min(MAX_SOURCE_CHARS, budget));
+    if (!text) continue;
+    sourceBlocks.push(`[${source.id}] ${formatSourceLabel(source)}\n${text}`);
+    budget -= text.length;
+    if (budget <= 0) break;
+  }
+
+  if (sourceBlocks.length === 0) {
+    lines.push(
+      "",
+      "The student has not added any readable notes for this topic yet, so answer from general knowledge and say so when relevant.",
+    );
+    return lines.join("\n");
+  }
+
+  lines.push(
+    "",
+    "Below are the student's own study materials for this topic, numbered as sources. Prefer them over general knowledge and keep your terminology consistent with them.",
+    "When a statement is based on a source, cite it inline with its number in square brackets, e.g. [2] or [1][3]. Only cite numbers listed below.",
+    "If the materials do not cover the question, say so briefly before answering from general knowledge, without citations.",
+    "",
+    "SOURCES",
+    "",
+    sourceBlocks.join("\n\n"),
+  );
+
+  return lines.join("\n");
+};
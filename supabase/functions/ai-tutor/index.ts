@@ -1,67 +1,175 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { buildSystemPrompt, parseTutorContext } from "./context.ts";
+import { parseChatMessages } from "./messages.ts";
+import {
+  extractContent,
+  extractTotalTokens,
+  getProviderConfig,
+  normalizeChatStream,
+  resolveModel,
+  sendChatCompletion,
+} from "./providers.ts";
+import { buildGenerationRequest, clampCount, isStudySetKind, parseStudySet } from "./studySets.ts";
+import {
+  estimateTokens,
+  getDailyUsage,
+  getRequestUser,
+  quotaExceededMessage,
+  recordUsage,
+  trackStreamUsage,
+} from "./usage.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+/**
+ * Calls the model and returns its response, or a ready-made error response
+ * for rate-limit and credit errors the client should show as-is.
+ */
+const callModel = async (model: string, payload: Record<string, unknown>): Promise<Response> => {
+  const response = await sendChatCompletion(getProviderConfig(), { model, ...payload });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('AI API error:', response.status, errorText);
+
+    if (response.status === 429) {
+      return jsonResponse({ error: "Rate limit exceeded. Please try again in a moment." }, 429);
+    }
+
+    if (response.status === 402) {
+      return jsonResponse({ error: "AI credits exhausted. Please add more credits to continue." }, 402);
+    }
+
+    throw new Error(`AI API error: ${response.status}`);
+  }
+
+  return response;
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { messages } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+    // The client sends the signed-in user's access token, so every request
+    // can be attributed to a user and counted against their daily quota.
+    const user = await getRequestUser(req);
+    if (!user) {
+      return jsonResponse({ error: "Please sign in to use the AI tutor." }, 401);
+    }
+
+    const { action = "chat", messages, context, kind, count, model: requestedModel } = await req.json();
+    const provider = getProviderConfig();
 
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    // `models`: what the model picker may offer.
+    if (action === "models") {
+      return jsonResponse({
+        provider: provider.name,
+        defaultModel: provider.defaultModel,
+        models: provider.allowedModels,
+      });
     }
 
-    console.log('Starting AI tutor request with', messages.length, 'messages');
+    const model = resolveModel(provider, requestedModel);
+    if (!model) {
+      return jsonResponse(
+        { error: `Model "${requestedModel}" is not available. Choose one of: ${provider.allowedModels.join(", ")}` },
+        400,
+      );
+    }
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert AI tutor helping students understand complex topics. Provide clear, concise explanations with examples. Break down difficult concepts into simpler parts. Be encouraging and supportive."
-          },
-          ...messages
-        ],
-        stream: true,
-      }),
-    });
+    // `usage`: today's token usage for the quota meter on the tutor page.
+    const usage = await getDailyUsage(user.id);
+    if (action === "usage") {
+      return jsonResponse({ usage });
+    }
+
+    if (usage.remaining <= 0) {
+      return jsonResponse({ error: quotaExceededMessage(usage), usage }, 429);
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI API error:', response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+    const tutorContext = parseTutorContext(context);
+
+    // `generate`: build flashcards or a quiz from the topic's sources and
+    // return validated JSON instead of a stream.
+    if (action === "generate") {
+      if (!isStudySetKind(kind)) {
+        return jsonResponse({ error: 'kind must be "flashcards" or "quiz"' }, 400);
+      }
+      if (!tutorContext) {
+        return jsonResponse({ error: "A topic context is required to generate a study set" }, 400);
       }
-      
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "AI credits exhausted. Please add more credits to continue." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+
+      const setCount = clampCount(kind, count);
+      console.log('Generating', setCount, kind, 'with', model, 'from', tutorContext.sources?.length ?? 0, 'topic sources');
+
+      const generationMessages = [
+        { role: "system", content: buildSystemPrompt(tutorContext) },
+        { role: "user", content: buildGenerationRequest(kind, setCount) },
+      ];
+      const response = await callModel(model, {
+        messages: generationMessages,
+        response_format: { type: "json_object" },
+      });
+      if (!response.ok) return response;
+
+      const completion = await response.json();
+      const content = extractContent(completion);
+      if (!content) {
+        throw new Error("The AI returned an empty reply");
       }
 
-      throw new Error(`AI API error: ${response.status}`);
+      await recordUsage(
+        user.id,
+        extractTotalTokens(completion) ?? estimateTokens(JSON.stringify(generationMessages)) + estimateTokens(content),
+      );
+
+      return jsonResponse({ kind, set: parseStudySet(kind, content) });
+    }
+
+    const history = parseChatMessages(messages);
+    if ("error" in history) {
+      return jsonResponse({ error: history.error }, 400);
     }
 
-    return new Response(response.body, {
+    console.log(
+      'Starting AI tutor request to', model, 'with', history.messages.length, 'messages',
+      tutorContext ? `and ${tutorContext.sources?.length ?? 0} topic sources` : 'without topic context'
+    );
+
+    const chatMessages = [
+      {
+        role: "system",
+        content: buildSystemPrompt(tutorContext)
+      },
+      ...history.messages
+    ];
+    const response = await callModel(model, {
+      messages: chatMessages,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    if (!response.ok) return response;
+    if (!response.body) throw new Error("The AI returned an empty stream");
+
+    const body = trackStreamUsage(
+      normalizeChatStream(response),
+      JSON.stringify(chatMessages),
+      (tokens) => recordUsage(user.id, tokens),
+    );
+
+    return new Response(body, {
       headers: {
         ...corsHeaders,
         "Content-Type": "text/event-stream",
@@ -69,12 +177,6 @@ serve(async (req) => {
     });
   } catch (error) {
     console.error("Error in ai-tutor function:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
   }
 });
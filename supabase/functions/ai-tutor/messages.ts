@@ -0,0 +1,37 @@
+// Validates the chat history sent with the `chat` action. Only user and
+// assistant turns are accepted, so a request cannot add its own system
+// prompt after ours, and the history is capped because the daily quota is
+// only charged after the model has read it.
+import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+
+// The client trims long conversations to the same limits.
+export const MAX_CHAT_MESSAGES = 40;
+export const MAX_CHAT_CHARS = 32000;
+
+export const chatMessagesSchema = z
+  .array(
+    z.object({
+      role: z.enum(["user", "assistant"]),
+      content: z.string(),
+    }),
+  )
+  .min(1)
+  .max(MAX_CHAT_MESSAGES)
+  .refine((messages) => messages.reduce((total, message) => total + message.content.length, 0) <= MAX_CHAT_CHARS, {
+    message: `Messages can be at most ${MAX_CHAT_CHARS.toLocaleString("en-US")} characters in total`,
+  });
+
+export type ChatMessage = z.infer<typeof chatMessagesSchema>[number];
+
+/**
+ * Parses the untrusted `messages` field of the request body. Returns the
+ * history without any extra fields, or a message for a 400 response.
+ */
+export const parseChatMessages = (value: unknown): { messages: ChatMessage[] } | { error: string } => {
+  const result = chatMessagesSchema.safeParse(value);
+  if (result.success) return { messages: result.data };
+
+  const [issue] = result.error.issues;
+  const field = ["messages", ...issue.path].join(".");
+  return { error: `Invalid ${field}: ${issue.message}` };
+};
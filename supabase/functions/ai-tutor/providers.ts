@@ -0,0 +1,246 @@
+// Model providers. Any OpenAI-compatible chat completions endpoint works,
+// including local servers (Ollama, LM Studio, llama.cpp, vLLM). The provider
+// is chosen with environment variables:
+//
+//   AI_TUTOR_PROVIDER        lovable (default) | openai | openrouter | local | custom
+//   AI_TUTOR_API_URL         endpoint override; a base URL ending in /v1 is accepted
+//   AI_TUTOR_API_KEY         API key override (local servers usually need none)
+//   AI_TUTOR_MODEL           default model
+//   AI_TUTOR_ALLOWED_MODELS  comma-separated models a request may ask for
+//
+// Whatever the provider streams is normalized to OpenAI-style SSE chunks, so
+// the client only ever parses one format.
+
+interface ProviderPreset {
+  url: string;
+  /** Env var holding the provider's API key, or null when none is needed. */
+  apiKeyEnv: string | null;
+  defaultModel: string;
+  models: string[];
+}
+
+const PRESETS: Record<string, ProviderPreset> = {
+  lovable: {
+    url: "https://ai.gateway.lovable.dev/v1/chat/completions",
+    apiKeyEnv: "LOVABLE_API_KEY",
+    defaultModel: "google/gemini-2.5-flash",
+    models: ["google/gemini-2.5-flash", "google/gemini-2.5-flash-lite", "google/gemini-2.5-pro"],
+  },
+  openai: {
+    url: "https://api.openai.com/v1/chat/completions",
+    apiKeyEnv: "OPENAI_API_KEY",
+    defaultModel: "gpt-4o-mini",
+    models: ["gpt-4o-mini", "gpt-4o"],
+  },
+  openrouter: {
+    url: "https://openrouter.ai/api/v1/chat/completions",
+    apiKeyEnv: "OPENROUTER_API_KEY",
+    defaultModel: "google/gemini-2.5-flash",
+    models: ["google/gemini-2.5-flash", "openai/gpt-4o-mini"],
+  },
+  // Ollama's OpenAI-compatible API, as seen from `supabase functions serve`
+  // running in Docker.
+  local: {
+    url: "http://host.docker.internal:11434/v1/chat/completions",
+    apiKeyEnv: null,
+    defaultModel: "llama3.1",
+    models: ["llama3.1"],
+  },
+};
+
+export interface ProviderConfig {
+  name: string;
+  url: string;
+  apiKey: string | null;
+  defaultModel: string;
+  /** Models a request may select; always includes the default. */
+  allowedModels: string[];
+}
+
+const env = (name: string) => Deno.env.get(name)?.trim() || undefined;
+
+const toCompletionsUrl = (url: string) =>
+  /\/v1\/?$/.test(url) ? `${url.replace(/\/$/, "")}/chat/completions` : url;
+
+let cachedConfig: ProviderConfig | null = null;
+
+/**
+ * Reads the provider configuration from the environment. Throws when the
+ * configuration is incomplete, e.g. a custom provider without a URL or a
+ * hosted provider without its key.
+ */
+export const getProviderConfig = (): ProviderConfig => {
+  if (cachedConfig) return cachedConfig;
+
+  const name = (env("AI_TUTOR_PROVIDER") ?? "lovable").toLowerCase();
+  const preset = PRESETS[name];
+  const url = env("AI_TUTOR_API_URL") ?? preset?.url;
+  if (!url) {
+    throw new Error(`AI_TUTOR_API_URL is required for the "${name}" AI provider`);
+  }
+
+  const apiKey = env("AI_TUTOR_API_KEY") ?? (preset?.apiKeyEnv ? env(preset.apiKeyEnv) : undefined) ?? null;
+  if (!apiKey && preset?.apiKeyEnv) {
+    throw new Error(`${preset.apiKeyEnv} is not configured`);
+  }
+
+  const defaultModel = env("AI_TUTOR_MODEL") ?? preset?.defaultModel;
+  if (!defaultModel) {
+    throw new Error(`AI_TUTOR_MODEL is required for the "${name}" AI provider`);
+  }
+
+  const listed = env("AI_TUTOR_ALLOWED_MODELS")
+    ?.split(",")
+    .map((model) => model.trim())
+    .filter(Boolean);
+  const allowedModels = [...new Set([defaultModel, ...(listed ?? preset?.models ?? [])])];
+
+  cachedConfig = { name, url: toCompletionsUrl(url), apiKey, defaultModel, allowedModels };
+  return cachedConfig;
+};
+
+/**
+ * The model to use for a request: the default when none is requested, the
+ * requested one if it is allowed, otherwise null.
+ */
+export const resolveModel = (config: ProviderConfig, requested: unknown): string | null => {
+  if (requested === undefined || requested === null || requested === "") return config.defaultModel;
+  return typeof requested === "string" && config.allowedModels.includes(requested) ? requested : null;
+};
+
+/** Sends a chat completions request to the provider and returns its raw response. */
+export const sendChatCompletion = (config: ProviderConfig, body: Record<string, unknown>) => {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.apiKey) headers["Authorization"] = `Bearer ${config.apiKey}`;
+
+  return fetch(config.url, { method: "POST", headers, body: JSON.stringify(body) });
+};
+
+/** The fields read from provider replies; everything is optional. */
+interface ProviderChunk {
+  choices?: { delta?: { content?: unknown }; message?: { content?: unknown }; text?: unknown }[];
+  message?: { content?: unknown };
+  response?: unknown;
+  usage?: { total_tokens?: unknown };
+  eval_count?: unknown;
+  prompt_eval_count?: unknown;
+  error?: unknown;
+}
+
+/**
+ * Text of a completion or stream chunk across the formats seen in practice:
+ * OpenAI deltas and messages, legacy `text` completions and Ollama's native
+ * `message` / `response` fields.
+ */
+export const extractContent = (chunk: ProviderChunk): string => {
+  const choice = chunk?.choices?.[0];
+  const content = choice?.delta?.content ?? choice?.message?.content ?? choice?.text ??
+    chunk?.message?.content ?? chunk?.response;
+  return typeof content === "string" ? content : "";
+};
+
+/** Total tokens reported by a chunk, if any. */
+export const extractTotalTokens = (chunk: ProviderChunk): number | null => {
+  const totalTokens = chunk?.usage?.total_tokens;
+  if (typeof totalTokens === "number") return totalTokens;
+  if (typeof chunk?.eval_count === "number") {
+    return chunk.eval_count + (typeof chunk.prompt_eval_count === "number" ? chunk.prompt_eval_count : 0);
+  }
+  return null;
+};
+
+const encoder = new TextEncoder();
+const sseEvent = (data: unknown) => encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+
+/** A readable message for a provider's `error` field, which is a string or an object with `message`. */
+const providerErrorMessage = (error: unknown): string => {
+  const message = typeof error === "string" ? error : (error as { message?: unknown })?.message;
+  return typeof message === "string" && message.trim()
+    ? `The AI provider failed: ${message.trim()}`
+    : "The AI provider failed to finish the reply.";
+};
+
+const emitChunk = (chunk: ProviderChunk, controller: TransformStreamDefaultController<Uint8Array>) => {
+  const content = extractContent(chunk);
+  if (content) controller.enqueue(sseEvent({ choices: [{ index: 0, delta: { content } }] }));
+
+  const totalTokens = extractTotalTokens(chunk);
+  if (totalTokens !== null) controller.enqueue(sseEvent({ choices: [], usage: { total_tokens: totalTokens } }));
+};
+
+/**
+ * Re-emits a provider's streamed reply as OpenAI-style SSE: one
+ * `data: {"choices":[{"delta":{"content":...}}]}` event per text chunk, a
+ * `usage` event when the provider reports tokens, and a final `[DONE]`.
+ * Accepts `data:` lines with or without a space, newline-delimited JSON, and
+ * a plain JSON body from servers that ignore `stream: true`.
+ *
+ * When the provider sends an `error` chunk, the stream ends with a
+ * `data: {"error":{"message":...}}` event and no `[DONE]`, so the client can
+ * tell a failed reply from a finished one.
+ */
+export const normalizeChatStream = (response: Response): ReadableStream<Uint8Array> => {
+  const isJsonBody = (response.headers.get("Content-Type") ?? "").includes("application/json");
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let failed = false;
+
+  /** Emits the chunk, or the error event when it reports an error. */
+  const readChunk = (chunk: ProviderChunk, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (chunk?.error) {
+      console.error("AI provider stream error:", chunk.error);
+      controller.enqueue(sseEvent({ error: { message: providerErrorMessage(chunk.error) } }));
+      failed = true;
+      return;
+    }
+    emitChunk(chunk, controller);
+  };
+
+  const readLine = (rawLine: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    const line = rawLine.replace(/\r$/, "").trim();
+    if (!line || line.startsWith(":") || line.startsWith("event:")) return;
+
+    const payload = line.startsWith("data:") ? line.slice(5).trim() : line;
+    if (payload === "[DONE]") return;
+
+    let chunk: ProviderChunk;
+    try {
+      chunk = JSON.parse(payload);
+    } catch {
+      console.error("Skipping unparseable AI stream line:", line.slice(0, 200));
+      return;
+    }
+    readChunk(chunk, controller);
+  };
+
+  return response.body!.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        buffer += decoder.decode(chunk, { stream: true });
+        if (isJsonBody) return;
+
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          readLine(line, controller);
+          if (failed) {
+            controller.terminate();
+            return;
+          }
+        }
+      },
+      flush(controller) {
+        if (isJsonBody) {
+          try {
+            readChunk(JSON.parse(buffer), controller);
+          } catch {
+            console.error("AI provider returned invalid JSON");
+          }
+        } else if (buffer) {
+          readLine(buffer, controller);
+        }
+        if (!failed) controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      },
+    }),
+  );
+};
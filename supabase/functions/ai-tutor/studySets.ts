@@ -0,0 +1,94 @@
+// Flashcard and quiz generation for the `generate` action. The model is asked
+// for JSON in a fixed shape, which is validated with zod before it is
+// returned, so the client never has to deal with malformed sets.
+import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+
+export type StudySetKind = "flashcards" | "quiz";
+
+// Source numbers refer to the numbered sources in the system prompt.
+const sourceField = z.number().int().positive().nullable().optional();
+
+export const flashcardSetSchema = z.object({
+  flashcards: z
+    .array(
+      z.object({
+        front: z.string().trim().min(1).max(500),
+        back: z.string().trim().min(1).max(2000),
+        source: sourceField,
+      }),
+    )
+    .min(1)
+    .max(30),
+});
+
+export const quizSchema = z.object({
+  title: z.string().trim().min(1).max(120),
+  questions: z
+    .array(
+      z.object({
+        question: z.string().trim().min(1).max(1000),
+        options: z.array(z.string().trim().min(1).max(300)).length(4),
+        answerIndex: z.number().int().min(0).max(3),
+        explanation: z.string().trim().max(1000).default(""),
+        source: sourceField,
+      }),
+    )
+    .min(1)
+    .max(20),
+});
+
+export const DEFAULT_COUNTS: Record<StudySetKind, number> = { flashcards: 10, quiz: 8 };
+const MAX_COUNTS: Record<StudySetKind, number> = { flashcards: 30, quiz: 20 };
+
+export const isStudySetKind = (value: unknown): value is StudySetKind =>
+  value === "flashcards" || value === "quiz";
+
+export const clampCount = (kind: StudySetKind, value: unknown) => {
+  const count = typeof value === "number" && Number.isFinite(value) ? Math.round(value) : DEFAULT_COUNTS[kind];
+  return Math.min(MAX_COUNTS[kind], Math.max(1, count));
+};
+
+/**
+ * The user turn asking for a set. The grounding (topic and sources) comes
+ * from the shared system prompt.
+ */
+export const buildGenerationRequest = (kind: StudySetKind, count: number): string => {
+  if (kind === "flashcards") {
+    return [
+      `Create ${count} flashcards that test the most important ideas of this topic.`,
+      "Each card has a short question or term on the front and a concise, self-contained answer on the back.",
+      'Set "source" to the number of the source a card is based on, or null if it is not based on one.',
+      'Reply with JSON only, in exactly this shape: {"flashcards": [{"front": string, "back": string, "source": number | null}]}',
+    ].join("\n");
+  }
+
+  return [
+    `Create a multiple-choice quiz with ${count} questions on this topic.`,
+    "Each question has exactly 4 options with one correct answer. Make the wrong options plausible.",
+    'Explain briefly why the answer is correct in "explanation".',
+    'Set "source" to the number of the source a question is based on, or null if it is not based on one.',
+    'Reply with JSON only, in exactly this shape: {"title": string, "questions": [{"question": string, "options": [string, string, string, string], "answerIndex": 0-3, "explanation": string, "source": number | null}]}',
+  ].join("\n");
+};
+
+/**
+ * Parses and validates the model's reply. Code fences are tolerated because
+ * some models add them even when asked for plain JSON.
+ */
+export const parseStudySet = (kind: StudySetKind, raw: string) => {
+  const json = raw.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The AI reply was not valid JSON. Please try again.");
+  }
+
+  const result = (kind === "flashcards" ? flashcardSetSchema : quizSchema).safeParse(data);
+  if (!result.success) {
+    console.error("Study set failed validation:", result.error.issues);
+    throw new Error("The AI reply did not match the expected format. Please try again.");
+  }
+  return result.data;
+};
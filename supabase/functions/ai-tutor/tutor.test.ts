@@ -0,0 +1,281 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { findCitedSources, loadTopicTutorContext, toTutorRequestContext } from "@/lib/tutorContext";
+import { getTopicWithSubject } from "@/lib/repositories/topics";
+import { listTopicNotes } from "@/lib/repositories/topicNotes";
+import { extractPdfText } from "@/lib/pdf";
+import { buildSystemPrompt, parseTutorContext } from "./context.ts";
+import { getProviderConfig, normalizeChatStream, sendChatCompletion } from "./providers.ts";
+
+// The client-side context loader reads the topic, its notes and its PDFs
+// through these modules; the tests hand it fixed rows and page texts instead.
+vi.mock("@/lib/repositories/topics", () => ({ getTopicWithSubject: vi.fn() }));
+vi.mock("@/lib/repositories/topicNotes", () => ({ listTopicNotes: vi.fn() }));
+vi.mock("@/lib/storage", () => ({
+  extractStoragePath: (_bucket: string, fileUrl: string | null) => fileUrl,
+  createSignedStorageUrl: async (_bucket: string, path: string) => `https://storage.test/${path}`,
+}));
+vi.mock("@/lib/pdf", () => ({
+  loadPdfDocument: () => ({ promise: Promise.resolve({}), destroy: vi.fn() }),
+  extractPdfText: vi.fn(),
+}));
+
+const TOPIC = {
+  id: "topic-1",
+  subject_id: "subject-1",
+  name: "Photosynthesis",
+  description: "How plants turn light into sugar",
+  subjects: { name: "Biology" },
+};
+
+const MARKDOWN_NOTE = {
+  id: "note-summary",
+  title: "Summary",
+  note_type: "markdown",
+  content: "Chlorophyll absorbs red and blue light.",
+  file_name: null,
+  file_url: null,
+  updated_at: "2026-10-01T09:00:00Z",
+};
+
+const PDF_NOTE = {
+  id: "note-slides",
+  title: "Lecture slides",
+  note_type: "file",
+  content: null,
+  file_name: "slides.pdf",
+  file_url: "user-1/subject-1/topic-1/slides.pdf",
+  updated_at: "2026-10-02T09:00:00Z",
+};
+
+const PDF_PAGES = ["Light reactions happen in the thylakoids.", "The Calvin cycle fixes carbon dioxide."];
+
+/**
+ * A local OpenAI-compatible model: records each chat completions request and
+ * streams back `reply` as SSE deltas, followed by a usage chunk. Objects in
+ * `reply` are sent as raw chunks, e.g. a provider `error`.
+ */
+const stubModel = {
+  requests: [] as { model: string; messages: { role: string; content: string }[] }[],
+  reply: [] as (string | Record<string, unknown>)[],
+};
+
+const readBody = async (req: IncomingMessage) => {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return body;
+};
+
+let server: Server;
+
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    if (req.method !== "POST" || req.url !== "/v1/chat/completions") {
+      res.writeHead(404).end();
+      return;
+    }
+
+    stubModel.requests.push(JSON.parse(await readBody(req)));
+    res.writeHead(200, { "Content-Type": "text/event-stream" });
+    for (const content of stubModel.reply) {
+      const chunk = typeof content === "string" ? { choices: [{ index: 0, delta: { content } }] } : content;
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    }
+    res.write(`data: ${JSON.stringify({ choices: [], usage: { total_tokens: 42 } })}\n\n`);
+    res.end("data: [DONE]\n\n");
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  const env: Record<string, string> = {
+    AI_TUTOR_PROVIDER: "custom",
+    AI_TUTOR_API_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+    AI_TUTOR_MODEL: "stub-model",
+  };
+  vi.stubGlobal("Deno", { env: { get: (name: string) => env[name] } });
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  stubModel.requests = [];
+  stubModel.reply = ["Here you go."];
+  vi.mocked(getTopicWithSubject).mockResolvedValue(TOPIC as never);
+  vi.mocked(listTopicNotes).mockResolvedValue([MARKDOWN_NOTE, PDF_NOTE] as never);
+  vi.mocked(extractPdfText).mockResolvedValue(PDF_PAGES);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+/** Reads a normalized stream back into the answer text, the way the chat page does. */
+const readAnswer = async (stream: ReadableStream<Uint8Array>) => {
+  const text = await new Response(stream).text();
+  return text
+    .split("\n")
+    .filter((line) => line.startsWith("data: ") && line !== "data: [DONE]")
+    .map((line) => JSON.parse(line.slice(6)).choices[0]?.delta?.content ?? "")
+    .join("");
+};
+
+/**
+ * Sends a chat turn the way the `ai-tutor` function does: the request's
+ * `context` is validated, grounded into the system prompt and streamed back
+ * through `normalizeChatStream`.
+ */
+const askTutor = async (context: unknown, question: string) => {
+  const response = await sendChatCompletion(getProviderConfig(), {
+    model: getProviderConfig().defaultModel,
+    messages: [
+      { role: "system", content: buildSystemPrompt(parseTutorContext(context)) },
+      { role: "user", content: question },
+    ],
+    stream: true,
+  });
+  expect(response.ok).toBe(true);
+
+  const answer = await readAnswer(normalizeChatStream(response));
+  const [request] = stubModel.requests;
+  return { answer, request, systemPrompt: request.messages[0].content };
+};
+
+describe("topic context", () => {
+  it("sends the topic, its description, Markdown notes and PDF page text in the system prompt", async () => {
+    const context = await loadTopicTutorContext("user-1", "topic-1");
+    const { request, systemPrompt } = await askTutor(
+      JSON.parse(JSON.stringify(toTutorRequestContext(context))),
+      "What does chlorophyll do?",
+    );
+
+    expect(listTopicNotes).toHaveBeenCalledWith("user-1", "topic-1");
+    expect(request.model).toBe("stub-model");
+    expect(request.messages.map((message) => message.role)).toEqual(["system", "user"]);
+    expect(systemPrompt).toContain('The student is studying the topic "Photosynthesis" in the subject "Biology".');
+    expect(systemPrompt).toContain("Topic description: How plants turn light into sugar");
+    expect(systemPrompt).toContain('[1] "Summary"\nChlorophyll absorbs red and blue light.');
+    expect(systemPrompt).toContain('[2] "Lecture slides", page 1\nLight reactions happen in the thylakoids.');
+    expect(systemPrompt).toContain('[3] "Lecture slides", page 2\nThe Calvin cycle fixes carbon dioxide.');
+  });
+
+  it("skips a PDF that cannot be read and keeps the other notes", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(extractPdfText).mockRejectedValue(new Error("Scanned PDF"));
+    // Extracted text is cached per note version, so re-upload the slides.
+    vi.mocked(listTopicNotes).mockResolvedValue([
+      MARKDOWN_NOTE,
+      { ...PDF_NOTE, updated_at: "2026-10-03T09:00:00Z" },
+    ] as never);
+
+    const context = await loadTopicTutorContext("user-1", "topic-1");
+    const { systemPrompt } = await askTutor(toTutorRequestContext(context), "Summarize this topic.");
+
+    expect(context.sources.map((source) => source.noteId)).toEqual(["note-summary"]);
+    expect(systemPrompt).toContain('[1] "Summary"');
+    expect(systemPrompt).not.toContain("Lecture slides");
+  });
+});
+
+describe("citations", () => {
+  it("resolves cited sources in the streamed answer to their note and PDF page", async () => {
+    const context = await loadTopicTutorContext("user-1", "topic-1");
+    // Markers split across chunks must survive normalization.
+    stubModel.reply = ["Light reactions run in the thylakoids [", "3], powered by ", "light chlorophyll absorbs [1][3]."];
+
+    const { answer } = await askTutor(toTutorRequestContext(context), "Where do the light reactions happen?");
+
+    expect(answer).toBe("Light reactions run in the thylakoids [3], powered by light chlorophyll absorbs [1][3].");
+    expect(findCitedSources(answer, context.sources)).toEqual([
+      { id: 3, noteId: "note-slides", title: "Lecture slides", page: 2 },
+      { id: 1, noteId: "note-summary", title: "Summary", page: null },
+    ]);
+  });
+
+  it("ignores citation numbers that match no source", async () => {
+    const context = await loadTopicTutorContext("user-1", "topic-1");
+    stubModel.reply = ["See [7] and [2]."];
+
+    const { answer } = await askTutor(toTutorRequestContext(context), "Where can I read more?");
+
+    expect(findCitedSources(answer, context.sources)).toEqual([
+      { id: 2, noteId: "note-slides", title: "Lecture slides", page: 1 },
+    ]);
+  });
+});
+
+describe("missing or empty context", () => {
+  it.each([undefined, null, "Photosynthesis", {}, { topic: { name: "   " } }])(
+    "falls back to a generic tutor for %j",
+    async (context) => {
+      expect(parseTutorContext(context)).toBeNull();
+
+      const { answer, systemPrompt } = await askTutor(context, "Explain osmosis.");
+
+      expect(answer).toBe("Here you go.");
+      expect(systemPrompt).toMatch(/^You are an expert AI tutor/);
+      expect(systemPrompt).not.toContain("The student is studying");
+      expect(systemPrompt).not.toContain("SOURCES");
+    },
+  );
+
+  it("tells the model to answer from general knowledge when the topic has no readable notes", async () => {
+    vi.mocked(listTopicNotes).mockResolvedValue([{ ...MARKDOWN_NOTE, content: "  " }] as never);
+
+    const context = await loadTopicTutorContext("user-1", "topic-1");
+    const { systemPrompt } = await askTutor(toTutorRequestContext(context), "Explain photosynthesis.");
+
+    expect(context.sources).toEqual([]);
+    expect(systemPrompt).toContain('The student is studying the topic "Photosynthesis"');
+    expect(systemPrompt).toContain("has not added any readable notes for this topic yet");
+    expect(systemPrompt).not.toContain("SOURCES");
+  });
+
+  it("drops malformed sources from the request context", async () => {
+    const { systemPrompt } = await askTutor(
+      {
+        topic: { name: "Photosynthesis" },
+        sources: [{ id: 1, title: "Summary", page: null, text: "Chlorophyll is green." }, { id: "2", text: 5 }],
+      },
+      "Why are leaves green?",
+    );
+
+    expect(systemPrompt).toMatch(/SOURCES\n\n\[1\] "Summary"\nChlorophyll is green\.$/);
+  });
+});
+
+describe("provider errors", () => {
+  const readEvents = async (stream: ReadableStream<Uint8Array>) =>
+    (await new Response(stream).text()).split("\n\n").filter(Boolean);
+
+  it("ends the stream with an error event instead of an empty reply", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    stubModel.reply = ["Light reactions", { error: { message: "Model overloaded", code: 503 } }, " never sent"];
+
+    const response = await sendChatCompletion(getProviderConfig(), {
+      model: "stub-model",
+      messages: [{ role: "user", content: "Explain photosynthesis." }],
+      stream: true,
+    });
+    const events = await readEvents(normalizeChatStream(response));
+
+    expect(events).toEqual([
+      `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: "Light reactions" } }] })}`,
+      `data: ${JSON.stringify({ error: { message: "The AI provider failed: Model overloaded" } })}`,
+    ]);
+  });
+
+  it("gives a generic message when the provider error has none", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    stubModel.reply = [{ error: true }];
+
+    const response = await sendChatCompletion(getProviderConfig(), { model: "stub-model", messages: [], stream: true });
+    const events = await readEvents(normalizeChatStream(response));
+
+    expect(events).toEqual([
+      `data: ${JSON.stringify({ error: { message: "The AI provider failed to finish the reply." } })}`,
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+// Per-user daily token quota. Usage is stored in `ai_usage_daily` (one row
+// per user per UTC day) and written with the service role through the
+// `record_ai_usage` function, so users can read but never change their usage.
+import { createClient, type User } from "https://esm.sh/@supabase/supabase-js@2";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+export const DAILY_TOKEN_LIMIT = Number(Deno.env.get("AI_TUTOR_DAILY_TOKEN_LIMIT")) || 50000;
+
+export interface DailyUsage {
+  used: number;
+  limit: number;
+  remaining: number;
+  /** When the quota resets (next UTC midnight). */
+  resetsAt: string;
+}
+
+const adminClient = () => createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+const todayKey = () => new Date().toISOString().slice(0, 10);
+
+const nextResetAt = () => {
+  const reset = new Date();
+  reset.setUTCHours(24, 0, 0, 0);
+  return reset.toISOString();
+};
+
+/**
+ * Resolves the signed-in user from the request's bearer token. Returns null
+ * for missing, expired or non-user tokens (e.g. the publishable key).
+ */
+export const getRequestUser = async (req: Request): Promise<User | null> => {
+  const authorization = req.headers.get("Authorization");
+  if (!authorization) return null;
+
+  const client = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data, error } = await client.auth.getUser();
+  if (error || !data.user) return null;
+  return data.user;
+};
+
+const toUsage = (used: number): DailyUsage => ({
+  used,
+  limit: DAILY_TOKEN_LIMIT,
+  remaining: Math.max(0, DAILY_TOKEN_LIMIT - used),
+  resetsAt: nextResetAt(),
+});
+
+export const getDailyUsage = async (userId: string): Promise<DailyUsage> => {
+  const { data, error } = await adminClient()
+    .from("ai_usage_daily")
+    .select("tokens_used")
+    .eq("user_id", userId)
+    .eq("usage_date", todayKey())
+    .maybeSingle();
+
+  if (error) throw new Error(`Could not read AI usage: ${error.message}`);
+  return toUsage(data?.tokens_used ?? 0);
+};
+
+/**
+ * Adds a request's tokens to today's total. Failures are logged rather than
+ * thrown: the answer has already been delivered by the time this runs.
+ */
+export const recordUsage = async (userId: string, tokens: number) => {
+  const { error } = await adminClient().rpc("record_ai_usage", {
+    _user_id: userId,
+    _usage_date: todayKey(),
+    _tokens: Math.max(0, Math.round(tokens)),
+  });
+  if (error) console.error("Error recording AI usage:", error);
+};
+
+export const quotaExceededMessage = (usage: DailyUsage) =>
+  `You've used all ${usage.limit.toLocaleString("en-US")} AI tutor tokens for today. ` +
+  `Your quota resets at midnight UTC.`;
+
+/** Rough token count for providers that do not report usage (~4 chars per token). */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Passes an SSE chat stream through unchanged while counting its tokens.
+ * Uses the `usage` chunk when the provider sends one, and otherwise estimates
+ * from the prompt and the streamed text. `onDone` runs exactly once: before
+ * the stream closes, so usage is saved by the time the client finishes
+ * reading, or when the client cancels, with the tokens streamed so far, so
+ * aborting a reply just before it ends still counts against the quota. A
+ * reply that ends in a provider error event only charges the text streamed
+ * before the error.
+ */
+export const trackStreamUsage = (
+  body: ReadableStream<Uint8Array>,
+  promptText: string,
+  onDone: (tokens: number) => Promise<void>,
+): ReadableStream<Uint8Array> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let completionText = "";
+  let reportedTokens: number | null = null;
+  let failed = false;
+  let recorded = false;
+
+  const readLine = (line: string) => {
+    if (!line.startsWith("data: ")) return;
+    const json = line.slice(6).trim();
+    if (json === "[DONE]") return;
+
+    try {
+      const parsed = JSON.parse(json);
+      if (parsed.error) failed = true;
+      completionText += parsed.choices?.[0]?.delta?.content ?? "";
+      if (typeof parsed.usage?.total_tokens === "number") {
+        reportedTokens = parsed.usage.total_tokens;
+      }
+    } catch {
+      // Partial or non-JSON lines are forwarded as-is and not counted.
+    }
+  };
+
+  const record = async () => {
+    if (recorded) return;
+    recorded = true;
+    if (buffer) readLine(buffer);
+    if (failed) {
+      await onDone(estimateTokens(completionText));
+      return;
+    }
+    await onDone(reportedTokens ?? estimateTokens(promptText) + estimateTokens(completionText));
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          await record();
+          controller.close();
+          return;
+        }
+
+        controller.enqueue(value);
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        lines.forEach((line) => readLine(line.replace(/\r$/, "")));
+      } catch (error) {
+        // The provider dropped the connection: still charge what was sent.
+        await record();
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      await record();
+      await reader.cancel(reason);
+    },
+  });
+};
@@ -0,0 +1,78 @@
+// Minimal iCalendar (RFC 5545) writer. Mirrors `src/lib/ical.ts` on the
+// client, which builds the same events for one-off `.ics` downloads.
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  /** A timestamp for timed events, or a date key (YYYY-MM-DD) for all-day events. */
+  start: string;
+  allDay?: boolean;
+  durationMinutes?: number;
+  categories?: string[];
+}
+
+/** Default length of an exam, which has no end time in the app. */
+export const EXAM_DURATION_MINUTES = 120;
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const toUtcStamp = (value: Date) => value.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const encoder = new TextEncoder();
+
+// Folds lines longer than 75 octets, as required by the spec.
+const foldLine = (line: string) => {
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const buildEvent = (event: ICalEvent, stamp: string): string[] => {
+  const lines = ["BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+
+  if (event.allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${event.start.replace(/-/g, "")}`);
+  } else {
+    lines.push(`DTSTART:${toUtcStamp(new Date(event.start))}`);
+    if (event.durationMinutes) lines.push(`DURATION:PT${event.durationMinutes}M`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(",")}`);
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+/**
+ * Serializes events into a VCALENDAR document. The refresh hints ask
+ * subscribed calendar apps to poll hourly.
+ */
+export const buildICalendar = (events: ICalEvent[], calendarName = "studox"): string => {
+  const stamp = toUtcStamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//studox//Study calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...events.flatMap((event) => buildEvent(event, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
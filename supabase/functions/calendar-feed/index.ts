@@ -0,0 +1,99 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildICalendar, EXAM_DURATION_MINUTES, type ICalEvent } from "./ical.ts";
+
+// Read-only iCalendar feed of a user's exams and study plan. Calendar apps
+// cannot sign in, so the feed is public (`verify_jwt = false`) and the
+// secret token in the URL identifies the user. Tokens are created and
+// revoked from the Settings page.
+
+// Past study blocks older than this are left out of the feed.
+const HISTORY_DAYS = 30;
+
+const textResponse = (body: string, status: number) =>
+  new Response(body, { status, headers: { "Content-Type": "text/plain; charset=utf-8" } });
+
+serve(async (req) => {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return textResponse("Method not allowed", 405);
+  }
+
+  const token = new URL(req.url).searchParams.get("token");
+  if (!token) {
+    return textResponse("Missing feed token", 400);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    );
+
+    const { data: feedToken, error: tokenError } = await supabase
+      .from("calendar_feed_tokens")
+      .select("id, user_id")
+      .eq("token", token)
+      .maybeSingle();
+    if (tokenError) throw tokenError;
+    if (!feedToken) {
+      return textResponse("Calendar feed not found. It may have been revoked.", 404);
+    }
+
+    const historyStart = new Date();
+    historyStart.setUTCDate(historyStart.getUTCDate() - HISTORY_DAYS);
+
+    const [examsRes, itemsRes] = await Promise.all([
+      supabase
+        .from("exams")
+        .select("id, title, exam_date, exam_type, tags, subjects(name)")
+        .eq("user_id", feedToken.user_id),
+      supabase
+        .from("study_plan_items")
+        .select("id, plan_date, kind, minutes, status, topics(name), exams(title)")
+        .eq("user_id", feedToken.user_id)
+        .in("status", ["planned", "done"])
+        .gte("plan_date", historyStart.toISOString().slice(0, 10)),
+    ]);
+    if (examsRes.error) throw examsRes.error;
+    if (itemsRes.error) throw itemsRes.error;
+
+    const events: ICalEvent[] = [
+      ...(examsRes.data ?? []).map((exam) => ({
+        uid: `exam-${exam.id}@studox`,
+        summary: `Exam: ${exam.title}${exam.subjects?.name ? ` (${exam.subjects.name})` : ""}`,
+        description: [exam.exam_type && `Type: ${exam.exam_type}`, exam.tags?.length && `Tags: ${exam.tags.join(", ")}`]
+          .filter(Boolean)
+          .join("\n"),
+        start: exam.exam_date,
+        durationMinutes: EXAM_DURATION_MINUTES,
+        categories: ["Exam"],
+      })),
+      ...(itemsRes.data ?? []).map((item) => ({
+        uid: `study-${item.id}@studox`,
+        summary: `${item.status === "done" ? "✓ " : ""}${item.kind === "learn" ? "Learn" : "Revise"}: ${item.topics?.name ?? "Topic"} (${item.minutes} min)`,
+        description: item.exams?.title ? `Study block for ${item.exams.title}` : undefined,
+        start: item.plan_date,
+        allDay: true,
+        categories: ["Study"],
+      })),
+    ];
+
+    // Best effort: lets Settings show when a feed was last fetched.
+    const { error: touchError } = await supabase
+      .from("calendar_feed_tokens")
+      .update({ last_used_at: new Date().toISOString() })
+      .eq("id", feedToken.id);
+    if (touchError) console.error("Error updating feed token:", touchError);
+
+    return new Response(buildICalendar(events), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="studox.ics"',
+        "Cache-Control": "private, max-age=900",
+      },
+    });
+  } catch (error) {
+    console.error("Error in calendar-feed function:", error);
+    return textResponse("Could not build the calendar feed", 500);
+  }
+});
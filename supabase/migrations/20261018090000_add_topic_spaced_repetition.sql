@@ -0,0 +1,22 @@
+-- Add SM-2 spaced-repetition scheduling fields to topics
+-- ease_factor: SM-2 easiness factor (never drops below 1.3)
+-- interval_days: days between the last revision and the next due date
+-- repetitions: consecutive successful recalls (reset to 0 on "again")
+-- due_at: when the topic should next be revised; NULL until the first revision
+ALTER TABLE public.topics
+  ADD COLUMN IF NOT EXISTS ease_factor NUMERIC(4, 2) NOT NULL DEFAULT 2.5,
+  ADD COLUMN IF NOT EXISTS interval_days INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS repetitions INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS due_at TIMESTAMP WITH TIME ZONE;
+
+-- Topics revised before the scheduler existed become due one day after their
+-- last revision so they show up in the revision queue straight away
+UPDATE public.topics
+SET due_at = last_revised_at + INTERVAL '1 day',
+    interval_days = 1
+WHERE last_revised_at IS NOT NULL AND due_at IS NULL;
+
+-- Index for the "Due for revision" queue which filters and orders by due_at
+CREATE INDEX IF NOT EXISTS idx_topics_user_due_at
+  ON public.topics(user_id, due_at)
+  WHERE due_at IS NOT NULL;
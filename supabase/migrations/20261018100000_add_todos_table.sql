@@ -0,0 +1,63 @@
+-- Create todos table so dashboard todos persist across reloads and devices
+CREATE TABLE public.todos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  subject_id UUID REFERENCES public.subjects(id) ON DELETE SET NULL,
+  topic_id UUID REFERENCES public.topics(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  -- Local calendar day the todo is planned for (not a timestamp, so it does
+  -- not shift between time zones)
+  due_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- Quick daily todos roll over to the next day when unfinished; todos with a
+  -- hard deadline keep their date and show up as overdue instead
+  roll_over BOOLEAN NOT NULL DEFAULT true,
+  rolled_over_count INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS for todos table
+ALTER TABLE public.todos ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to fully manage their own todos
+CREATE POLICY "Users can manage their own todos"
+  ON public.todos
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Keep updated_at column in sync on updates
+CREATE TRIGGER update_todos_updated_at
+  BEFORE UPDATE ON public.todos
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Index for the today / upcoming / overdue views
+CREATE INDEX IF NOT EXISTS idx_todos_user_due_date
+  ON public.todos(user_id, due_date);
+
+-- Moves the caller's unfinished roll-over todos from past days onto p_today.
+-- The client passes its own local date so "today" matches the user's time zone.
+-- Runs with the caller's privileges, so RLS still limits it to their own rows.
+CREATE OR REPLACE FUNCTION public.roll_over_todos(p_today DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  moved INTEGER;
+BEGIN
+  UPDATE public.todos
+  SET due_date = p_today,
+      rolled_over_count = rolled_over_count + 1
+  WHERE user_id = auth.uid()
+    AND completed_at IS NULL
+    AND roll_over = true
+    AND due_date < p_today;
+
+  GET DIAGNOSTICS moved = ROW_COUNT;
+  RETURN moved;
+END;
+$$;
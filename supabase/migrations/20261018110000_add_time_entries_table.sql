@@ -0,0 +1,30 @@
+-- Create time_entries table for stopwatch sessions so they sync across devices
+-- and count towards study totals alongside Pomodoro study_sessions
+CREATE TABLE public.time_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL DEFAULT 'stopwatch' CHECK (type IN ('stopwatch')),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  duration_seconds INTEGER NOT NULL CHECK (duration_seconds >= 0),
+  notes TEXT,
+  -- Identifier of the entry on the device that recorded it. Used to upload
+  -- legacy localStorage history exactly once, even if the upload is retried.
+  client_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, client_id)
+);
+
+-- Enable RLS for time_entries table
+ALTER TABLE public.time_entries ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to fully manage their own time entries
+CREATE POLICY "Users can manage their own time entries"
+  ON public.time_entries
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Index for per-day aggregation on the dashboard, calendar and history pages
+CREATE INDEX IF NOT EXISTS idx_time_entries_user_started_at
+  ON public.time_entries(user_id, started_at);
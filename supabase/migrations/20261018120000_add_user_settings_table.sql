@@ -0,0 +1,30 @@
+-- Create a per-user settings table. Starts with Pomodoro preferences and is
+-- meant to hold other per-user preferences as they are added.
+CREATE TABLE public.user_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  focus_minutes INTEGER NOT NULL DEFAULT 25 CHECK (focus_minutes BETWEEN 1 AND 180),
+  short_break_minutes INTEGER NOT NULL DEFAULT 5 CHECK (short_break_minutes BETWEEN 1 AND 60),
+  long_break_minutes INTEGER NOT NULL DEFAULT 15 CHECK (long_break_minutes BETWEEN 1 AND 120),
+  -- Take a long break after this many completed focus sessions
+  long_break_interval INTEGER NOT NULL DEFAULT 4 CHECK (long_break_interval BETWEEN 1 AND 12),
+  -- Start the next phase automatically when the current one finishes
+  auto_start_next_phase BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS for user_settings table
+ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to fully manage their own settings row
+CREATE POLICY "Users can manage their own settings"
+  ON public.user_settings
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Keep updated_at column in sync on updates
+CREATE TRIGGER update_user_settings_updated_at
+  BEFORE UPDATE ON public.user_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,47 @@
+-- Log of individual topic revisions. topics.revision_count only holds a running
+-- total, which is not enough to chart revisions over time.
+CREATE TABLE public.topic_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  topic_id UUID NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  revised_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- Interval (days) scheduled after this revision
+  interval_days INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS for topic_revisions table
+ALTER TABLE public.topic_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to fully manage their own revision log
+CREATE POLICY "Users can manage their own topic revisions"
+  ON public.topic_revisions
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Index for analytics queries over a date range
+CREATE INDEX IF NOT EXISTS idx_topic_revisions_user_revised_at
+  ON public.topic_revisions(user_id, revised_at);
+
+-- Writes a log row whenever a topic's revision_count goes up, so every client
+-- path that records a revision is captured without extra inserts.
+-- Earlier revisions only exist as the running total and are not backfilled.
+CREATE OR REPLACE FUNCTION public.log_topic_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.topic_revisions (user_id, topic_id, revised_at, interval_days)
+  VALUES (NEW.user_id, NEW.id, COALESCE(NEW.last_revised_at, NOW()), NEW.interval_days);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_topic_revision
+  AFTER UPDATE OF revision_count ON public.topics
+  FOR EACH ROW
+  WHEN (COALESCE(NEW.revision_count, 0) > COALESCE(OLD.revision_count, 0))
+  EXECUTE FUNCTION public.log_topic_revision();
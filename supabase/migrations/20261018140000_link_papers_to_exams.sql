@@ -0,0 +1,12 @@
+-- Let previous-year papers be linked to an exam so the datesheet can list
+-- "papers to practice" for each upcoming exam. Deleting the exam keeps the paper.
+ALTER TABLE public.papers
+  ADD COLUMN IF NOT EXISTS exam_id UUID REFERENCES public.exams(id) ON DELETE SET NULL;
+
+-- Index for looking up papers linked to exams
+CREATE INDEX IF NOT EXISTS idx_papers_exam_id
+  ON public.papers(exam_id);
+
+-- Index for the subject papers library
+CREATE INDEX IF NOT EXISTS idx_papers_subject_year
+  ON public.papers(subject_id, year);
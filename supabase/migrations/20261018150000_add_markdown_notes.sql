@@ -0,0 +1,66 @@
+-- Distinguish the kinds of topic resources stored in notes. Until now the type
+-- was inferred: file_url set means an uploaded file, content holding a URL
+-- means a link. Markdown notes also use content, so the type is stored explicitly.
+ALTER TABLE public.notes
+  ADD COLUMN IF NOT EXISTS note_type TEXT NOT NULL DEFAULT 'file'
+  CHECK (note_type IN ('file', 'link', 'markdown'));
+
+-- Backfill existing rows using the same rules the client used
+UPDATE public.notes
+SET note_type = CASE
+  WHEN file_url IS NOT NULL THEN 'file'
+  WHEN content ~ '^https?://' THEN 'link'
+  ELSE 'markdown'
+END;
+
+-- Snapshots of Markdown notes so earlier versions can be viewed and restored
+CREATE TABLE public.note_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS for note_versions table
+ALTER TABLE public.note_versions ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to fully manage versions of their own notes
+CREATE POLICY "Users can manage their own note versions"
+  ON public.note_versions
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Index for listing a note's history newest first
+CREATE INDEX IF NOT EXISTS idx_note_versions_note_created_at
+  ON public.note_versions(note_id, created_at DESC);
+
+-- Autosave writes a Markdown note every few seconds while typing. Rather than
+-- storing every keystroke, keep the previous content at most once per
+-- 10 minutes of editing.
+CREATE OR REPLACE FUNCTION public.snapshot_note_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(OLD.content, '') <> '' AND NOT EXISTS (
+    SELECT 1 FROM public.note_versions
+    WHERE note_id = OLD.id
+      AND created_at > NOW() - INTERVAL '10 minutes'
+  ) THEN
+    INSERT INTO public.note_versions (note_id, user_id, title, content)
+    VALUES (OLD.id, OLD.user_id, OLD.title, OLD.content);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER snapshot_note_version
+  BEFORE UPDATE OF content ON public.notes
+  FOR EACH ROW
+  WHEN (OLD.note_type = 'markdown' AND OLD.content IS DISTINCT FROM NEW.content)
+  EXECUTE FUNCTION public.snapshot_note_version();
@@ -0,0 +1,40 @@
+-- Create pdf_annotations table for highlights, margin comments and bookmarks
+-- made while reading PDF notes in the in-app reader
+CREATE TABLE public.pdf_annotations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  note_id UUID REFERENCES public.notes(id) ON DELETE CASCADE NOT NULL,
+  -- 1-based page number in the PDF
+  page_number INTEGER NOT NULL CHECK (page_number >= 1),
+  kind TEXT NOT NULL CHECK (kind IN ('highlight', 'comment', 'bookmark')),
+  -- Selected text for highlights and comments anchored to a selection
+  quote TEXT,
+  -- Comment text, or the label of a bookmark
+  comment TEXT,
+  -- Highlighted areas as fractions of the page size ({x, y, width, height}
+  -- between 0 and 1), so they line up at any zoom level
+  rects JSONB NOT NULL DEFAULT '[]'::jsonb,
+  color TEXT NOT NULL DEFAULT 'yellow',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS for pdf_annotations table
+ALTER TABLE public.pdf_annotations ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to fully manage their own annotations
+CREATE POLICY "Users can manage their own pdf annotations"
+  ON public.pdf_annotations
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Keep updated_at column in sync on updates
+CREATE TRIGGER update_pdf_annotations_updated_at
+  BEFORE UPDATE ON public.pdf_annotations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Index for loading a note's annotations in page order
+CREATE INDEX IF NOT EXISTS idx_pdf_annotations_note_page
+  ON public.pdf_annotations(note_id, page_number);
@@ -0,0 +1,76 @@
+-- Persist AI tutor chats so conversations survive reloads and can be
+-- revisited from the tutor's history sidebar
+CREATE TABLE public.tutor_conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL DEFAULT 'New chat',
+  -- Optional link to what the chat is about. A topic link also grounds the
+  -- tutor in that topic's notes.
+  subject_id UUID REFERENCES public.subjects(id) ON DELETE SET NULL,
+  topic_id UUID REFERENCES public.topics(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.tutor_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID REFERENCES public.tutor_conversations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  -- Sources cited by an assistant answer ({id, noteId, title, page}), kept so
+  -- citations still resolve after the topic's notes change
+  sources JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS for both tables
+ALTER TABLE public.tutor_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tutor_messages ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to fully manage their own conversations and messages
+CREATE POLICY "Users can manage their own tutor conversations"
+  ON public.tutor_conversations
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own tutor messages"
+  ON public.tutor_messages
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Keep updated_at column in sync on updates
+CREATE TRIGGER update_tutor_conversations_updated_at
+  BEFORE UPDATE ON public.tutor_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Moves a conversation to the top of the history when a message is added.
+-- Runs with the caller's privileges, so RLS still applies.
+CREATE OR REPLACE FUNCTION public.touch_tutor_conversation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.tutor_conversations
+  SET updated_at = NOW()
+  WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_tutor_conversation_on_message
+  AFTER INSERT ON public.tutor_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_tutor_conversation();
+
+-- Indexes for the history list and for loading a conversation in order
+CREATE INDEX IF NOT EXISTS idx_tutor_conversations_user_updated_at
+  ON public.tutor_conversations(user_id, updated_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_tutor_messages_conversation_created_at
+  ON public.tutor_messages(conversation_id, created_at);
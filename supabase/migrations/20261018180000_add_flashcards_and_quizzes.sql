@@ -0,0 +1,65 @@
+-- Flashcards and multiple-choice quizzes generated by the AI tutor from a
+-- topic's notes, practised from the topic resources page
+CREATE TABLE public.flashcards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  topic_id UUID REFERENCES public.topics(id) ON DELETE CASCADE NOT NULL,
+  front TEXT NOT NULL,
+  back TEXT NOT NULL,
+  -- Note (and PDF page) the card was generated from, when the AI cited one
+  source_note_id UUID REFERENCES public.notes(id) ON DELETE SET NULL,
+  source_page INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.quizzes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  topic_id UUID REFERENCES public.topics(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  -- [{question, options[4], answerIndex, explanation, sourceNoteId, sourcePage}]
+  questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  -- Scores are percentages (0-100) of correct answers
+  last_score INTEGER CHECK (last_score BETWEEN 0 AND 100),
+  best_score INTEGER CHECK (best_score BETWEEN 0 AND 100),
+  last_taken_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS for both tables
+ALTER TABLE public.flashcards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quizzes ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to fully manage their own flashcards and quizzes
+CREATE POLICY "Users can manage their own flashcards"
+  ON public.flashcards
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own quizzes"
+  ON public.quizzes
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Keep updated_at columns in sync on updates
+CREATE TRIGGER update_flashcards_updated_at
+  BEFORE UPDATE ON public.flashcards
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_quizzes_updated_at
+  BEFORE UPDATE ON public.quizzes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Indexes for loading a topic's practice material
+CREATE INDEX IF NOT EXISTS idx_flashcards_topic_id
+  ON public.flashcards(topic_id);
+
+CREATE INDEX IF NOT EXISTS idx_quizzes_topic_id
+  ON public.quizzes(topic_id);
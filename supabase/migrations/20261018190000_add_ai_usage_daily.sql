@@ -0,0 +1,49 @@
+-- Daily AI tutor token usage per user. The ai-tutor function checks it
+-- before each request and adds the tokens used afterwards, enforcing a
+-- per-user daily quota.
+CREATE TABLE public.ai_usage_daily (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- UTC day the usage belongs to
+  usage_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  tokens_used INTEGER NOT NULL DEFAULT 0 CHECK (tokens_used >= 0),
+  request_count INTEGER NOT NULL DEFAULT 0 CHECK (request_count >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, usage_date)
+);
+
+-- Enable RLS for AI usage
+ALTER TABLE public.ai_usage_daily ENABLE ROW LEVEL SECURITY;
+
+-- Users can see their own usage but not change it; only the function writes,
+-- through record_ai_usage below
+CREATE POLICY "Users can view their own AI usage"
+  ON public.ai_usage_daily
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Keep updated_at column in sync on updates
+CREATE TRIGGER update_ai_usage_daily_updated_at
+  BEFORE UPDATE ON public.ai_usage_daily
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Adds one request's tokens to a user's total for the day and returns the new
+-- total. The upsert keeps concurrent requests from losing each other's counts.
+CREATE OR REPLACE FUNCTION public.record_ai_usage(_user_id UUID, _usage_date DATE, _tokens INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.ai_usage_daily (user_id, usage_date, tokens_used, request_count)
+  VALUES (_user_id, _usage_date, GREATEST(_tokens, 0), 1)
+  ON CONFLICT (user_id, usage_date) DO UPDATE
+  SET tokens_used = public.ai_usage_daily.tokens_used + GREATEST(EXCLUDED.tokens_used, 0),
+      request_count = public.ai_usage_daily.request_count + 1
+  RETURNING tokens_used;
+$$;
+
+-- Only the service role (used by the ai-tutor function) may record usage
+REVOKE EXECUTE ON FUNCTION public.record_ai_usage(UUID, DATE, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_ai_usage(UUID, DATE, INTEGER) TO service_role;
@@ -0,0 +1,44 @@
+-- Study planner: a day-by-day schedule of study blocks toward upcoming exams,
+-- generated on the client from the exams, their subjects' topics and the
+-- student's daily study budget
+CREATE TABLE public.study_plan_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- Local calendar day the block is planned for
+  plan_date DATE NOT NULL,
+  topic_id UUID REFERENCES public.topics(id) ON DELETE CASCADE NOT NULL,
+  exam_id UUID REFERENCES public.exams(id) ON DELETE CASCADE NOT NULL,
+  -- 'learn' for a first pass over a topic, 'revise' for a revision
+  kind TEXT NOT NULL DEFAULT 'revise' CHECK (kind IN ('learn', 'revise')),
+  minutes INTEGER NOT NULL CHECK (minutes > 0),
+  -- 'missed' marks past blocks left undone when the plan was regenerated,
+  -- kept so progress against plan stays honest
+  status TEXT NOT NULL DEFAULT 'planned' CHECK (status IN ('planned', 'done', 'missed')),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS for study plan items
+ALTER TABLE public.study_plan_items ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to fully manage their own study plan
+CREATE POLICY "Users can manage their own study plan items"
+  ON public.study_plan_items
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Keep updated_at column in sync on updates
+CREATE TRIGGER update_study_plan_items_updated_at
+  BEFORE UPDATE ON public.study_plan_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- The calendar loads a user's plan by date range
+CREATE INDEX IF NOT EXISTS idx_study_plan_items_user_date
+  ON public.study_plan_items(user_id, plan_date);
+
+-- Daily study budget the planner fills, in minutes
+ALTER TABLE public.user_settings
+  ADD COLUMN daily_study_minutes INTEGER NOT NULL DEFAULT 120 CHECK (daily_study_minutes BETWEEN 15 AND 960);
@@ -0,0 +1,28 @@
+-- Secret tokens for the read-only iCalendar feed served by the calendar-feed
+-- edge function. Anyone with a token's URL can read that user's exams and
+-- study plan, so tokens can be revoked (deleted) from Settings at any time.
+CREATE TABLE public.calendar_feed_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- 64 hex characters from two random UUIDs
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  -- Where the feed is used, e.g. "Phone" or "Google Calendar"
+  label TEXT NOT NULL DEFAULT 'Calendar feed',
+  -- Last time a calendar app fetched the feed
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS for feed tokens
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to fully manage their own feed tokens. The feed function looks
+-- tokens up with the service role.
+CREATE POLICY "Users can manage their own calendar feed tokens"
+  ON public.calendar_feed_tokens
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feed_tokens_user_id
+  ON public.calendar_feed_tokens(user_id);
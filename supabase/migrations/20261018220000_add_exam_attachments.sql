@@ -0,0 +1,92 @@
+-- Let an exam have any number of attachments instead of the single PPT in
+-- exams.ppt_url. Files live in the private `exams` bucket and are stored by
+-- object path; links keep their URL.
+CREATE TABLE public.exam_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  exam_id UUID REFERENCES public.exams(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('file', 'link')),
+  name TEXT NOT NULL,
+  -- Object path in the `exams` bucket, for files
+  file_path TEXT,
+  file_size INTEGER,
+  -- External URL, for links
+  url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT exam_attachments_target CHECK (
+    (kind = 'file' AND file_path IS NOT NULL) OR (kind = 'link' AND url IS NOT NULL)
+  )
+);
+
+-- Enable RLS for exam attachments
+ALTER TABLE public.exam_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to fully manage their own exam attachments
+CREATE POLICY "Users can manage their own exam attachments"
+  ON public.exam_attachments
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Keep updated_at column in sync on updates
+CREATE TRIGGER update_exam_attachments_updated_at
+  BEFORE UPDATE ON public.exam_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Index for listing an exam's attachments
+CREATE INDEX IF NOT EXISTS idx_exam_attachments_exam_id
+  ON public.exam_attachments(exam_id);
+
+-- Decodes %XX escapes; ppt_url holds the encoded public URL of the file.
+CREATE FUNCTION pg_temp.url_decode(input TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  bytes BYTEA := '';
+  i INTEGER := 1;
+BEGIN
+  WHILE i <= length(input) LOOP
+    IF substr(input, i, 1) = '%' AND substr(input, i + 1, 2) ~ '^[0-9A-Fa-f]{2}$' THEN
+      bytes := bytes || decode(substr(input, i + 1, 2), 'hex');
+      i := i + 3;
+    ELSE
+      bytes := bytes || convert_to(substr(input, i, 1), 'UTF8');
+      i := i + 1;
+    END IF;
+  END LOOP;
+  RETURN convert_from(bytes, 'UTF8');
+END;
+$$;
+
+-- Move existing single attachments over, keeping only the object path of
+-- the public or signed URL that was stored.
+INSERT INTO public.exam_attachments (user_id, exam_id, kind, name, file_path, file_size, created_at)
+SELECT
+  user_id,
+  id,
+  'file',
+  COALESCE(ppt_name, regexp_replace(file_path, '^.*/', '')),
+  file_path,
+  ppt_size,
+  COALESCE(updated_at, created_at, NOW())
+FROM (
+  SELECT
+    e.*,
+    CASE
+      WHEN e.ppt_url ~ '^https?://' THEN pg_temp.url_decode(
+        regexp_replace(split_part(e.ppt_url, '?', 1), '^.*/storage/v1/object/(public|sign)/exams/', '')
+      )
+      ELSE e.ppt_url
+    END AS file_path
+  FROM public.exams e
+  WHERE e.ppt_url IS NOT NULL
+) AS legacy;
+
+ALTER TABLE public.exams
+  DROP COLUMN IF EXISTS ppt_url,
+  DROP COLUMN IF EXISTS ppt_name,
+  DROP COLUMN IF EXISTS ppt_size;
@@ -0,0 +1,28 @@
+-- Link exams to the syllabus topics they cover, so the datesheet can show
+-- how much of each exam's syllabus has been revised and the planner only
+-- schedules those topics.
+CREATE TABLE public.exam_topics (
+  exam_id UUID REFERENCES public.exams(id) ON DELETE CASCADE NOT NULL,
+  topic_id UUID REFERENCES public.topics(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (exam_id, topic_id)
+);
+
+-- Enable RLS for exam topics
+ALTER TABLE public.exam_topics ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to fully manage their own exam topics
+CREATE POLICY "Users can manage their own exam topics"
+  ON public.exam_topics
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Index for finding the exams a topic belongs to
+CREATE INDEX IF NOT EXISTS idx_exam_topics_topic_id
+  ON public.exam_topics(topic_id);
+
+-- Revisions a topic needs before it counts toward exam coverage
+ALTER TABLE public.user_settings
+  ADD COLUMN coverage_min_revisions INTEGER NOT NULL DEFAULT 2 CHECK (coverage_min_revisions BETWEEN 1 AND 10);
@@ -0,0 +1,15 @@
+-- Record how an exam went once it has passed: marks, grade and the credit
+-- weight used for GPA, grouped by a free-form semester label ("Semester 3").
+ALTER TABLE public.exams
+  ADD COLUMN marks_obtained NUMERIC(7, 2) CHECK (marks_obtained >= 0),
+  ADD COLUMN max_marks NUMERIC(7, 2) CHECK (max_marks > 0),
+  -- Letter grade on the 10-point scale (O, A+, A, B+, B, C, P, F); derived
+  -- from marks when empty
+  ADD COLUMN grade TEXT,
+  -- Credit weight in the GPA; exams without credits (e.g. mid-terms) are
+  -- left out of it
+  ADD COLUMN credits NUMERIC(4, 1) CHECK (credits >= 0),
+  ADD COLUMN semester TEXT,
+  ADD CONSTRAINT exams_marks_within_max CHECK (
+    marks_obtained IS NULL OR max_marks IS NULL OR marks_obtained <= max_marks
+  );
@@ -0,0 +1,11 @@
+-- Browser notification preferences. Notifications are off until the user
+-- turns them on in Settings, which also asks for the browser permission.
+ALTER TABLE public.user_settings
+  ADD COLUMN notifications_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN notify_phase_changes BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN notify_exams BOOLEAN NOT NULL DEFAULT true,
+  -- Minutes before an exam at which to remind, e.g. a day and an hour before
+  ADD COLUMN exam_reminder_minutes INTEGER[] NOT NULL DEFAULT '{1440,60}'
+    CHECK (array_length(exam_reminder_minutes, 1) IS NULL OR array_length(exam_reminder_minutes, 1) <= 6),
+  ADD COLUMN notify_due_revisions BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN notify_overdue_todos BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,36 @@
+-- Replaces the caller's study plan from p_today in one transaction: past
+-- blocks still planned become missed, future planned blocks are deleted and
+-- p_items (generated on the client) are inserted. If any step fails nothing
+-- changes, so a failed insert can no longer wipe the existing plan.
+-- Returns how many blocks were marked missed.
+-- Runs with the caller's privileges, so RLS still limits it to their own rows.
+CREATE OR REPLACE FUNCTION public.replace_study_plan(p_today DATE, p_items JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  missed INTEGER;
+BEGIN
+  UPDATE public.study_plan_items
+  SET status = 'missed'
+  WHERE user_id = auth.uid()
+    AND status = 'planned'
+    AND plan_date < p_today;
+
+  GET DIAGNOSTICS missed = ROW_COUNT;
+
+  DELETE FROM public.study_plan_items
+  WHERE user_id = auth.uid()
+    AND status = 'planned'
+    AND plan_date >= p_today;
+
+  INSERT INTO public.study_plan_items (user_id, plan_date, topic_id, exam_id, kind, minutes)
+  SELECT auth.uid(), item.plan_date, item.topic_id, item.exam_id, item.kind, item.minutes
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb))
+    AS item(plan_date DATE, topic_id UUID, exam_id UUID, kind TEXT, minutes INTEGER);
+
+  RETURN missed;
+END;
+$$;